@@ -8,7 +8,7 @@ import {
   ChevronDownIcon,
   Bars3Icon
 } from '@heroicons/react/24/outline';
-import apiClient from '../../utils/api/client';
+import apiClient, { GroupMixingOptions } from '../../utils/api/client';
 
 interface VideoFile {
   id: string;
@@ -30,8 +30,21 @@ interface VideoGroup {
   name: string;
   order: number;
   videos: VideoFile[];
+  minClips?: number;
+  maxClips?: number;
+  isOptional?: boolean;
+  inclusionProbability?: number;
+  durationBudget?: number | null;
 }
 
+const DEFAULT_GROUP_OPTIONS: GroupMixingOptions = {
+  minClips: 1,
+  maxClips: 1,
+  isOptional: false,
+  inclusionProbability: 1,
+  durationBudget: null
+};
+
 interface VideoGroupManagerProps {
   projectId: string;
   videos: VideoFile[];
@@ -48,6 +61,7 @@ export const VideoGroupManager: React.FC<VideoGroupManagerProps> = ({
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [editingGroup, setEditingGroup] = useState<VideoGroup | null>(null);
   const [newGroupName, setNewGroupName] = useState('');
+  const [groupOptions, setGroupOptions] = useState<GroupMixingOptions>(DEFAULT_GROUP_OPTIONS);
   const [selectedVideos, setSelectedVideos] = useState<string[]>([]);
   const [expandedGroups, setExpandedGroups] = useState<Set<string>>(new Set());
   const [draggedVideo, setDraggedVideo] = useState<VideoFile | null>(null);
@@ -95,10 +109,11 @@ export const VideoGroupManager: React.FC<VideoGroupManagerProps> = ({
 
     try {
       setLoading(true);
-      const response = await apiClient.createGroup(projectId, newGroupName);
+      const response = await apiClient.createGroup(projectId, newGroupName, undefined, groupOptions);
       if (response.success) {
         await fetchGroups();
         setNewGroupName('');
+        setGroupOptions(DEFAULT_GROUP_OPTIONS);
         setShowCreateModal(false);
         if (onUpdate) onUpdate();
       }
@@ -114,11 +129,12 @@ export const VideoGroupManager: React.FC<VideoGroupManagerProps> = ({
 
     try {
       setLoading(true);
-      const response = await apiClient.updateGroup(editingGroup.id, { name: newGroupName });
+      const response = await apiClient.updateGroup(editingGroup.id, { name: newGroupName, ...groupOptions });
       if (response.success) {
         await fetchGroups();
         setEditingGroup(null);
         setNewGroupName('');
+        setGroupOptions(DEFAULT_GROUP_OPTIONS);
         if (onUpdate) onUpdate();
       }
     } catch (error) {
@@ -267,6 +283,22 @@ export const VideoGroupManager: React.FC<VideoGroupManagerProps> = ({
     return `${mins}:${secs.toString().padStart(2, '0')}`;
   };
 
+  const describeGroupOptions = (group: VideoGroup) => {
+    const parts: string[] = [];
+    const minClips = group.minClips ?? 1;
+    const maxClips = group.maxClips ?? minClips;
+    if (maxClips > 1) {
+      parts.push(minClips === maxClips ? `${minClips} clips` : `${minClips}-${maxClips} clips`);
+    }
+    if (group.isOptional) {
+      parts.push(`optional ${Math.round((group.inclusionProbability ?? 1) * 100)}%`);
+    }
+    if (group.durationBudget) {
+      parts.push(`${group.durationBudget}s budget`);
+    }
+    return parts.join(' • ');
+  };
+
   const formatSize = (bytes: number | string) => {
     const numBytes = typeof bytes === 'string' ? parseInt(bytes) : bytes;
     const mb = numBytes / (1024 * 1024);
@@ -334,6 +366,11 @@ export const VideoGroupManager: React.FC<VideoGroupManagerProps> = ({
                   <span className="ml-2 text-sm text-gray-500">
                     ({group.videos.length} video{group.videos.length !== 1 ? 's' : ''})
                   </span>
+                  {describeGroupOptions(group) && (
+                    <span className="ml-2 text-xs font-normal text-blue-600">
+                      {describeGroupOptions(group)}
+                    </span>
+                  )}
                 </h4>
               </div>
               <div className="flex items-center space-x-2">
@@ -341,6 +378,13 @@ export const VideoGroupManager: React.FC<VideoGroupManagerProps> = ({
                   onClick={() => {
                     setEditingGroup(group);
                     setNewGroupName(group.name);
+                    setGroupOptions({
+                      minClips: group.minClips ?? 1,
+                      maxClips: group.maxClips ?? 1,
+                      isOptional: group.isOptional ?? false,
+                      inclusionProbability: group.inclusionProbability ?? 1,
+                      durationBudget: group.durationBudget ?? null
+                    });
                   }}
                   className="text-gray-500 hover:text-blue-600"
                 >
@@ -496,12 +540,92 @@ export const VideoGroupManager: React.FC<VideoGroupManagerProps> = ({
               className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
               autoFocus
             />
+
+            {/* Group mixing options */}
+            <div className="mt-4 space-y-3">
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-xs font-medium text-gray-700">Min clips per output</label>
+                  <input
+                    type="number"
+                    min={1}
+                    value={groupOptions.minClips}
+                    onChange={(e) => {
+                      const minClips = Math.max(1, parseInt(e.target.value) || 1);
+                      setGroupOptions(prev => ({ ...prev, minClips, maxClips: Math.max(minClips, prev.maxClips || 1) }));
+                    }}
+                    className="mt-1 w-full px-3 py-1.5 text-sm border border-gray-300 rounded-md"
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-gray-700">Max clips per output</label>
+                  <input
+                    type="number"
+                    min={groupOptions.minClips}
+                    value={groupOptions.maxClips}
+                    onChange={(e) => setGroupOptions(prev => ({
+                      ...prev,
+                      maxClips: Math.max(prev.minClips || 1, parseInt(e.target.value) || 1)
+                    }))}
+                    className="mt-1 w-full px-3 py-1.5 text-sm border border-gray-300 rounded-md"
+                  />
+                </div>
+              </div>
+
+              <label className="flex items-center text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={groupOptions.isOptional}
+                  onChange={(e) => setGroupOptions(prev => ({ ...prev, isOptional: e.target.checked }))}
+                  className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+                />
+                <span className="ml-2">Optional group (left out of some outputs)</span>
+              </label>
+
+              {groupOptions.isOptional && (
+                <div>
+                  <label className="block text-xs font-medium text-gray-700">
+                    Inclusion probability: {Math.round((groupOptions.inclusionProbability ?? 1) * 100)}%
+                  </label>
+                  <input
+                    type="range"
+                    min={5}
+                    max={100}
+                    step={5}
+                    value={Math.round((groupOptions.inclusionProbability ?? 1) * 100)}
+                    onChange={(e) => setGroupOptions(prev => ({ ...prev, inclusionProbability: parseInt(e.target.value) / 100 }))}
+                    className="w-full"
+                  />
+                </div>
+              )}
+
+              <div>
+                <label className="block text-xs font-medium text-gray-700">Duration budget (seconds, optional)</label>
+                <input
+                  type="number"
+                  min={1}
+                  step={0.5}
+                  value={groupOptions.durationBudget ?? ''}
+                  onChange={(e) => setGroupOptions(prev => ({
+                    ...prev,
+                    durationBudget: e.target.value ? Math.max(0.5, parseFloat(e.target.value)) : null
+                  }))}
+                  placeholder="Share of a fixed-duration output"
+                  className="mt-1 w-full px-3 py-1.5 text-sm border border-gray-300 rounded-md"
+                />
+                <p className="mt-1 text-xs text-gray-500">
+                  Used with fixed duration and smart trimming - this group's clips are trimmed to fit.
+                </p>
+              </div>
+            </div>
+
             <div className="mt-4 flex justify-end space-x-3">
               <button
                 onClick={() => {
                   setShowCreateModal(false);
                   setEditingGroup(null);
                   setNewGroupName('');
+                  setGroupOptions(DEFAULT_GROUP_OPTIONS);
                 }}
                 className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-md"
               >
@@ -0,0 +1,97 @@
+import React from 'react';
+
+export type FillMode = 'pad' | 'blur' | 'crop' | 'smart-crop';
+
+export const FILL_MODE_OPTIONS: Array<{ value: FillMode; label: string }> = [
+  { value: 'blur', label: 'Blurred background' },
+  { value: 'crop', label: 'Center crop' },
+  { value: 'smart-crop', label: 'Smart crop (focal point)' },
+  { value: 'pad', label: 'Solid color bars' }
+];
+
+interface AspectFillPreviewProps {
+  mode: FillMode;
+  targetAspect: number;  // Output width / height
+  sourceAspect?: number; // Clip width / height, 16:9 when unknown
+  padColor?: string;
+  focalX?: number;       // 0-1
+  focalY?: number;
+  thumbnailUrl?: string | null;
+  height?: number;       // px
+}
+
+// Stand-in picture when a clip has no thumbnail - a horizon and a subject make crops easy to read
+const PLACEHOLDER = 'radial-gradient(circle at 50% 45%, #f59e0b 0 12%, transparent 13%), linear-gradient(#60a5fa 0 60%, #4d7c0f 60% 100%)';
+
+/**
+ * Sketch of how a clip fills the output frame in a given fill mode
+ */
+const AspectFillPreview: React.FC<AspectFillPreviewProps> = ({
+  mode,
+  targetAspect,
+  sourceAspect = 16 / 9,
+  padColor = '#000000',
+  focalX = 0.5,
+  focalY = 0.5,
+  thumbnailUrl,
+  height = 120
+}) => {
+  const frameWidth = height * targetAspect;
+  const wider = sourceAspect > targetAspect;
+
+  // Source size when it fits inside the frame (pad, blur foreground) and when it covers it (crops, blur background)
+  const contain = wider
+    ? { width: frameWidth, height: frameWidth / sourceAspect }
+    : { width: height * sourceAspect, height };
+  const cover = wider
+    ? { width: height * sourceAspect, height }
+    : { width: frameWidth, height: frameWidth / sourceAspect };
+
+  const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+  const focusX = mode === 'smart-crop' ? focalX : 0.5;
+  const focusY = mode === 'smart-crop' ? focalY : 0.5;
+
+  const picture = (size: { width: number; height: number }, left: number, top: number, extra: React.CSSProperties = {}) => (
+    <div
+      style={{
+        position: 'absolute',
+        width: size.width,
+        height: size.height,
+        left,
+        top,
+        backgroundImage: thumbnailUrl ? `url(${thumbnailUrl})` : PLACEHOLDER,
+        backgroundSize: '100% 100%',
+        ...extra
+      }}
+    />
+  );
+
+  const centered = (size: { width: number; height: number }) =>
+    picture(size, (frameWidth - size.width) / 2, (height - size.height) / 2);
+
+  return (
+    <div
+      className="relative overflow-hidden rounded border border-gray-300"
+      style={{ width: frameWidth, height, backgroundColor: mode === 'pad' ? padColor : '#000000' }}
+    >
+      {(mode === 'crop' || mode === 'smart-crop') && picture(
+        cover,
+        clamp(frameWidth / 2 - focusX * cover.width, frameWidth - cover.width, 0),
+        clamp(height / 2 - focusY * cover.height, height - cover.height, 0)
+      )}
+      {mode === 'blur' && picture(cover, (frameWidth - cover.width) / 2, (height - cover.height) / 2, { filter: 'blur(6px)', transform: 'scale(1.1)' })}
+      {(mode === 'pad' || mode === 'blur') && centered(contain)}
+      {mode === 'smart-crop' && (
+        <div
+          className="absolute w-2 h-2 rounded-full bg-red-500 border border-white"
+          style={{
+            left: clamp(frameWidth / 2 - focusX * cover.width, frameWidth - cover.width, 0) + focusX * cover.width - 4,
+            top: clamp(height / 2 - focusY * cover.height, height - cover.height, 0) + focusY * cover.height - 4
+          }}
+        />
+      )}
+    </div>
+  );
+};
+
+export default AspectFillPreview;
\ No newline at end of file
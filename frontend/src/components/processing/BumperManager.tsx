@@ -0,0 +1,155 @@
+import React, { useState, useEffect } from 'react';
+import apiClient from '../../utils/api/client';
+
+export type BumperKind = 'intro' | 'outro';
+
+export interface BumperAsset {
+  id: string;
+  name: string;
+  kind: BumperKind;
+  duration: number;
+  hasAudio: boolean;
+}
+
+interface BumperManagerProps {
+  projectId: string;
+  introIds: string[];
+  outroIds: string[];
+  onChange: (selection: { introIds: string[]; outroIds: string[] }) => void;
+}
+
+const KIND_LABELS: Record<BumperKind, string> = {
+  intro: 'Intros',
+  outro: 'Outros'
+};
+
+const BumperManager: React.FC<BumperManagerProps> = ({ projectId, introIds, outroIds, onChange }) => {
+  const [bumpers, setBumpers] = useState<BumperAsset[]>([]);
+  const [uploading, setUploading] = useState<BumperKind | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadBumpers = async () => {
+      try {
+        const response = await apiClient.getBumpers(projectId);
+        if (response.success) {
+          setBumpers(response.data || []);
+        }
+      } catch (err) {
+        console.error('[BumperManager] Failed to load intros and outros:', err);
+      }
+    };
+    loadBumpers();
+  }, [projectId]);
+
+  const getSelected = (kind: BumperKind) => (kind === 'intro' ? introIds : outroIds);
+
+  const setSelected = (kind: BumperKind, ids: string[]) => {
+    onChange(kind === 'intro' ? { introIds: ids, outroIds } : { introIds, outroIds: ids });
+  };
+
+  const handleToggle = (kind: BumperKind, bumperId: string) => {
+    const selected = getSelected(kind);
+    setSelected(kind, selected.includes(bumperId)
+      ? selected.filter(id => id !== bumperId)
+      : [...selected, bumperId]);
+  };
+
+  const handleUpload = async (kind: BumperKind, e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setUploading(kind);
+    setError(null);
+    try {
+      const response = await apiClient.uploadBumper(projectId, file, kind);
+      if (response.success) {
+        setBumpers(prev => [...prev, response.data]);
+        setSelected(kind, [...getSelected(kind), response.data.id]);
+      } else {
+        setError(response.error || `Failed to upload ${kind}`);
+      }
+    } catch (err: any) {
+      setError(err.response?.data?.error || err.response?.data?.message || `Failed to upload ${kind}`);
+    } finally {
+      setUploading(null);
+    }
+  };
+
+  const handleDelete = async (bumper: BumperAsset) => {
+    setError(null);
+    try {
+      const response = await apiClient.deleteBumper(projectId, bumper.id);
+      if (response.success) {
+        setBumpers(prev => prev.filter(entry => entry.id !== bumper.id));
+        setSelected(bumper.kind, getSelected(bumper.kind).filter(id => id !== bumper.id));
+      }
+    } catch (err: any) {
+      setError(err.response?.data?.error || 'Failed to delete clip');
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      {(['intro', 'outro'] as BumperKind[]).map(kind => {
+        const ofKind = bumpers.filter(bumper => bumper.kind === kind);
+        return (
+          <div key={kind}>
+            <div className="flex items-center justify-between mb-1">
+              <span className="text-xs font-medium text-gray-700">{KIND_LABELS[kind]}</span>
+              <label className={`cursor-pointer text-xs text-blue-600 hover:text-blue-500 ${uploading ? 'opacity-50 pointer-events-none' : ''}`}>
+                {uploading === kind ? 'Uploading...' : `Upload ${kind}`}
+                <input
+                  type="file"
+                  accept=".mp4,.mov,.webm,.mkv"
+                  onChange={(e) => handleUpload(kind, e)}
+                  className="hidden"
+                />
+              </label>
+            </div>
+            {ofKind.length > 0 ? (
+              <ul className="divide-y divide-gray-200 border border-gray-200 rounded-md bg-white">
+                {ofKind.map(bumper => (
+                  <li key={bumper.id} className="flex items-center justify-between px-3 py-2 text-sm">
+                    <label className="flex items-center text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={getSelected(kind).includes(bumper.id)}
+                        onChange={() => handleToggle(kind, bumper.id)}
+                        className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+                      />
+                      <span className="ml-2 truncate">{bumper.name}</span>
+                      <span className="ml-2 text-xs text-gray-500">
+                        {bumper.duration.toFixed(1)}s{bumper.hasAudio ? '' : ', silent'}
+                      </span>
+                    </label>
+                    <button
+                      onClick={() => handleDelete(bumper)}
+                      className="text-red-600 hover:text-red-500 text-xs"
+                    >
+                      Remove
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-xs text-gray-500">No {kind}s uploaded for this project.</p>
+            )}
+          </div>
+        );
+      })}
+      <p className="text-xs text-gray-500">
+        Selected clips are always played first or last and never mixed. With several selected, outputs take turns.
+      </p>
+
+      {error && (
+        <div className="p-2 bg-red-50 border border-red-200 rounded-md">
+          <p className="text-xs text-red-700">{error}</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BumperManager;
\ No newline at end of file
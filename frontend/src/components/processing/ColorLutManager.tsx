@@ -0,0 +1,131 @@
+import React, { useState, useEffect, useRef } from 'react';
+import apiClient from '../../utils/api/client';
+
+export interface ColorLut {
+  id: string;
+  name: string;
+  size: number;
+}
+
+interface ColorLutManagerProps {
+  projectId: string;
+  selectedIds: string[];
+  onSelectionChange: (lutIds: string[]) => void;
+}
+
+const ColorLutManager: React.FC<ColorLutManagerProps> = ({ projectId, selectedIds, onSelectionChange }) => {
+  const [luts, setLuts] = useState<ColorLut[]>([]);
+  const [uploading, setUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    const loadLuts = async () => {
+      try {
+        const response = await apiClient.getColorLuts(projectId);
+        if (response.success) {
+          setLuts(response.data || []);
+        }
+      } catch (err) {
+        console.error('[ColorLutManager] Failed to load LUTs:', err);
+      }
+    };
+    loadLuts();
+  }, [projectId]);
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setUploading(true);
+    setError(null);
+    try {
+      const response = await apiClient.uploadColorLut(projectId, file);
+      if (response.success) {
+        setLuts(prev => [...prev, response.data]);
+        onSelectionChange([...selectedIds, response.data.id]);
+      } else {
+        setError(response.error || 'Failed to upload LUT');
+      }
+    } catch (err: any) {
+      setError(err.response?.data?.error || err.response?.data?.message || 'Failed to upload LUT');
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handleDelete = async (lutId: string) => {
+    setError(null);
+    try {
+      const response = await apiClient.deleteColorLut(projectId, lutId);
+      if (response.success) {
+        setLuts(prev => prev.filter(lut => lut.id !== lutId));
+        onSelectionChange(selectedIds.filter(id => id !== lutId));
+      }
+    } catch (err: any) {
+      setError(err.response?.data?.error || 'Failed to delete LUT');
+    }
+  };
+
+  const toggleLut = (lutId: string) => {
+    onSelectionChange(selectedIds.includes(lutId)
+      ? selectedIds.filter(id => id !== lutId)
+      : [...selectedIds, lutId]);
+  };
+
+  return (
+    <div className="space-y-2">
+      {luts.length > 0 ? (
+        <ul className="divide-y divide-gray-200 border border-gray-200 rounded-md bg-white">
+          {luts.map(lut => (
+            <li key={lut.id} className="flex items-center justify-between px-3 py-2 text-sm">
+              <label className="flex items-center text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={selectedIds.includes(lut.id)}
+                  onChange={() => toggleLut(lut.id)}
+                  className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+                />
+                <span className="ml-2 truncate">{lut.name}</span>
+                <span className="ml-2 text-xs text-gray-400">{lut.size}³</span>
+              </label>
+              <button
+                onClick={() => handleDelete(lut.id)}
+                className="text-red-600 hover:text-red-500 text-xs"
+              >
+                Remove
+              </button>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-xs text-gray-500">No LUTs uploaded for this project.</p>
+      )}
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".cube"
+        onChange={handleUpload}
+        className="hidden"
+      />
+      <button
+        onClick={() => fileInputRef.current?.click()}
+        disabled={uploading}
+        className="px-3 py-1.5 text-xs font-medium text-blue-700 bg-white border border-blue-300 rounded-md hover:bg-blue-50 disabled:opacity-50"
+      >
+        {uploading ? 'Uploading...' : 'Upload .cube LUT'}
+      </button>
+      <p className="text-xs text-gray-500">Selected LUTs are rotated across outputs.</p>
+
+      {error && (
+        <div className="p-2 bg-red-50 border border-red-200 rounded-md">
+          <p className="text-xs text-red-700">{error}</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ColorLutManager;
\ No newline at end of file
@@ -13,6 +13,7 @@ interface Job {
   outputCount?: number;
   refundedAt?: string;
   settings?: any; // Processing settings used for this job
+  result?: any; // Variant report (diversity, coverage, manifest) saved by the worker
   project: {
     id: string;
     name: string;
@@ -21,6 +22,8 @@ interface Job {
     id: string;
     filename: string;
     size: number;
+    loudnessLufs?: number | null; // Set when loudness normalization ran
+    truePeakDb?: number | null;
     createdAt: string;
   }>;
   createdAt: string;
@@ -199,7 +202,7 @@ const JobMonitor: React.FC<JobMonitorProps> = ({
         const data = await response.json();
         if (data.success && data.data) {
           // Update the job with full details including settings
-          setSelectedJob({ ...job, settings: data.data.settings });
+          setSelectedJob({ ...job, settings: data.data.settings, result: data.data.result });
         } else {
           setSelectedJob(job);
         }
@@ -318,6 +321,23 @@ const JobMonitor: React.FC<JobMonitorProps> = ({
     }
   };
 
+  const handleDownloadSubtitles = async (outputId: string, filename: string) => {
+    try {
+      const blob = await apiClient.downloadSubtitles(outputId);
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = filename.replace(/\.[^.]+$/, '.srt');
+      document.body.appendChild(a);
+      a.click();
+      window.URL.revokeObjectURL(url);
+      document.body.removeChild(a);
+    } catch (error) {
+      console.error('Error downloading subtitles:', error);
+      alert('No subtitles available for this output');
+    }
+  };
+
   const getStatusIcon = (status: string) => {
     switch (status) {
       case 'PENDING':
@@ -781,6 +801,12 @@ const JobMonitor: React.FC<JobMonitorProps> = ({
                             <span className="text-gray-500">Output Count:</span>
                             <span className="ml-1 font-medium">{selectedJob.settings.outputCount} videos</span>
                           </div>
+                          {selectedJob.settings.seed !== undefined && selectedJob.settings.seed !== null && (
+                            <div>
+                              <span className="text-gray-500">Variant Seed:</span>
+                              <span className="ml-1 font-medium font-mono">{selectedJob.settings.seed}</span>
+                            </div>
+                          )}
                           {selectedJob.settings.colorVariations && (
                             <div>
                               <span className="text-gray-500">Color Variations:</span>
@@ -799,6 +825,97 @@ const JobMonitor: React.FC<JobMonitorProps> = ({
                   </div>
                 )}
 
+                {/* Variant Diversity Section */}
+                {selectedJob.result?.diversity && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Variant Diversity</label>
+                    <div className="p-3 bg-gray-50 rounded grid grid-cols-3 gap-2 text-xs">
+                      <div>
+                        <span className="text-gray-500">Minimum:</span>
+                        <span className="ml-1 font-medium">{Math.round(selectedJob.result.diversity.minDistance * 100)}%</span>
+                      </div>
+                      <div>
+                        <span className="text-gray-500">Average:</span>
+                        <span className="ml-1 font-medium">{Math.round(selectedJob.result.diversity.averageDistance * 100)}%</span>
+                      </div>
+                      <div>
+                        <span className="text-gray-500">Required:</span>
+                        <span className="ml-1 font-medium">
+                          {selectedJob.result.diversity.threshold ? `${Math.round(selectedJob.result.diversity.threshold * 100)}%` : 'None'}
+                        </span>
+                      </div>
+                    </div>
+                  </div>
+                )}
+
+                {/* Clip Coverage Section */}
+                {selectedJob.result?.coverage?.length > 0 && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Clip Coverage</label>
+                    <div className="max-h-48 overflow-y-auto border border-gray-200 rounded">
+                      <table className="min-w-full text-xs">
+                        <thead className="bg-gray-50 sticky top-0">
+                          <tr>
+                            <th className="px-3 py-2 text-left font-medium text-gray-500">Clip</th>
+                            <th className="px-3 py-2 text-right font-medium text-gray-500">Outputs</th>
+                          </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-100">
+                          {selectedJob.result.coverage.map((entry: any) => (
+                            <tr key={entry.clipId} className={entry.outputs === 0 ? 'text-gray-400' : 'text-gray-800'}>
+                              <td className="px-3 py-1.5 truncate max-w-xs">{entry.originalName || entry.clipId}</td>
+                              <td className="px-3 py-1.5 text-right font-medium">{entry.outputs}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  </div>
+                )}
+
+                {/* Variant Manifest Section - grade applied to each output */}
+                {selectedJob.result?.manifest?.length > 0 && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Variant Manifest</label>
+                    <div className="max-h-48 overflow-y-auto border border-gray-200 rounded">
+                      <table className="min-w-full text-xs">
+                        <thead className="bg-gray-50 sticky top-0">
+                          <tr>
+                            <th className="px-3 py-2 text-left font-medium text-gray-500">Output</th>
+                            <th className="px-3 py-2 text-right font-medium text-gray-500">Clips</th>
+                            <th className="px-3 py-2 text-right font-medium text-gray-500">Length</th>
+                            <th className="px-3 py-2 text-left font-medium text-gray-500">Color Grade</th>
+                            <th className="px-3 py-2 text-left font-medium text-gray-500">Music</th>
+                            <th className="px-3 py-2 text-left font-medium text-gray-500">Headline</th>
+                            <th className="px-3 py-2 text-left font-medium text-gray-500">Watermark</th>
+                            <th className="px-3 py-2 text-left font-medium text-gray-500">Intro / Outro</th>
+                          </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-100">
+                          {selectedJob.result.manifest.map((plan: any, index: number) => (
+                            <tr key={plan.variantId || index} className="text-gray-800">
+                              <td className="px-3 py-1.5">#{index + 1}</td>
+                              <td className="px-3 py-1.5 text-right">{plan.clips?.length || 0}</td>
+                              <td className="px-3 py-1.5 text-right">{Number(plan.expectedDuration || 0).toFixed(1)}s</td>
+                              <td className="px-3 py-1.5 font-mono">
+                                {plan.grade
+                                  ? `B ${plan.grade.brightness} · C ${plan.grade.contrast} · S ${plan.grade.saturation} · H ${plan.grade.hue}${plan.grade.lutName ? ` · ${plan.grade.lutName}` : ''}`
+                                  : '-'}
+                              </td>
+                              <td className="px-3 py-1.5 truncate max-w-xs">{plan.music?.name || '-'}</td>
+                              <td className="px-3 py-1.5 truncate max-w-xs">{plan.headline || '-'}</td>
+                              <td className="px-3 py-1.5">{plan.watermarkPosition || '-'}</td>
+                              <td className="px-3 py-1.5 truncate max-w-xs">
+                                {plan.intro || plan.outro ? `${plan.intro?.name || '-'} / ${plan.outro?.name || '-'}` : '-'}
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  </div>
+                )}
+
                 {selectedJob.outputs?.length > 0 && (
                   <div>
                     <div className="flex items-center justify-between mb-2">
@@ -936,15 +1053,27 @@ const JobMonitor: React.FC<JobMonitorProps> = ({
                               <div className="text-sm font-medium text-gray-900">{file.filename}</div>
                               <div className="text-xs text-gray-500">
                                 {formatFileSize(file.size)} • Created {new Date(file.createdAt).toLocaleString()}
+                                {file.loudnessLufs != null && ` • ${file.loudnessLufs.toFixed(1)} LUFS`}
+                                {file.truePeakDb != null && ` / ${file.truePeakDb.toFixed(1)} dBTP`}
                               </div>
                             </div>
                           </div>
-                          <button
-                            onClick={() => handleDownloadOutput(file.id, file.filename)}
-                            className="text-blue-600 hover:text-blue-500 text-sm font-medium"
-                          >
-                            Download
-                          </button>
+                          <div className="flex items-center space-x-3">
+                            {selectedJob.settings?.subtitleMode && selectedJob.settings.subtitleMode !== 'off' && (
+                              <button
+                                onClick={() => handleDownloadSubtitles(file.id, file.filename)}
+                                className="text-gray-600 hover:text-gray-500 text-sm font-medium"
+                              >
+                                SRT
+                              </button>
+                            )}
+                            <button
+                              onClick={() => handleDownloadOutput(file.id, file.filename)}
+                              className="text-blue-600 hover:text-blue-500 text-sm font-medium"
+                            >
+                              Download
+                            </button>
+                          </div>
                         </div>
                       ))}
                     </div>
@@ -0,0 +1,136 @@
+import React, { useState, useEffect, useRef } from 'react';
+import apiClient from '../../utils/api/client';
+
+export interface LogoAsset {
+  id: string;
+  name: string;
+}
+
+interface LogoManagerProps {
+  projectId: string;
+  selectedId?: string;
+  onSelect: (logoId?: string) => void;
+}
+
+const LogoManager: React.FC<LogoManagerProps> = ({ projectId, selectedId, onSelect }) => {
+  const [logos, setLogos] = useState<LogoAsset[]>([]);
+  const [uploading, setUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    const loadLogos = async () => {
+      try {
+        const response = await apiClient.getLogos(projectId);
+        if (response.success) {
+          setLogos(response.data || []);
+        }
+      } catch (err) {
+        console.error('[LogoManager] Failed to load logos:', err);
+      }
+    };
+    loadLogos();
+  }, [projectId]);
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setUploading(true);
+    setError(null);
+    try {
+      const response = await apiClient.uploadLogo(projectId, file);
+      if (response.success) {
+        setLogos(prev => [...prev, response.data]);
+        onSelect(response.data.id);
+      } else {
+        setError(response.error || 'Failed to upload logo');
+      }
+    } catch (err: any) {
+      setError(err.response?.data?.error || err.response?.data?.message || 'Failed to upload logo');
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handleDelete = async (logoId: string) => {
+    setError(null);
+    try {
+      const response = await apiClient.deleteLogo(projectId, logoId);
+      if (response.success) {
+        setLogos(prev => prev.filter(logo => logo.id !== logoId));
+        if (selectedId === logoId) {
+          onSelect(undefined);
+        }
+      }
+    } catch (err: any) {
+      setError(err.response?.data?.error || 'Failed to delete logo');
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      {logos.length > 0 ? (
+        <ul className="divide-y divide-gray-200 border border-gray-200 rounded-md bg-white">
+          {logos.map(logo => (
+            <li key={logo.id} className="flex items-center justify-between px-3 py-2 text-sm">
+              <label className="flex items-center text-gray-700">
+                <input
+                  type="radio"
+                  name="watermark-logo"
+                  checked={selectedId === logo.id}
+                  onChange={() => onSelect(logo.id)}
+                  className="h-4 w-4 text-blue-600 border-gray-300"
+                />
+                <span className="ml-2 truncate">{logo.name}</span>
+              </label>
+              <button
+                onClick={() => handleDelete(logo.id)}
+                className="text-red-600 hover:text-red-500 text-xs"
+              >
+                Remove
+              </button>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-xs text-gray-500">No logos uploaded for this project.</p>
+      )}
+
+      <div className="flex items-center space-x-2">
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".png,.jpg,.jpeg"
+          onChange={handleUpload}
+          className="hidden"
+        />
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={uploading}
+          className="px-3 py-1.5 text-xs font-medium text-blue-700 bg-white border border-blue-300 rounded-md hover:bg-blue-50 disabled:opacity-50"
+        >
+          {uploading ? 'Uploading...' : 'Upload Logo'}
+        </button>
+        {selectedId && (
+          <button
+            onClick={() => onSelect(undefined)}
+            className="px-3 py-1.5 text-xs text-gray-600 hover:text-gray-800"
+          >
+            Use text instead
+          </button>
+        )}
+      </div>
+      <p className="text-xs text-gray-500">Transparent PNGs work best. A selected logo is used instead of the watermark text.</p>
+
+      {error && (
+        <div className="p-2 bg-red-50 border border-red-200 rounded-md">
+          <p className="text-xs text-red-700">{error}</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LogoManager;
\ No newline at end of file
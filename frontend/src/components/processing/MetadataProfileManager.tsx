@@ -0,0 +1,281 @@
+import React, { useState, useEffect } from 'react';
+import apiClient from '../../utils/api/client';
+import { useAuth } from '../../contexts/AuthContext';
+
+export type CreationTimeStrategy = 'now' | 'random' | 'source';
+
+export interface MetadataProfile {
+  id: string;
+  name: string;
+  encoder?: string;
+  software?: string;
+  comment?: string;
+  handlerName?: string;
+  creationTime: CreationTimeStrategy;
+  creationWindow: number;
+  scope: 'built-in' | 'global' | 'user';
+}
+
+interface MetadataProfileManagerProps {
+  selectedIds: string[];
+  onChange: (profileIds: string[]) => void;
+}
+
+type ProfileForm = Omit<MetadataProfile, 'id' | 'scope'> & { global: boolean };
+
+const EMPTY_FORM: ProfileForm = {
+  name: '',
+  encoder: '',
+  software: '',
+  comment: '',
+  handlerName: '',
+  creationTime: 'now',
+  creationWindow: 30,
+  global: false
+};
+
+const CREATION_TIME_LABELS: Record<CreationTimeStrategy, string> = {
+  now: 'Render time',
+  random: 'Random time in the last days',
+  source: 'Upload time of the opening clip'
+};
+
+const SCOPE_LABELS: Record<MetadataProfile['scope'], string> = {
+  'built-in': 'Preset',
+  global: 'Global',
+  user: 'Mine'
+};
+
+const MetadataProfileManager: React.FC<MetadataProfileManagerProps> = ({ selectedIds, onChange }) => {
+  const { state } = useAuth();
+  const isAdmin = state.user?.role === 'ADMIN' || state.user?.role === 'SUPER_ADMIN';
+
+  const [profiles, setProfiles] = useState<MetadataProfile[]>([]);
+  const [form, setForm] = useState<ProfileForm | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadProfiles = async () => {
+      try {
+        const response = await apiClient.getMetadataProfiles();
+        if (response.success) {
+          setProfiles(response.data || []);
+        }
+      } catch (err) {
+        console.error('[MetadataProfileManager] Failed to load metadata profiles:', err);
+      }
+    };
+    loadProfiles();
+  }, []);
+
+  const canEdit = (profile: MetadataProfile) => profile.scope === 'user' || (profile.scope === 'global' && isAdmin);
+
+  const handleToggle = (profileId: string) => {
+    onChange(selectedIds.includes(profileId)
+      ? selectedIds.filter(id => id !== profileId)
+      : [...selectedIds, profileId]);
+  };
+
+  const handleEdit = (profile: MetadataProfile) => {
+    setEditingId(profile.id);
+    setForm({
+      ...EMPTY_FORM,
+      ...profile,
+      global: profile.scope === 'global'
+    });
+    setError(null);
+  };
+
+  const handleSave = async () => {
+    if (!form) return;
+
+    setSaving(true);
+    setError(null);
+    try {
+      const response = editingId
+        ? await apiClient.updateMetadataProfile(editingId, form)
+        : await apiClient.createMetadataProfile(form);
+      if (response.success) {
+        setProfiles(prev => editingId
+          ? prev.map(profile => (profile.id === editingId ? response.data : profile))
+          : [...prev, response.data]);
+        if (!editingId) {
+          onChange([...selectedIds, response.data.id]);
+        }
+        setForm(null);
+        setEditingId(null);
+      } else {
+        setError(response.error || 'Failed to save profile');
+      }
+    } catch (err: any) {
+      setError(err.response?.data?.error || err.response?.data?.message || 'Failed to save profile');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (profile: MetadataProfile) => {
+    setError(null);
+    try {
+      const response = await apiClient.deleteMetadataProfile(profile.id);
+      if (response.success) {
+        setProfiles(prev => prev.filter(entry => entry.id !== profile.id));
+        onChange(selectedIds.filter(id => id !== profile.id));
+      }
+    } catch (err: any) {
+      setError(err.response?.data?.error || 'Failed to delete profile');
+    }
+  };
+
+  const describe = (profile: MetadataProfile) => [
+    profile.encoder,
+    profile.comment,
+    profile.creationTime === 'random'
+      ? `created within ${profile.creationWindow} days`
+      : profile.creationTime === 'source' ? 'created at upload time' : undefined
+  ].filter(Boolean).join(' · ');
+
+  const inputClass = 'block w-full px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500';
+
+  return (
+    <div className="space-y-3">
+      <ul className="divide-y divide-gray-200 border border-gray-200 rounded-md bg-white">
+        {profiles.map(profile => (
+          <li key={profile.id} className="flex items-center justify-between px-3 py-2 text-sm">
+            <label className="flex items-center text-gray-700 min-w-0">
+              <input
+                type="checkbox"
+                checked={selectedIds.includes(profile.id)}
+                onChange={() => handleToggle(profile.id)}
+                className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+              />
+              <span className="ml-2 truncate">{profile.name}</span>
+              <span className="ml-2 px-1.5 py-0.5 text-xs rounded bg-gray-100 text-gray-600">{SCOPE_LABELS[profile.scope]}</span>
+              <span className="ml-2 text-xs text-gray-500 truncate">{describe(profile)}</span>
+            </label>
+            {canEdit(profile) && (
+              <span className="flex space-x-2 ml-2">
+                <button onClick={() => handleEdit(profile)} className="text-blue-600 hover:text-blue-500 text-xs">
+                  Edit
+                </button>
+                <button onClick={() => handleDelete(profile)} className="text-red-600 hover:text-red-500 text-xs">
+                  Remove
+                </button>
+              </span>
+            )}
+          </li>
+        ))}
+      </ul>
+      <p className="text-xs text-gray-500">
+        Outputs are written without tags when nothing is selected. With several selected, outputs take turns.
+      </p>
+
+      {form ? (
+        <div className="p-3 border border-gray-200 rounded-md bg-gray-50 space-y-2">
+          <div className="grid grid-cols-2 gap-2">
+            <input
+              type="text"
+              placeholder="Profile name"
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+              className={inputClass}
+            />
+            <input
+              type="text"
+              placeholder="Encoder"
+              value={form.encoder || ''}
+              onChange={(e) => setForm({ ...form, encoder: e.target.value })}
+              className={inputClass}
+            />
+            <input
+              type="text"
+              placeholder="Software"
+              value={form.software || ''}
+              onChange={(e) => setForm({ ...form, software: e.target.value })}
+              className={inputClass}
+            />
+            <input
+              type="text"
+              placeholder="Handler name"
+              value={form.handlerName || ''}
+              onChange={(e) => setForm({ ...form, handlerName: e.target.value })}
+              className={inputClass}
+            />
+            <input
+              type="text"
+              placeholder="Comment"
+              value={form.comment || ''}
+              onChange={(e) => setForm({ ...form, comment: e.target.value })}
+              className={`${inputClass} col-span-2`}
+            />
+            <select
+              value={form.creationTime}
+              onChange={(e) => setForm({ ...form, creationTime: e.target.value as CreationTimeStrategy })}
+              className={inputClass}
+            >
+              {(Object.keys(CREATION_TIME_LABELS) as CreationTimeStrategy[]).map(strategy => (
+                <option key={strategy} value={strategy}>{CREATION_TIME_LABELS[strategy]}</option>
+              ))}
+            </select>
+            {form.creationTime === 'random' && (
+              <label className="flex items-center text-xs text-gray-700">
+                <input
+                  type="number"
+                  min={1}
+                  max={365}
+                  value={form.creationWindow}
+                  onChange={(e) => setForm({ ...form, creationWindow: Number(e.target.value) })}
+                  className={`${inputClass} w-20 mr-2`}
+                />
+                days back
+              </label>
+            )}
+          </div>
+          {isAdmin && !editingId && (
+            <label className="flex items-center text-xs text-gray-700">
+              <input
+                type="checkbox"
+                checked={form.global}
+                onChange={(e) => setForm({ ...form, global: e.target.checked })}
+                className="h-4 w-4 text-blue-600 border-gray-300 rounded mr-2"
+              />
+              Global - available to every user
+            </label>
+          )}
+          <div className="flex justify-end space-x-2">
+            <button
+              onClick={() => { setForm(null); setEditingId(null); }}
+              className="px-3 py-1 text-xs text-gray-700 border border-gray-300 rounded-md hover:bg-gray-100"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={saving || !form.name.trim()}
+              className="px-3 py-1 text-xs text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              {saving ? 'Saving...' : editingId ? 'Save profile' : 'Add profile'}
+            </button>
+          </div>
+        </div>
+      ) : (
+        <button
+          onClick={() => { setForm(EMPTY_FORM); setEditingId(null); setError(null); }}
+          className="text-xs text-blue-600 hover:text-blue-500"
+        >
+          New profile
+        </button>
+      )}
+
+      {error && (
+        <div className="p-2 bg-red-50 border border-red-200 rounded-md">
+          <p className="text-xs text-red-700">{error}</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MetadataProfileManager;
\ No newline at end of file
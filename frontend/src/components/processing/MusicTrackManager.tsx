@@ -0,0 +1,134 @@
+import React, { useState, useEffect, useRef } from 'react';
+import apiClient from '../../utils/api/client';
+
+export interface MusicTrack {
+  id: string;
+  name: string;
+  duration: number;
+}
+
+interface MusicTrackManagerProps {
+  projectId: string;
+  selectedIds: string[];
+  onSelectionChange: (trackIds: string[]) => void;
+}
+
+const formatDuration = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${String(Math.round(seconds % 60)).padStart(2, '0')}`;
+
+const MusicTrackManager: React.FC<MusicTrackManagerProps> = ({ projectId, selectedIds, onSelectionChange }) => {
+  const [tracks, setTracks] = useState<MusicTrack[]>([]);
+  const [uploading, setUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    const loadTracks = async () => {
+      try {
+        const response = await apiClient.getMusicTracks(projectId);
+        if (response.success) {
+          setTracks(response.data || []);
+        }
+      } catch (err) {
+        console.error('[MusicTrackManager] Failed to load music tracks:', err);
+      }
+    };
+    loadTracks();
+  }, [projectId]);
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setUploading(true);
+    setError(null);
+    try {
+      const response = await apiClient.uploadMusicTrack(projectId, file);
+      if (response.success) {
+        setTracks(prev => [...prev, response.data]);
+        onSelectionChange([...selectedIds, response.data.id]);
+      } else {
+        setError(response.error || 'Failed to upload music track');
+      }
+    } catch (err: any) {
+      setError(err.response?.data?.error || err.response?.data?.message || 'Failed to upload music track');
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handleDelete = async (trackId: string) => {
+    setError(null);
+    try {
+      const response = await apiClient.deleteMusicTrack(projectId, trackId);
+      if (response.success) {
+        setTracks(prev => prev.filter(track => track.id !== trackId));
+        onSelectionChange(selectedIds.filter(id => id !== trackId));
+      }
+    } catch (err: any) {
+      setError(err.response?.data?.error || 'Failed to delete music track');
+    }
+  };
+
+  const toggleTrack = (trackId: string) => {
+    onSelectionChange(selectedIds.includes(trackId)
+      ? selectedIds.filter(id => id !== trackId)
+      : [...selectedIds, trackId]);
+  };
+
+  return (
+    <div className="space-y-2">
+      {tracks.length > 0 ? (
+        <ul className="divide-y divide-gray-200 border border-gray-200 rounded-md bg-white">
+          {tracks.map(track => (
+            <li key={track.id} className="flex items-center justify-between px-3 py-2 text-sm">
+              <label className="flex items-center text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={selectedIds.includes(track.id)}
+                  onChange={() => toggleTrack(track.id)}
+                  className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+                />
+                <span className="ml-2 truncate">{track.name}</span>
+                <span className="ml-2 text-xs text-gray-400">{formatDuration(track.duration)}</span>
+              </label>
+              <button
+                onClick={() => handleDelete(track.id)}
+                className="text-red-600 hover:text-red-500 text-xs"
+              >
+                Remove
+              </button>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-xs text-gray-500">No music uploaded for this project.</p>
+      )}
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".mp3,.wav,.m4a,.aac,.ogg"
+        onChange={handleUpload}
+        className="hidden"
+      />
+      <button
+        onClick={() => fileInputRef.current?.click()}
+        disabled={uploading}
+        className="px-3 py-1.5 text-xs font-medium text-blue-700 bg-white border border-blue-300 rounded-md hover:bg-blue-50 disabled:opacity-50"
+      >
+        {uploading ? 'Uploading...' : 'Upload Music'}
+      </button>
+      <p className="text-xs text-gray-500">Selected tracks are rotated across outputs and loop or trim to each output's length.</p>
+
+      {error && (
+        <div className="p-2 bg-red-50 border border-red-200 rounded-md">
+          <p className="text-xs text-red-700">{error}</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MusicTrackManager;
\ No newline at end of file
@@ -0,0 +1,183 @@
+import React, { useState, useEffect } from 'react';
+import apiClient from '../../utils/api/client';
+
+export type OrderingRuleType = 'before' | 'never-adjacent' | 'at-most-one-of';
+
+export interface OrderingRule {
+  type: OrderingRuleType;
+  clipIds: string[];
+}
+
+interface OrderingRulesProps {
+  projectId: string;
+  videos: Array<{ id: string; originalName: string }>;
+}
+
+const RULE_LABELS: Record<OrderingRuleType, string> = {
+  'before': 'must come before',
+  'never-adjacent': 'is never next to',
+  'at-most-one-of': 'At most one of'
+};
+
+const OrderingRules: React.FC<OrderingRulesProps> = ({ projectId, videos }) => {
+  const [rules, setRules] = useState<OrderingRule[]>([]);
+  const [draftType, setDraftType] = useState<OrderingRuleType>('before');
+  const [draftClips, setDraftClips] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadRules = async () => {
+      try {
+        const response = await apiClient.getOrderingRules(projectId);
+        if (response.success) {
+          setRules(response.data || []);
+        }
+      } catch (err) {
+        console.error('[OrderingRules] Failed to load rules:', err);
+      }
+    };
+    loadRules();
+  }, [projectId]);
+
+  const getClipName = (clipId: string) =>
+    videos.find(v => v.id === clipId)?.originalName || 'Deleted clip';
+
+  const saveRules = async (nextRules: OrderingRule[]) => {
+    setSaving(true);
+    setError(null);
+    try {
+      const response = await apiClient.updateOrderingRules(projectId, nextRules);
+      if (response.success) {
+        setRules(response.data || nextRules);
+        return true;
+      }
+      setError(response.error || 'Failed to save ordering rules');
+    } catch (err: any) {
+      setError(err.response?.data?.error || err.response?.data?.message || 'Failed to save ordering rules');
+    } finally {
+      setSaving(false);
+    }
+    return false;
+  };
+
+  const handleAddRule = async () => {
+    const saved = await saveRules([...rules, { type: draftType, clipIds: draftClips }]);
+    if (saved) {
+      setDraftClips([]);
+    }
+  };
+
+  const toggleDraftClip = (clipId: string) => {
+    setDraftClips(prev => prev.includes(clipId) ? prev.filter(id => id !== clipId) : [...prev, clipId]);
+  };
+
+  const setPairClip = (slot: 0 | 1, clipId: string) => {
+    const next = [draftClips[0] || '', draftClips[1] || ''];
+    next[slot] = clipId;
+    setDraftClips(next);
+  };
+
+  const isPairRule = draftType !== 'at-most-one-of';
+  const canAdd = isPairRule
+    ? draftClips.length === 2 && draftClips.every(Boolean) && draftClips[0] !== draftClips[1]
+    : draftClips.length >= 2;
+
+  const describeRule = (rule: OrderingRule) => {
+    if (rule.type === 'at-most-one-of') {
+      return `${RULE_LABELS[rule.type]} ${rule.clipIds.map(getClipName).join(', ')}`;
+    }
+    return `${getClipName(rule.clipIds[0])} ${RULE_LABELS[rule.type]} ${getClipName(rule.clipIds[1])}`;
+  };
+
+  return (
+    <div className="bg-white shadow rounded-lg p-6 mb-6">
+      <h3 className="text-lg font-semibold text-gray-900">Ordering Rules</h3>
+      <p className="text-xs text-gray-500 mt-1">
+        Storytelling rules applied to every output. Rules are checked before processing starts.
+      </p>
+
+      {rules.length > 0 ? (
+        <ul className="mt-4 divide-y divide-gray-200 border border-gray-200 rounded-md">
+          {rules.map((rule, index) => (
+            <li key={index} className="flex items-center justify-between px-3 py-2 text-sm">
+              <span className="text-gray-800">{describeRule(rule)}</span>
+              <button
+                onClick={() => saveRules(rules.filter((_, i) => i !== index))}
+                disabled={saving}
+                className="text-red-600 hover:text-red-500 text-xs disabled:opacity-50"
+              >
+                Remove
+              </button>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="mt-4 text-sm text-gray-500">No ordering rules - clips can appear in any order.</p>
+      )}
+
+      <div className="mt-4 p-3 bg-gray-50 rounded-md space-y-3">
+        <select
+          value={draftType}
+          onChange={(e) => {
+            setDraftType(e.target.value as OrderingRuleType);
+            setDraftClips([]);
+          }}
+          className="block w-full text-sm border-gray-300 rounded-md"
+        >
+          <option value="before">Clip A must come before clip B</option>
+          <option value="never-adjacent">Clip A and clip B are never adjacent</option>
+          <option value="at-most-one-of">At most one of these clips per output</option>
+        </select>
+
+        {isPairRule ? (
+          <div className="grid grid-cols-2 gap-2">
+            {([0, 1] as const).map(slot => (
+              <select
+                key={slot}
+                value={draftClips[slot] || ''}
+                onChange={(e) => setPairClip(slot, e.target.value)}
+                className="block w-full text-sm border-gray-300 rounded-md"
+              >
+                <option value="">{slot === 0 ? 'Clip A' : 'Clip B'}</option>
+                {videos.map(video => (
+                  <option key={video.id} value={video.id}>{video.originalName}</option>
+                ))}
+              </select>
+            ))}
+          </div>
+        ) : (
+          <div className="max-h-40 overflow-y-auto space-y-1">
+            {videos.map(video => (
+              <label key={video.id} className="flex items-center text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={draftClips.includes(video.id)}
+                  onChange={() => toggleDraftClip(video.id)}
+                  className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+                />
+                <span className="ml-2 truncate">{video.originalName}</span>
+              </label>
+            ))}
+          </div>
+        )}
+
+        <button
+          onClick={handleAddRule}
+          disabled={!canAdd || saving}
+          className="px-3 py-1.5 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+        >
+          {saving ? 'Saving...' : 'Add Rule'}
+        </button>
+      </div>
+
+      {error && (
+        <div className="mt-3 p-3 bg-red-50 border border-red-200 rounded-md">
+          <p className="text-xs text-red-700">{error}</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default OrderingRules;
\ No newline at end of file
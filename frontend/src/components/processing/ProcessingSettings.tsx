@@ -1,9 +1,157 @@
 import React, { useState, useEffect } from 'react';
 import apiClient from '../../utils/api/client';
 import { showCreditWarning, showProcessingStarted, showProcessingError } from '../../services/notifications';
+import VariantPlanTable from './VariantPlanTable';
+import ColorLutManager from './ColorLutManager';
+import MusicTrackManager from './MusicTrackManager';
+import LogoManager from './LogoManager';
+import BumperManager from './BumperManager';
+import MetadataProfileManager from './MetadataProfileManager';
+import AspectFillPreview, { FillMode, FILL_MODE_OPTIONS } from './AspectFillPreview';
+
+export type TransitionStyle = 'fade' | 'dissolve' | 'wipe' | 'slide' | 'zoom';
+
+const TRANSITION_OPTIONS: Array<{ value: TransitionStyle; label: string }> = [
+  { value: 'fade', label: 'Fade' },
+  { value: 'dissolve', label: 'Dissolve' },
+  { value: 'wipe', label: 'Wipe' },
+  { value: 'slide', label: 'Slide' },
+  { value: 'zoom', label: 'Zoom' }
+];
+
+// Hook headlines drawn on each output - one headline per output
+export interface TextOverlaySettings {
+  headlines: string[];
+  assignment: 'round-robin' | 'balanced';
+  style: {
+    font?: string;
+    fontSize: number; // px at 1080p, scaled to the output
+    color: string;
+    boxStyle: 'none' | 'box' | 'outline';
+    position: 'top' | 'center' | 'bottom';
+    start: number; // seconds
+    end?: number;  // seconds, until the end when empty
+  };
+}
+
+const DEFAULT_TEXT_OVERLAY: TextOverlaySettings = {
+  headlines: [],
+  assignment: 'round-robin',
+  style: { fontSize: 64, color: '#ffffff', boxStyle: 'box', position: 'top', start: 0, end: 3 }
+};
+
+export type WatermarkPosition = 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right' | 'center';
+
+const WATERMARK_POSITION_OPTIONS: Array<{ value: WatermarkPosition; label: string }> = [
+  { value: 'top-left', label: 'Top left' },
+  { value: 'top-right', label: 'Top right' },
+  { value: 'bottom-left', label: 'Bottom left' },
+  { value: 'bottom-right', label: 'Bottom right' },
+  { value: 'center', label: 'Center' }
+];
+
+// Logo or text watermark - neither a logo nor text means no watermark
+export interface WatermarkSettings {
+  logoId?: string; // Logo from the project library, used instead of the text
+  text?: string;
+  positions: WatermarkPosition[]; // Rotated across outputs
+  opacity: number; // 0-1
+  scale: number; // Logo width as a fraction of the output width
+  fontColor: string;
+}
+
+const DEFAULT_WATERMARK: WatermarkSettings = {
+  text: '',
+  positions: ['bottom-right'],
+  opacity: 0.7,
+  scale: 0.15,
+  fontColor: '#ffffff'
+};
+
+// How clips are fitted to the output frame - clips can override the mode and focal point
+export interface AspectFillSettings {
+  mode: FillMode;
+  padColor: string; // Bar color in pad mode
+  focalX: number; // 0-1, smart crop keeps this point in frame
+  focalY: number;
+}
+
+const DEFAULT_ASPECT_FILL: AspectFillSettings = { mode: 'pad', padColor: '#000000', focalX: 0.5, focalY: 0.5 };
+
+// Project intros/outros joined around every output - pools are rotated across outputs
+export interface BumperSettings {
+  introIds: string[];
+  outroIds: string[];
+  countInDuration: boolean; // Part of the fixed duration instead of added to it
+}
+
+const DEFAULT_BUMPERS: BumperSettings = { introIds: [], outroIds: [], countInDuration: false };
+
+export type SpeedRampCurve = 'ease-in-out' | 'slow-mo' | 'ramp-out';
+
+const SPEED_RAMP_OPTIONS: Array<{ value: SpeedRampCurve; label: string }> = [
+  { value: 'ease-in-out', label: 'Speed-up (1× → peak → 1×)' },
+  { value: 'slow-mo', label: 'Slow-mo moment' },
+  { value: 'ramp-out', label: 'Rush out (ends at peak)' }
+];
+
+// Speed curves on a few clips per output - no curve selected means no ramps
+export interface SpeedRampSettings {
+  curves: SpeedRampCurve[]; // Rotated across outputs
+  clipsPerOutput: number;
+  peakSpeed: number;
+  slowSpeed: number;
+  slowMoAt: number; // 0-1 position in the clip
+  audio: 'mute' | 'segments' | 'stretch';
+}
+
+const DEFAULT_SPEED_RAMPS: SpeedRampSettings = {
+  curves: [],
+  clipsPerOutput: 1,
+  peakSpeed: 2,
+  slowSpeed: 0.5,
+  slowMoAt: 0.5,
+  audio: 'segments'
+};
+
+export interface VariationRange {
+  min: number;
+  max: number;
+}
+
+type MicroVariationRangeKey = 'zoom' | 'hue' | 'grain' | 'pitch' | 'startOffset';
+
+// Subtle per-output differences - each range is only sent when switched on
+export interface MicroVariationSettings {
+  zoom?: VariationRange;        // Percent zoomed in and cropped back
+  mirror?: boolean;             // Flip clips marked as mirrorable
+  hue?: VariationRange;         // Degrees, either direction
+  grain?: VariationRange;       // Noise strength
+  pitch?: VariationRange;       // Percent, either direction
+  startOffset?: VariationRange; // Frames skipped at clip starts
+}
+
+const MICRO_VARIATION_OPTIONS: Array<{ key: MicroVariationRangeKey; label: string; unit: string; limit: number; step: number; initial: VariationRange }> = [
+  { key: 'zoom', label: 'Zoom / crop', unit: '%', limit: 3, step: 0.5, initial: { min: 1, max: 3 } },
+  { key: 'hue', label: 'Hue shift', unit: 'degrees', limit: 5, step: 0.5, initial: { min: 1, max: 3 } },
+  { key: 'grain', label: 'Film grain', unit: 'strength', limit: 10, step: 1, initial: { min: 2, max: 5 } },
+  { key: 'pitch', label: 'Audio pitch', unit: '%', limit: 3, step: 0.5, initial: { min: 0.5, max: 1.5 } },
+  { key: 'startOffset', label: 'Start offset', unit: 'frames', limit: 15, step: 1, initial: { min: 1, max: 6 } }
+];
+
+// Output width / height per platform preset - original keeps the 16:9 resolution frame
+const TARGET_ASPECTS: Record<string, number> = {
+  tiktok: 9 / 16,
+  instagram_reels: 9 / 16,
+  youtube_shorts: 9 / 16,
+  instagram_square: 1,
+  youtube: 16 / 9,
+  original: 16 / 9
+};
 
 interface ProcessingSettingsProps {
   videoCount: number;
+  projectId?: string; // Lets the credit estimate account for this project's output length
   onSettingsChange: (settings: MixingSettings) => void;
   onStartProcessing: () => void;
 }
@@ -21,12 +169,24 @@ export interface MixingSettings {
 
   // Group Mixing
   groupMixing: boolean;
-  groupMixingMode: 'strict' | 'random';
+  groupMixingMode: 'strict' | 'random' | 'exhaustive';
+  minClipAppearances?: number; // 0 = no minimum
+  maxClipAppearances?: number; // 0 = no maximum
+  balanceExposure?: boolean;
 
-  // Note: Transition and Color features removed for stability
+  // Transitions per cut - hard cut when a clip is too short for the overlap
+  transitionMixing?: boolean;
+  transitionTypes?: TransitionStyle[];
+  transitionDuration?: { min: number; max: number }; // seconds
+
+  // Color grading per output - LUT ids belong to the current project
+  colorVariations?: boolean;
+  colorIntensity?: 'low' | 'medium' | 'high';
+  colorLutIds?: string[];
 
   // Video Quality
-  metadataSource: 'normal' | 'capcut' | 'vn' | 'inshot';
+  metadataSource: 'normal' | 'capcut' | 'vn' | 'inshot'; // Legacy preset - replaced by metadataProfileIds
+  metadataProfileIds?: string[]; // Built-in, global or own profiles, rotated across outputs
   bitrate: 'low' | 'medium' | 'high';
   resolution: 'sd' | 'hd' | 'fullhd';
   frameRate: 24 | 30 | 60;
@@ -39,17 +199,56 @@ export interface MixingSettings {
   fixedDuration: number; // in seconds
   smartTrimming?: boolean; // Enable intelligent duration distribution
   durationDistributionMode?: 'proportional' | 'equal' | 'weighted';
+  // What fills the fixed duration when the clips run out early
+  durationFill?: 'none' | 'loop' | 'freeze' | 'slow' | 'outro';
 
-  // Audio
-  audioMode: 'keep' | 'mute' | 'voiceover';
+  // Audio - music modes mix a project track under (or instead of) the clips' own audio
+  audioMode: 'keep' | 'mute' | 'music' | 'music+original' | 'voiceover';
   voiceOverMode?: boolean;
+  musicTrackIds?: string[]; // Tracks belong to the current project
+  musicVolume?: number; // 0-1
+  musicFade?: number; // seconds
+  musicDucking?: boolean;
+  loudnessPreset?: 'off' | 'social' | 'podcast' | 'broadcast'; // Two-pass EBU R128 normalization
+
+  // Headline overlays - no headlines means no overlay
+  textOverlay?: TextOverlaySettings;
+
+  // Clip subtitles retimed to each output - burned in or added as a selectable track
+  subtitleMode?: 'off' | 'burn' | 'soft';
+  subtitleStyle?: 'classic' | 'boxed' | 'bold';
+
+  // Branding watermark drawn on every output
+  watermark?: WatermarkSettings;
+
+  // Pan/zoom on still-image clips, picked per clip and output
+  imageMotion?: 'off' | 'subtle' | 'strong';
+
+  // Fit to the output frame when the clip's aspect ratio differs
+  aspectFill?: AspectFillSettings;
+
+  // Intro/outro clips played before and after the mix
+  bumpers?: BumperSettings;
+
+  // Speed curves on top of the constant clip speeds
+  speedRamps?: SpeedRampSettings;
+
+  // Subtle zoom, mirror, hue, grain, pitch and start-offset differences per output
+  microVariations?: MicroVariationSettings;
 
   // Output
   outputCount: number;
+
+  // Reproducibility - reuse a job's seed to regenerate the same variants
+  seed?: number;
+
+  // Diversity - minimum difference (0-0.9) between any two outputs
+  minVariantDistance?: number;
 }
 
 const ProcessingSettings: React.FC<ProcessingSettingsProps> = ({
   videoCount,
+  projectId,
   onSettingsChange,
   onStartProcessing
 }) => {
@@ -95,9 +294,19 @@ const ProcessingSettings: React.FC<ProcessingSettingsProps> = ({
         differentStartingVideo: settings.differentStartingVideo,
         groupMixing: settings.groupMixing,
         groupMixingMode: settings.groupMixingMode,
+        minClipAppearances: settings.minClipAppearances,
+        maxClipAppearances: settings.maxClipAppearances,
+        balanceExposure: settings.balanceExposure,
         allowedSpeeds: settings.allowedSpeeds,
         speedRange: settings.speedRange,
+        minVariantDistance: settings.minVariantDistance,
+        transitionMixing: settings.transitionMixing,
+        transitionTypes: settings.transitionTypes,
+        transitionDuration: settings.transitionDuration,
+        colorVariations: settings.colorVariations,
+        colorIntensity: settings.colorIntensity,
         metadataSource: settings.metadataSource,
+        metadataProfileIds: settings.metadataProfileIds,
         bitrate: settings.bitrate,
         resolution: settings.resolution,
         frameRate: settings.frameRate,
@@ -106,7 +315,23 @@ const ProcessingSettings: React.FC<ProcessingSettingsProps> = ({
         fixedDuration: settings.fixedDuration,
         smartTrimming: settings.smartTrimming,
         durationDistributionMode: settings.durationDistributionMode,
-        audioMode: settings.audioMode
+        durationFill: settings.durationFill,
+        audioMode: settings.audioMode,
+        musicVolume: settings.musicVolume,
+        musicFade: settings.musicFade,
+        musicDucking: settings.musicDucking,
+        loudnessPreset: settings.loudnessPreset,
+        textOverlay: settings.textOverlay,
+        subtitleMode: settings.subtitleMode,
+        subtitleStyle: settings.subtitleStyle,
+        // Logos belong to a project, so only the text and layout carry over
+        watermark: settings.watermark && { ...settings.watermark, logoId: undefined },
+        imageMotion: settings.imageMotion,
+        aspectFill: settings.aspectFill,
+        // Intros and outros belong to a project as well
+        bumpers: settings.bumpers && { ...DEFAULT_BUMPERS, countInDuration: settings.bumpers.countInDuration },
+        speedRamps: settings.speedRamps,
+        microVariations: settings.microVariations
       };
       localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(toSave));
       console.log('[ProcessingSettings] Saved settings to localStorage:', toSave);
@@ -126,8 +351,17 @@ const ProcessingSettings: React.FC<ProcessingSettingsProps> = ({
       allowedSpeeds: [0.5, 0.75, 1, 1.25, 1.5, 2],
       groupMixing: false,
       groupMixingMode: 'strict',
-      // Transition and color features removed
+      minClipAppearances: 0,
+      maxClipAppearances: 0,
+      balanceExposure: true,
+      transitionMixing: false,
+      transitionTypes: ['fade', 'dissolve'],
+      transitionDuration: { min: 0.5, max: 1 },
+      colorVariations: false,
+      colorIntensity: 'low',
+      colorLutIds: [],
       metadataSource: 'normal',
+      metadataProfileIds: [],
       bitrate: 'medium',
       resolution: 'hd',
       frameRate: 30,
@@ -136,12 +370,33 @@ const ProcessingSettings: React.FC<ProcessingSettingsProps> = ({
       fixedDuration: 30,
       smartTrimming: false,
       durationDistributionMode: 'proportional',
+      durationFill: 'none',
       audioMode: 'keep',
       voiceOverMode: false,
+      musicTrackIds: [],
+      musicVolume: 0.3,
+      musicFade: 1.5,
+      musicDucking: true,
+      loudnessPreset: 'off',
+      textOverlay: DEFAULT_TEXT_OVERLAY,
+      subtitleMode: 'off',
+      subtitleStyle: 'classic',
+      watermark: DEFAULT_WATERMARK,
+      imageMotion: 'subtle',
+      aspectFill: DEFAULT_ASPECT_FILL,
+      bumpers: DEFAULT_BUMPERS,
+      speedRamps: DEFAULT_SPEED_RAMPS,
+      microVariations: {},
+      minVariantDistance: 0,
       outputCount: 5  // Reduced default to 5 for faster testing
     };
 
     if (saved) {
+      // Settings saved before metadata profiles carry a preset name, which is also a built-in profile id
+      if (!saved.metadataProfileIds && saved.metadataSource && saved.metadataSource !== 'normal') {
+        saved.metadataProfileIds = [saved.metadataSource];
+        saved.metadataSource = 'normal';
+      }
       // Merge saved settings with defaults, ensuring all required fields exist
       return { ...defaults, ...saved };
     }
@@ -152,11 +407,12 @@ const ProcessingSettings: React.FC<ProcessingSettingsProps> = ({
 
   // Auto-disable speed mixing when voice over mode is enabled
   useEffect(() => {
-    if (settings.audioMode === 'voiceover' && settings.speedMixing) {
-      console.log('[ProcessingSettings] Voice over mode enabled, disabling speed mixing');
+    if (settings.audioMode === 'voiceover' && (settings.speedMixing || settings.speedRamps?.curves.length)) {
+      console.log('[ProcessingSettings] Voice over mode enabled, disabling speed mixing and ramps');
       setSettings(prev => ({
         ...prev,
-        speedMixing: false
+        speedMixing: false,
+        speedRamps: { ...(prev.speedRamps || DEFAULT_SPEED_RAMPS), curves: [] }
       }));
     }
   }, [settings.audioMode]);
@@ -166,6 +422,8 @@ const ProcessingSettings: React.FC<ProcessingSettingsProps> = ({
     creditsRequired: number;
     userCredits: number;
     hasEnoughCredits: boolean;
+    combinationCount?: number; // Unique group combinations in exhaustive mode
+    warnings?: string[];
     breakdown?: any;
     loading: boolean;
   }>({
@@ -232,7 +490,7 @@ const ProcessingSettings: React.FC<ProcessingSettingsProps> = ({
           speedVariations: settings.speedMixing,
           differentStartingVideo: settings.differentStartingVideo,
           groupMixing: settings.groupMixing
-        });
+        }, projectId);
 
         // Only update state if component is still mounted
         if (mounted) {
@@ -245,6 +503,8 @@ const ProcessingSettings: React.FC<ProcessingSettingsProps> = ({
               creditsRequired: response?.creditsRequired || 0,
               userCredits: response?.userCredits || 0,
               hasEnoughCredits: response?.hasEnoughCredits || false,
+              combinationCount: response?.combinationCount,
+              warnings: response?.warnings || [],
               breakdown: response?.breakdown || null,
               loading: false
             });
@@ -269,7 +529,7 @@ const ProcessingSettings: React.FC<ProcessingSettingsProps> = ({
       mounted = false;
       clearTimeout(timeoutId);
     };
-  }, [settings]);
+  }, [settings, projectId]);
 
   const handleSettingChange = (key: keyof MixingSettings, value: any) => {
     setSettings(prev => ({
@@ -278,6 +538,80 @@ const ProcessingSettings: React.FC<ProcessingSettingsProps> = ({
     }));
   };
 
+  const handleTextOverlayChange = (changes: Partial<TextOverlaySettings>, style?: Partial<TextOverlaySettings['style']>) => {
+    setSettings(prev => {
+      const current = prev.textOverlay || DEFAULT_TEXT_OVERLAY;
+      return {
+        ...prev,
+        textOverlay: { ...current, ...changes, style: { ...current.style, ...style } }
+      };
+    });
+  };
+
+  const handleAspectFillChange = (changes: Partial<AspectFillSettings>) => {
+    setSettings(prev => ({
+      ...prev,
+      aspectFill: { ...(prev.aspectFill || DEFAULT_ASPECT_FILL), ...changes }
+    }));
+  };
+
+  const handleWatermarkChange = (changes: Partial<WatermarkSettings>) => {
+    setSettings(prev => ({
+      ...prev,
+      watermark: { ...(prev.watermark || DEFAULT_WATERMARK), ...changes }
+    }));
+  };
+
+  const handleSpeedRampsChange = (changes: Partial<SpeedRampSettings>) => {
+    setSettings(prev => ({
+      ...prev,
+      speedRamps: { ...(prev.speedRamps || DEFAULT_SPEED_RAMPS), ...changes }
+    }));
+  };
+
+  const handleSpeedRampToggle = (curve: SpeedRampCurve) => {
+    const current = settings.speedRamps?.curves || [];
+    handleSpeedRampsChange({
+      curves: current.includes(curve) ? current.filter(c => c !== curve) : [...current, curve]
+    });
+  };
+
+  const handleMicroVariationToggle = (key: MicroVariationRangeKey, initial: VariationRange) => {
+    setSettings(prev => {
+      const { [key]: current, ...rest } = prev.microVariations || {};
+      return { ...prev, microVariations: current ? rest : { ...rest, [key]: initial } };
+    });
+  };
+
+  const handleMicroVariationRange = (key: MicroVariationRangeKey, changes: Partial<VariationRange>) => {
+    setSettings(prev => {
+      const range = { ...prev.microVariations?.[key]!, ...changes };
+      // Keep min at or below max whichever end moved
+      const next = changes.min !== undefined
+        ? { min: range.min, max: Math.max(range.min, range.max) }
+        : { min: Math.min(range.min, range.max), max: range.max };
+      return { ...prev, microVariations: { ...prev.microVariations, [key]: next } };
+    });
+  };
+
+  const handleBumpersChange = (changes: Partial<BumperSettings>) => {
+    setSettings(prev => ({
+      ...prev,
+      bumpers: { ...(prev.bumpers || DEFAULT_BUMPERS), ...changes }
+    }));
+  };
+
+  const handleWatermarkPositionToggle = (position: WatermarkPosition) => {
+    const current = settings.watermark?.positions || DEFAULT_WATERMARK.positions;
+    const positions = current.includes(position)
+      ? current.filter(p => p !== position)
+      : [...current, position];
+    // At least one position stays selected
+    if (positions.length > 0) {
+      handleWatermarkChange({ positions });
+    }
+  };
+
   const handleSpeedToggle = (speed: number) => {
     setSettings(prev => {
       const speeds = [...prev.allowedSpeeds];
@@ -292,6 +626,26 @@ const ProcessingSettings: React.FC<ProcessingSettingsProps> = ({
     });
   };
 
+  const handleTransitionToggle = (style: TransitionStyle) => {
+    setSettings(prev => {
+      const current = prev.transitionTypes || [];
+      const next = current.includes(style) ? current.filter(s => s !== style) : [...current, style];
+      // Keep at least one style selected
+      return next.length > 0 ? { ...prev, transitionTypes: next } : prev;
+    });
+  };
+
+  const handleTransitionDuration = (key: 'min' | 'max', value: number) => {
+    setSettings(prev => {
+      const duration = { ...(prev.transitionDuration || { min: 0.5, max: 1 }), [key]: value };
+      if (duration.min > duration.max) {
+        if (key === 'min') duration.max = duration.min;
+        else duration.min = duration.max;
+      }
+      return { ...prev, transitionDuration: duration };
+    });
+  };
+
   console.log('[ProcessingSettings] Rendering component, state:', { settings, creditEstimate, variantEstimate });
 
   return (
@@ -371,7 +725,7 @@ const ProcessingSettings: React.FC<ProcessingSettingsProps> = ({
             {settings.groupMixing && (
               <div className="ml-6 mt-2 p-3 bg-gray-50 rounded-lg">
                 <p className="text-xs text-gray-600 mb-2">Select mixing mode:</p>
-                <div className="flex gap-2">
+                <div className="flex flex-wrap gap-2">
                   <button
                     onClick={() => handleSettingChange('groupMixingMode', 'strict')}
                     className={`px-3 py-1 rounded text-xs font-medium transition-colors ${
@@ -392,7 +746,67 @@ const ProcessingSettings: React.FC<ProcessingSettingsProps> = ({
                   >
                     Random (Any order)
                   </button>
+                  <button
+                    onClick={() => handleSettingChange('groupMixingMode', 'exhaustive')}
+                    className={`px-3 py-1 rounded text-xs font-medium transition-colors ${
+                      settings.groupMixingMode === 'exhaustive'
+                        ? 'bg-purple-600 text-white'
+                        : 'bg-white text-gray-700 border border-gray-300 hover:bg-gray-100'
+                    }`}
+                  >
+                    Every Combination Once
+                  </button>
                 </div>
+                {settings.groupMixingMode === 'exhaustive' && (
+                  <p className="text-xs text-gray-500 mt-2">
+                    Each output uses a different combination of group picks, in strict group order.
+                  </p>
+                )}
+                {settings.groupMixingMode === 'exhaustive' &&
+                  creditEstimate.combinationCount !== undefined &&
+                  creditEstimate.combinationCount < settings.outputCount && (
+                  <div className="mt-2 p-2 bg-yellow-50 border border-yellow-200 rounded">
+                    <p className="text-xs text-yellow-800">
+                      Only {creditEstimate.combinationCount} unique combinations possible - {creditEstimate.combinationCount} outputs will be generated.
+                    </p>
+                  </div>
+                )}
+
+                <p className="text-xs text-gray-600 mt-3 mb-2">Clip exposure across all outputs:</p>
+                <label className="flex items-center">
+                  <input
+                    type="checkbox"
+                    checked={settings.balanceExposure || false}
+                    onChange={(e) => handleSettingChange('balanceExposure', e.target.checked)}
+                    className="h-4 w-4 text-purple-600 focus:ring-purple-500 border-gray-300 rounded"
+                  />
+                  <span className="ml-2 text-xs text-gray-700">
+                    Balance appearances - every clip in a group is used about equally
+                  </span>
+                </label>
+                <div className="mt-2 grid grid-cols-2 gap-2">
+                  <div>
+                    <label className="block text-xs text-gray-600">Min appearances per clip</label>
+                    <input
+                      type="number"
+                      min="0"
+                      value={settings.minClipAppearances || 0}
+                      onChange={(e) => handleSettingChange('minClipAppearances', Math.max(0, parseInt(e.target.value) || 0))}
+                      className="mt-1 block w-full text-xs border-gray-300 rounded-md"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs text-gray-600">Max appearances per clip</label>
+                    <input
+                      type="number"
+                      min="0"
+                      value={settings.maxClipAppearances || 0}
+                      onChange={(e) => handleSettingChange('maxClipAppearances', Math.max(0, parseInt(e.target.value) || 0))}
+                      className="mt-1 block w-full text-xs border-gray-300 rounded-md"
+                    />
+                  </div>
+                </div>
+                <p className="mt-1 text-xs text-gray-500">0 = no limit</p>
               </div>
             )}
           </div>
@@ -444,7 +858,303 @@ const ProcessingSettings: React.FC<ProcessingSettingsProps> = ({
             )}
           </div>
 
-          {/* Transition and Color features removed for platform stability */}
+          {/* Speed Ramps */}
+          <div>
+            <label className="block text-sm text-gray-700">
+              <strong>Speed Ramps</strong> - Vary speed within a clip instead of using one constant speed
+              {settings.audioMode === 'voiceover' && ' (Not available in Voice Over mode)'}
+            </label>
+            {settings.audioMode !== 'voiceover' && (() => {
+              const ramps = settings.speedRamps || DEFAULT_SPEED_RAMPS;
+              return (
+                <div className="ml-6 mt-2 space-y-3">
+                  <div className="grid grid-cols-3 gap-2">
+                    {SPEED_RAMP_OPTIONS.map(option => (
+                      <button
+                        key={option.value}
+                        onClick={() => handleSpeedRampToggle(option.value)}
+                        className={`px-2 py-1 rounded text-xs font-medium transition-colors ${
+                          ramps.curves.includes(option.value)
+                            ? 'bg-blue-600 text-white'
+                            : 'bg-white text-gray-700 border border-gray-300 hover:bg-gray-100'
+                        }`}
+                      >
+                        {option.label}
+                      </button>
+                    ))}
+                  </div>
+                  {ramps.curves.length > 0 && (
+                    <div className="p-3 bg-gray-50 rounded-lg space-y-2 text-xs text-gray-700">
+                      <div className="grid grid-cols-2 gap-3">
+                        <label className="block">
+                          Ramped clips per output
+                          <input
+                            type="number"
+                            min="1"
+                            max="5"
+                            value={ramps.clipsPerOutput}
+                            onChange={(e) => handleSpeedRampsChange({ clipsPerOutput: Number(e.target.value) || 1 })}
+                            className="mt-1 block w-full text-sm border-gray-300 rounded-md"
+                          />
+                        </label>
+                        <label className="block">
+                          Audio on ramped clips
+                          <select
+                            value={ramps.audio}
+                            onChange={(e) => handleSpeedRampsChange({ audio: e.target.value as SpeedRampSettings['audio'] })}
+                            className="mt-1 block w-full text-sm border-gray-300 rounded-md"
+                          >
+                            <option value="segments">Follow the ramp</option>
+                            <option value="stretch">Even stretch (smooth, pitch kept)</option>
+                            <option value="mute">Mute</option>
+                          </select>
+                        </label>
+                      </div>
+                      {(ramps.curves.includes('ease-in-out') || ramps.curves.includes('ramp-out')) && (
+                        <div className="flex items-center space-x-3">
+                          <span className="w-24">Peak speed</span>
+                          <input
+                            type="range"
+                            min="1.25"
+                            max="4"
+                            step="0.25"
+                            value={ramps.peakSpeed}
+                            onChange={(e) => handleSpeedRampsChange({ peakSpeed: Number(e.target.value) })}
+                            className="flex-1"
+                          />
+                          <span className="w-10 text-right">{ramps.peakSpeed}×</span>
+                        </div>
+                      )}
+                      {ramps.curves.includes('slow-mo') && (
+                        <>
+                          <div className="flex items-center space-x-3">
+                            <span className="w-24">Slow-mo speed</span>
+                            <input
+                              type="range"
+                              min="0.25"
+                              max="0.9"
+                              step="0.05"
+                              value={ramps.slowSpeed}
+                              onChange={(e) => handleSpeedRampsChange({ slowSpeed: Number(e.target.value) })}
+                              className="flex-1"
+                            />
+                            <span className="w-10 text-right">{ramps.slowSpeed}×</span>
+                          </div>
+                          <div className="flex items-center space-x-3">
+                            <span className="w-24">Slow-mo at</span>
+                            <input
+                              type="range"
+                              min="0"
+                              max="1"
+                              step="0.05"
+                              value={ramps.slowMoAt}
+                              onChange={(e) => handleSpeedRampsChange({ slowMoAt: Number(e.target.value) })}
+                              className="flex-1"
+                            />
+                            <span className="w-10 text-right">{Math.round(ramps.slowMoAt * 100)}%</span>
+                          </div>
+                        </>
+                      )}
+                      <p className="text-gray-500">
+                        Ramps apply on top of the clip's speed. Curves rotate across outputs; still images are never ramped.
+                      </p>
+                    </div>
+                  )}
+                </div>
+              );
+            })()}
+          </div>
+
+          {/* Micro-Variations */}
+          <div>
+            <label className="block text-sm text-gray-700">
+              <strong>Micro-Variations</strong> - Subtle per-output differences, each picked within its bounds
+            </label>
+            <div className="ml-6 mt-2 space-y-2 text-xs text-gray-700">
+              {MICRO_VARIATION_OPTIONS.map(option => {
+                const range = settings.microVariations?.[option.key];
+                return (
+                  <div key={option.key} className="flex items-center space-x-3">
+                    <label className="flex items-center w-32">
+                      <input
+                        type="checkbox"
+                        checked={Boolean(range)}
+                        onChange={() => handleMicroVariationToggle(option.key, option.initial)}
+                        className="h-4 w-4 text-blue-600 border-gray-300 rounded mr-2"
+                      />
+                      {option.label}
+                    </label>
+                    {range && (
+                      <>
+                        <input
+                          type="number"
+                          min="0"
+                          max={option.limit}
+                          step={option.step}
+                          value={range.min}
+                          onChange={(e) => handleMicroVariationRange(option.key, { min: Math.min(option.limit, Math.max(0, Number(e.target.value))) })}
+                          className="w-16 text-sm border-gray-300 rounded-md"
+                          aria-label={`${option.label} minimum`}
+                        />
+                        <span>to</span>
+                        <input
+                          type="number"
+                          min="0"
+                          max={option.limit}
+                          step={option.step}
+                          value={range.max}
+                          onChange={(e) => handleMicroVariationRange(option.key, { max: Math.min(option.limit, Math.max(0, Number(e.target.value))) })}
+                          className="w-16 text-sm border-gray-300 rounded-md"
+                          aria-label={`${option.label} maximum`}
+                        />
+                        <span className="text-gray-500">{option.unit} (max {option.limit})</span>
+                      </>
+                    )}
+                  </div>
+                );
+              })}
+              <label className="flex items-center">
+                <input
+                  type="checkbox"
+                  checked={Boolean(settings.microVariations?.mirror)}
+                  onChange={(e) => setSettings(prev => ({ ...prev, microVariations: { ...prev.microVariations, mirror: e.target.checked } }))}
+                  className="h-4 w-4 text-blue-600 border-gray-300 rounded mr-2"
+                />
+                Mirror clips marked "Can be mirrored" (each flipped in about half the outputs)
+              </label>
+              <p className="text-gray-500">
+                Hue and pitch shift either way. Offsets skip a few frames at clip starts and never touch still images.
+              </p>
+            </div>
+          </div>
+
+          {/* Minimum Variant Difference */}
+          <div>
+            <label className="block text-sm text-gray-700">
+              <strong>Minimum Difference</strong> - Reject near-identical outputs
+            </label>
+            <div className="mt-2 flex items-center space-x-3">
+              <input
+                type="range"
+                min="0"
+                max="0.5"
+                step="0.05"
+                value={settings.minVariantDistance || 0}
+                onChange={(e) => handleSettingChange('minVariantDistance', parseFloat(e.target.value))}
+                className="w-48"
+              />
+              <span className="text-xs font-medium text-gray-700 w-16">
+                {settings.minVariantDistance ? `${Math.round(settings.minVariantDistance * 100)}%` : 'Off'}
+              </span>
+            </div>
+            <p className="mt-1 text-xs text-gray-500">
+              Every pair of outputs must differ by at least this much in order, speed and clip selection
+            </p>
+          </div>
+
+          {/* Transitions */}
+          <div>
+            <label className="flex items-center">
+              <input
+                type="checkbox"
+                checked={Boolean(settings.transitionMixing)}
+                onChange={(e) => handleSettingChange('transitionMixing', e.target.checked)}
+                className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+              />
+              <span className="ml-2 text-sm text-gray-700">
+                <strong>Transitions</strong> - Blend each cut with a random transition
+              </span>
+            </label>
+
+            {settings.transitionMixing && (
+              <div className="ml-6 mt-2 p-3 bg-gray-50 rounded-lg space-y-3">
+                <div className="flex flex-wrap gap-2">
+                  {TRANSITION_OPTIONS.map(option => (
+                    <button
+                      key={option.value}
+                      onClick={() => handleTransitionToggle(option.value)}
+                      className={`px-2 py-1 rounded text-xs font-medium transition-colors ${
+                        (settings.transitionTypes || []).includes(option.value)
+                          ? 'bg-blue-600 text-white'
+                          : 'bg-white text-gray-700 border border-gray-300 hover:bg-gray-100'
+                      }`}
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                </div>
+                <div className="flex items-center space-x-2 text-xs text-gray-600">
+                  <span>Duration</span>
+                  <input
+                    type="number"
+                    min="0.1"
+                    max="3"
+                    step="0.1"
+                    value={settings.transitionDuration?.min ?? 0.5}
+                    onChange={(e) => handleTransitionDuration('min', parseFloat(e.target.value) || 0.1)}
+                    className="w-16 px-2 py-1 border border-gray-300 rounded"
+                  />
+                  <span>to</span>
+                  <input
+                    type="number"
+                    min="0.1"
+                    max="3"
+                    step="0.1"
+                    value={settings.transitionDuration?.max ?? 1}
+                    onChange={(e) => handleTransitionDuration('max', parseFloat(e.target.value) || 0.1)}
+                    className="w-16 px-2 py-1 border border-gray-300 rounded"
+                  />
+                  <span>seconds</span>
+                </div>
+                <p className="text-xs text-gray-500">
+                  Clips shorter than 2.5× the transition get a hard cut instead
+                </p>
+              </div>
+            )}
+          </div>
+
+          {/* Color Grading */}
+          <div>
+            <label className="flex items-center">
+              <input
+                type="checkbox"
+                checked={Boolean(settings.colorVariations)}
+                onChange={(e) => handleSettingChange('colorVariations', e.target.checked)}
+                className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+              />
+              <span className="ml-2 text-sm text-gray-700">
+                <strong>Color Grading</strong> - Slight brightness, contrast, saturation and hue shifts per output
+              </span>
+            </label>
+
+            {settings.colorVariations && (
+              <div className="ml-6 mt-2 flex space-x-2">
+                {(['low', 'medium', 'high'] as const).map(intensity => (
+                  <button
+                    key={intensity}
+                    onClick={() => handleSettingChange('colorIntensity', intensity)}
+                    className={`px-3 py-1 rounded text-xs font-medium capitalize transition-colors ${
+                      (settings.colorIntensity || 'low') === intensity
+                        ? 'bg-blue-600 text-white'
+                        : 'bg-white text-gray-700 border border-gray-300 hover:bg-gray-100'
+                    }`}
+                  >
+                    {intensity}
+                  </button>
+                ))}
+              </div>
+            )}
+
+            {projectId && (
+              <div className="ml-6 mt-2 p-3 bg-gray-50 rounded-lg">
+                <ColorLutManager
+                  projectId={projectId}
+                  selectedIds={settings.colorLutIds || []}
+                  onSelectionChange={(lutIds) => handleSettingChange('colorLutIds', lutIds)}
+                />
+              </div>
+            )}
+          </div>
         </div>
 
         {/* Anti-Fingerprinting Strength Indicator */}
@@ -493,28 +1203,23 @@ const ProcessingSettings: React.FC<ProcessingSettingsProps> = ({
         </div>
       </div>
 
+      {/* Metadata Profiles */}
+      <div className="mb-6">
+        <h3 className="text-md font-medium text-gray-700 mb-2">Metadata Profiles</h3>
+        <p className="text-sm text-gray-500 mb-3">
+          Encoder, software, comment, handler and creation time tags written into each output
+        </p>
+        <MetadataProfileManager
+          selectedIds={settings.metadataProfileIds || []}
+          onChange={(profileIds) => setSettings(prev => ({ ...prev, metadataProfileIds: profileIds, metadataSource: 'normal' }))}
+        />
+      </div>
+
       {/* Video Quality */}
       <div className="mb-6">
         <h3 className="text-md font-medium text-gray-700 mb-4">Video Quality & Format</h3>
 
         <div className="grid grid-cols-2 gap-4">
-          {/* Metadata Source */}
-          <div>
-            <label className="block text-sm font-medium text-gray-700 mb-1">
-              Metadata Source
-            </label>
-            <select
-              value={settings.metadataSource}
-              onChange={(e) => handleSettingChange('metadataSource', e.target.value)}
-              className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
-            >
-              <option value="normal">Normal (Clean)</option>
-              <option value="capcut">CapCut</option>
-              <option value="vn">VN Editor</option>
-              <option value="inshot">InShot</option>
-            </select>
-          </div>
-
           {/* Bitrate */}
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -584,6 +1289,75 @@ const ProcessingSettings: React.FC<ProcessingSettingsProps> = ({
           </div>
         </div>
 
+        {/* Aspect Fill */}
+        <div className="mt-4">
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Fill Mode
+            <span className="ml-1 text-xs text-gray-500">(clips with a different shape than the output)</span>
+          </label>
+          {(() => {
+            const fill = settings.aspectFill || DEFAULT_ASPECT_FILL;
+            return (
+              <div className="space-y-3">
+                <div className="flex flex-wrap gap-3">
+                  {FILL_MODE_OPTIONS.map(option => (
+                    <button
+                      key={option.value}
+                      type="button"
+                      onClick={() => handleAspectFillChange({ mode: option.value })}
+                      className={`p-2 rounded-lg border text-xs ${
+                        fill.mode === option.value ? 'border-blue-500 bg-blue-50 text-blue-800' : 'border-gray-200 text-gray-700 hover:bg-gray-50'
+                      }`}
+                    >
+                      <AspectFillPreview
+                        mode={option.value}
+                        targetAspect={TARGET_ASPECTS[settings.aspectRatio] || 16 / 9}
+                        sourceAspect={(TARGET_ASPECTS[settings.aspectRatio] || 16 / 9) < 1 ? 16 / 9 : 9 / 16}
+                        padColor={fill.padColor}
+                        focalX={fill.focalX}
+                        focalY={fill.focalY}
+                        height={96}
+                      />
+                      <div className="mt-1 text-center">{option.label}</div>
+                    </button>
+                  ))}
+                </div>
+                {fill.mode === 'pad' && (
+                  <div className="flex items-center space-x-3 text-xs text-gray-600">
+                    <span className="w-20">Bar color</span>
+                    <input
+                      type="color"
+                      value={fill.padColor}
+                      onChange={(e) => handleAspectFillChange({ padColor: e.target.value })}
+                      className="h-8 w-16 border-gray-300 rounded-md"
+                    />
+                  </div>
+                )}
+                {fill.mode === 'smart-crop' && (
+                  <div className="space-y-2">
+                    {(['focalX', 'focalY'] as const).map(axis => (
+                      <div key={axis} className="flex items-center space-x-3 text-xs text-gray-600">
+                        <span className="w-20">{axis === 'focalX' ? 'Focus left-right' : 'Focus top-bottom'}</span>
+                        <input
+                          type="range"
+                          min="0"
+                          max="1"
+                          step="0.05"
+                          value={fill[axis]}
+                          onChange={(e) => handleAspectFillChange({ [axis]: Number(e.target.value) })}
+                          className="flex-1"
+                        />
+                        <span className="w-10 text-right">{Math.round(fill[axis] * 100)}%</span>
+                      </div>
+                    ))}
+                    <p className="text-xs text-gray-500">Default focal point - clips can set their own on the project page</p>
+                  </div>
+                )}
+              </div>
+            );
+          })()}
+        </div>
+
         {/* Duration Control */}
         <div className="mt-4">
           <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -692,6 +1466,26 @@ const ProcessingSettings: React.FC<ProcessingSettingsProps> = ({
                     </p>
                   </div>
                 )}
+
+                <div className="space-y-1">
+                  <label className="block text-xs font-medium text-gray-600">
+                    When clips are shorter than {settings.fixedDuration}s:
+                  </label>
+                  <select
+                    value={settings.durationFill || 'none'}
+                    onChange={(e) => handleSettingChange('durationFill', e.target.value)}
+                    className="w-full px-3 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                  >
+                    <option value="none">Leave the output short</option>
+                    <option value="loop">Loop the sequence</option>
+                    <option value="freeze">Freeze the last frame</option>
+                    <option value="slow">Slow clips down (within the speed range)</option>
+                    <option value="outro">Extend with the outro</option>
+                  </select>
+                  {creditEstimate.warnings?.map(warning => (
+                    <p key={warning} className="text-xs text-amber-700">{warning}</p>
+                  ))}
+                </div>
               </div>
             )}
           </div>
@@ -744,13 +1538,392 @@ const ProcessingSettings: React.FC<ProcessingSettingsProps> = ({
                 </span>
               </label>
             </div>
+            {projectId && (['music+original', 'music'] as const).map(mode => (
+              <div key={mode} className="flex items-center">
+                <label className="flex items-center">
+                  <input
+                    type="radio"
+                    value={mode}
+                    checked={settings.audioMode === mode}
+                    onChange={(e) => {
+                      handleSettingChange('audioMode', e.target.value);
+                      handleSettingChange('voiceOverMode', false);
+                    }}
+                    className="mr-2 text-blue-600 focus:ring-blue-500"
+                  />
+                  <span className="text-sm text-gray-700">
+                    <svg className="inline w-4 h-4 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 19V6l12-3v13M9 19c0 1.105-1.343 2-3 2s-3-.895-3-2 1.343-2 3-2 3 .895 3 2zm12-3c0 1.105-1.343 2-3 2s-3-.895-3-2 1.343-2 3-2 3 .895 3 2zM9 10l12-3" />
+                    </svg>
+                    {mode === 'music' ? 'Music Only (Replace Audio)' : 'Music + Original Audio'}
+                  </span>
+                </label>
+              </div>
+            ))}
           </div>
+
+          {projectId && (settings.audioMode === 'music' || settings.audioMode === 'music+original') && (
+            <div className="ml-6 mt-3 p-3 bg-gray-50 rounded-lg space-y-3">
+              <MusicTrackManager
+                projectId={projectId}
+                selectedIds={settings.musicTrackIds || []}
+                onSelectionChange={(trackIds) => handleSettingChange('musicTrackIds', trackIds)}
+              />
+              <div className="flex items-center space-x-3 text-xs text-gray-600">
+                <span className="w-20">Music level</span>
+                <input
+                  type="range"
+                  min="0"
+                  max="1"
+                  step="0.05"
+                  value={settings.musicVolume ?? 0.3}
+                  onChange={(e) => handleSettingChange('musicVolume', parseFloat(e.target.value))}
+                  className="flex-1"
+                />
+                <span className="w-10 text-right font-medium text-gray-700">{Math.round((settings.musicVolume ?? 0.3) * 100)}%</span>
+              </div>
+              <div className="flex items-center space-x-2 text-xs text-gray-600">
+                <span className="w-20">Fade in/out</span>
+                <input
+                  type="number"
+                  min="0"
+                  max="5"
+                  step="0.5"
+                  value={settings.musicFade ?? 1.5}
+                  onChange={(e) => handleSettingChange('musicFade', parseFloat(e.target.value) || 0)}
+                  className="w-16 px-2 py-1 border border-gray-300 rounded"
+                />
+                <span>seconds</span>
+              </div>
+              {settings.audioMode === 'music+original' && (
+                <label className="flex items-center text-xs text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={settings.musicDucking ?? true}
+                    onChange={(e) => handleSettingChange('musicDucking', e.target.checked)}
+                    className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+                  />
+                  <span className="ml-2">Duck music when the clips have speech</span>
+                </label>
+              )}
+              {(settings.musicTrackIds || []).length === 0 && (
+                <p className="text-xs text-amber-700">Select at least one track - without music the original audio is kept</p>
+              )}
+            </div>
+          )}
+
           {settings.audioMode !== 'voiceover' && (
             <p className="mt-2 text-xs text-gray-500">
-              Choose whether to keep original audio or remove all audio from output videos
+              Choose whether to keep original audio, remove it, or add a music bed to output videos
             </p>
           )}
+
+          {settings.audioMode !== 'mute' && (
+            <div className="mt-3">
+              <label className="block text-xs font-medium text-gray-700 mb-1">Loudness Normalization</label>
+              <select
+                value={settings.loudnessPreset || 'off'}
+                onChange={(e) => handleSettingChange('loudnessPreset', e.target.value)}
+                className="block w-full text-sm border-gray-300 rounded-md"
+              >
+                <option value="off">Off</option>
+                <option value="social">Social media (-14 LUFS, -1 dBTP)</option>
+                <option value="podcast">Podcast / spoken word (-16 LUFS, -1.5 dBTP)</option>
+                <option value="broadcast">Broadcast EBU R128 (-23 LUFS, -1 dBTP)</option>
+              </select>
+              <p className="mt-1 text-xs text-gray-500">
+                Levels each clip so volume doesn't jump at the cuts, then measures and corrects every output
+              </p>
+            </div>
+          )}
         </div>
+        {/* Headline Overlays */}
+        <div className="mt-4">
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Headline Overlays
+          </label>
+          <textarea
+            rows={3}
+            value={(settings.textOverlay?.headlines || []).join('\n')}
+            onChange={(e) => handleTextOverlayChange({ headlines: e.target.value.split('\n') })}
+            placeholder={'One headline per line, e.g.\nYou won\'t believe this'}
+            className="block w-full text-sm border-gray-300 rounded-md"
+          />
+          <p className="mt-1 text-xs text-gray-500">
+            Each output gets one headline - leave empty for no text
+          </p>
+
+          {(settings.textOverlay?.headlines || []).some(headline => headline.trim()) && (() => {
+            const overlay = settings.textOverlay || DEFAULT_TEXT_OVERLAY;
+            return (
+              <div className="mt-2 p-3 bg-gray-50 rounded-lg grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-xs font-medium text-gray-700 mb-1">Assignment</label>
+                  <select
+                    value={overlay.assignment}
+                    onChange={(e) => handleTextOverlayChange({ assignment: e.target.value as TextOverlaySettings['assignment'] })}
+                    className="block w-full text-sm border-gray-300 rounded-md"
+                  >
+                    <option value="round-robin">Round-robin (in order)</option>
+                    <option value="balanced">Balanced (shuffled, equal use)</option>
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-gray-700 mb-1">Font</label>
+                  <input
+                    type="text"
+                    value={overlay.style.font || ''}
+                    onChange={(e) => handleTextOverlayChange({}, { font: e.target.value || undefined })}
+                    placeholder="Default"
+                    className="block w-full text-sm border-gray-300 rounded-md"
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-gray-700 mb-1">Size (px at 1080p)</label>
+                  <input
+                    type="number"
+                    min="12"
+                    max="200"
+                    value={overlay.style.fontSize}
+                    onChange={(e) => handleTextOverlayChange({}, { fontSize: Number(e.target.value) })}
+                    className="block w-full text-sm border-gray-300 rounded-md"
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-gray-700 mb-1">Color</label>
+                  <input
+                    type="color"
+                    value={overlay.style.color}
+                    onChange={(e) => handleTextOverlayChange({}, { color: e.target.value })}
+                    className="block h-9 w-full border-gray-300 rounded-md"
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-gray-700 mb-1">Background</label>
+                  <select
+                    value={overlay.style.boxStyle}
+                    onChange={(e) => handleTextOverlayChange({}, { boxStyle: e.target.value as TextOverlaySettings['style']['boxStyle'] })}
+                    className="block w-full text-sm border-gray-300 rounded-md"
+                  >
+                    <option value="box">Dark box</option>
+                    <option value="outline">Outline</option>
+                    <option value="none">None</option>
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-gray-700 mb-1">Position</label>
+                  <select
+                    value={overlay.style.position}
+                    onChange={(e) => handleTextOverlayChange({}, { position: e.target.value as TextOverlaySettings['style']['position'] })}
+                    className="block w-full text-sm border-gray-300 rounded-md"
+                  >
+                    <option value="top">Top</option>
+                    <option value="center">Center</option>
+                    <option value="bottom">Bottom</option>
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-gray-700 mb-1">Show from (s)</label>
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.5"
+                    value={overlay.style.start}
+                    onChange={(e) => handleTextOverlayChange({}, { start: Number(e.target.value) })}
+                    className="block w-full text-sm border-gray-300 rounded-md"
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-gray-700 mb-1">Until (s)</label>
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.5"
+                    value={overlay.style.end ?? ''}
+                    onChange={(e) => handleTextOverlayChange({}, { end: e.target.value === '' ? undefined : Number(e.target.value) })}
+                    placeholder="End of video"
+                    className="block w-full text-sm border-gray-300 rounded-md"
+                  />
+                </div>
+              </div>
+            );
+          })()}
+        </div>
+
+        {/* Subtitles */}
+        <div className="mt-4">
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Subtitles
+          </label>
+          <div className="grid grid-cols-2 gap-3">
+            <select
+              value={settings.subtitleMode || 'off'}
+              onChange={(e) => handleSettingChange('subtitleMode', e.target.value)}
+              className="block w-full text-sm border-gray-300 rounded-md"
+            >
+              <option value="off">Off</option>
+              <option value="burn">Burn into video</option>
+              <option value="soft">Subtitle track (can be turned off)</option>
+            </select>
+            {settings.subtitleMode === 'burn' && (
+              <select
+                value={settings.subtitleStyle || 'classic'}
+                onChange={(e) => handleSettingChange('subtitleStyle', e.target.value)}
+                className="block w-full text-sm border-gray-300 rounded-md"
+              >
+                <option value="classic">Classic (white, outlined)</option>
+                <option value="boxed">Boxed (dark background)</option>
+                <option value="bold">Bold (large, yellow)</option>
+              </select>
+            )}
+          </div>
+          <p className="mt-1 text-xs text-gray-500">
+            Uses the SRT/VTT files uploaded per clip, retimed to each output's trims and speeds. A matching .srt is exported with every output.
+          </p>
+        </div>
+
+        {/* Image Motion */}
+        <div className="mt-4">
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Image Motion
+          </label>
+          <select
+            value={settings.imageMotion || 'subtle'}
+            onChange={(e) => handleSettingChange('imageMotion', e.target.value)}
+            className="block w-full text-sm border-gray-300 rounded-md"
+          >
+            <option value="off">Off (still frame)</option>
+            <option value="subtle">Subtle pan/zoom</option>
+            <option value="strong">Strong pan/zoom</option>
+          </select>
+          <p className="mt-1 text-xs text-gray-500">
+            Image clips get a zoom or pan picked at random for each output
+          </p>
+        </div>
+
+        {/* Watermark */}
+        <div className="mt-4">
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Watermark
+          </label>
+          {(() => {
+            const watermark = settings.watermark || DEFAULT_WATERMARK;
+            return (
+              <div className="space-y-3">
+                {projectId && (
+                  <LogoManager
+                    projectId={projectId}
+                    selectedId={watermark.logoId}
+                    onSelect={(logoId) => handleWatermarkChange({ logoId })}
+                  />
+                )}
+                {!watermark.logoId && (
+                  <input
+                    type="text"
+                    maxLength={60}
+                    value={watermark.text || ''}
+                    onChange={(e) => handleWatermarkChange({ text: e.target.value })}
+                    placeholder="Watermark text, e.g. @yourbrand - leave empty for none"
+                    className="block w-full text-sm border-gray-300 rounded-md"
+                  />
+                )}
+                {(watermark.logoId || watermark.text?.trim()) && (
+                  <div className="p-3 bg-gray-50 rounded-lg space-y-3">
+                    <div>
+                      <label className="block text-xs font-medium text-gray-700 mb-1">Positions (rotated across outputs)</label>
+                      <div className="flex flex-wrap gap-3">
+                        {WATERMARK_POSITION_OPTIONS.map(option => (
+                          <label key={option.value} className="flex items-center text-xs text-gray-700">
+                            <input
+                              type="checkbox"
+                              checked={watermark.positions.includes(option.value)}
+                              onChange={() => handleWatermarkPositionToggle(option.value)}
+                              className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+                            />
+                            <span className="ml-1">{option.label}</span>
+                          </label>
+                        ))}
+                      </div>
+                    </div>
+                    <div className="flex items-center space-x-3 text-xs text-gray-600">
+                      <span className="w-20">Opacity</span>
+                      <input
+                        type="range"
+                        min="0.1"
+                        max="1"
+                        step="0.05"
+                        value={watermark.opacity}
+                        onChange={(e) => handleWatermarkChange({ opacity: Number(e.target.value) })}
+                        className="flex-1"
+                      />
+                      <span className="w-10 text-right">{Math.round(watermark.opacity * 100)}%</span>
+                    </div>
+                    <div className="flex items-center space-x-3 text-xs text-gray-600">
+                      <span className="w-20">Size</span>
+                      <input
+                        type="range"
+                        min="0.05"
+                        max="0.5"
+                        step="0.01"
+                        value={watermark.scale}
+                        onChange={(e) => handleWatermarkChange({ scale: Number(e.target.value) })}
+                        className="flex-1"
+                      />
+                      <span className="w-10 text-right">{Math.round(watermark.scale * 100)}%</span>
+                    </div>
+                    {!watermark.logoId && (
+                      <div className="flex items-center space-x-3 text-xs text-gray-600">
+                        <span className="w-20">Color</span>
+                        <input
+                          type="color"
+                          value={watermark.fontColor}
+                          onChange={(e) => handleWatermarkChange({ fontColor: e.target.value })}
+                          className="h-8 w-16 border-gray-300 rounded-md"
+                        />
+                      </div>
+                    )}
+                    <p className="text-xs text-gray-500">
+                      Size is relative to the output width, so the watermark looks the same on every aspect ratio
+                    </p>
+                  </div>
+                )}
+              </div>
+            );
+          })()}
+        </div>
+
+        {/* Intro & Outro */}
+        {projectId && (
+          <div className="mt-4">
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Intro & Outro
+            </label>
+            {(() => {
+              const bumpers = settings.bumpers || DEFAULT_BUMPERS;
+              return (
+                <div className="space-y-3">
+                  <BumperManager
+                    projectId={projectId}
+                    introIds={bumpers.introIds}
+                    outroIds={bumpers.outroIds}
+                    onChange={handleBumpersChange}
+                  />
+                  {settings.durationType === 'fixed' && (bumpers.introIds.length > 0 || bumpers.outroIds.length > 0) && (
+                    <label className="flex items-center text-sm text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={bumpers.countInDuration}
+                        onChange={(e) => handleBumpersChange({ countInDuration: e.target.checked })}
+                        className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+                      />
+                      <span className="ml-2">Count intro and outro toward the fixed duration</span>
+                    </label>
+                  )}
+                </div>
+              );
+            })()}
+          </div>
+        )}
       </div>
 
       {/* Variant Estimation */}
@@ -795,6 +1968,36 @@ const ProcessingSettings: React.FC<ProcessingSettingsProps> = ({
             />
           </div>
         </div>
+
+        {/* Variant Seed */}
+        <div className="mt-3 flex items-center space-x-2">
+          <label className="text-xs font-medium text-gray-700">
+            Variant Seed
+          </label>
+          <input
+            type="number"
+            min="0"
+            placeholder="Random"
+            value={settings.seed ?? ''}
+            onChange={(e) => {
+              const value = parseInt(e.target.value);
+              handleSettingChange('seed', isNaN(value) || value < 0 ? undefined : value);
+            }}
+            className="w-36 px-2 py-1 text-sm border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+          />
+          <span className="text-xs text-gray-500">
+            Reuse a previous job's seed to regenerate the same variants
+          </span>
+        </div>
+
+        {projectId && (
+          <VariantPlanTable
+            projectId={projectId}
+            settings={settings}
+            disabled={videoCount < 2}
+            onUseSeed={(seed) => handleSettingChange('seed', seed)}
+          />
+        )}
       </div>
 
       {/* Warning for low video count */}
@@ -887,6 +2090,12 @@ const ProcessingSettings: React.FC<ProcessingSettingsProps> = ({
                               }</span>
                             </div>
                           ) : null}
+                          {creditEstimate.breakdown.multipliers.duration ? (
+                            <div className="flex justify-between text-yellow-300">
+                              <span>Output Length ({creditEstimate.breakdown.multipliers.duration.reason}):</span>
+                              <span>x{creditEstimate.breakdown.multipliers.duration.value}</span>
+                            </div>
+                          ) : null}
                         </>
                       ) : null}
                       <div className="border-t border-gray-600 pt-1 mt-1">
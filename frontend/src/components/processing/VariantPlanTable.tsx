@@ -0,0 +1,256 @@
+import React, { useState, useEffect } from 'react';
+import apiClient from '../../utils/api/client';
+import VideoPlayer from '../video/VideoPlayer';
+
+interface PlannedClip {
+  clipId: string;
+  originalName?: string;
+  speed: number;
+  trimStart: number;
+  trimEnd: number;
+  duration: number;
+  motion?: string; // Pan/zoom of a still image
+  ramp?: string;   // Speed curve - speed is then its average
+}
+
+interface PlannedCut {
+  transition: string; // 'cut' for a hard cut
+  duration: number;
+  offset: number;
+}
+
+interface PlannedGrade {
+  brightness: number;
+  contrast: number;
+  saturation: number;
+  hue: number;
+  lutName?: string;
+}
+
+interface VariantPlan {
+  variantId: string;
+  clips: PlannedClip[];
+  expectedDuration: number;
+  resolution: { width: number; height: number };
+  cuts: PlannedCut[];
+  grade?: PlannedGrade;
+  music?: { trackId: string; name: string };
+  headline?: string;
+  watermarkPosition?: string;
+  intro?: { id: string; name: string; duration: number };
+  outro?: { id: string; name: string; duration: number };
+  durationFill?: { strategy: string; seconds: number };
+  metadata?: { profileId: string; name: string; creationTime?: string };
+}
+
+const isNeutralGrade = (grade?: PlannedGrade) =>
+  !grade || (!grade.lutName && grade.brightness === 0 && grade.contrast === 1 && grade.saturation === 1 && grade.hue === 0);
+
+interface VariantPlanTableProps {
+  projectId: string;
+  settings: any;
+  disabled?: boolean;
+  onUseSeed: (seed: number) => void;
+}
+
+const formatSeconds = (seconds: number) => `${seconds.toFixed(1)}s`;
+
+// Blob responses carry the JSON error body as a Blob
+const readBlobError = async (err: any, fallback: string) => {
+  const data = err.response?.data;
+  if (data instanceof Blob) {
+    try {
+      const body = JSON.parse(await data.text());
+      return body.error || body.message || fallback;
+    } catch {
+      return fallback;
+    }
+  }
+  return data?.error || fallback;
+};
+
+const VariantPlanTable: React.FC<VariantPlanTableProps> = ({ projectId, settings, disabled, onUseSeed }) => {
+  const [plan, setPlan] = useState<{ seed: number; outputs: VariantPlan[] } | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [preview, setPreview] = useState<{ index: number; url: string } | null>(null);
+  const [renderingIndex, setRenderingIndex] = useState<number | null>(null);
+
+  // Release the object URL of the previous preview
+  useEffect(() => {
+    return () => {
+      if (preview) URL.revokeObjectURL(preview.url);
+    };
+  }, [preview]);
+
+  const handleRenderPreview = async (index: number) => {
+    if (!plan) return;
+    setRenderingIndex(index);
+    setError(null);
+    try {
+      const blob = await apiClient.renderPreview(projectId, { ...settings, seed: plan.seed }, index);
+      setPreview({ index, url: URL.createObjectURL(blob) });
+    } catch (err: any) {
+      setError(await readBlobError(err, 'Failed to render preview'));
+    } finally {
+      setRenderingIndex(null);
+    }
+  };
+
+  const handlePreviewPlan = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await apiClient.planVariants(projectId, settings);
+      if (response.success) {
+        setPlan(response.data);
+        setPreview(null);
+      } else {
+        setError(response.error || 'Failed to plan variants');
+      }
+    } catch (err: any) {
+      setError(err.response?.data?.error || 'Failed to plan variants');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="mt-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h4 className="text-sm font-medium text-gray-900">Variant Plan</h4>
+          <p className="text-xs text-gray-500">Dry run - no rendering and no credits used</p>
+        </div>
+        <button
+          onClick={handlePreviewPlan}
+          disabled={disabled || loading}
+          className="px-3 py-1.5 text-xs font-medium text-blue-700 bg-blue-50 border border-blue-200 rounded-md hover:bg-blue-100 disabled:opacity-50"
+        >
+          {loading ? 'Planning...' : plan ? 'Refresh Plan' : 'Preview Plan'}
+        </button>
+      </div>
+
+      {error && (
+        <div className="mt-2 p-2 bg-red-50 border border-red-200 rounded">
+          <p className="text-xs text-red-700">{error}</p>
+        </div>
+      )}
+
+      {plan && (
+        <div className="mt-3">
+          <div className="flex items-center justify-between text-xs text-gray-600 mb-2">
+            <span>{plan.outputs.length} outputs planned with seed {plan.seed}</span>
+            {settings.seed !== plan.seed && (
+              <button
+                onClick={() => onUseSeed(plan.seed)}
+                className="text-blue-600 hover:text-blue-500"
+              >
+                Use this seed for processing
+              </button>
+            )}
+          </div>
+          <div className="max-h-80 overflow-auto border border-gray-200 rounded-md">
+            <table className="min-w-full divide-y divide-gray-200 text-xs">
+              <thead className="bg-gray-50 sticky top-0">
+                <tr>
+                  <th className="px-3 py-2 text-left font-medium text-gray-500">Output</th>
+                  <th className="px-3 py-2 text-left font-medium text-gray-500">Clips (speed, trim in-out)</th>
+                  <th className="px-3 py-2 text-right font-medium text-gray-500">Duration</th>
+                  <th className="px-3 py-2 text-right font-medium text-gray-500">Resolution</th>
+                  <th className="px-3 py-2" />
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {plan.outputs.map((output, index) => (
+                  <tr key={output.variantId}>
+                    <td className="px-3 py-2 text-gray-900 align-top">#{index + 1}</td>
+                    <td className="px-3 py-2 text-gray-700">
+                      <ol className="space-y-0.5">
+                        {output.clips.map((clip, position) => (
+                          <li key={`${clip.clipId}-${position}`}>
+                            {position + 1}. {clip.originalName || clip.clipId}
+                            <span className="text-gray-500">
+                              {' '}({clip.speed}×, {formatSeconds(clip.trimStart)}-{formatSeconds(clip.trimEnd)} → {formatSeconds(clip.duration)})
+                            </span>
+                            {clip.motion && <span className="text-amber-700">{' '}{clip.motion}</span>}
+                            {clip.ramp && <span className="text-blue-700">{' '}ramp: {clip.ramp}</span>}
+                            {output.cuts?.[position] && output.cuts[position].transition !== 'cut' && (
+                              <span className="text-purple-600">
+                                {' '}↘ {output.cuts[position].transition} {formatSeconds(output.cuts[position].duration)}
+                              </span>
+                            )}
+                          </li>
+                        ))}
+                      </ol>
+                      {!isNeutralGrade(output.grade) && (
+                        <div className="mt-1 text-amber-700">
+                          Grade: B {output.grade!.brightness}, C {output.grade!.contrast}, S {output.grade!.saturation}, H {output.grade!.hue}
+                          {output.grade!.lutName && ` + ${output.grade!.lutName}`}
+                        </div>
+                      )}
+                      {output.music && (
+                        <div className="mt-1 text-green-700">Music: {output.music.name}</div>
+                      )}
+                      {output.headline && (
+                        <div className="mt-1 text-purple-700">Headline: "{output.headline}"</div>
+                      )}
+                      {output.watermarkPosition && (
+                        <div className="mt-1 text-gray-600">Watermark: {output.watermarkPosition}</div>
+                      )}
+                      {output.durationFill && (
+                        <div className="mt-1 text-amber-700">
+                          Fill: {output.durationFill.strategy} ({formatSeconds(output.durationFill.seconds)} short)
+                        </div>
+                      )}
+                      {(output.intro || output.outro) && (
+                        <div className="mt-1 text-blue-700">
+                          {output.intro && `Intro: ${output.intro.name}`}
+                          {output.intro && output.outro && ' · '}
+                          {output.outro && `Outro: ${output.outro.name}`}
+                        </div>
+                      )}
+                      {output.metadata && (
+                        <div className="mt-1 text-gray-600">
+                          Metadata: {output.metadata.name}
+                          {output.metadata.creationTime && `, created ${new Date(output.metadata.creationTime).toLocaleString()}`}
+                        </div>
+                      )}
+                    </td>
+                    <td className="px-3 py-2 text-right text-gray-900 align-top">{formatSeconds(output.expectedDuration)}</td>
+                    <td className="px-3 py-2 text-right text-gray-900 align-top">
+                      {output.resolution.width}×{output.resolution.height}
+                    </td>
+                    <td className="px-3 py-2 text-right align-top">
+                      <button
+                        onClick={() => handleRenderPreview(index)}
+                        disabled={disabled || renderingIndex !== null}
+                        className="text-blue-600 hover:text-blue-500 disabled:opacity-50"
+                      >
+                        {renderingIndex === index ? 'Rendering...' : 'Preview'}
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {preview && (
+            <div className="mt-3">
+              <div className="flex items-center justify-between text-xs text-gray-600 mb-1">
+                <span>Output #{preview.index + 1} - 360p proxy, first seconds only (free)</span>
+                <button onClick={() => setPreview(null)} className="text-gray-500 hover:text-gray-700">
+                  Close
+                </button>
+              </div>
+              <VideoPlayer src={preview.url} title={`Preview of output #${preview.index + 1}`} autoplay />
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default VariantPlanTable;
\ No newline at end of file
@@ -6,6 +6,11 @@ interface Group {
   name: string;
   order: number;
   videos?: any[];
+  minClips?: number;
+  maxClips?: number;
+  isOptional?: boolean;
+  inclusionProbability?: number;
+  durationBudget?: number | null;
 }
 
 interface GroupManagementProps {
@@ -19,8 +24,23 @@ interface GroupManagementProps {
 interface GroupFormData {
   name: string;
   order: number;
+  minClips: number;
+  maxClips: number;
+  isOptional: boolean;
+  inclusionProbability: number; // Percent in the form, 0-1 in the API
+  durationBudget: number | '';
 }
 
+const EMPTY_FORM: GroupFormData = {
+  name: '',
+  order: 0,
+  minClips: 1,
+  maxClips: 1,
+  isOptional: false,
+  inclusionProbability: 100,
+  durationBudget: ''
+};
+
 const GroupManagement: React.FC<GroupManagementProps> = ({
   projectId,
   groups,
@@ -31,25 +51,37 @@ const GroupManagement: React.FC<GroupManagementProps> = ({
   const [localGroups, setLocalGroups] = useState<Group[]>(groups);
   const [showCreateForm, setShowCreateForm] = useState(false);
   const [editingGroup, setEditingGroup] = useState<Group | null>(null);
-  const [formData, setFormData] = useState<GroupFormData>({ name: '', order: 0 });
+  const [formData, setFormData] = useState<GroupFormData>(EMPTY_FORM);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
   const resetForm = () => {
-    setFormData({ name: '', order: 0 });
+    setFormData(EMPTY_FORM);
     setEditingGroup(null);
     setShowCreateForm(false);
     setError(null);
   };
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const { name, value, type } = e.target;
+    const { name, value, type, checked } = e.target;
     setFormData(prev => ({
       ...prev,
-      [name]: type === 'number' ? parseInt(value) || 0 : value
+      [name]: type === 'checkbox'
+        ? checked
+        : name === 'durationBudget'
+          ? (value === '' ? '' : parseFloat(value) || 0)
+          : type === 'number' ? parseInt(value) || 0 : value
     }));
   };
 
+  const getMixingOptions = () => ({
+    minClips: formData.minClips,
+    maxClips: formData.maxClips,
+    isOptional: formData.isOptional,
+    inclusionProbability: formData.inclusionProbability / 100,
+    durationBudget: formData.durationBudget === '' ? null : formData.durationBudget
+  });
+
   const validateForm = (): boolean => {
     if (!formData.name.trim()) {
       setError('Group name is required');
@@ -61,6 +93,21 @@ const GroupManagement: React.FC<GroupManagementProps> = ({
       return false;
     }
 
+    if (formData.minClips < 1 || formData.maxClips < formData.minClips) {
+      setError('Clips per output must be at least 1, with max not below min');
+      return false;
+    }
+
+    if (formData.isOptional && (formData.inclusionProbability <= 0 || formData.inclusionProbability > 100)) {
+      setError('Inclusion probability must be between 1 and 100%');
+      return false;
+    }
+
+    if (formData.durationBudget !== '' && formData.durationBudget <= 0) {
+      setError('Duration budget must be a positive number of seconds');
+      return false;
+    }
+
     // Check for duplicate names (excluding current editing group)
     const duplicateName = localGroups.some(group =>
       group.name.toLowerCase() === formData.name.toLowerCase() &&
@@ -84,7 +131,8 @@ const GroupManagement: React.FC<GroupManagementProps> = ({
       const response = await apiClient.createGroup(
         projectId,
         formData.name.trim(),
-        formData.order
+        formData.order,
+        getMixingOptions()
       );
 
       if (response.success) {
@@ -111,14 +159,15 @@ const GroupManagement: React.FC<GroupManagementProps> = ({
     try {
       const response = await apiClient.updateGroup(editingGroup.id, {
         name: formData.name.trim(),
-        order: formData.order
+        order: formData.order,
+        ...getMixingOptions()
       });
 
       if (response.success) {
         const updatedGroups = localGroups
           .map(group =>
             group.id === editingGroup.id
-              ? { ...group, name: formData.name.trim(), order: formData.order }
+              ? { ...group, name: formData.name.trim(), order: formData.order, ...getMixingOptions() }
               : group
           )
           .sort((a, b) => a.order - b.order);
@@ -163,7 +212,15 @@ const GroupManagement: React.FC<GroupManagementProps> = ({
 
   const startEdit = (group: Group) => {
     setEditingGroup(group);
-    setFormData({ name: group.name, order: group.order });
+    setFormData({
+      name: group.name,
+      order: group.order,
+      minClips: group.minClips ?? 1,
+      maxClips: group.maxClips ?? 1,
+      isOptional: group.isOptional ?? false,
+      inclusionProbability: Math.round((group.inclusionProbability ?? 1) * 100),
+      durationBudget: group.durationBudget ?? ''
+    });
     setShowCreateForm(true);
   };
 
@@ -185,7 +242,7 @@ const GroupManagement: React.FC<GroupManagementProps> = ({
 
     const group = sortedGroups[currentIndex];
     setEditingGroup(group);
-    setFormData({ name: group.name, order: newOrder });
+    setFormData(prev => ({ ...prev, name: group.name, order: newOrder }));
     handleUpdateGroup();
   };
 
@@ -255,6 +312,86 @@ const GroupManagement: React.FC<GroupManagementProps> = ({
                     placeholder="Group order (0, 1, 2...)"
                   />
                 </div>
+
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <label htmlFor="minClips" className="block text-sm font-medium text-gray-700">
+                      Min Clips
+                    </label>
+                    <input
+                      type="number"
+                      id="minClips"
+                      name="minClips"
+                      value={formData.minClips}
+                      onChange={handleInputChange}
+                      min="1"
+                      className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                    />
+                  </div>
+                  <div>
+                    <label htmlFor="maxClips" className="block text-sm font-medium text-gray-700">
+                      Max Clips
+                    </label>
+                    <input
+                      type="number"
+                      id="maxClips"
+                      name="maxClips"
+                      value={formData.maxClips}
+                      onChange={handleInputChange}
+                      min={formData.minClips}
+                      className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                    />
+                  </div>
+                </div>
+
+                <div className="flex items-center">
+                  <input
+                    type="checkbox"
+                    id="isOptional"
+                    name="isOptional"
+                    checked={formData.isOptional}
+                    onChange={handleInputChange}
+                    className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+                  />
+                  <label htmlFor="isOptional" className="ml-2 text-sm text-gray-700">
+                    Optional group
+                  </label>
+                </div>
+
+                {formData.isOptional && (
+                  <div>
+                    <label htmlFor="inclusionProbability" className="block text-sm font-medium text-gray-700">
+                      Inclusion Probability (%)
+                    </label>
+                    <input
+                      type="number"
+                      id="inclusionProbability"
+                      name="inclusionProbability"
+                      value={formData.inclusionProbability}
+                      onChange={handleInputChange}
+                      min="1"
+                      max="100"
+                      className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                    />
+                  </div>
+                )}
+
+                <div>
+                  <label htmlFor="durationBudget" className="block text-sm font-medium text-gray-700">
+                    Duration Budget (seconds)
+                  </label>
+                  <input
+                    type="number"
+                    id="durationBudget"
+                    name="durationBudget"
+                    value={formData.durationBudget}
+                    onChange={handleInputChange}
+                    min="0.5"
+                    step="0.5"
+                    className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                    placeholder="Optional - used with fixed duration"
+                  />
+                </div>
               </div>
 
               <div className="flex items-center justify-end mt-4 space-x-3">
@@ -327,6 +464,9 @@ const GroupManagement: React.FC<GroupManagementProps> = ({
                           <h4 className="text-sm font-medium text-gray-900">{group.name}</h4>
                           <p className="text-xs text-gray-500">
                             Order: {group.order} • {group.videos?.length || 0} videos
+                            {(group.maxClips ?? 1) > 1 && ` • ${group.minClips ?? 1}-${group.maxClips} clips`}
+                            {group.isOptional && ` • optional ${Math.round((group.inclusionProbability ?? 1) * 100)}%`}
+                            {group.durationBudget ? ` • ${group.durationBudget}s` : ''}
                           </p>
                         </div>
                       </div>
@@ -7,6 +7,9 @@ import JobMonitor from '../processing/JobMonitor';
 import ProcessingSettings, { MixingSettings } from '../processing/ProcessingSettings';
 import VoiceOverUpload from '../processing/VoiceOverUpload';
 import VoiceOverMode from '../processing/VoiceOverMode';
+import OrderingRules from '../processing/OrderingRules';
+import AspectFillPreview, { FillMode, FILL_MODE_OPTIONS } from '../processing/AspectFillPreview';
+import SceneSplitter from '../videos/SceneSplitter';
 import { VideoGroupManager } from '../groups/VideoGroupManager';
 import apiClient from '../../utils/api/client';
 import ErrorBoundary from '../common/ErrorBoundary';
@@ -27,6 +30,17 @@ interface Video {
   thumbnailUrl?: string | null;
   projectId: string;
   groupId?: string | null;
+  pinPosition?: 'first' | 'last' | 'index' | null;
+  pinIndex?: number | null;  // 0-based, only used with pinPosition = index
+  subtitleFile?: string | null; // Uploaded SRT/VTT, stored as SRT
+  subtitleCues?: number | null;
+  isImage?: boolean; // Still image - duration is how long it is shown
+  fillMode?: FillMode | null; // Overrides the job's fill mode
+  focalX?: number | null; // 0-1, smart crop only
+  focalY?: number | null;
+  allowMirror?: boolean; // May be flipped horizontally by micro-variations
+  sourceStart?: number | null; // Virtual clip split from a longer upload - seconds of the shared file
+  sourceEnd?: number | null;
   uploadedAt: string;  // Changed from createdAt
   status?: 'READY' | 'PROCESSING' | 'FAILED';
   group?: {
@@ -79,6 +93,7 @@ const ProjectDetail: React.FC = () => {
   const [editingGroup, setEditingGroup] = useState<Group | null>(null);
   const [mixingSettings, setMixingSettings] = useState<MixingSettings | null>(null);
   const [voiceOverFiles, setVoiceOverFiles] = useState<any[]>([]);
+  const [splittingVideo, setSplittingVideo] = useState<Video | null>(null);
 
   // Store previous speedMixing state when entering voice over mode
   const previousSpeedMixingRef = useRef<boolean>(false);
@@ -497,7 +512,7 @@ const ProjectDetail: React.FC = () => {
         }
       } else {
         const { showProcessingError } = await import('../../services/notifications');
-        showProcessingError(error.response?.data?.message || 'An error occurred while starting processing');
+        showProcessingError(error.response?.data?.error || error.response?.data?.message || 'An error occurred while starting processing');
       }
     }
   };
@@ -526,6 +541,110 @@ const ProjectDetail: React.FC = () => {
     }
   };
 
+  const handlePinChange = async (videoId: string, value: string) => {
+    // value is '', 'first', 'last' or a 0-based slot number
+    const position = value === '' ? null : value === 'first' || value === 'last' ? value : 'index';
+    const index = position === 'index' ? parseInt(value, 10) : undefined;
+
+    try {
+      const response = await apiClient.setVideoPin(videoId, position, index);
+      if (response.success) {
+        setVideos(videos.map(v => v.id === videoId
+          ? { ...v, pinPosition: position, pinIndex: index ?? null }
+          : v
+        ));
+      } else {
+        alert(response.error || 'Failed to update clip pin');
+      }
+    } catch (error) {
+      console.error('Error updating clip pin:', error);
+      alert('An error occurred while updating the clip pin');
+    }
+  };
+
+  const handleImageDurationChange = async (videoId: string, duration: number) => {
+    try {
+      const response = await apiClient.setImageDuration(videoId, duration);
+      if (response.success) {
+        setVideos(videos.map(v => v.id === videoId ? { ...v, duration: response.data.duration } : v));
+      } else {
+        alert(response.error || 'Failed to update display duration');
+      }
+    } catch (error) {
+      console.error('Error updating display duration:', error);
+      alert('An error occurred while updating the display duration');
+    }
+  };
+
+  const handleFillChange = async (videoId: string, mode: FillMode | null, focalX?: number, focalY?: number) => {
+    try {
+      const response = await apiClient.setVideoFill(videoId, mode, focalX, focalY);
+      if (response.success) {
+        setVideos(videos.map(v => v.id === videoId
+          ? { ...v, fillMode: response.data.fillMode, focalX: response.data.focalX, focalY: response.data.focalY }
+          : v
+        ));
+      } else {
+        alert(response.error || 'Failed to update clip fill');
+      }
+    } catch (error) {
+      console.error('Error updating clip fill:', error);
+      alert('An error occurred while updating the clip fill');
+    }
+  };
+
+  const handleMirrorChange = async (videoId: string, allowMirror: boolean) => {
+    try {
+      const response = await apiClient.setVideoMirror(videoId, allowMirror);
+      if (response.success) {
+        setVideos(videos.map(v => v.id === videoId ? { ...v, allowMirror: response.data.allowMirror } : v));
+      } else {
+        alert(response.error || 'Failed to update clip mirroring');
+      }
+    } catch (error) {
+      console.error('Error updating clip mirroring:', error);
+      alert('An error occurred while updating clip mirroring');
+    }
+  };
+
+  const handleSubtitleUpload = async (videoId: string, e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const response = await apiClient.uploadSubtitles(videoId, file);
+      if (response.success) {
+        setVideos(videos.map(v => v.id === videoId
+          ? { ...v, subtitleFile: response.data.subtitleFile, subtitleCues: response.data.subtitleCues }
+          : v
+        ));
+      } else {
+        alert(response.error || 'Failed to upload subtitles');
+      }
+    } catch (error: any) {
+      console.error('Error uploading subtitles:', error);
+      alert(error.response?.data?.error || 'An error occurred while uploading subtitles');
+    }
+  };
+
+  const handleSubtitleRemove = async (videoId: string) => {
+    try {
+      const response = await apiClient.deleteSubtitles(videoId);
+      if (response.success) {
+        setVideos(videos.map(v => v.id === videoId ? { ...v, subtitleFile: null, subtitleCues: null } : v));
+      }
+    } catch (error) {
+      console.error('Error removing subtitles:', error);
+      alert('An error occurred while removing subtitles');
+    }
+  };
+
+  const getPinValue = (video: Video): string => {
+    if (video.pinPosition === 'index') return String(video.pinIndex ?? 0);
+    return video.pinPosition || '';
+  };
+
   const handleBulkDelete = async () => {
     if (selectedVideos.size === 0) return;
 
@@ -916,10 +1035,153 @@ const ProjectDetail: React.FC = () => {
                       </h4>
                       <div className="mt-2 text-xs text-gray-500 space-y-1">
                         <div>{formatFileSize(video.size)}</div>
-                        <div>{video.mimeType || 'Unknown format'}</div>
+                        <div>{video.isImage ? 'Image with pan/zoom motion' : video.mimeType || 'Unknown format'}</div>
+                        {video.sourceStart != null && video.sourceEnd != null && (
+                          <div>Scene {formatDuration(video.sourceStart)} - {formatDuration(video.sourceEnd)} of the source</div>
+                        )}
                         <div>{formatDate(video.uploadedAt)}</div>
                       </div>
 
+                      <div className="mt-3">
+                        <label className="block text-xs font-medium text-gray-700 mb-1">
+                          Pin Position
+                        </label>
+                        <select
+                          value={getPinValue(video)}
+                          onChange={(e) => handlePinChange(video.id, e.target.value)}
+                          className={`block w-full text-xs border-gray-300 rounded-md ${
+                            video.pinPosition ? 'bg-blue-50 text-blue-800' : ''
+                          }`}
+                        >
+                          <option value="">Not pinned</option>
+                          <option value="first">Always first (hook)</option>
+                          <option value="last">Always last (CTA)</option>
+                          {videos.map((_, index) => (
+                            <option key={index} value={String(index)}>
+                              Position {index + 1}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+
+                      {video.isImage && (
+                        <div className="mt-3">
+                          <label className="block text-xs font-medium text-gray-700 mb-1">
+                            Display Duration (s)
+                          </label>
+                          <input
+                            type="number"
+                            min="1"
+                            max="30"
+                            step="0.5"
+                            defaultValue={video.duration ?? 3}
+                            onBlur={(e) => {
+                              const duration = Number(e.target.value);
+                              if (duration > 0 && duration !== video.duration) {
+                                handleImageDurationChange(video.id, duration);
+                              }
+                            }}
+                            className="block w-full text-xs border-gray-300 rounded-md"
+                          />
+                        </div>
+                      )}
+
+                      <div className="mt-3">
+                        <label className="block text-xs font-medium text-gray-700 mb-1">
+                          Fill (9:16 preview)
+                        </label>
+                        <select
+                          value={video.fillMode || ''}
+                          onChange={(e) => handleFillChange(video.id, (e.target.value || null) as FillMode | null)}
+                          className={`block w-full text-xs border-gray-300 rounded-md ${
+                            video.fillMode ? 'bg-blue-50 text-blue-800' : ''
+                          }`}
+                        >
+                          <option value="">Job default</option>
+                          {FILL_MODE_OPTIONS.map(option => (
+                            <option key={option.value} value={option.value}>{option.label}</option>
+                          ))}
+                        </select>
+                        {video.fillMode && (
+                          <div className="mt-2 flex items-start space-x-2">
+                            <AspectFillPreview
+                              mode={video.fillMode}
+                              targetAspect={9 / 16}
+                              sourceAspect={video.width && video.height ? video.width / video.height : undefined}
+                              focalX={video.focalX ?? 0.5}
+                              focalY={video.focalY ?? 0.5}
+                              thumbnailUrl={video.thumbnailUrl}
+                              height={96}
+                            />
+                            {video.fillMode === 'smart-crop' && (
+                              <div className="flex-1 space-y-1 text-xs text-gray-600">
+                                <span>Focal point</span>
+                                <input
+                                  type="range"
+                                  min="0"
+                                  max="1"
+                                  step="0.05"
+                                  value={video.focalX ?? 0.5}
+                                  onChange={(e) => setVideos(videos.map(v => v.id === video.id ? { ...v, focalX: Number(e.target.value) } : v))}
+                                  onMouseUp={() => handleFillChange(video.id, 'smart-crop', video.focalX ?? 0.5, video.focalY ?? 0.5)}
+                                  onKeyUp={() => handleFillChange(video.id, 'smart-crop', video.focalX ?? 0.5, video.focalY ?? 0.5)}
+                                  className="w-full"
+                                  aria-label="Focal point left-right"
+                                />
+                                <input
+                                  type="range"
+                                  min="0"
+                                  max="1"
+                                  step="0.05"
+                                  value={video.focalY ?? 0.5}
+                                  onChange={(e) => setVideos(videos.map(v => v.id === video.id ? { ...v, focalY: Number(e.target.value) } : v))}
+                                  onMouseUp={() => handleFillChange(video.id, 'smart-crop', video.focalX ?? 0.5, video.focalY ?? 0.5)}
+                                  onKeyUp={() => handleFillChange(video.id, 'smart-crop', video.focalX ?? 0.5, video.focalY ?? 0.5)}
+                                  className="w-full"
+                                  aria-label="Focal point top-bottom"
+                                />
+                              </div>
+                            )}
+                          </div>
+                        )}
+                        <label className="mt-2 flex items-center text-xs text-gray-700">
+                          <input
+                            type="checkbox"
+                            checked={Boolean(video.allowMirror)}
+                            onChange={(e) => handleMirrorChange(video.id, e.target.checked)}
+                            className="h-3 w-3 text-blue-600 border-gray-300 rounded mr-1"
+                          />
+                          Can be mirrored (no text or logos in shot)
+                        </label>
+                      </div>
+
+                      <div className="mt-3">
+                        <label className="block text-xs font-medium text-gray-700 mb-1">
+                          Subtitles
+                        </label>
+                        {video.subtitleFile ? (
+                          <div className="flex items-center justify-between text-xs">
+                            <span className="text-green-700">{video.subtitleCues ?? 0} cues</span>
+                            <button
+                              onClick={() => handleSubtitleRemove(video.id)}
+                              className="text-red-600 hover:text-red-500"
+                            >
+                              Remove
+                            </button>
+                          </div>
+                        ) : (
+                          <label className="inline-block cursor-pointer text-xs text-blue-600 hover:text-blue-500">
+                            Upload SRT/VTT
+                            <input
+                              type="file"
+                              accept=".srt,.vtt"
+                              onChange={(e) => handleSubtitleUpload(video.id, e)}
+                              className="hidden"
+                            />
+                          </label>
+                        )}
+                      </div>
+
                       <div className="mt-3 flex items-center justify-between">
                         <button
                           onClick={() => {/* TODO: Open video preview */}}
@@ -927,6 +1189,14 @@ const ProjectDetail: React.FC = () => {
                         >
                           Preview
                         </button>
+                        {!video.isImage && video.sourceStart == null && (
+                          <button
+                            onClick={() => setSplittingVideo(video)}
+                            className="text-blue-600 hover:text-blue-500 text-sm"
+                          >
+                            Split scenes
+                          </button>
+                        )}
                         <button
                           onClick={() => handleDeleteVideo(video.id)}
                           className="text-red-600 hover:text-red-500 text-sm"
@@ -942,6 +1212,14 @@ const ProjectDetail: React.FC = () => {
           </div>
         )}
 
+        {splittingVideo && (
+          <SceneSplitter
+            video={splittingVideo}
+            onClose={() => setSplittingVideo(null)}
+            onSplit={loadProject}
+          />
+        )}
+
         {activeTab === 'upload' && (
           <div className="bg-white shadow rounded-lg p-6">
             <h2 className="text-lg font-semibold text-gray-900 mb-4">Upload Videos to Project</h2>
@@ -992,12 +1270,16 @@ const ProjectDetail: React.FC = () => {
                 <ProcessingSettings
                   key={`processing-${project.id}-${activeTab}`}
                   videoCount={videos.length}
+                  projectId={project.id}
                   onSettingsChange={setMixingSettings}
                   onStartProcessing={handleStartProcessing}
                 />
               </Suspense>
             </ErrorBoundary>
 
+            {/* Ordering Rules - Separate Card */}
+            <OrderingRules projectId={project.id} videos={videos} />
+
             {/* Voice Over Mode - Separate Card */}
             <VoiceOverMode
               isEnabled={mixingSettings?.audioMode === 'voiceover' || false}
@@ -15,6 +15,9 @@ interface OutputFile {
     fps?: number;
   };
   sourceFiles: string[];
+  loudnessLufs?: number | null; // Integrated loudness after normalization
+  truePeakDb?: number | null;
+  loudnessRange?: number | null;
   createdAt: string;
   thumbnailPath?: string;
   previewPath?: string;
@@ -117,6 +120,11 @@ const ResultsGallery: React.FC<ResultsGalleryProps> = ({
     return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
   };
 
+  const formatLoudness = (file: OutputFile): string => {
+    const peak = file.truePeakDb != null ? ` / ${file.truePeakDb.toFixed(1)} dBTP` : '';
+    return `${file.loudnessLufs!.toFixed(1)} LUFS${peak}`;
+  };
+
   const sortFiles = (files: OutputFile[]): OutputFile[] => {
     const sorted = [...files].sort((a, b) => {
       let aValue: any, bValue: any;
@@ -340,6 +348,9 @@ const ResultsGallery: React.FC<ResultsGalleryProps> = ({
                           {file.metadata.resolution && (
                             <div>{file.metadata.resolution}</div>
                           )}
+                          {file.loudnessLufs != null && (
+                            <div>{formatLoudness(file)}</div>
+                          )}
                         </div>
                       </div>
                     </div>
@@ -366,6 +377,7 @@ const ResultsGallery: React.FC<ResultsGalleryProps> = ({
                           <div className="text-xs text-gray-500">
                             {formatFileSize(file.size)} • {formatDuration(file.duration)}
                             {file.metadata.resolution && ` • ${file.metadata.resolution}`}
+                            {file.loudnessLufs != null && ` • ${formatLoudness(file)}`}
                           </div>
                         </div>
                         <button
@@ -463,6 +475,15 @@ const ResultsGallery: React.FC<ResultsGalleryProps> = ({
                           <span className="ml-2 text-gray-600">{selectedFile.metadata.fps} fps</span>
                         </div>
                       )}
+                      {selectedFile.loudnessLufs != null && (
+                        <div>
+                          <span className="font-medium text-gray-700">Loudness:</span>
+                          <span className="ml-2 text-gray-600">
+                            {formatLoudness(selectedFile)}
+                            {selectedFile.loudnessRange != null && `, ${selectedFile.loudnessRange.toFixed(1)} LU range`}
+                          </span>
+                        </div>
+                      )}
                       <div>
                         <span className="font-medium text-gray-700">Created:</span>
                         <span className="ml-2 text-gray-600">
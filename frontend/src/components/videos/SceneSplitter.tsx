@@ -0,0 +1,228 @@
+import React, { useState } from 'react';
+import apiClient from '../../utils/api/client';
+
+interface SceneSegment {
+  start: number; // Seconds of the source
+  end: number;
+  included: boolean;
+}
+
+interface SceneSplitterProps {
+  video: {
+    id: string;
+    originalName: string;
+    duration?: number;
+  };
+  onClose: () => void;
+  onSplit: () => void;
+}
+
+const formatTime = (seconds: number): string => {
+  const mins = Math.floor(seconds / 60);
+  const secs = (seconds % 60).toFixed(1).padStart(4, '0');
+  return `${mins}:${secs}`;
+};
+
+/**
+ * Detect scenes in a long upload, review the proposed clips and create them
+ * as virtual ranges of the same file or as separately cut files
+ */
+const SceneSplitter: React.FC<SceneSplitterProps> = ({ video, onClose, onSplit }) => {
+  const [threshold, setThreshold] = useState(0.3);
+  const [minClipLength, setMinClipLength] = useState(2);
+  const [segments, setSegments] = useState<SceneSegment[]>([]);
+  const [mode, setMode] = useState<'virtual' | 'physical'>('virtual');
+  const [groupName, setGroupName] = useState('');
+  const [detecting, setDetecting] = useState(false);
+  const [splitting, setSplitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleDetect = async () => {
+    try {
+      setDetecting(true);
+      setError(null);
+      const response = await apiClient.detectScenes(video.id, threshold, minClipLength);
+      setSegments((response.data?.segments || []).map((segment: { start: number; end: number }) => ({ ...segment, included: true })));
+    } catch (err: any) {
+      setError(err.response?.data?.error || 'Failed to detect scenes');
+    } finally {
+      setDetecting(false);
+    }
+  };
+
+  // Drop the split point between a segment and the next one
+  const handleMerge = (index: number) => {
+    setSegments(segments
+      .map((segment, i) => i === index ? { ...segment, end: segments[index + 1].end } : segment)
+      .filter((_, i) => i !== index + 1));
+  };
+
+  const handleToggle = (index: number) => {
+    setSegments(segments.map((segment, i) => i === index ? { ...segment, included: !segment.included } : segment));
+  };
+
+  const handleSplit = async () => {
+    const selected = segments.filter(segment => segment.included).map(({ start, end }) => ({ start, end }));
+    try {
+      setSplitting(true);
+      setError(null);
+      await apiClient.splitScenes(video.id, selected, mode, groupName.trim() || undefined);
+      onSplit();
+      onClose();
+    } catch (err: any) {
+      setError(err.response?.data?.error || 'Failed to split video');
+    } finally {
+      setSplitting(false);
+    }
+  };
+
+  const selectedCount = segments.filter(segment => segment.included).length;
+
+  return (
+    <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+      <div className="relative top-20 mx-auto p-5 border w-full max-w-lg shadow-lg rounded-md bg-white">
+        <h3 className="text-lg font-medium text-gray-900 mb-1">Split Scenes</h3>
+        <p className="text-sm text-gray-500 mb-4 truncate" title={video.originalName}>
+          {video.originalName}{video.duration ? ` (${formatTime(video.duration)})` : ''}
+        </p>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-1">
+              Sensitivity threshold: {threshold.toFixed(2)}
+            </label>
+            <input
+              type="range"
+              min="0.05"
+              max="0.9"
+              step="0.05"
+              value={threshold}
+              onChange={(e) => setThreshold(Number(e.target.value))}
+              className="w-full"
+            />
+            <p className="text-xs text-gray-500">Lower finds more cuts</p>
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-1">
+              Minimum clip length (s)
+            </label>
+            <input
+              type="number"
+              min="0.5"
+              max="60"
+              step="0.5"
+              value={minClipLength}
+              onChange={(e) => setMinClipLength(Number(e.target.value))}
+              className="block w-full text-sm border-gray-300 rounded-md"
+            />
+          </div>
+        </div>
+
+        <button
+          onClick={handleDetect}
+          disabled={detecting || splitting}
+          className="mt-4 px-3 py-1.5 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+        >
+          {detecting ? 'Detecting...' : segments.length > 0 ? 'Detect again' : 'Detect scenes'}
+        </button>
+
+        {segments.length > 0 && (
+          <div className="mt-4">
+            <h4 className="text-sm font-medium text-gray-700 mb-2">
+              Proposed clips ({selectedCount} of {segments.length} selected)
+            </h4>
+            <ul className="max-h-56 overflow-y-auto border border-gray-200 rounded-md divide-y divide-gray-200">
+              {segments.map((segment, index) => (
+                <li key={`${segment.start}-${segment.end}`} className="flex items-center justify-between px-3 py-1.5 text-xs">
+                  <label className="flex items-center space-x-2">
+                    <input
+                      type="checkbox"
+                      checked={segment.included}
+                      onChange={() => handleToggle(index)}
+                      className="rounded border-gray-300"
+                    />
+                    <span>
+                      Scene {index + 1}: {formatTime(segment.start)} - {formatTime(segment.end)}
+                      <span className="text-gray-500"> ({(segment.end - segment.start).toFixed(1)}s)</span>
+                    </span>
+                  </label>
+                  {index < segments.length - 1 && (
+                    <button
+                      onClick={() => handleMerge(index)}
+                      className="text-blue-600 hover:text-blue-500"
+                    >
+                      Merge with next
+                    </button>
+                  )}
+                </li>
+              ))}
+            </ul>
+
+            <div className="mt-4 space-y-2 text-sm">
+              <label className="flex items-start space-x-2">
+                <input
+                  type="radio"
+                  checked={mode === 'virtual'}
+                  onChange={() => setMode('virtual')}
+                  className="mt-1"
+                />
+                <span>
+                  Virtual clips
+                  <span className="block text-xs text-gray-500">Ranges of this file - instant, no extra storage</span>
+                </span>
+              </label>
+              <label className="flex items-start space-x-2">
+                <input
+                  type="radio"
+                  checked={mode === 'physical'}
+                  onChange={() => setMode('physical')}
+                  className="mt-1"
+                />
+                <span>
+                  Cut files
+                  <span className="block text-xs text-gray-500">Each clip re-encoded into its own MP4</span>
+                </span>
+              </label>
+            </div>
+
+            <div className="mt-4">
+              <label className="block text-xs font-medium text-gray-700 mb-1">
+                New group (optional)
+              </label>
+              <input
+                type="text"
+                value={groupName}
+                onChange={(e) => setGroupName(e.target.value)}
+                placeholder="Keep clips in the current group"
+                className="block w-full text-sm border-gray-300 rounded-md"
+              />
+            </div>
+          </div>
+        )}
+
+        {error && (
+          <div className="mt-4 text-sm text-red-600">{error}</div>
+        )}
+
+        <div className="mt-6 flex justify-end space-x-3">
+          <button
+            onClick={onClose}
+            disabled={splitting}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSplit}
+            disabled={selectedCount === 0 || splitting || detecting}
+            className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+          >
+            {splitting ? (mode === 'physical' ? 'Cutting...' : 'Creating...') : `Create ${selectedCount} clips`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SceneSplitter;
\ No newline at end of file
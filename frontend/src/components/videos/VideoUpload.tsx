@@ -12,6 +12,8 @@ interface UploadedFile {
   error?: string;
 }
 
+const IMAGE_TYPES = ['image/png', 'image/jpeg'];
+
 interface VideoUploadProps {
   projectId?: string;
   embedded?: boolean;
@@ -24,6 +26,7 @@ const VideoUpload: React.FC<VideoUploadProps> = ({ projectId, embedded = false,
   const [isUploading, setIsUploading] = useState(false);
   const [selectedProject, setSelectedProject] = useState(projectId || '');
   const [projects, setProjects] = useState<any[]>([]);
+  const [imageDuration, setImageDuration] = useState(3); // Seconds each still is shown in an output
   const fileInputRef = useRef<HTMLInputElement>(null);
   const navigate = useNavigate();
   const location = useLocation();
@@ -57,9 +60,9 @@ const VideoUpload: React.FC<VideoUploadProps> = ({ projectId, embedded = false,
 
   const validateFile = (file: File): string | null => {
     // Check file type
-    const allowedTypes = ['video/mp4', 'video/avi', 'video/mov', 'video/wmv', 'video/webm'];
+    const allowedTypes = ['video/mp4', 'video/avi', 'video/mov', 'video/wmv', 'video/webm', ...IMAGE_TYPES];
     if (!allowedTypes.includes(file.type)) {
-      return 'Unsupported file type. Please upload MP4, AVI, MOV, WMV, or WebM files.';
+      return 'Unsupported file type. Please upload MP4, AVI, MOV, WMV, WebM, PNG or JPEG files.';
     }
 
     // Check file size (max 500MB)
@@ -72,6 +75,10 @@ const VideoUpload: React.FC<VideoUploadProps> = ({ projectId, embedded = false,
   };
 
   const generatePreview = (file: File): Promise<string> => {
+    if (IMAGE_TYPES.includes(file.type)) {
+      return Promise.resolve(URL.createObjectURL(file));
+    }
+
     return new Promise((resolve) => {
       const video = document.createElement('video');
       const canvas = document.createElement('canvas');
@@ -172,6 +179,9 @@ const VideoUpload: React.FC<VideoUploadProps> = ({ projectId, embedded = false,
       const formData = new FormData();
       formData.append('videos', uploadFile.file);
       formData.append('projectId', selectedProject);
+      if (IMAGE_TYPES.includes(uploadFile.file.type)) {
+        formData.append('imageDuration', String(imageDuration));
+      }
 
       // Use XMLHttpRequest for progress tracking
       const xhr = new XMLHttpRequest();
@@ -372,20 +382,37 @@ const VideoUpload: React.FC<VideoUploadProps> = ({ projectId, embedded = false,
                 </button>
               </p>
               <p className="text-sm text-gray-500 mt-2">
-                Supports MP4, AVI, MOV, WMV, WebM up to 500MB each
+                Supports MP4, AVI, MOV, WMV, WebM up to 500MB each, plus PNG and JPEG stills
               </p>
             </div>
             <input
               ref={fileInputRef}
               type="file"
               multiple
-              accept="video/*"
+              accept="video/*,image/png,image/jpeg"
               onChange={handleFileSelect}
               className="hidden"
             />
           </div>
         </div>
 
+        {/* Stills are shown for a fixed time with pan/zoom motion picked per output */}
+        {files.some(f => f.status === 'pending' && IMAGE_TYPES.includes(f.file.type)) && (
+          <div className="bg-white shadow rounded-lg p-4 mb-6 flex items-center space-x-3">
+            <label className="text-sm font-medium text-gray-700">Show each image for</label>
+            <input
+              type="number"
+              min="1"
+              max="30"
+              step="0.5"
+              value={imageDuration}
+              onChange={(e) => setImageDuration(Number(e.target.value))}
+              className="w-20 px-2 py-1 text-sm border border-gray-300 rounded-md"
+            />
+            <span className="text-sm text-gray-500">seconds (can be changed per image later)</span>
+          </div>
+        )}
+
         {/* Minimum Videos Warning */}
         {files.length === 1 && (
           <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 mb-4">
@@ -6,6 +6,15 @@ const API_BASE_URL = process.env.REACT_APP_API_BASE_URL ||
   (process.env.NODE_ENV === 'production' ? '/api' : 'http://localhost:3002/api');
 const API_TIMEOUT = parseInt(process.env.REACT_APP_API_TIMEOUT || '10000');
 
+// Per-group mixing options (clip count range, optional inclusion, fixed-duration budget)
+export interface GroupMixingOptions {
+  minClips?: number;
+  maxClips?: number;
+  isOptional?: boolean;
+  inclusionProbability?: number;
+  durationBudget?: number | null;
+}
+
 class ApiClient {
   private client: AxiosInstance;
 
@@ -99,6 +108,27 @@ class ApiClient {
     return this.unwrapResponse(response);
   }
 
+  // Metadata profile endpoints - built-in presets, global profiles and the user's own
+  async getMetadataProfiles() {
+    const response = await this.client.get('/v1/metadata-profiles');
+    return response.data;
+  }
+
+  async createMetadataProfile(profile: any) {
+    const response = await this.client.post('/v1/metadata-profiles', profile);
+    return response.data;
+  }
+
+  async updateMetadataProfile(profileId: string, profile: any) {
+    const response = await this.client.put(`/v1/metadata-profiles/${profileId}`, profile);
+    return response.data;
+  }
+
+  async deleteMetadataProfile(profileId: string) {
+    const response = await this.client.delete(`/v1/metadata-profiles/${profileId}`);
+    return response.data;
+  }
+
   // Project endpoints
   async getProjects(page: number = 1, limit: number = 10) {
     const response = await this.client.get('/v1/projects', {
@@ -135,6 +165,93 @@ class ApiClient {
     return response.data;
   }
 
+  async getOrderingRules(projectId: string) {
+    const response = await this.client.get(`/v1/projects/${projectId}/ordering-rules`);
+    return response.data;
+  }
+
+  async updateOrderingRules(projectId: string, rules: Array<{ type: string; clipIds: string[] }>) {
+    const response = await this.client.put(`/v1/projects/${projectId}/ordering-rules`, { rules });
+    return response.data;
+  }
+
+  async getColorLuts(projectId: string) {
+    const response = await this.client.get(`/v1/projects/${projectId}/luts`);
+    return response.data;
+  }
+
+  async uploadColorLut(projectId: string, file: File) {
+    const formData = new FormData();
+    formData.append('lut', file);
+    const response = await this.client.post(`/v1/projects/${projectId}/luts`, formData, {
+      headers: { 'Content-Type': 'multipart/form-data' }
+    });
+    return response.data;
+  }
+
+  async deleteColorLut(projectId: string, lutId: string) {
+    const response = await this.client.delete(`/v1/projects/${projectId}/luts/${lutId}`);
+    return response.data;
+  }
+
+  async getMusicTracks(projectId: string) {
+    const response = await this.client.get(`/v1/projects/${projectId}/music`);
+    return response.data;
+  }
+
+  async uploadMusicTrack(projectId: string, file: File) {
+    const formData = new FormData();
+    formData.append('music', file);
+    const response = await this.client.post(`/v1/projects/${projectId}/music`, formData, {
+      headers: { 'Content-Type': 'multipart/form-data' }
+    });
+    return response.data;
+  }
+
+  async deleteMusicTrack(projectId: string, trackId: string) {
+    const response = await this.client.delete(`/v1/projects/${projectId}/music/${trackId}`);
+    return response.data;
+  }
+
+  async getLogos(projectId: string) {
+    const response = await this.client.get(`/v1/projects/${projectId}/logos`);
+    return response.data;
+  }
+
+  async uploadLogo(projectId: string, file: File) {
+    const formData = new FormData();
+    formData.append('logo', file);
+    const response = await this.client.post(`/v1/projects/${projectId}/logos`, formData, {
+      headers: { 'Content-Type': 'multipart/form-data' }
+    });
+    return response.data;
+  }
+
+  async deleteLogo(projectId: string, logoId: string) {
+    const response = await this.client.delete(`/v1/projects/${projectId}/logos/${logoId}`);
+    return response.data;
+  }
+
+  async getBumpers(projectId: string) {
+    const response = await this.client.get(`/v1/projects/${projectId}/bumpers`);
+    return response.data;
+  }
+
+  async uploadBumper(projectId: string, file: File, kind: 'intro' | 'outro') {
+    const formData = new FormData();
+    formData.append('bumper', file);
+    formData.append('kind', kind);
+    const response = await this.client.post(`/v1/projects/${projectId}/bumpers`, formData, {
+      headers: { 'Content-Type': 'multipart/form-data' }
+    });
+    return response.data;
+  }
+
+  async deleteBumper(projectId: string, bumperId: string) {
+    const response = await this.client.delete(`/v1/projects/${projectId}/bumpers/${bumperId}`);
+    return response.data;
+  }
+
   // Video endpoints
   async uploadVideos(projectId: string, files: File[], groupId?: string) {
     const formData = new FormData();
@@ -182,10 +299,28 @@ class ApiClient {
     return response.data;
   }
 
-  async getCreditsEstimate(outputCount: number, settings: any) {
+  async planVariants(projectId: string, mixingSettings: any) {
+    const response = await this.client.post(`/v1/processing/plan/${projectId}`, {
+      settings: mixingSettings
+    });
+    return response.data;
+  }
+
+  async renderPreview(projectId: string, mixingSettings: any, variantIndex: number) {
+    const response = await this.client.post(`/v1/processing/plan/${projectId}/preview`, {
+      settings: mixingSettings,
+      variantIndex
+    }, {
+      responseType: 'blob'
+    });
+    return response.data;
+  }
+
+  async getCreditsEstimate(outputCount: number, settings: any, projectId?: string) {
     const response = await this.client.post('/v1/processing/credits-estimate', {
       outputCount,
-      settings
+      settings,
+      projectId
     });
     return this.unwrapResponse(response);
   }
@@ -224,12 +359,63 @@ class ApiClient {
     return response.data;
   }
 
+  async downloadSubtitles(outputId: string) {
+    const response = await this.client.get(`/v1/processing/download/${outputId}/subtitles`, {
+      responseType: 'blob'
+    });
+    return response.data;
+  }
+
   // Video-Group Management
   async assignVideoToGroup(videoId: string, groupId: string | null) {
     const response = await this.client.patch(`/v1/videos/${videoId}/group`, { groupId });
     return response.data;
   }
 
+  async uploadSubtitles(videoId: string, file: File) {
+    const formData = new FormData();
+    formData.append('subtitles', file);
+    const response = await this.client.post(`/v1/videos/${videoId}/subtitles`, formData, {
+      headers: { 'Content-Type': 'multipart/form-data' }
+    });
+    return response.data;
+  }
+
+  async deleteSubtitles(videoId: string) {
+    const response = await this.client.delete(`/v1/videos/${videoId}/subtitles`);
+    return response.data;
+  }
+
+  async setVideoPin(videoId: string, position: 'first' | 'last' | 'index' | null, index?: number) {
+    const response = await this.client.patch(`/v1/videos/${videoId}/pin`, { position, index });
+    return response.data;
+  }
+
+  async setImageDuration(videoId: string, duration: number) {
+    const response = await this.client.patch(`/v1/videos/${videoId}/duration`, { duration });
+    return response.data;
+  }
+
+  async setVideoFill(videoId: string, mode: string | null, focalX?: number, focalY?: number) {
+    const response = await this.client.patch(`/v1/videos/${videoId}/fill`, { mode, focalX, focalY });
+    return response.data;
+  }
+
+  async setVideoMirror(videoId: string, allowMirror: boolean) {
+    const response = await this.client.patch(`/v1/videos/${videoId}/mirror`, { allowMirror });
+    return response.data;
+  }
+
+  async detectScenes(videoId: string, threshold: number, minClipLength: number) {
+    const response = await this.client.post(`/v1/videos/${videoId}/scenes/detect`, { threshold, minClipLength });
+    return response.data;
+  }
+
+  async splitScenes(videoId: string, segments: Array<{ start: number; end: number }>, mode: 'virtual' | 'physical', groupName?: string) {
+    const response = await this.client.post(`/v1/videos/${videoId}/scenes/split`, { segments, mode, groupName });
+    return response.data;
+  }
+
   async bulkAssignVideosToGroup(videoIds: string[], groupId: string | null) {
     const response = await this.client.patch('/v1/videos/bulk-assign-group', {
       videoIds,
@@ -239,16 +425,17 @@ class ApiClient {
   }
 
   // Group Management
-  async createGroup(projectId: string, name: string, order?: number) {
+  async createGroup(projectId: string, name: string, order?: number, options: GroupMixingOptions = {}) {
     const response = await this.client.post('/v1/groups', {
       projectId,
       name,
-      order
+      order,
+      ...options
     });
     return response.data;
   }
 
-  async updateGroup(groupId: string, data: { name?: string; order?: number }) {
+  async updateGroup(groupId: string, data: { name?: string; order?: number } & GroupMixingOptions) {
     const response = await this.client.patch(`/v1/groups/${groupId}`, data);
     return response.data;
   }
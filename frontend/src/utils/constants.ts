@@ -28,6 +28,8 @@ export const FILE_UPLOAD = {
     'video/wmv',
     'video/flv',
     'video/webm',
+    'image/png',
+    'image/jpeg',
   ],
 };
 
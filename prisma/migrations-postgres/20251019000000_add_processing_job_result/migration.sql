@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "processing_jobs" ADD COLUMN "result" TEXT;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "videos" ADD COLUMN "pin_position" TEXT,
+ADD COLUMN "pin_index" INTEGER;
\ No newline at end of file
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "projects" ADD COLUMN "ordering_rules" TEXT;
\ No newline at end of file
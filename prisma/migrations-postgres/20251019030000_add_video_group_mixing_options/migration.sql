@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "video_groups" ADD COLUMN "min_clips" INTEGER NOT NULL DEFAULT 1,
+ADD COLUMN "max_clips" INTEGER NOT NULL DEFAULT 1,
+ADD COLUMN "is_optional" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN "inclusion_probability" DOUBLE PRECISION NOT NULL DEFAULT 1,
+ADD COLUMN "duration_budget" DOUBLE PRECISION;
\ No newline at end of file
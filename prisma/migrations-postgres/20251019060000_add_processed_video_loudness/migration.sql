@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "processed_videos" ADD COLUMN "loudness_lufs" DOUBLE PRECISION,
+ADD COLUMN "true_peak_db" DOUBLE PRECISION,
+ADD COLUMN "loudness_range" DOUBLE PRECISION;
\ No newline at end of file
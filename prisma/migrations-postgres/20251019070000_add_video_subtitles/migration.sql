@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "videos" ADD COLUMN "subtitle_file" TEXT,
+ADD COLUMN "subtitle_cue_count" INTEGER;
\ No newline at end of file
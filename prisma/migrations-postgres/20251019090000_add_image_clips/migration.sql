@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "videos" ADD COLUMN "is_image" BOOLEAN NOT NULL DEFAULT false;
\ No newline at end of file
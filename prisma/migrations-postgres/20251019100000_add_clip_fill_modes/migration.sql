@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "videos" ADD COLUMN "fill_mode" TEXT,
+ADD COLUMN "focal_x" DOUBLE PRECISION,
+ADD COLUMN "focal_y" DOUBLE PRECISION;
\ No newline at end of file
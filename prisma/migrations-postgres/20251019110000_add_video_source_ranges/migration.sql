@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "videos" ADD COLUMN "source_start" DOUBLE PRECISION,
+ADD COLUMN "source_end" DOUBLE PRECISION;
\ No newline at end of file
@@ -0,0 +1,16 @@
+-- CreateTable
+CREATE TABLE "bumper_assets" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "kind" TEXT NOT NULL,
+    "filename" TEXT NOT NULL,
+    "duration" DOUBLE PRECISION NOT NULL,
+    "has_audio" BOOLEAN NOT NULL DEFAULT true,
+    "project_id" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "bumper_assets_pkey" PRIMARY KEY ("id")
+);
+
+-- AddForeignKey
+ALTER TABLE "bumper_assets" ADD CONSTRAINT "bumper_assets_project_id_fkey" FOREIGN KEY ("project_id") REFERENCES "projects"("id") ON DELETE CASCADE ON UPDATE CASCADE;
\ No newline at end of file
@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "metadata_profiles" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "encoder" TEXT,
+    "software" TEXT,
+    "comment" TEXT,
+    "handler_name" TEXT,
+    "creation_time" TEXT NOT NULL DEFAULT 'now',
+    "creation_window_days" INTEGER NOT NULL DEFAULT 30,
+    "user_id" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "metadata_profiles_pkey" PRIMARY KEY ("id")
+);
+
+-- AddForeignKey
+ALTER TABLE "metadata_profiles" ADD CONSTRAINT "metadata_profiles_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
\ No newline at end of file
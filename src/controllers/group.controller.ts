@@ -40,12 +40,19 @@ export class GroupController {
         groupOrder = lastGroup ? lastGroup.order + 1 : 1;
       }
 
+      const mixingOptions = this.parseMixingOptions(req.body);
+      if (mixingOptions.error) {
+        ResponseHelper.error(res, mixingOptions.error);
+        return;
+      }
+
       // Create the group
       const group = await prisma.videoGroup.create({
         data: {
           name,
           order: groupOrder,
-          projectId
+          projectId,
+          ...mixingOptions.data
         }
       });
 
@@ -80,12 +87,19 @@ export class GroupController {
         return;
       }
 
+      const mixingOptions = this.parseMixingOptions(req.body, group);
+      if (mixingOptions.error) {
+        ResponseHelper.error(res, mixingOptions.error);
+        return;
+      }
+
       // Update the group
       const updatedGroup = await prisma.videoGroup.update({
         where: { id: groupId },
         data: {
           ...(name && { name }),
-          ...(order !== undefined && { order })
+          ...(order !== undefined && { order }),
+          ...mixingOptions.data
         }
       });
 
@@ -223,4 +237,67 @@ export class GroupController {
       ResponseHelper.serverError(res, 'Failed to reorder groups');
     }
   }
+
+  /**
+   * Read per-group mixing options from a request body.
+   * Only fields present in the body are returned; current values fill in for cross-field checks.
+   */
+  private parseMixingOptions(
+    body: any,
+    current?: { minClips: number; maxClips: number }
+  ): { data: Record<string, unknown>; error?: string } {
+    const data: Record<string, unknown> = {};
+
+    if (body.minClips !== undefined) {
+      const minClips = Number(body.minClips);
+      if (!Number.isInteger(minClips) || minClips < 1) {
+        return { data, error: 'Minimum clips must be a whole number of at least 1' };
+      }
+      data.minClips = minClips;
+    }
+
+    if (body.maxClips !== undefined) {
+      const maxClips = Number(body.maxClips);
+      if (!Number.isInteger(maxClips) || maxClips < 1) {
+        return { data, error: 'Maximum clips must be a whole number of at least 1' };
+      }
+      data.maxClips = maxClips;
+    }
+
+    const minClips = (data.minClips as number | undefined) ?? current?.minClips ?? 1;
+    // Raising the minimum alone lifts the maximum with it
+    if (data.minClips !== undefined && data.maxClips === undefined && (current?.maxClips ?? 1) < minClips) {
+      data.maxClips = minClips;
+    }
+    const maxClips = (data.maxClips as number | undefined) ?? current?.maxClips ?? 1;
+    if (maxClips < minClips) {
+      return { data, error: `Maximum clips (${maxClips}) cannot be lower than minimum clips (${minClips})` };
+    }
+
+    if (body.isOptional !== undefined) {
+      data.isOptional = Boolean(body.isOptional);
+    }
+
+    if (body.inclusionProbability !== undefined) {
+      const probability = Number(body.inclusionProbability);
+      if (!Number.isFinite(probability) || probability <= 0 || probability > 1) {
+        return { data, error: 'Inclusion probability must be greater than 0 and at most 1' };
+      }
+      data.inclusionProbability = probability;
+    }
+
+    if (body.durationBudget !== undefined) {
+      if (body.durationBudget === null || body.durationBudget === '') {
+        data.durationBudget = null;
+      } else {
+        const budget = Number(body.durationBudget);
+        if (!Number.isFinite(budget) || budget <= 0) {
+          return { data, error: 'Duration budget must be a positive number of seconds' };
+        }
+        data.durationBudget = budget;
+      }
+    }
+
+    return { data };
+  }
 }
\ No newline at end of file
@@ -0,0 +1,163 @@
+import { Response } from 'express';
+import { prisma } from '@/utils/database';
+import { AuthenticatedRequest } from '@/middleware/auth.middleware';
+import { ResponseHelper } from '@/utils/response';
+import { BUILT_IN_METADATA_PROFILES, MetadataProfileService } from '@/services/metadata-profile.service';
+import logger from '@/utils/logger';
+
+const metadataProfileService = new MetadataProfileService();
+
+const ADMIN_ROLES = ['ADMIN', 'SUPER_ADMIN'];
+
+export class MetadataProfileController {
+  /**
+   * Profiles the user can pick - built-in presets, global profiles and their own
+   */
+  async getProfiles(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        ResponseHelper.unauthorized(res, 'User not authenticated');
+        return;
+      }
+
+      const profiles = await prisma.metadataProfile.findMany({
+        where: { OR: [{ userId }, { userId: null }] },
+        orderBy: { createdAt: 'asc' }
+      });
+
+      ResponseHelper.success(res, [
+        ...BUILT_IN_METADATA_PROFILES.map(profile => ({ ...profile, scope: 'built-in' })),
+        ...profiles.map((profile: any) => ({
+          ...metadataProfileService.toTags(profile),
+          scope: profile.userId ? 'user' : 'global'
+        }))
+      ]);
+    } catch (error) {
+      logger.error('Get metadata profiles error:', error);
+      ResponseHelper.serverError(res, 'Failed to get metadata profiles');
+    }
+  }
+
+  async createProfile(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        ResponseHelper.unauthorized(res, 'User not authenticated');
+        return;
+      }
+
+      const global = req.body.global === true;
+      if (global && !(await this.isAdmin(userId))) {
+        ResponseHelper.forbidden(res, 'Only admins can create global profiles');
+        return;
+      }
+
+      const { profile, error } = metadataProfileService.parseInput(req.body);
+      if (!profile) {
+        ResponseHelper.error(res, error || 'Invalid metadata profile');
+        return;
+      }
+
+      const created = await prisma.metadataProfile.create({
+        data: { ...profile, userId: global ? null : userId }
+      });
+
+      ResponseHelper.success(res, {
+        ...metadataProfileService.toTags(created),
+        scope: global ? 'global' : 'user'
+      }, 'Metadata profile created successfully', 201);
+    } catch (error) {
+      logger.error('Create metadata profile error:', error);
+      ResponseHelper.serverError(res, 'Failed to create metadata profile');
+    }
+  }
+
+  async updateProfile(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        ResponseHelper.unauthorized(res, 'User not authenticated');
+        return;
+      }
+
+      const existing = await this.findEditableProfile(req.params.profileId, userId);
+      if (!existing) {
+        ResponseHelper.notFound(res, 'Metadata profile not found');
+        return;
+      }
+
+      const { profile, error } = metadataProfileService.parseInput(req.body);
+      if (!profile) {
+        ResponseHelper.error(res, error || 'Invalid metadata profile');
+        return;
+      }
+
+      const updated = await prisma.metadataProfile.update({
+        where: { id: existing.id },
+        // Cleared tags are removed, not left as they were
+        data: {
+          ...profile,
+          encoder: profile.encoder ?? null,
+          software: profile.software ?? null,
+          comment: profile.comment ?? null,
+          handlerName: profile.handlerName ?? null
+        }
+      });
+
+      ResponseHelper.success(res, {
+        ...metadataProfileService.toTags(updated),
+        scope: updated.userId ? 'user' : 'global'
+      }, 'Metadata profile updated successfully');
+    } catch (error) {
+      logger.error('Update metadata profile error:', error);
+      ResponseHelper.serverError(res, 'Failed to update metadata profile');
+    }
+  }
+
+  async deleteProfile(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        ResponseHelper.unauthorized(res, 'User not authenticated');
+        return;
+      }
+
+      const existing = await this.findEditableProfile(req.params.profileId, userId);
+      if (!existing) {
+        ResponseHelper.notFound(res, 'Metadata profile not found');
+        return;
+      }
+
+      await prisma.metadataProfile.delete({
+        where: { id: existing.id }
+      });
+
+      ResponseHelper.success(res, null, 'Metadata profile deleted successfully');
+    } catch (error) {
+      logger.error('Delete metadata profile error:', error);
+      ResponseHelper.serverError(res, 'Failed to delete metadata profile');
+    }
+  }
+
+  /**
+   * The user's own profile, or a global one when the user is an admin. Built-in presets are never editable.
+   */
+  private async findEditableProfile(profileId: string, userId: string): Promise<any> {
+    const profile = await prisma.metadataProfile.findUnique({
+      where: { id: profileId }
+    });
+
+    if (!profile) return null;
+    if (profile.userId === userId) return profile;
+    return profile.userId === null && await this.isAdmin(userId) ? profile : null;
+  }
+
+  private async isAdmin(userId: string): Promise<boolean> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { role: true }
+    });
+    return Boolean(user && ADMIN_ROLES.includes(user.role));
+  }
+}
\ No newline at end of file
@@ -3,14 +3,45 @@ import { prisma } from '@/utils/database';
 import { AuthenticatedRequest } from '@/middleware/auth.middleware';
 import { ResponseHelper, createPagination } from '@/utils/response';
 import { VideoProcessingService } from '@/services/video-processing.service';
+import { AutoMixingService, GroupMixingMode, VideoClip, VideoGroup } from '@/services/auto-mixing.service';
+import { OrderingRule, OrderingRulesService } from '@/services/ordering-rules.service';
+import { TransitionService } from '@/services/transition.service';
+import { AUDIO_MODES, AudioMode, MusicBedService } from '@/services/music-bed.service';
+import { LoudnessService } from '@/services/loudness.service';
+import { TextOverlayService } from '@/services/text-overlay.service';
+import { SubtitleService } from '@/services/subtitle.service';
+import { WatermarkService } from '@/services/watermark.service';
+import { ImageClipService } from '@/services/image-clip.service';
+import { AspectFillService } from '@/services/aspect-fill.service';
+import { BumperService } from '@/services/bumper.service';
+import { SpeedRampService } from '@/services/speed-ramp.service';
+import { MicroVariationService } from '@/services/micro-variation.service';
+import { DurationFillService } from '@/services/duration-fill.service';
+import { MetadataProfileService } from '@/services/metadata-profile.service';
 import { JobStatus, ProjectStatus, TransactionType, VideoFormat, MixingMode, VideoQuality } from '@/types';
 import { DbHelper } from '@/utils/db-helper';
+import { generateSeed, normalizeSeed } from '@/utils/seeded-random';
 import logger from '@/utils/logger';
 import path from 'path';
 import fs from 'fs';
 import archiver from 'archiver';
 import { pipeline } from 'stream/promises';
 const videoProcessingService = new VideoProcessingService();
+const autoMixingService = new AutoMixingService();
+const orderingRulesService = new OrderingRulesService();
+const transitionService = new TransitionService();
+const musicBedService = new MusicBedService();
+const loudnessService = new LoudnessService();
+const textOverlayService = new TextOverlayService();
+const subtitleService = new SubtitleService();
+const watermarkService = new WatermarkService();
+const imageClipService = new ImageClipService();
+const aspectFillService = new AspectFillService();
+const bumperService = new BumperService();
+const speedRampService = new SpeedRampService();
+const microVariationService = new MicroVariationService();
+const durationFillService = new DurationFillService();
+const metadataProfileService = new MetadataProfileService();
 
 export class ProcessingController {
   async startProcessing(req: AuthenticatedRequest, res: Response): Promise<void> {
@@ -24,16 +55,7 @@ export class ProcessingController {
         return;
       }
 
-      const project = await prisma.project.findFirst({
-        where: { id: projectId, userId },
-        include: {
-          videos: true,
-          groups: {
-            include: { videos: true }
-          }
-          // voiceOverFiles disabled - feature incomplete
-        }
-      });
+      const { project, orderingRules } = await this.findProjectWithRules(projectId, userId);
 
       if (!project) {
         ResponseHelper.notFound(res, 'Project not found');
@@ -70,7 +92,7 @@ export class ProcessingController {
       }
 
       // Validate output count
-      const outputCount = Math.max(1, Math.min(100, Number(mixingSettings.outputCount) || 1));
+      let outputCount = Math.max(1, Math.min(100, Number(mixingSettings.outputCount) || 1));
       if (isNaN(outputCount)) {
         ResponseHelper.error(res, 'Output count must be a valid number', 400);
         return;
@@ -92,69 +114,53 @@ export class ProcessingController {
         */
       }
 
+      // Project ordering rules must be satisfiable before any credits or jobs are created
+      if (orderingRules.length > 0) {
+        const clips: VideoClip[] = project.videos.map((video: any) => ({
+          id: video.id,
+          path: video.filename,
+          duration: video.duration || 0,
+          metadata: {},
+          originalName: video.originalName,
+          pin: video.pinPosition ? { position: video.pinPosition, index: video.pinIndex ?? undefined } : undefined
+        }));
+
+        const rulesError = autoMixingService.validateOrderingRules(clips, orderingRules);
+        if (rulesError) {
+          ResponseHelper.error(res, `Ordering rules cannot be satisfied: ${rulesError}`, 400);
+          return;
+        }
+      }
+
       // Sanitize settings with safe defaults (removing problematic properties)
-      const processingSettings = {
-        // Required fields for VideoMixingOptions interface
-        outputFormat: 'MP4' as VideoFormat, // Default to MP4 format
-        mixingMode: (Boolean(mixingSettings.groupMixing) ? 'MANUAL' : 'AUTO') as MixingMode, // Based on groupMixing setting
-        quality: 'HIGH' as VideoQuality, // Default to high quality
-        metadata: {
-          static: {}, // Empty static metadata
-          includeDynamic: false, // No dynamic metadata
-          fields: [] // No specific fields
-        },
+      const processingSettings = this.buildProcessingSettings(mixingSettings, outputCount, orderingRules);
+
+      // Exposure bounds must be reachable with the clips in each group
+      const groups = this.toMixingGroups(project.groups);
+      if (processingSettings.groupMixing) {
+        // Exhaustive mode uses each combination once, so the batch stops when they run out
+        if (processingSettings.groupMixingMode === 'exhaustive') {
+          const combinations = autoMixingService.calculateVariantCount(project.videos.length, processingSettings, groups);
+          if (combinations < outputCount) {
+            logger.info(`[Processing] Only ${combinations} unique group combinations - reducing outputs from ${outputCount}`);
+            outputCount = combinations;
+            processingSettings.outputCount = combinations;
+          }
+        }
+
+        const exposureError = autoMixingService.validateExposure(groups, processingSettings);
+        if (exposureError) {
+          ResponseHelper.error(res, exposureError, 400);
+          return;
+        }
 
-        // Core mixing options with validation
-        orderMixing: Boolean(mixingSettings.orderMixing),
-        // Force speedMixing to false in voice over mode (auto-speed adjustment is used instead)
-        speedMixing: isVoiceOverMode ? false : Boolean(mixingSettings.speedMixing),
-        differentStartingVideo: Boolean(mixingSettings.differentStartingVideo),
-        groupMixing: Boolean(mixingSettings.groupMixing),
-
-        // Speed settings with validation
-        speedRange: (mixingSettings.speedRange && typeof mixingSettings.speedRange === 'object')
-          ? mixingSettings.speedRange
-          : { min: 0.5, max: 2 },
-        allowedSpeeds: Array.isArray(mixingSettings.allowedSpeeds)
-          ? mixingSettings.allowedSpeeds.filter(s => typeof s === 'number' && s > 0)
-          : [0.5, 0.75, 1, 1.25, 1.5, 2],
-
-        // Quality settings with validation
-        metadataSource: ['normal', 'capcut', 'vn', 'inshot'].includes(mixingSettings.metadataSource)
-          ? mixingSettings.metadataSource
-          : 'normal',
-        bitrate: ['low', 'medium', 'high'].includes(mixingSettings.bitrate)
-          ? mixingSettings.bitrate
-          : 'medium',
-        resolution: ['sd', 'hd', 'fullhd'].includes(mixingSettings.resolution)
-          ? mixingSettings.resolution
-          : 'hd',
-        frameRate: [24, 30, 60].includes(Number(mixingSettings.frameRate))
-          ? Number(mixingSettings.frameRate)
-          : 30,
-
-        // Duration and other settings
-        aspectRatio: mixingSettings.aspectRatio || 'original',
-        durationType: ['original', 'fixed'].includes(mixingSettings.durationType)
-          ? mixingSettings.durationType
-          : 'original',
-        fixedDuration: typeof mixingSettings.fixedDuration === 'number' && mixingSettings.fixedDuration > 0
-          ? Math.min(600, Math.max(5, mixingSettings.fixedDuration))
-          : 30,
-        smartTrimming: Boolean(mixingSettings.smartTrimming),
-        durationDistributionMode: ['proportional', 'equal', 'weighted'].includes(mixingSettings.durationDistributionMode)
-          ? mixingSettings.durationDistributionMode
-          : 'proportional',
-        audioMode: (mixingSettings.audioMode === 'mute' ? 'mute' : 'keep') as 'keep' | 'mute' | 'voiceover',
-        voiceOverMode: isVoiceOverMode,
-
-        // Force removed features to safe defaults
-        transitionMixing: false,
-        colorVariations: false,
-
-        // Validated output count
-        outputCount
-      };
+        // Group duration budgets are carved out of the fixed output duration
+        const totalBudget = groups.reduce((sum, group) => sum + (group.durationBudget || 0), 0);
+        if (processingSettings.durationType === 'fixed' && processingSettings.smartTrimming && totalBudget > processingSettings.fixedDuration) {
+          ResponseHelper.error(res, `Group duration budgets (${totalBudget}s) exceed the fixed duration of ${processingSettings.fixedDuration}s`, 400);
+          return;
+        }
+      }
 
       // Log settings for debugging and validation
       logger.info('[Settings Received] Processing controller received settings:', JSON.stringify({
@@ -164,11 +170,31 @@ export class ProcessingController {
         smartTrimming: processingSettings.smartTrimming,
         durationDistributionMode: processingSettings.durationDistributionMode,
         outputCount: outputCount,
-        videoCount: project.videos.length
+        videoCount: project.videos.length,
+        seed: processingSettings.seed
       }));
 
       // Calculate credit cost using the actual settings that will be used for processing
-      const creditsRequired = this.calculateCreditsRequired(outputCount, processingSettings);
+      const expectedDuration = autoMixingService.estimateOutputDuration(
+        project.videos.map((video: any) => ({ id: video.id, path: video.filename, duration: video.duration || 0, metadata: {} })),
+        {
+          ...processingSettings,
+          introBumpers: bumperService.resolveFiles(project.bumpers, processingSettings.bumpers?.introIds, 'intro'),
+          outroBumpers: bumperService.resolveFiles(project.bumpers, processingSettings.bumpers?.outroIds, 'outro')
+        },
+        groups
+      );
+      const creditsRequired = this.calculateCreditsRequired(outputCount, processingSettings, expectedDuration);
+
+      // A fixed duration the clips can't reach is allowed, but the user should know how it will be filled
+      const durationWarning = autoMixingService.getDurationFillWarning(
+        project.videos.map((video: any) => ({ id: video.id, path: video.filename, duration: video.duration || 0, metadata: {} })),
+        processingSettings,
+        groups
+      );
+      if (durationWarning) {
+        logger.warn(`[Processing] ${durationWarning}`);
+      }
 
       // TEMPORARY: Credit system disabled - unlimited generation
       // Check user credits
@@ -235,8 +261,10 @@ export class ProcessingController {
 
       ResponseHelper.success(res, {
         jobId: job.id,
+        seed: processingSettings.seed,
         creditsDeducted: creditsRequired,
-        estimatedDuration: this.estimateProcessingTime(project.videos, outputCount)
+        estimatedDuration: this.estimateProcessingTime(project.videos, outputCount),
+        warnings: durationWarning ? [durationWarning] : []
       }, 'Processing started successfully', 202);
     } catch (error) {
       logger.error('Start processing error:', error);
@@ -244,6 +272,130 @@ export class ProcessingController {
     }
   }
 
+  /**
+   * Dry-run: generate the variant plan with the same settings processing would use.
+   * No FFmpeg, no credits and no job row.
+   */
+  async planVariants(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+      const { projectId } = req.params;
+      const { settings: mixingSettings } = req.body;
+
+      if (!userId) {
+        ResponseHelper.unauthorized(res, 'User not authenticated');
+        return;
+      }
+
+      if (!mixingSettings || typeof mixingSettings !== 'object') {
+        ResponseHelper.error(res, 'Processing settings are required', 400);
+        return;
+      }
+
+      const { project, orderingRules } = await this.findProjectWithRules(projectId, userId);
+
+      if (!project) {
+        ResponseHelper.notFound(res, 'Project not found');
+        return;
+      }
+
+      if (project.videos.length < 2) {
+        ResponseHelper.error(res, 'Minimum 2 videos required for mixing. Please upload more videos.', 400);
+        return;
+      }
+
+      const outputCount = Math.max(1, Math.min(100, Number(mixingSettings.outputCount) || 1));
+      const processingSettings = this.buildProcessingSettings(mixingSettings, outputCount, orderingRules);
+
+      let outputs;
+      try {
+        outputs = await videoProcessingService.planVariants(project, processingSettings);
+      } catch (error) {
+        // Generation errors (rules, exposure, diversity) are meant for the user
+        ResponseHelper.error(res, error instanceof Error ? error.message : 'Failed to plan variants', 400);
+        return;
+      }
+
+      ResponseHelper.success(res, {
+        seed: processingSettings.seed,
+        outputCount: outputs.length,
+        outputs
+      });
+    } catch (error) {
+      logger.error('Plan variants error:', error);
+      ResponseHelper.serverError(res, 'Failed to plan variants');
+    }
+  }
+
+  /**
+   * Render one planned variant as a low-resolution, labelled proxy and stream it.
+   * Previews are free - they are capped in size and compute and never become outputs.
+   */
+  async previewVariant(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+      const { projectId } = req.params;
+      const { settings: mixingSettings, variantIndex } = req.body;
+
+      if (!userId) {
+        ResponseHelper.unauthorized(res, 'User not authenticated');
+        return;
+      }
+
+      if (!mixingSettings || typeof mixingSettings !== 'object') {
+        ResponseHelper.error(res, 'Processing settings are required', 400);
+        return;
+      }
+
+      const index = Number(variantIndex);
+      if (!Number.isInteger(index) || index < 0) {
+        ResponseHelper.error(res, 'variantIndex must be a non-negative integer', 400);
+        return;
+      }
+
+      // Without the plan's seed a fresh one would be drawn - the preview would show some other batch
+      if (normalizeSeed(mixingSettings.seed) === undefined) {
+        ResponseHelper.error(res, 'Preview needs the seed of the plan it previews', 400);
+        return;
+      }
+
+      const { project, orderingRules } = await this.findProjectWithRules(projectId, userId);
+
+      if (!project) {
+        ResponseHelper.notFound(res, 'Project not found');
+        return;
+      }
+
+      if (project.videos.length < 2) {
+        ResponseHelper.error(res, 'Minimum 2 videos required for mixing. Please upload more videos.', 400);
+        return;
+      }
+
+      const outputCount = Math.max(1, Math.min(100, Number(mixingSettings.outputCount) || 1));
+      const processingSettings = this.buildProcessingSettings(mixingSettings, outputCount, orderingRules);
+
+      let preview;
+      try {
+        preview = await videoProcessingService.renderPreview(project, processingSettings, index);
+      } catch (error) {
+        // Plan errors and render timeouts are meant for the user
+        ResponseHelper.error(res, error instanceof Error ? error.message : 'Failed to render preview', 400);
+        return;
+      }
+
+      res.setHeader('Content-Type', 'video/mp4');
+      res.setHeader('X-Preview-Hash', preview.planHash);
+      res.setHeader('X-Preview-Cached', String(preview.cached));
+      res.setHeader('X-Preview-Seed', String(processingSettings.seed));
+
+      const fileStream = fs.createReadStream(preview.path);
+      fileStream.pipe(res);
+    } catch (error) {
+      logger.error('Preview variant error:', error);
+      ResponseHelper.serverError(res, 'Failed to render preview');
+    }
+  }
+
   async getJobStatus(req: AuthenticatedRequest, res: Response): Promise<void> {
     try {
       const userId = req.user?.userId;
@@ -264,7 +416,7 @@ export class ProcessingController {
             select: { id: true, name: true }
           },
           outputs: {
-            select: { id: true, filename: true, size: true, createdAt: true }
+            select: { id: true, filename: true, size: true, loudnessLufs: true, truePeakDb: true, createdAt: true }
           }
         }
       });
@@ -345,7 +497,7 @@ export class ProcessingController {
             select: { id: true, name: true }
           },
           outputs: {
-            select: { id: true, filename: true, size: true, createdAt: true }
+            select: { id: true, filename: true, size: true, loudnessLufs: true, truePeakDb: true, createdAt: true }
           }
         },
         orderBy: { createdAt: 'desc' }
@@ -436,14 +588,55 @@ export class ProcessingController {
         return;
       }
 
-      const { outputCount, settings } = req.body;
+      const { outputCount, settings, projectId } = req.body;
 
       if (!outputCount || outputCount < 1) {
         ResponseHelper.error(res, 'Invalid output count', 400);
         return;
       }
 
-      const creditsRequired = this.calculateCreditsRequired(outputCount, settings || {});
+      // With a project the estimate reflects how long its outputs will run
+      // and, in exhaustive group mode, how many unique combinations exist
+      let expectedDuration: number | undefined;
+      let combinationCount: number | undefined;
+      let durationWarning: string | null = null;
+      let billedOutputs = outputCount;
+      if (projectId) {
+        const project = await prisma.project.findFirst({
+          where: { id: projectId, userId },
+          include: {
+            videos: true,
+            groups: {
+              include: { videos: true }
+            },
+            bumpers: true
+          }
+        });
+
+        if (project) {
+          const groups = this.toMixingGroups(project.groups);
+          const clips = project.videos.map((video: any) => ({ id: video.id, path: video.filename, duration: video.duration || 0, metadata: {} }));
+          const bumpers = bumperService.parseSettings(settings?.bumpers);
+          expectedDuration = autoMixingService.estimateOutputDuration(clips, {
+            ...settings,
+            bumpers,
+            introBumpers: bumperService.resolveFiles(project.bumpers, bumpers?.introIds, 'intro'),
+            outroBumpers: bumperService.resolveFiles(project.bumpers, bumpers?.outroIds, 'outro')
+          }, groups);
+          durationWarning = autoMixingService.getDurationFillWarning(clips, {
+            ...settings,
+            durationFill: durationFillService.parseStrategy(settings?.durationFill),
+            bumpers
+          }, groups);
+
+          if (settings?.groupMixing && settings.groupMixingMode === 'exhaustive') {
+            combinationCount = autoMixingService.calculateVariantCount(project.videos.length, settings, groups);
+            billedOutputs = Math.max(1, Math.min(outputCount, combinationCount));
+          }
+        }
+      }
+
+      const creditsRequired = this.calculateCreditsRequired(billedOutputs, settings || {}, expectedDuration);
 
       // Get user's current credits
       const user = await prisma.user.findUnique({
@@ -457,7 +650,9 @@ export class ProcessingController {
         creditsRequired,
         userCredits: user?.credits || 0,
         hasEnoughCredits,
-        breakdown: this.getCreditBreakdown(outputCount, settings || {})
+        combinationCount,
+        warnings: durationWarning ? [durationWarning] : [],
+        breakdown: this.getCreditBreakdown(billedOutputs, settings || {}, expectedDuration)
       });
     } catch (error) {
       logger.error('Get credits estimate error:', error);
@@ -520,6 +715,9 @@ export class ProcessingController {
         }
       }
 
+      // Parse variant report (diversity, coverage) if available
+      const result = job.result ? DbHelper.deserializeJson(job.result) : null;
+
       ResponseHelper.success(res, {
         id: job.id,
         projectId: job.projectId,
@@ -532,6 +730,8 @@ export class ProcessingController {
         errorDetails,
         outputs: job.outputs,
         settings,
+        seed: settings && typeof settings === 'object' ? settings.seed ?? null : null,
+        result,
         duration: job.completedAt ?
           Math.floor((job.completedAt.getTime() - job.createdAt.getTime()) / 1000) : null
       });
@@ -618,6 +818,53 @@ export class ProcessingController {
     }
   }
 
+  async downloadSubtitles(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+      const { outputId } = req.params;
+
+      if (!userId) {
+        ResponseHelper.unauthorized(res, 'User not authenticated');
+        return;
+      }
+
+      const output = await prisma.processedVideo.findFirst({
+        where: {
+          id: outputId,
+          job: {
+            project: { userId }
+          }
+        }
+      });
+
+      const subtitlePath = output ? this.getSubtitlePath(output.settings) : null;
+      if (!subtitlePath || !fs.existsSync(subtitlePath)) {
+        ResponseHelper.notFound(res, 'No subtitles for this output');
+        return;
+      }
+
+      res.setHeader('Content-Disposition', `attachment; filename="${path.basename(subtitlePath)}"`);
+      res.setHeader('Content-Type', 'application/x-subrip');
+
+      fs.createReadStream(subtitlePath).pipe(res);
+    } catch (error) {
+      logger.error('Download subtitles error:', error);
+      ResponseHelper.serverError(res, 'Failed to download subtitles');
+    }
+  }
+
+  /**
+   * Retimed SRT exported next to an output, from the output's settings JSON
+   */
+  private getSubtitlePath(settings: string): string | null {
+    try {
+      const { subtitleFile } = DbHelper.deserializeJson(settings) || {};
+      return subtitleFile ? path.join(process.env.OUTPUT_PATH || process.env.OUTPUT_DIR || 'outputs', path.basename(subtitleFile)) : null;
+    } catch {
+      return null;
+    }
+  }
+
   async downloadBatch(req: AuthenticatedRequest, res: Response): Promise<void> {
     try {
       const userId = req.user?.userId;
@@ -684,6 +931,10 @@ export class ProcessingController {
         if (fs.existsSync(filePath)) {
           archive.file(filePath, { name: file.filename });
         }
+        const subtitlePath = this.getSubtitlePath(file.settings);
+        if (subtitlePath && fs.existsSync(subtitlePath)) {
+          archive.file(subtitlePath, { name: path.basename(subtitlePath) });
+        }
       }
 
       // Finalize the archive
@@ -750,6 +1001,10 @@ export class ProcessingController {
         if (fs.existsSync(filePath)) {
           archive.file(filePath, { name: file.filename });
         }
+        const subtitlePath = this.getSubtitlePath(file.settings);
+        if (subtitlePath && fs.existsSync(subtitlePath)) {
+          archive.file(subtitlePath, { name: path.basename(subtitlePath) });
+        }
       }
 
       await archive.finalize();
@@ -824,7 +1079,182 @@ export class ProcessingController {
     return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
   }
 
-  private calculateCreditsRequired(outputCount: number, settings: any): number {
+  /**
+   * The user's project with everything a plan or render reads, and its parsed ordering rules
+   */
+  private async findProjectWithRules(projectId: string, userId: string) {
+    const project = await prisma.project.findFirst({
+      where: { id: projectId, userId },
+      include: {
+        videos: true,
+        groups: {
+          include: { videos: true }
+        },
+        colorLuts: true,
+        musicTracks: true,
+        logos: true,
+        bumpers: true
+        // voiceOverFiles disabled - feature incomplete
+      }
+    });
+
+    return {
+      project,
+      orderingRules: project ? orderingRulesService.parseRules(DbHelper.deserializeJson(project.orderingRules)) : []
+    };
+  }
+
+  /**
+   * Sanitize request mixing settings with safe defaults (removing problematic properties)
+   */
+  private buildProcessingSettings(mixingSettings: any, outputCount: number, orderingRules: OrderingRule[]) {
+    const isVoiceOverMode = mixingSettings.audioMode === 'voiceover' || mixingSettings.voiceOverMode === true;
+    const musicBed = musicBedService.parseOptions(mixingSettings);
+
+    return {
+      // Required fields for VideoMixingOptions interface
+      outputFormat: 'MP4' as VideoFormat, // Default to MP4 format
+      mixingMode: (Boolean(mixingSettings.groupMixing) ? 'MANUAL' : 'AUTO') as MixingMode, // Based on groupMixing setting
+      quality: 'HIGH' as VideoQuality, // Default to high quality
+      metadata: {
+        static: {}, // Empty static metadata
+        includeDynamic: false, // No dynamic metadata
+        fields: [] // No specific fields
+      },
+
+      // Core mixing options with validation
+      orderMixing: Boolean(mixingSettings.orderMixing),
+      // Force speedMixing to false in voice over mode (auto-speed adjustment is used instead)
+      speedMixing: isVoiceOverMode ? false : Boolean(mixingSettings.speedMixing),
+      differentStartingVideo: Boolean(mixingSettings.differentStartingVideo),
+      groupMixing: Boolean(mixingSettings.groupMixing),
+      groupMixingMode: (['random', 'exhaustive'].includes(mixingSettings.groupMixingMode) ? mixingSettings.groupMixingMode : 'strict') as GroupMixingMode,
+
+      // Batch exposure bounds for group picks (0 = no bound)
+      minClipAppearances: Math.max(0, Math.floor(Number(mixingSettings.minClipAppearances) || 0)),
+      maxClipAppearances: Math.max(0, Math.floor(Number(mixingSettings.maxClipAppearances) || 0)),
+      balanceExposure: Boolean(mixingSettings.balanceExposure),
+
+      // Speed settings with validation
+      speedRange: (mixingSettings.speedRange && typeof mixingSettings.speedRange === 'object')
+        ? mixingSettings.speedRange
+        : { min: 0.5, max: 2 },
+      allowedSpeeds: Array.isArray(mixingSettings.allowedSpeeds)
+        ? mixingSettings.allowedSpeeds.filter(s => typeof s === 'number' && s > 0)
+        : [0.5, 0.75, 1, 1.25, 1.5, 2],
+
+      // Quality settings with validation
+      metadataSource: ['normal', 'capcut', 'vn', 'inshot'].includes(mixingSettings.metadataSource)
+        ? mixingSettings.metadataSource
+        : 'normal',
+      // Metadata profiles rotated across outputs - resolved against the user's and global profiles when rendering
+      metadataProfileIds: metadataProfileService.parseProfileIds(mixingSettings.metadataProfileIds),
+      bitrate: ['low', 'medium', 'high'].includes(mixingSettings.bitrate)
+        ? mixingSettings.bitrate
+        : 'medium',
+      resolution: ['sd', 'hd', 'fullhd'].includes(mixingSettings.resolution)
+        ? mixingSettings.resolution
+        : 'hd',
+      frameRate: [24, 30, 60].includes(Number(mixingSettings.frameRate))
+        ? Number(mixingSettings.frameRate)
+        : 30,
+
+      // Duration and other settings
+      aspectRatio: mixingSettings.aspectRatio || 'original',
+      durationType: ['original', 'fixed'].includes(mixingSettings.durationType)
+        ? mixingSettings.durationType
+        : 'original',
+      fixedDuration: typeof mixingSettings.fixedDuration === 'number' && mixingSettings.fixedDuration > 0
+        ? Math.min(600, Math.max(5, mixingSettings.fixedDuration))
+        : 30,
+      smartTrimming: Boolean(mixingSettings.smartTrimming),
+      durationDistributionMode: ['proportional', 'equal', 'weighted'].includes(mixingSettings.durationDistributionMode)
+        ? mixingSettings.durationDistributionMode
+        : 'proportional',
+      durationFill: durationFillService.parseStrategy(mixingSettings.durationFill),
+      audioMode: (AUDIO_MODES.includes(mixingSettings.audioMode) ? mixingSettings.audioMode : 'keep') as AudioMode,
+      voiceOverMode: isVoiceOverMode,
+
+      // Transitions per cut - styles and overlap range are normalized by the transition service
+      transitionMixing: Boolean(mixingSettings.transitionMixing),
+      transitionTypes: transitionService.parseStyles(mixingSettings.transitionTypes),
+      transitionDuration: transitionService.parseDuration(mixingSettings.transitionDuration),
+
+      // Color grade per output - LUT ids are resolved against the project when rendering
+      colorVariations: Boolean(mixingSettings.colorVariations),
+      colorIntensity: (['medium', 'high'].includes(mixingSettings.colorIntensity) ? mixingSettings.colorIntensity : 'low') as 'low' | 'medium' | 'high',
+      colorLutIds: Array.isArray(mixingSettings.colorLutIds)
+        ? mixingSettings.colorLutIds.filter((id: unknown) => typeof id === 'string')
+        : [],
+
+      // Music bed - track ids are resolved against the project, level/fade/ducking normalized here
+      musicTrackIds: Array.isArray(mixingSettings.musicTrackIds)
+        ? mixingSettings.musicTrackIds.filter((id: unknown) => typeof id === 'string')
+        : [],
+      musicVolume: musicBed.volume,
+      musicFade: musicBed.fade,
+      musicDucking: musicBed.ducking,
+
+      // Two-pass loudness normalization target (undefined = off)
+      loudnessPreset: loudnessService.parsePreset(mixingSettings.loudnessPreset),
+
+      // Hook headlines rotated across outputs (undefined = no overlay)
+      textOverlay: textOverlayService.parseSettings(mixingSettings.textOverlay),
+
+      // Clip captions - burned in or muxed as a mov_text track
+      subtitleMode: subtitleService.parseMode(mixingSettings.subtitleMode),
+      subtitleStyle: subtitleService.parseStyle(mixingSettings.subtitleStyle),
+
+      // Logo or text watermark - the logo id is resolved against the project when rendering
+      watermark: watermarkService.parseSettings(mixingSettings.watermark),
+
+      // Pan/zoom strength on still-image clips
+      imageMotion: imageClipService.parseMotionLevel(mixingSettings.imageMotion),
+
+      // Fit to the output frame - letterbox color, blurred fill, center or focal-point crop
+      aspectFill: aspectFillService.parseSettings(mixingSettings.aspectFill),
+
+      // Project intros/outros around every output - the ids are resolved against the project when rendering
+      bumpers: bumperService.parseSettings(mixingSettings.bumpers),
+
+      // Speed curves on a few clips per output, with muted, stepped or stretched audio
+      speedRamps: speedRampService.parseSettings(mixingSettings.speedRamps),
+
+      // Subtle zoom, mirror, hue, grain, pitch and start-offset differences per output - all opt-in
+      microVariations: microVariationService.parseSettings(mixingSettings.microVariations),
+
+      // Validated output count
+      outputCount,
+
+      // Reproducibility seed - persisted with the job so a batch can be regenerated
+      seed: normalizeSeed(mixingSettings.seed) ?? generateSeed(),
+
+      // Minimum pairwise difference between variants (0-0.9, 0 = disabled)
+      minVariantDistance: Math.max(0, Math.min(0.9, Number(mixingSettings.minVariantDistance) || 0)),
+
+      // Project ordering rules - snapshotted with the job
+      orderingRules
+    };
+  }
+
+  /**
+   * Map project groups with their videos to the shape the variant generator expects
+   */
+  private toMixingGroups(groups: any[]): VideoGroup[] {
+    return groups.map((group: any) => ({
+      id: group.id,
+      name: group.name,
+      order: group.order,
+      videos: group.videos.map((video: any) => ({ id: video.id, path: video.filename, duration: video.duration || 0, metadata: {} })),
+      minClips: group.minClips,
+      maxClips: group.maxClips,
+      optional: group.isOptional,
+      inclusionProbability: group.inclusionProbability,
+      durationBudget: group.durationBudget ?? undefined
+    }));
+  }
+
+  private calculateCreditsRequired(outputCount: number, settings: any, expectedDuration?: number): number {
     // Base cost: 1 credit per output video
     let baseCredits = outputCount;
 
@@ -840,8 +1270,11 @@ export class ProcessingController {
     // Server load multiplier (protects against extreme load scenarios)
     const serverLoadMultiplier = this.getServerLoadMultiplier(outputCount);
 
+    // Output length multiplier (longer outputs take longer to encode)
+    const durationMultiplier = this.getDurationMultiplier(expectedDuration);
+
     // Apply all multipliers
-    const totalCredits = baseCredits * volumeMultiplier * qualityMultiplier * complexityMultiplier * serverLoadMultiplier;
+    const totalCredits = baseCredits * volumeMultiplier * qualityMultiplier * complexityMultiplier * serverLoadMultiplier * durationMultiplier;
 
     return Math.ceil(totalCredits);
   }
@@ -899,8 +1332,21 @@ export class ProcessingController {
     if (settings.speedVariations || settings.speedMixing) complexityScore += 0.5;  // FFmpeg filter complexity
     if (settings.differentStartingVideo) complexityScore += 0.2;       // Additional logic processing
     if (settings.groupMixing) complexityScore += 0.3;                 // Sorting/organizing overhead
-    if (settings.transitionVariations) complexityScore += 0.4;        // Video filter processing
-    if (settings.colorVariations) complexityScore += 0.3;             // Color processing overhead
+    if (settings.transitionVariations || settings.transitionMixing) complexityScore += 0.4; // xfade filter processing
+    if (settings.colorVariations || settings.colorLutIds?.length) complexityScore += 0.3; // Color processing overhead
+    if (musicBedService.usesMusic(settings.audioMode)) complexityScore += 0.2; // Music decode, ducking and mix
+    if (settings.loudnessPreset) complexityScore += 0.2; // Loudness analysis and audio re-encode passes
+    if (settings.textOverlay) complexityScore += 0.1;     // drawtext on every frame
+    if (settings.subtitleMode === 'burn') complexityScore += 0.1; // libass rendering on every frame
+    if (settings.watermark) complexityScore += 0.1;       // Overlay on every frame
+    if (settings.aspectFill?.mode === 'blur') complexityScore += 0.15; // Second scaled, blurred copy of every clip
+    if (bumperService.parseSettings(settings.bumpers)) complexityScore += 0.1; // Extra inputs fitted and joined around the mix
+    const speedRamps = speedRampService.parseSettings(settings.speedRamps);
+    if (speedRamps) {
+      complexityScore += 0.1 + 0.05 * speedRamps.clipsPerOutput;                // Piecewise retiming of the ramped clips
+      if (speedRamps.audio === 'segments') complexityScore += 0.1;              // One atempo pass per ramp step
+    }
+    if (microVariationService.parseSettings(settings.microVariations)) complexityScore += 0.1; // zoom/hue/grain filters on every frame
     if (settings.smartTrimming) complexityScore += 0.3;               // Duration calculation complexity
 
     // Voice over mode has highest server impact (audio processing is CPU intensive)
@@ -927,18 +1373,28 @@ export class ProcessingController {
     return 1.25;                           // 1000+: Significant surcharge for extreme load
   }
 
-  private getCreditBreakdown(outputCount: number, settings: any): any {
+  private getDurationMultiplier(expectedDuration?: number): number {
+    // Unknown length (no project given) keeps base pricing
+    if (!expectedDuration || expectedDuration <= 30) return 1.0;  // Up to 30s: base price
+    if (expectedDuration <= 60) return 1.25;                      // 31-60s
+    if (expectedDuration <= 120) return 1.5;                      // 1-2 min
+    if (expectedDuration <= 300) return 2.0;                      // 2-5 min
+    return 3.0;                                                   // 5+ min
+  }
+
+  private getCreditBreakdown(outputCount: number, settings: any, expectedDuration?: number): any {
     const baseCredits = outputCount;
     const volumeMultiplier = this.getVolumeMultiplier(outputCount);
     const qualityMultiplier = this.getQualityMultiplier(settings);
     const complexityMultiplier = this.getMixingComplexityMultiplier(settings, outputCount);
     const serverLoadMultiplier = this.getServerLoadMultiplier(outputCount);
+    const durationMultiplier = this.getDurationMultiplier(expectedDuration);
 
     // Calculate step-by-step costs
     const afterVolume = baseCredits * volumeMultiplier;
     const afterQuality = afterVolume * qualityMultiplier;
     const afterComplexity = afterQuality * complexityMultiplier;
-    const totalCredits = afterComplexity * serverLoadMultiplier;
+    const totalCredits = afterComplexity * serverLoadMultiplier * durationMultiplier;
 
     // Get anti-fingerprinting strength
     let complexityScore = 0;
@@ -949,11 +1405,20 @@ export class ProcessingController {
     if (settings.speedVariations || settings.speedMixing) { complexityScore += 1; enabledFeatures.push('Speed Variations'); }
     if (settings.differentStartingVideo) { complexityScore += 1; enabledFeatures.push('Different Starting Video'); }
     if (settings.groupMixing) { complexityScore += 1; enabledFeatures.push('Group-Based Mixing'); }
-    if (settings.transitionVariations) { complexityScore += 1; enabledFeatures.push('Transition Variations'); }
-    if (settings.colorVariations) { complexityScore += 1; enabledFeatures.push('Color Variations'); }
+    if (settings.transitionVariations || settings.transitionMixing) { complexityScore += 1; enabledFeatures.push('Transition Variations'); }
+    if (settings.colorVariations || settings.colorLutIds?.length) { complexityScore += 1; enabledFeatures.push('Color Grading'); }
+    if (musicBedService.usesMusic(settings.audioMode)) { enabledFeatures.push('Music Bed'); }
+    if (settings.loudnessPreset) { enabledFeatures.push('Loudness Normalization'); }
+    if (settings.textOverlay) { enabledFeatures.push('Headline Overlays'); }
+    if (settings.subtitleMode && settings.subtitleMode !== 'off') { enabledFeatures.push('Subtitles'); }
+    if (settings.watermark) { enabledFeatures.push('Watermark'); }
+    if (settings.aspectFill && settings.aspectFill.mode !== 'pad') { enabledFeatures.push(`Fill: ${settings.aspectFill.mode}`); }
+    if (bumperService.parseSettings(settings.bumpers)) { enabledFeatures.push('Intro/Outro'); }
+    if (speedRampService.parseSettings(settings.speedRamps)) { enabledFeatures.push('Speed Ramps'); }
+    if (microVariationService.parseSettings(settings.microVariations)) { complexityScore += 1; enabledFeatures.push('Micro-Variations'); }
 
     const strengthLevels = ['None', 'Weak', 'Fair', 'Good', 'Strong', 'Very Strong', 'Maximum'];
-    const strengthLevel = strengthLevels[complexityScore] || 'Fair';
+    const strengthLevel = strengthLevels[Math.min(complexityScore, strengthLevels.length - 1)] || 'Fair';
 
     return {
       baseCredits,
@@ -969,11 +1434,15 @@ export class ProcessingController {
         } : undefined,
         complexity: complexityMultiplier !== 1 ? {
           value: complexityMultiplier,
-          reason: `${strengthLevel} anti-fingerprinting (${complexityScore}/6 features)`
+          reason: `${strengthLevel} anti-fingerprinting (${complexityScore}/7 features)`
         } : undefined,
         serverLoad: serverLoadMultiplier !== 1 ? {
           value: serverLoadMultiplier,
           reason: this.getServerLoadReason(outputCount)
+        } : undefined,
+        duration: durationMultiplier !== 1 ? {
+          value: durationMultiplier,
+          reason: `~${Math.round(expectedDuration!)}s per output`
         } : undefined
       },
       steps: {
@@ -3,8 +3,28 @@ import { prisma, database } from '@/utils/database';
 import { AuthenticatedRequest } from '@/middleware/auth.middleware';
 import { ResponseHelper, createPagination } from '@/utils/response';
 import { ProjectStatus } from '@/types';
+import { DbHelper } from '@/utils/db-helper';
+import { AutoMixingService, VideoClip } from '@/services/auto-mixing.service';
+import { OrderingRulesService } from '@/services/ordering-rules.service';
+import { ColorGradingService } from '@/services/color-grading.service';
+import { MusicBedService } from '@/services/music-bed.service';
+import { WatermarkService } from '@/services/watermark.service';
+import { BumperService } from '@/services/bumper.service';
+import { VideoService } from '@/services/video.service';
+import { voiceOverService } from '@/services/voice-over.service';
 import logger from '@/utils/logger';
 
+const autoMixingService = new AutoMixingService();
+const orderingRulesService = new OrderingRulesService();
+const colorGradingService = new ColorGradingService();
+const musicBedService = new MusicBedService();
+const watermarkService = new WatermarkService();
+const bumperService = new BumperService();
+const videoService = new VideoService();
+
+// Bumpers are played in full around every output, so long clips are refused
+const MAX_BUMPER_DURATION = 30;
+
 export class ProjectController {
   async getProjects(req: AuthenticatedRequest, res: Response): Promise<void> {
     try {
@@ -254,6 +274,514 @@ export class ProjectController {
     }
   }
 
+  async getOrderingRules(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+      const { id } = req.params;
+
+      if (!userId) {
+        ResponseHelper.unauthorized(res, 'User not authenticated');
+        return;
+      }
+
+      const project = await prisma.project.findFirst({
+        where: { id, userId },
+        select: { orderingRules: true }
+      });
+
+      if (!project) {
+        ResponseHelper.notFound(res, 'Project not found');
+        return;
+      }
+
+      ResponseHelper.success(res, orderingRulesService.parseRules(DbHelper.deserializeJson(project.orderingRules)));
+    } catch (error) {
+      logger.error('Get ordering rules error:', error);
+      ResponseHelper.serverError(res, 'Failed to get ordering rules');
+    }
+  }
+
+  async updateOrderingRules(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+      const { id } = req.params;
+
+      if (!userId) {
+        ResponseHelper.unauthorized(res, 'User not authenticated');
+        return;
+      }
+
+      if (!Array.isArray(req.body.rules)) {
+        ResponseHelper.error(res, 'Rules must be provided as an array');
+        return;
+      }
+
+      const project = await prisma.project.findFirst({
+        where: { id, userId },
+        include: { videos: true }
+      });
+
+      if (!project) {
+        ResponseHelper.notFound(res, 'Project not found');
+        return;
+      }
+
+      // Reject rules that could never be satisfied with the current clips and pins
+      const rules = orderingRulesService.parseRules(req.body.rules);
+      const clips: VideoClip[] = project.videos.map((video: any) => ({
+        id: video.id,
+        path: video.filename,
+        duration: video.duration || 0,
+        metadata: {},
+        originalName: video.originalName,
+        pin: video.pinPosition ? { position: video.pinPosition, index: video.pinIndex ?? undefined } : undefined
+      }));
+
+      const rulesError = autoMixingService.validateOrderingRules(clips, rules);
+      if (rulesError) {
+        ResponseHelper.error(res, rulesError, 400);
+        return;
+      }
+
+      await prisma.project.update({
+        where: { id },
+        data: { orderingRules: rules.length > 0 ? DbHelper.serializeJson(rules) as string : null }
+      });
+
+      ResponseHelper.success(res, rules, 'Ordering rules updated successfully');
+    } catch (error) {
+      logger.error('Update ordering rules error:', error);
+      ResponseHelper.serverError(res, 'Failed to update ordering rules');
+    }
+  }
+
+  async getColorLuts(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+      const { id } = req.params;
+
+      if (!userId) {
+        ResponseHelper.unauthorized(res, 'User not authenticated');
+        return;
+      }
+
+      const project = await prisma.project.findFirst({
+        where: { id, userId },
+        include: { colorLuts: { orderBy: { createdAt: 'asc' } } }
+      });
+
+      if (!project) {
+        ResponseHelper.notFound(res, 'Project not found');
+        return;
+      }
+
+      ResponseHelper.success(res, project.colorLuts);
+    } catch (error) {
+      logger.error('Get color LUTs error:', error);
+      ResponseHelper.serverError(res, 'Failed to get color LUTs');
+    }
+  }
+
+  async uploadColorLut(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+      const { id } = req.params;
+
+      if (!userId) {
+        ResponseHelper.unauthorized(res, 'User not authenticated');
+        return;
+      }
+
+      if (!req.file) {
+        ResponseHelper.error(res, 'No LUT file uploaded');
+        return;
+      }
+
+      const project = await prisma.project.findFirst({
+        where: { id, userId }
+      });
+
+      if (!project) {
+        ResponseHelper.notFound(res, 'Project not found');
+        return;
+      }
+
+      let stored;
+      try {
+        stored = await colorGradingService.storeLut(req.file.originalname, req.file.buffer);
+      } catch (error) {
+        ResponseHelper.error(res, error instanceof Error ? error.message : 'Invalid LUT file', 400);
+        return;
+      }
+
+      const lut = await prisma.colorLut.create({
+        data: { ...stored, projectId: id }
+      });
+
+      ResponseHelper.success(res, lut, 'LUT uploaded successfully', 201);
+    } catch (error) {
+      logger.error('Upload color LUT error:', error);
+      ResponseHelper.serverError(res, 'Failed to upload LUT');
+    }
+  }
+
+  async deleteColorLut(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+      const { id, lutId } = req.params;
+
+      if (!userId) {
+        ResponseHelper.unauthorized(res, 'User not authenticated');
+        return;
+      }
+
+      const lut = await prisma.colorLut.findFirst({
+        where: { id: lutId, project: { id, userId } }
+      });
+
+      if (!lut) {
+        ResponseHelper.notFound(res, 'LUT not found');
+        return;
+      }
+
+      await prisma.colorLut.delete({
+        where: { id: lutId }
+      });
+      await colorGradingService.removeLut(lut.filename);
+
+      ResponseHelper.success(res, null, 'LUT deleted successfully');
+    } catch (error) {
+      logger.error('Delete color LUT error:', error);
+      ResponseHelper.serverError(res, 'Failed to delete LUT');
+    }
+  }
+
+  async getMusicTracks(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+      const { id } = req.params;
+
+      if (!userId) {
+        ResponseHelper.unauthorized(res, 'User not authenticated');
+        return;
+      }
+
+      const project = await prisma.project.findFirst({
+        where: { id, userId },
+        include: { musicTracks: { orderBy: { createdAt: 'asc' } } }
+      });
+
+      if (!project) {
+        ResponseHelper.notFound(res, 'Project not found');
+        return;
+      }
+
+      ResponseHelper.success(res, project.musicTracks);
+    } catch (error) {
+      logger.error('Get music tracks error:', error);
+      ResponseHelper.serverError(res, 'Failed to get music tracks');
+    }
+  }
+
+  async uploadMusicTrack(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+      const { id } = req.params;
+
+      if (!userId) {
+        ResponseHelper.unauthorized(res, 'User not authenticated');
+        return;
+      }
+
+      if (!req.file) {
+        ResponseHelper.error(res, 'No music file uploaded');
+        return;
+      }
+
+      const project = await prisma.project.findFirst({
+        where: { id, userId }
+      });
+
+      if (!project) {
+        ResponseHelper.notFound(res, 'Project not found');
+        return;
+      }
+
+      const stored = await musicBedService.storeTrack(req.file.originalname, req.file.buffer);
+      const duration = await voiceOverService.getAudioDuration(stored.path).catch(() => 0);
+      if (!duration) {
+        await musicBedService.removeTrack(stored.filename);
+        ResponseHelper.error(res, 'Could not read the audio track - upload an MP3, WAV, M4A, AAC or OGG file', 400);
+        return;
+      }
+
+      const track = await prisma.musicTrack.create({
+        data: { name: stored.name, filename: stored.filename, duration, projectId: id }
+      });
+
+      ResponseHelper.success(res, track, 'Music track uploaded successfully', 201);
+    } catch (error) {
+      logger.error('Upload music track error:', error);
+      ResponseHelper.serverError(res, 'Failed to upload music track');
+    }
+  }
+
+  async deleteMusicTrack(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+      const { id, trackId } = req.params;
+
+      if (!userId) {
+        ResponseHelper.unauthorized(res, 'User not authenticated');
+        return;
+      }
+
+      const track = await prisma.musicTrack.findFirst({
+        where: { id: trackId, project: { id, userId } }
+      });
+
+      if (!track) {
+        ResponseHelper.notFound(res, 'Music track not found');
+        return;
+      }
+
+      await prisma.musicTrack.delete({
+        where: { id: trackId }
+      });
+      await musicBedService.removeTrack(track.filename);
+
+      ResponseHelper.success(res, null, 'Music track deleted successfully');
+    } catch (error) {
+      logger.error('Delete music track error:', error);
+      ResponseHelper.serverError(res, 'Failed to delete music track');
+    }
+  }
+
+  async getLogos(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+      const { id } = req.params;
+
+      if (!userId) {
+        ResponseHelper.unauthorized(res, 'User not authenticated');
+        return;
+      }
+
+      const project = await prisma.project.findFirst({
+        where: { id, userId },
+        include: { logos: { orderBy: { createdAt: 'asc' } } }
+      });
+
+      if (!project) {
+        ResponseHelper.notFound(res, 'Project not found');
+        return;
+      }
+
+      ResponseHelper.success(res, project.logos);
+    } catch (error) {
+      logger.error('Get logos error:', error);
+      ResponseHelper.serverError(res, 'Failed to get logos');
+    }
+  }
+
+  async uploadLogo(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+      const { id } = req.params;
+
+      if (!userId) {
+        ResponseHelper.unauthorized(res, 'User not authenticated');
+        return;
+      }
+
+      if (!req.file) {
+        ResponseHelper.error(res, 'No logo file uploaded');
+        return;
+      }
+
+      const project = await prisma.project.findFirst({
+        where: { id, userId }
+      });
+
+      if (!project) {
+        ResponseHelper.notFound(res, 'Project not found');
+        return;
+      }
+
+      let stored;
+      try {
+        stored = await watermarkService.storeLogo(req.file.originalname, req.file.buffer);
+      } catch (error) {
+        ResponseHelper.error(res, error instanceof Error ? error.message : 'Invalid logo file', 400);
+        return;
+      }
+
+      const logo = await prisma.logoAsset.create({
+        data: { ...stored, projectId: id }
+      });
+
+      ResponseHelper.success(res, logo, 'Logo uploaded successfully', 201);
+    } catch (error) {
+      logger.error('Upload logo error:', error);
+      ResponseHelper.serverError(res, 'Failed to upload logo');
+    }
+  }
+
+  async deleteLogo(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+      const { id, logoId } = req.params;
+
+      if (!userId) {
+        ResponseHelper.unauthorized(res, 'User not authenticated');
+        return;
+      }
+
+      const logo = await prisma.logoAsset.findFirst({
+        where: { id: logoId, project: { id, userId } }
+      });
+
+      if (!logo) {
+        ResponseHelper.notFound(res, 'Logo not found');
+        return;
+      }
+
+      await prisma.logoAsset.delete({
+        where: { id: logoId }
+      });
+      await watermarkService.removeLogo(logo.filename);
+
+      ResponseHelper.success(res, null, 'Logo deleted successfully');
+    } catch (error) {
+      logger.error('Delete logo error:', error);
+      ResponseHelper.serverError(res, 'Failed to delete logo');
+    }
+  }
+
+  async getBumpers(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+      const { id } = req.params;
+
+      if (!userId) {
+        ResponseHelper.unauthorized(res, 'User not authenticated');
+        return;
+      }
+
+      const project = await prisma.project.findFirst({
+        where: { id, userId },
+        include: { bumpers: { orderBy: { createdAt: 'asc' } } }
+      });
+
+      if (!project) {
+        ResponseHelper.notFound(res, 'Project not found');
+        return;
+      }
+
+      ResponseHelper.success(res, project.bumpers);
+    } catch (error) {
+      logger.error('Get bumpers error:', error);
+      ResponseHelper.serverError(res, 'Failed to get intros and outros');
+    }
+  }
+
+  async uploadBumper(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+      const { id } = req.params;
+
+      if (!userId) {
+        ResponseHelper.unauthorized(res, 'User not authenticated');
+        return;
+      }
+
+      if (!req.file) {
+        ResponseHelper.error(res, 'No intro/outro file uploaded');
+        return;
+      }
+
+      const kind = bumperService.parseKind(req.body.kind);
+      if (!kind) {
+        ResponseHelper.error(res, 'Kind must be intro or outro');
+        return;
+      }
+
+      const project = await prisma.project.findFirst({
+        where: { id, userId }
+      });
+
+      if (!project) {
+        ResponseHelper.notFound(res, 'Project not found');
+        return;
+      }
+
+      const stored = await bumperService.storeBumper(req.file.originalname, req.file.path);
+      const metadata = await videoService.extractDetailedMetadata(stored.path).catch(() => null);
+      if (!metadata || !metadata.duration) {
+        await bumperService.removeBumper(stored.filename);
+        ResponseHelper.error(res, 'Could not read the clip - upload an MP4, MOV, WEBM or MKV video', 400);
+        return;
+      }
+      if (metadata.duration > MAX_BUMPER_DURATION) {
+        await bumperService.removeBumper(stored.filename);
+        ResponseHelper.error(res, `Intros and outros can be at most ${MAX_BUMPER_DURATION} seconds long`, 400);
+        return;
+      }
+
+      const bumper = await prisma.bumperAsset.create({
+        data: {
+          name: stored.name,
+          kind,
+          filename: stored.filename,
+          duration: metadata.duration,
+          hasAudio: Boolean(metadata.audioCodec),
+          projectId: id
+        }
+      });
+
+      ResponseHelper.success(res, bumper, `${kind === 'intro' ? 'Intro' : 'Outro'} uploaded successfully`, 201);
+    } catch (error) {
+      logger.error('Upload bumper error:', error);
+      ResponseHelper.serverError(res, 'Failed to upload intro/outro');
+    } finally {
+      // Already moved when stored - otherwise the temp upload goes
+      if (req.file) {
+        await bumperService.discardUpload(req.file.path);
+      }
+    }
+  }
+
+  async deleteBumper(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+      const { id, bumperId } = req.params;
+
+      if (!userId) {
+        ResponseHelper.unauthorized(res, 'User not authenticated');
+        return;
+      }
+
+      const bumper = await prisma.bumperAsset.findFirst({
+        where: { id: bumperId, project: { id, userId } }
+      });
+
+      if (!bumper) {
+        ResponseHelper.notFound(res, 'Intro/outro not found');
+        return;
+      }
+
+      await prisma.bumperAsset.delete({
+        where: { id: bumperId }
+      });
+      await bumperService.removeBumper(bumper.filename);
+
+      ResponseHelper.success(res, null, 'Intro/outro deleted successfully');
+    } catch (error) {
+      logger.error('Delete bumper error:', error);
+      ResponseHelper.serverError(res, 'Failed to delete intro/outro');
+    }
+  }
+
   async createGroup(req: AuthenticatedRequest, res: Response): Promise<void> {
     try {
       const userId = req.user?.userId;
@@ -3,10 +3,19 @@ import { prisma } from '@/utils/database';
 import { AuthenticatedRequest } from '@/middleware/auth.middleware';
 import { ResponseHelper } from '@/utils/response';
 import { VideoService } from '@/services/video.service';
+import { SubtitleService } from '@/services/subtitle.service';
+import { ImageClipService } from '@/services/image-clip.service';
+import { AspectFillService } from '@/services/aspect-fill.service';
+import { SceneDetectionService, SceneSegment } from '@/services/scene-detection.service';
+import { sanitizeFilename } from '@/utils/validation';
 import logger from '@/utils/logger';
 import path from 'path';
 import fs from 'fs/promises';
 const videoService = new VideoService();
+const subtitleService = new SubtitleService();
+const imageClipService = new ImageClipService();
+const aspectFillService = new AspectFillService();
+const sceneDetectionService = new SceneDetectionService();
 
 export class VideoController {
   async uploadVideos(req: AuthenticatedRequest, res: Response): Promise<void> {
@@ -17,7 +26,7 @@ export class VideoController {
         return;
       }
 
-      const { projectId, groupId } = req.body;
+      const { projectId, groupId, imageDuration } = req.body;
       const files = req.files as Express.Multer.File[];
 
       if (!files || files.length === 0) {
@@ -53,12 +62,15 @@ export class VideoController {
       for (const file of files) {
         try {
           logger.info(`Processing file: ${file.filename}, size: ${file.size}, path: ${file.path}`);
-          const metadata = await videoService.extractMetadata(file.path);
+          const metadata = await videoService.extractDetailedMetadata(file.path);
           logger.info(`Metadata extracted for ${file.filename}:`, metadata);
 
           // Parse resolution string (e.g., "1920x1080") into width and height
           const [width, height] = metadata.resolution ? metadata.resolution.split('x').map(Number) : [0, 0];
 
+          // Stills have no duration of their own - they are shown for the requested display duration
+          const isImage = imageClipService.isImage(file.mimetype, file.originalname);
+
           const videoFile = await prisma.video.create({
             data: {
               originalName: file.originalname,
@@ -66,12 +78,14 @@ export class VideoController {
               // path removed - not in schema, use filename instead
               mimeType: file.mimetype,
               size: BigInt(file.size), // Convert to BigInt for PostgreSQL
-              duration: metadata.duration,
+              duration: isImage ? imageClipService.parseDisplayDuration(imageDuration) : metadata.duration,
               width: width || 0,
               height: height || 0,
               fps: metadata.fps || 30,
               bitrate: metadata.bitrate || 0,
               codec: metadata.codec || 'unknown',
+              hasAudio: !isImage && Boolean(metadata.audioCodec),
+              isImage,
               projectId,
               groupId: groupId || null
             }
@@ -197,12 +211,20 @@ export class VideoController {
       //   return;
       // }
 
-      // Delete file from storage
-      try {
-        const videoPath = path.join('uploads', video.filename);
-        await fs.unlink(videoPath);
-      } catch (error) {
-        logger.warn(`Failed to delete file for video ${video.id}:`, error);
+      // Delete file from storage, unless virtual clips split from it (or their source) still play it
+      const sharedWith = await prisma.video.count({
+        where: { filename: video.filename, id: { not: video.id } }
+      });
+      if (sharedWith === 0) {
+        try {
+          const videoPath = path.join('uploads', video.filename);
+          await fs.unlink(videoPath);
+        } catch (error) {
+          logger.warn(`Failed to delete file for video ${video.id}:`, error);
+        }
+      }
+      if (video.subtitleFile) {
+        await subtitleService.removeSubtitle(video.subtitleFile);
       }
 
       // Delete from database
@@ -311,6 +333,459 @@ export class VideoController {
     }
   }
 
+  async setVideoPin(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        ResponseHelper.unauthorized(res, 'User not authenticated');
+        return;
+      }
+
+      const { videoId } = req.params;
+      const { position, index } = req.body;
+
+      // null/undefined position clears the pin
+      if (position && !['first', 'last', 'index'].includes(position)) {
+        ResponseHelper.error(res, 'Pin position must be first, last or index');
+        return;
+      }
+
+      const pinIndex = Number(index);
+      if (position === 'index' && (!Number.isInteger(pinIndex) || pinIndex < 0)) {
+        ResponseHelper.error(res, 'Pin index must be a non-negative integer');
+        return;
+      }
+
+      // Verify video ownership
+      const video = await prisma.video.findFirst({
+        where: {
+          id: videoId,
+          project: { userId }
+        }
+      });
+
+      if (!video) {
+        ResponseHelper.notFound(res, 'Video not found');
+        return;
+      }
+
+      const updatedVideo = await prisma.video.update({
+        where: { id: videoId },
+        data: {
+          pinPosition: position || null,
+          pinIndex: position === 'index' ? pinIndex : null
+        }
+      });
+
+      ResponseHelper.success(res, updatedVideo, position ? 'Video pinned' : 'Video pin cleared');
+    } catch (error) {
+      logger.error('Set video pin error:', error);
+      ResponseHelper.serverError(res, 'Failed to update video pin');
+    }
+  }
+
+  async setImageDuration(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        ResponseHelper.unauthorized(res, 'User not authenticated');
+        return;
+      }
+
+      const { videoId } = req.params;
+
+      const video = await prisma.video.findFirst({
+        where: {
+          id: videoId,
+          project: { userId }
+        }
+      });
+
+      if (!video) {
+        ResponseHelper.notFound(res, 'Video not found');
+        return;
+      }
+
+      if (!video.isImage) {
+        ResponseHelper.error(res, 'Only image clips have a display duration');
+        return;
+      }
+
+      const updatedVideo = await prisma.video.update({
+        where: { id: videoId },
+        data: { duration: imageClipService.parseDisplayDuration(req.body.duration) }
+      });
+
+      ResponseHelper.success(res, {
+        ...updatedVideo,
+        size: typeof updatedVideo.size === 'bigint' ? updatedVideo.size.toString() : updatedVideo.size
+      }, 'Display duration updated');
+    } catch (error) {
+      logger.error('Set image duration error:', error);
+      ResponseHelper.serverError(res, 'Failed to update display duration');
+    }
+  }
+
+  async setVideoFill(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        ResponseHelper.unauthorized(res, 'User not authenticated');
+        return;
+      }
+
+      const { videoId } = req.params;
+      const { mode, focalX, focalY } = req.body;
+
+      // null/undefined mode goes back to the job's fill
+      const fillMode = aspectFillService.parseMode(mode);
+      if (mode && !fillMode) {
+        ResponseHelper.error(res, 'Fill mode must be pad, blur, crop or smart-crop');
+        return;
+      }
+
+      const video = await prisma.video.findFirst({
+        where: {
+          id: videoId,
+          project: { userId }
+        }
+      });
+
+      if (!video) {
+        ResponseHelper.notFound(res, 'Video not found');
+        return;
+      }
+
+      const updatedVideo = await prisma.video.update({
+        where: { id: videoId },
+        data: {
+          fillMode: fillMode || null,
+          focalX: fillMode === 'smart-crop' ? aspectFillService.parseFocal(focalX) ?? 0.5 : null,
+          focalY: fillMode === 'smart-crop' ? aspectFillService.parseFocal(focalY) ?? 0.5 : null
+        }
+      });
+
+      ResponseHelper.success(res, {
+        ...updatedVideo,
+        size: typeof updatedVideo.size === 'bigint' ? updatedVideo.size.toString() : updatedVideo.size
+      }, fillMode ? 'Clip fill updated' : 'Clip fill cleared');
+    } catch (error) {
+      logger.error('Set video fill error:', error);
+      ResponseHelper.serverError(res, 'Failed to update clip fill');
+    }
+  }
+
+  async setVideoMirror(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        ResponseHelper.unauthorized(res, 'User not authenticated');
+        return;
+      }
+
+      const { videoId } = req.params;
+      const { allowMirror } = req.body;
+
+      if (typeof allowMirror !== 'boolean') {
+        ResponseHelper.error(res, 'allowMirror must be true or false');
+        return;
+      }
+
+      const video = await prisma.video.findFirst({
+        where: {
+          id: videoId,
+          project: { userId }
+        }
+      });
+
+      if (!video) {
+        ResponseHelper.notFound(res, 'Video not found');
+        return;
+      }
+
+      const updatedVideo = await prisma.video.update({
+        where: { id: videoId },
+        data: { allowMirror }
+      });
+
+      ResponseHelper.success(res, {
+        ...updatedVideo,
+        size: typeof updatedVideo.size === 'bigint' ? updatedVideo.size.toString() : updatedVideo.size
+      }, allowMirror ? 'Clip may be mirrored' : 'Clip will not be mirrored');
+    } catch (error) {
+      logger.error('Set video mirror error:', error);
+      ResponseHelper.serverError(res, 'Failed to update clip mirroring');
+    }
+  }
+
+  async detectScenes(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        ResponseHelper.unauthorized(res, 'User not authenticated');
+        return;
+      }
+
+      const { videoId } = req.params;
+
+      const video = await prisma.video.findFirst({
+        where: {
+          id: videoId,
+          project: { userId }
+        }
+      });
+
+      if (!video) {
+        ResponseHelper.notFound(res, 'Video not found');
+        return;
+      }
+
+      if (video.isImage || video.sourceStart !== null) {
+        ResponseHelper.error(res, 'Scenes can only be detected on an uploaded video');
+        return;
+      }
+
+      const options = sceneDetectionService.parseOptions(req.body);
+      const segments = await sceneDetectionService.detectScenes(path.join('uploads', video.filename), video.duration, options);
+
+      ResponseHelper.success(res, { videoId, duration: video.duration, options, segments }, `Proposed ${segments.length} clips`);
+    } catch (error) {
+      logger.error('Detect scenes error:', error);
+      ResponseHelper.serverError(res, 'Failed to detect scenes');
+    }
+  }
+
+  async splitScenes(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        ResponseHelper.unauthorized(res, 'User not authenticated');
+        return;
+      }
+
+      const { videoId } = req.params;
+      const mode = sceneDetectionService.parseMode(req.body.mode);
+      const groupName = typeof req.body.groupName === 'string' ? req.body.groupName.trim() : '';
+
+      const video = await prisma.video.findFirst({
+        where: {
+          id: videoId,
+          project: { userId }
+        }
+      });
+
+      if (!video) {
+        ResponseHelper.notFound(res, 'Video not found');
+        return;
+      }
+
+      if (video.isImage || video.sourceStart !== null) {
+        ResponseHelper.error(res, 'Only an uploaded video can be split into clips');
+        return;
+      }
+
+      let segments: SceneSegment[];
+      try {
+        segments = sceneDetectionService.validateSegments(req.body.segments, video.duration);
+      } catch (error) {
+        ResponseHelper.error(res, error instanceof Error ? error.message : 'Invalid segments');
+        return;
+      }
+
+      // New group goes after the project's existing ones; otherwise clips stay in the source's group
+      let group = null;
+      if (groupName) {
+        const lastGroup = await prisma.videoGroup.findFirst({
+          where: { projectId: video.projectId },
+          orderBy: { order: 'desc' }
+        });
+        group = await prisma.videoGroup.create({
+          data: {
+            name: groupName,
+            order: lastGroup ? lastGroup.order + 1 : 0,
+            projectId: video.projectId
+          }
+        });
+      }
+
+      const extension = path.extname(video.originalName);
+      const baseName = path.basename(video.originalName, extension);
+      const sourcePath = path.join('uploads', video.filename);
+      const created = [];
+      const errors = [];
+
+      for (const [i, segment] of segments.entries()) {
+        const clipData = {
+          originalName: `${baseName} - scene ${i + 1}${mode === 'physical' ? '.mp4' : extension}`,
+          duration: segment.end - segment.start,
+          hasAudio: video.hasAudio,
+          fillMode: video.fillMode,
+          focalX: video.focalX,
+          focalY: video.focalY,
+          allowMirror: video.allowMirror,
+          projectId: video.projectId,
+          groupId: group ? group.id : video.groupId
+        };
+
+        if (mode === 'virtual') {
+          // Same file, played from start to end of the segment
+          created.push(await prisma.video.create({
+            data: {
+              ...clipData,
+              filename: video.filename,
+              mimeType: video.mimeType,
+              size: video.size,
+              width: video.width,
+              height: video.height,
+              fps: video.fps,
+              bitrate: video.bitrate,
+              codec: video.codec,
+              sourceStart: segment.start,
+              sourceEnd: segment.end
+            }
+          }));
+          continue;
+        }
+
+        const filename = `${Date.now()}_${sanitizeFilename(baseName)}_scene${i + 1}.mp4`;
+        const outputPath = path.join('uploads', filename);
+        try {
+          await sceneDetectionService.cutSegment(sourcePath, outputPath, segment);
+          const metadata = await videoService.extractMetadata(outputPath);
+          const [width, height] = metadata.resolution ? metadata.resolution.split('x').map(Number) : [0, 0];
+          const stats = await fs.stat(outputPath);
+
+          created.push(await prisma.video.create({
+            data: {
+              ...clipData,
+              filename,
+              mimeType: 'video/mp4',
+              size: BigInt(stats.size),
+              duration: metadata.duration || clipData.duration,
+              width: width || video.width,
+              height: height || video.height,
+              fps: metadata.fps || video.fps,
+              bitrate: metadata.bitrate || 0,
+              codec: metadata.codec || 'h264'
+            }
+          }));
+        } catch (error) {
+          logger.error(`Failed to cut scene ${i + 1} of video ${video.id}:`, error);
+          errors.push({ segment, error: 'Failed to cut clip' });
+          await fs.unlink(outputPath).catch(() => undefined);
+        }
+      }
+
+      logger.info(`[Scene Detection] Split video ${video.id} into ${created.length} ${mode} clips`);
+
+      ResponseHelper.success(res, {
+        group,
+        created: created.map(clip => ({
+          ...clip,
+          size: typeof clip.size === 'bigint' ? clip.size.toString() : clip.size
+        })),
+        errors: errors.length > 0 ? errors : undefined
+      }, `Created ${created.length} clips`, 201);
+    } catch (error) {
+      logger.error('Split scenes error:', error);
+      ResponseHelper.serverError(res, 'Failed to split video');
+    }
+  }
+
+  async uploadSubtitles(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        ResponseHelper.unauthorized(res, 'User not authenticated');
+        return;
+      }
+
+      if (!req.file) {
+        ResponseHelper.error(res, 'No subtitle file uploaded');
+        return;
+      }
+
+      const { videoId } = req.params;
+
+      // Verify video ownership
+      const video = await prisma.video.findFirst({
+        where: {
+          id: videoId,
+          project: { userId }
+        }
+      });
+
+      if (!video) {
+        ResponseHelper.notFound(res, 'Video not found');
+        return;
+      }
+
+      let stored;
+      try {
+        stored = await subtitleService.storeSubtitle(req.file.originalname, req.file.buffer);
+      } catch (error) {
+        ResponseHelper.error(res, error instanceof Error ? error.message : 'Invalid subtitle file', 400);
+        return;
+      }
+
+      // A clip has one caption file - replacing it drops the old one
+      if (video.subtitleFile) {
+        await subtitleService.removeSubtitle(video.subtitleFile);
+      }
+
+      const updatedVideo = await prisma.video.update({
+        where: { id: videoId },
+        data: {
+          subtitleFile: stored.filename,
+          subtitleCues: stored.cueCount
+        }
+      });
+
+      ResponseHelper.success(res, updatedVideo, 'Subtitles uploaded successfully');
+    } catch (error) {
+      logger.error('Upload subtitles error:', error);
+      ResponseHelper.serverError(res, 'Failed to upload subtitles');
+    }
+  }
+
+  async deleteSubtitles(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        ResponseHelper.unauthorized(res, 'User not authenticated');
+        return;
+      }
+
+      const { videoId } = req.params;
+
+      const video = await prisma.video.findFirst({
+        where: {
+          id: videoId,
+          project: { userId }
+        }
+      });
+
+      if (!video) {
+        ResponseHelper.notFound(res, 'Video not found');
+        return;
+      }
+
+      if (video.subtitleFile) {
+        await subtitleService.removeSubtitle(video.subtitleFile);
+      }
+
+      const updatedVideo = await prisma.video.update({
+        where: { id: videoId },
+        data: { subtitleFile: null, subtitleCues: null }
+      });
+
+      ResponseHelper.success(res, updatedVideo, 'Subtitles removed');
+    } catch (error) {
+      logger.error('Delete subtitles error:', error);
+      ResponseHelper.serverError(res, 'Failed to remove subtitles');
+    }
+  }
+
   async bulkAssignVideosToGroup(req: AuthenticatedRequest, res: Response): Promise<void> {
     try {
       const userId = req.user?.userId;
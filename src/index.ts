@@ -21,6 +21,7 @@ import processingRoutes from '@/routes/processing.routes';
 // import adminRoutes from '@/routes/admin.routes'; // Disabled - missing EmailLog/Payment models
 import healthRoutes from '@/routes/health';
 import groupRoutes from '@/routes/group.routes';
+import metadataProfileRoutes from '@/routes/metadata-profile.routes';
 // import voiceOverRoutes from '@/routes/voice-over.routes'; // Disabled - incomplete implementation
 
 // Production services
@@ -158,6 +159,7 @@ app.use('/api/v1/projects', projectRoutes);
 app.use('/api/v1/videos', videoRoutes);
 app.use('/api/v1/groups', groupRoutes);
 app.use('/api/v1/processing', processingRoutes);
+app.use('/api/v1/metadata-profiles', metadataProfileRoutes);
 // app.use('/api/v1/voiceover', voiceOverRoutes); // Disabled - incomplete implementation
 // app.use('/api/v1/payments', paymentRoutes); // Disabled - missing Payment model
 // app.use('/api/v1/admin', adminRoutes); // Disabled - missing EmailLog/Payment models
@@ -181,6 +183,7 @@ app.get('/', (req, res) => {
       projects: '/api/v1/projects',
       videos: '/api/v1/videos',
       processing: '/api/v1/processing',
+      metadataProfiles: '/api/v1/metadata-profiles',
       payments: '/api/v1/payments',
       admin: '/api/v1/admin'
     },
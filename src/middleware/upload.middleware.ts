@@ -3,6 +3,10 @@ import path from 'path';
 import { Request } from 'express';
 import { validateFileType, validateFileSize, sanitizeFilename } from '@/utils/validation';
 import logger from '@/utils/logger';
+import { MUSIC_EXTENSIONS } from '@/services/music-bed.service';
+import { SUBTITLE_EXTENSIONS } from '@/services/subtitle.service';
+import { LOGO_EXTENSIONS } from '@/services/watermark.service';
+import { BUMPER_EXTENSIONS } from '@/services/bumper.service';
 
 const storage = multer.diskStorage({
   destination: (req: Request, file: Express.Multer.File, cb) => {
@@ -21,7 +25,7 @@ const fileFilter = (req: Request, file: Express.Multer.File, cb: multer.FileFilt
   logger.info(`Processing file upload: ${file.originalname}, mimetype: ${file.mimetype}, size: ${file.size || 'unknown'}`);
 
   if (!validateFileType(file.mimetype)) {
-    const error = new Error('Invalid file type. Only video files are allowed.');
+    const error = new Error('Invalid file type. Only video files and PNG/JPEG images are allowed.');
     (error as any).code = 'INVALID_FILE_TYPE';
     logger.error(`File type rejected: ${file.mimetype}`);
     return cb(error as any);
@@ -57,4 +61,43 @@ export const uploadMiddleware = multer({
   storage,
   fileFilter,
   limits
-});
\ No newline at end of file
+});
+
+/**
+ * Single-file upload for a project asset, accepted by extension. Small assets are kept in memory
+ * so their service can validate them before they hit disk.
+ */
+const createAssetUpload = (
+  extensions: string[],
+  maxSize: number,
+  label: string,
+  assetStorage: multer.StorageEngine = multer.memoryStorage()
+) => multer({
+  storage: assetStorage,
+  fileFilter: (req: Request, file: Express.Multer.File, cb: multer.FileFilterCallback) => {
+    if (!extensions.includes(path.extname(file.originalname).toLowerCase())) {
+      const error = new Error(`Invalid file type. Only ${extensions.join(', ')} ${label} files are allowed.`);
+      (error as any).code = 'INVALID_FILE_TYPE';
+      logger.error(`${label} file rejected: ${file.originalname}`);
+      return cb(error as any);
+    }
+
+    cb(null, true);
+  },
+  limits: { fileSize: maxSize, files: 1 }
+});
+
+// .cube LUTs are small text files
+export const lutUploadMiddleware = createAssetUpload(['.cube'], 10 * 1024 * 1024, 'LUT'); // 10MB
+
+// Music beds are written by the music bed service
+export const musicUploadMiddleware = createAssetUpload(MUSIC_EXTENSIONS, 50 * 1024 * 1024, 'music'); // 50MB
+
+// Caption files are parsed and normalized to SRT by the subtitle service before they are stored
+export const subtitleUploadMiddleware = createAssetUpload(SUBTITLE_EXTENSIONS, 1024 * 1024, 'subtitle'); // 1MB
+
+// Logos are checked for PNG/JPEG signatures by the watermark service before they are stored
+export const logoUploadMiddleware = createAssetUpload(LOGO_EXTENSIONS, 5 * 1024 * 1024, 'logo'); // 5MB
+
+// Intros and outros land in the upload directory like videos and are moved by the bumper service before they are probed
+export const bumperUploadMiddleware = createAssetUpload(BUMPER_EXTENSIONS, 100 * 1024 * 1024, 'intro/outro', storage); // 100MB
\ No newline at end of file
@@ -0,0 +1,16 @@
+import { Router } from 'express';
+import { MetadataProfileController } from '@/controllers/metadata-profile.controller';
+import { authenticateToken } from '@/middleware/auth.middleware';
+
+const router = Router();
+const metadataProfileController = new MetadataProfileController();
+
+router.use(authenticateToken);
+
+// Global profiles (no owner) are created, edited and deleted by admins only
+router.get('/', metadataProfileController.getProfiles.bind(metadataProfileController));
+router.post('/', metadataProfileController.createProfile.bind(metadataProfileController));
+router.put('/:profileId', metadataProfileController.updateProfile.bind(metadataProfileController));
+router.delete('/:profileId', metadataProfileController.deleteProfile.bind(metadataProfileController));
+
+export default router;
\ No newline at end of file
@@ -8,6 +8,8 @@ const processingController = new ProcessingController();
 router.use(authenticateToken);
 
 router.post('/start/:projectId', processingController.startProcessing.bind(processingController));
+router.post('/plan/:projectId', processingController.planVariants.bind(processingController));
+router.post('/plan/:projectId/preview', processingController.previewVariant.bind(processingController));
 router.get('/status/:jobId', processingController.getJobStatus.bind(processingController));
 router.get('/job/:jobId/details', processingController.getJobDetails.bind(processingController));
 router.post('/cancel/:jobId', processingController.cancelJob.bind(processingController));
@@ -16,6 +18,7 @@ router.get('/jobs', processingController.getUserJobs.bind(processingController))
 router.get('/project/:projectId/jobs', processingController.getProjectJobs.bind(processingController));
 router.get('/outputs/:jobId', processingController.getJobOutputs.bind(processingController));
 router.get('/download/:outputId', processingController.downloadOutput.bind(processingController));
+router.get('/download/:outputId/subtitles', processingController.downloadSubtitles.bind(processingController));
 
 // Batch download endpoints
 router.get('/job/:jobId/download-info', processingController.getBatchDownloadInfo.bind(processingController));
@@ -2,6 +2,7 @@ import { Router } from 'express';
 import { ProjectController } from '@/controllers/project.controller';
 import { authenticateToken } from '@/middleware/auth.middleware';
 import { validateRequest } from '@/middleware/validation.middleware';
+import { lutUploadMiddleware, musicUploadMiddleware, logoUploadMiddleware, bumperUploadMiddleware } from '@/middleware/upload.middleware';
 import { ProjectCreateSchema, ProjectUpdateSchema, PaginationSchema } from '@/utils/validation';
 
 const router = Router();
@@ -14,6 +15,20 @@ router.post('/', validateRequest(ProjectCreateSchema), projectController.createP
 router.get('/:id', projectController.getProject);
 router.put('/:id', validateRequest(ProjectUpdateSchema), projectController.updateProject);
 router.delete('/:id', projectController.deleteProject);
+router.get('/:id/ordering-rules', projectController.getOrderingRules);
+router.put('/:id/ordering-rules', projectController.updateOrderingRules);
+router.get('/:id/luts', projectController.getColorLuts);
+router.post('/:id/luts', lutUploadMiddleware.single('lut'), projectController.uploadColorLut);
+router.delete('/:id/luts/:lutId', projectController.deleteColorLut);
+router.get('/:id/music', projectController.getMusicTracks);
+router.post('/:id/music', musicUploadMiddleware.single('music'), projectController.uploadMusicTrack);
+router.delete('/:id/music/:trackId', projectController.deleteMusicTrack);
+router.get('/:id/logos', projectController.getLogos);
+router.post('/:id/logos', logoUploadMiddleware.single('logo'), projectController.uploadLogo);
+router.delete('/:id/logos/:logoId', projectController.deleteLogo);
+router.get('/:id/bumpers', projectController.getBumpers);
+router.post('/:id/bumpers', bumperUploadMiddleware.single('bumper'), projectController.uploadBumper);
+router.delete('/:id/bumpers/:bumperId', projectController.deleteBumper);
 router.post('/:id/groups', projectController.createGroup);
 router.put('/:id/groups/:groupId', projectController.updateGroup);
 router.delete('/:id/groups/:groupId', projectController.deleteGroup);
@@ -1,7 +1,7 @@
 import { Router } from 'express';
 import { VideoController } from '@/controllers/video.controller';
 import { authenticateToken } from '@/middleware/auth.middleware';
-import { uploadMiddleware } from '@/middleware/upload.middleware';
+import { subtitleUploadMiddleware, uploadMiddleware } from '@/middleware/upload.middleware';
 import { validateRequest } from '@/middleware/validation.middleware';
 import { VideoUploadSchema } from '@/utils/validation';
 
@@ -15,6 +15,14 @@ router.get('/project/:projectId', videoController.getProjectVideos.bind(videoCon
 router.delete('/:id', videoController.deleteVideo.bind(videoController));
 router.get('/:id/metadata', videoController.getVideoMetadata.bind(videoController));
 router.patch('/:videoId/group', videoController.assignVideoToGroup.bind(videoController));
+router.patch('/:videoId/pin', videoController.setVideoPin.bind(videoController));
+router.patch('/:videoId/duration', videoController.setImageDuration.bind(videoController));
+router.patch('/:videoId/fill', videoController.setVideoFill.bind(videoController));
+router.patch('/:videoId/mirror', videoController.setVideoMirror.bind(videoController));
+router.post('/:videoId/scenes/detect', videoController.detectScenes.bind(videoController));
+router.post('/:videoId/scenes/split', videoController.splitScenes.bind(videoController));
+router.post('/:videoId/subtitles', subtitleUploadMiddleware.single('subtitles'), videoController.uploadSubtitles.bind(videoController));
+router.delete('/:videoId/subtitles', videoController.deleteSubtitles.bind(videoController));
 router.patch('/bulk-assign-group', videoController.bulkAssignVideosToGroup.bind(videoController));
 
 export default router;
\ No newline at end of file
@@ -0,0 +1,119 @@
+export type FillMode = 'pad' | 'blur' | 'crop' | 'smart-crop';
+
+export const FILL_MODES: FillMode[] = ['pad', 'blur', 'crop', 'smart-crop'];
+
+export interface AspectFillSettings {
+  mode: FillMode;
+  padColor: string; // FFmpeg color for pad mode - name or 0xRRGGBB
+  focalX: number;   // 0-1 across the source; smart crop keeps this point in frame
+  focalY: number;
+}
+
+// Per-clip override of the job's fill; unset fields fall back to the job
+export interface ClipFill {
+  mode?: FillMode;
+  focalX?: number;
+  focalY?: number;
+}
+
+export const DEFAULT_ASPECT_FILL: AspectFillSettings = {
+  mode: 'pad',
+  padColor: 'black',
+  focalX: 0.5,
+  focalY: 0.5
+};
+
+const BLUR = 'boxblur=luma_radius=min(h\\,w)/20:luma_power=2';
+
+/**
+ * How a clip is fitted into an output frame of a different aspect ratio -
+ * letterbox with a color, blurred copy of itself behind, center crop, or crop around a focal point
+ */
+export class AspectFillService {
+  /**
+   * Normalize job fill settings from a request. Missing or invalid fields get the letterbox defaults.
+   */
+  parseSettings(raw: any): AspectFillSettings {
+    return {
+      mode: this.parseMode(raw?.mode) || DEFAULT_ASPECT_FILL.mode,
+      padColor: this.parseColor(raw?.padColor),
+      focalX: this.parseFocal(raw?.focalX) ?? DEFAULT_ASPECT_FILL.focalX,
+      focalY: this.parseFocal(raw?.focalY) ?? DEFAULT_ASPECT_FILL.focalY
+    };
+  }
+
+  parseMode(raw: unknown): FillMode | undefined {
+    return FILL_MODES.includes(raw as FillMode) ? raw as FillMode : undefined;
+  }
+
+  parseFocal(raw: unknown): number | undefined {
+    if (raw === null || raw === undefined || raw === '') return undefined;
+    const value = Number(raw);
+    return Number.isFinite(value) ? Math.max(0, Math.min(1, value)) : undefined;
+  }
+
+  /**
+   * Job settings with a clip's own mode and focal point applied
+   */
+  resolve(settings: AspectFillSettings | undefined, clip?: ClipFill): AspectFillSettings {
+    const base = settings || DEFAULT_ASPECT_FILL;
+    return {
+      ...base,
+      mode: clip?.mode || base.mode,
+      focalX: clip?.focalX ?? base.focalX,
+      focalY: clip?.focalY ?? base.focalY
+    };
+  }
+
+  /**
+   * True when a job or any clip asks for something other than the plain black letterbox
+   */
+  isCustom(settings: AspectFillSettings | undefined, clips: ClipFill[] = []): boolean {
+    const base = settings || DEFAULT_ASPECT_FILL;
+    return base.mode !== 'pad' || base.padColor !== DEFAULT_ASPECT_FILL.padColor || clips.some(clip => Boolean(clip.mode));
+  }
+
+  /**
+   * Filters that fit one stream into width x height. Blur splits the stream, so its
+   * intermediate pads are suffixed with the given label to stay unique in the graph.
+   */
+  buildFilters(fill: AspectFillSettings, width: number, height: number, label: string): string[] {
+    const size = `${width}:${height}`;
+
+    switch (fill.mode) {
+      case 'blur':
+        // One chain element - the split branches rejoin in the overlay, so the chain continues after it
+        return [[
+          `split=2[bg${label}][fg${label}]`,
+          `[bg${label}]scale=${size}:force_original_aspect_ratio=increase,crop=${size},${BLUR}[bgb${label}]`,
+          `[fg${label}]scale=${size}:force_original_aspect_ratio=decrease[fgs${label}]`,
+          `[bgb${label}][fgs${label}]overlay=(W-w)/2:(H-h)/2`
+        ].join(';')];
+      case 'crop':
+        return [`scale=${size}:force_original_aspect_ratio=increase`, `crop=${size}`];
+      case 'smart-crop':
+        return [
+          `scale=${size}:force_original_aspect_ratio=increase`,
+          `crop=${size}:${this.getCropOffset('iw', 'ow', fill.focalX)}:${this.getCropOffset('ih', 'oh', fill.focalY)}`
+        ];
+      case 'pad':
+      default:
+        return [
+          `scale=${size}:force_original_aspect_ratio=decrease`,
+          `pad=${size}:(ow-iw)/2:(oh-ih)/2:${fill.padColor}`
+        ];
+    }
+  }
+
+  // Center the crop window on the focal point without leaving the source
+  private getCropOffset(inputSize: string, outputSize: string, focal: number): string {
+    return `max(0\\,min(${inputSize}-${outputSize}\\,${inputSize}*${focal}-${outputSize}/2))`;
+  }
+
+  private parseColor(raw: unknown): string {
+    if (typeof raw !== 'string') return DEFAULT_ASPECT_FILL.padColor;
+    const hex = raw.match(/^#?([0-9a-fA-F]{6})$/);
+    if (hex) return `0x${hex[1].toUpperCase()}`;
+    return /^[a-zA-Z]{3,20}$/.test(raw) ? raw.toLowerCase() : DEFAULT_ASPECT_FILL.padColor;
+  }
+}
\ No newline at end of file
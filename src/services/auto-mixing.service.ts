@@ -1,5 +1,22 @@
 import * as fs from 'fs';
 import logger from '@/utils/logger';
+import { createSeededRandom, RandomFn } from '@/utils/seeded-random';
+import { VariantDiversityService } from './variant-diversity.service';
+import { OrderingRule, OrderingRulesService, OrderSearchResult } from './ordering-rules.service';
+import { HARD_CUT, TransitionCut, TransitionService, TransitionStyle } from './transition.service';
+import { ColorGrade, ColorGradingService, ColorIntensity, ColorLutFile, NEUTRAL_GRADE } from './color-grading.service';
+import { AudioMode, DEFAULT_MUSIC_OPTIONS, MusicBedOptions, MusicBedService, MusicTrackFile } from './music-bed.service';
+import { LoudnessMeasurement, LoudnessPreset, LoudnessService } from './loudness.service';
+import { TextOverlayService, TextOverlaySettings } from './text-overlay.service';
+import { SubtitleCue, SubtitleMode, SubtitleService, SubtitleStyle } from './subtitle.service';
+import { LogoFile, WatermarkPosition, WatermarkService, WatermarkSettings } from './watermark.service';
+import { ImageClipService, ImageMotion, ImageMotionLevel } from './image-clip.service';
+import { AspectFillService, AspectFillSettings, ClipFill, FILL_MODES, FillMode } from './aspect-fill.service';
+import { BumperFile, BumperService, BumperSettings } from './bumper.service';
+import { SpeedRampCurve, SpeedRampService, SpeedRampSettings } from './speed-ramp.service';
+import { DurationFillService, DurationFillStrategy, FILL_TOLERANCE } from './duration-fill.service';
+import { MetadataProfileService, MetadataProfileTags } from './metadata-profile.service';
+import { MicroVariation, MicroVariationService, MicroVariationSettings } from './micro-variation.service';
 
 export interface VideoClip {
   id: string;
@@ -9,6 +26,20 @@ export interface VideoClip {
   originalName?: string;
   order?: number;
   groupId?: string;
+  pin?: ClipPin;
+  loudness?: LoudnessMeasurement; // Source analysis for linear per-clip loudnorm
+  subtitles?: SubtitleCue[];       // Captions in source time, retimed per output
+  isImage?: boolean;               // Still image - duration is its display duration
+  hasAudio?: boolean;              // False when the source has no audio stream
+  fill?: ClipFill;                 // Overrides the job's aspect fill for this clip
+  sourceRange?: { start: number; end: number }; // Virtual clip - seconds of a file shared with other clips
+  allowMirror?: boolean;           // May be flipped by micro-variations
+}
+
+// Fixed position for a clip inside every generated order (index is 0-based)
+export interface ClipPin {
+  position: 'first' | 'last' | 'index';
+  index?: number;
 }
 
 export interface VideoGroup {
@@ -16,8 +47,16 @@ export interface VideoGroup {
   name: string;
   order: number;
   videos: VideoClip[];
+  minClips?: number;             // Clips taken per output (default 1)
+  maxClips?: number;             // Upper bound when the count varies per output
+  optional?: boolean;            // Optional groups are skipped in some outputs
+  inclusionProbability?: number; // 0-1 chance an optional group is used
+  durationBudget?: number;       // Seconds of a fixed-duration output given to this group
 }
 
+// strict keeps group sequence, random shuffles it, exhaustive emits each combination of picks once
+export type GroupMixingMode = 'strict' | 'random' | 'exhaustive';
+
 export interface MixingSettings {
   // Mixing Options
   orderMixing: boolean;
@@ -31,12 +70,26 @@ export interface MixingSettings {
 
   // Group Mixing
   groupMixing: boolean;
-  groupMixingMode: 'strict' | 'random';
+  groupMixingMode: GroupMixingMode;
+
+  // Exposure across the batch for group picks (0 = no bound)
+  minClipAppearances?: number;
+  maxClipAppearances?: number;
+  balanceExposure?: boolean; // Pick the least-used clip of each group
 
-  // Note: Transition and Color features removed for stability
+  // Transitions per cut - a cut falls back to a hard cut when a neighbouring clip is too short
+  transitionMixing?: boolean;
+  transitionTypes?: TransitionStyle[];
+  transitionDuration?: { min: number; max: number }; // Overlap in seconds
+
+  // Color grading per output - bounded eq/hue offsets, project LUTs rotated across the batch
+  colorVariations?: boolean;
+  colorIntensity?: ColorIntensity;
+  colorLuts?: ColorLutFile[];
 
   // Video Quality
-  metadataSource: 'normal' | 'capcut' | 'vn' | 'inshot';
+  metadataSource: 'normal' | 'capcut' | 'vn' | 'inshot'; // Legacy built-in preset, used when no profiles are resolved
+  metadataProfiles?: MetadataProfileTags[]; // Resolved from metadataProfileIds, rotated across outputs
   bitrate: 'low' | 'medium' | 'high';
   resolution: 'sd' | 'hd' | 'fullhd';
   frameRate: 24 | 30 | 60;
@@ -49,28 +102,119 @@ export interface MixingSettings {
   fixedDuration?: number; // in seconds
   durationDistributionMode?: 'proportional' | 'equal' | 'weighted'; // How to distribute duration
   smartTrimming?: boolean; // Enable intelligent duration distribution
+  groupDurationBudgets?: Record<string, number>; // Group ID -> seconds, filled from group settings
+  durationFill?: DurationFillStrategy; // What fills a fixed duration the clips can't reach
+
+  // Audio - music modes mix a project track under (or instead of) the clips' own audio
+  audioMode?: AudioMode;
+  musicTracks?: MusicTrackFile[]; // Rotated across outputs
+  musicBed?: MusicBedOptions;
+  loudnessPreset?: LoudnessPreset; // Normalize each clip, then the whole output, to this target
+
+  // Hook headlines - one drawtext headline per output
+  textOverlay?: TextOverlaySettings;
+
+  // Clip captions retimed to each output - burned in, or muxed as a mov_text track
+  subtitleMode?: SubtitleMode;
+  subtitleStyle?: SubtitleStyle;
 
-  // Audio
-  audioMode?: 'keep' | 'mute';
+  // Logo or text watermark, its position rotated across outputs
+  watermark?: WatermarkSettings;
+  watermarkLogo?: LogoFile; // Resolved from watermark.logoId
+
+  // Pan/zoom on still-image clips, picked per clip and output
+  imageMotion?: ImageMotionLevel;
+
+  // How clips are fitted to the output frame (letterboxed in black when unset)
+  aspectFill?: AspectFillSettings;
+
+  // Project intro/outro clips joined around every output, outside order mixing
+  bumpers?: BumperSettings;
+  introBumpers?: BumperFile[]; // Resolved from bumpers.introIds, rotated across outputs
+  outroBumpers?: BumperFile[];
+
+  // Speed curves on a few clips per output, on top of their constant speed
+  speedRamps?: SpeedRampSettings;
+
+  // Subtle zoom, mirror, hue, grain, pitch and start-offset differences per output
+  microVariations?: MicroVariationSettings;
 
   // Output
   outputCount: number;
+
+  // Reproducibility - same seed + same sources = same variant plans
+  seed?: number;
+
+  // Diversity - minimum pairwise distance (0-1) every output must keep from the others
+  minVariantDistance?: number;
+
+  // Storytelling rules between clips (before / never-adjacent / at-most-one-of)
+  orderingRules?: OrderingRule[];
 }
 
 export interface VideoVariant {
   id: string;
   videoOrder: string[]; // Array of video IDs in order
   speeds: Map<string, number>; // Video ID -> speed multiplier
-  transitions: string[]; // Transition type for each cut point
-  colorAdjustments: {
-    brightness: number;
-    contrast: number;
-    saturation: number;
-    hue: number;
-  };
+  transitions: string[]; // xfade transition (or hard cut) for each cut point
+  transitionDurations?: number[]; // Overlap in seconds for each cut point
+  colorAdjustments: ColorGrade; // Neutral until grades are assigned to the final batch
+  musicTrackId?: string;
+  headline?: string; // Text overlay carried by this output
+  watermarkPosition?: WatermarkPosition;
+  imageMotions?: Map<string, ImageMotion>; // Image clip ID -> pan/zoom in this output
+  introId?: string;
+  outroId?: string;
+  speedRamps?: Map<string, SpeedRampCurve>; // Clip ID -> speed curve in this output
+  metadataProfileId?: string;
+  creationTime?: string; // Picked for random and source creation times; 'now' is stamped at render
+  microVariation?: MicroVariation;
   settings: MixingSettings;
 }
 
+export interface ClipCoverage {
+  clipId: string;
+  originalName?: string;
+  groupId?: string;
+  outputs: number; // Number of outputs the clip appears in
+}
+
+// Dry-run view of one output: what would be rendered, without running FFmpeg
+export interface PlannedClip {
+  clipId: string;
+  originalName?: string;
+  speed: number;     // Average speed when ramped
+  trimStart: number; // Seconds into the source clip
+  trimEnd: number;
+  duration: number;  // Seconds in the output after trim and speed
+  motion?: ImageMotion; // Still images only
+  ramp?: SpeedRampCurve;
+}
+
+export interface VariantPlan {
+  variantId: string;
+  clips: PlannedClip[];
+  expectedDuration: number;
+  resolution: { width: number; height: number };
+  cuts: TransitionCut[];
+  grade: ColorGrade & { lutName?: string };
+  music?: { trackId: string; name: string };
+  headline?: string;
+  watermarkPosition?: WatermarkPosition;
+  intro?: { id: string; name: string; duration: number };
+  outro?: { id: string; name: string; duration: number };
+  durationFill?: { strategy: DurationFillStrategy; seconds: number }; // Seconds of the target the clips fell short of
+  metadata?: { profileId: string; name: string; creationTime?: string }; // No creationTime when stamped at render
+}
+
+// How a short fixed-duration output is filled - loop and slow change the variant, freeze and outro hold for some seconds
+interface DurationFillPlan {
+  variant: VideoVariant;
+  strategy?: DurationFillStrategy;
+  shortfall: number;
+  hold: number;
+}
+
 interface ClipDurationInfo {
   clipId: string;
   originalDuration: number;
@@ -81,62 +225,83 @@ interface ClipDurationInfo {
   trimEnd: number;           // Where to end trimming
 }
 
+// final is the delivered output; proxy is a cheap low-resolution preview with a burned-in label
+export type RenderProfile = 'final' | 'proxy';
+
+// Proxy previews trade quality for speed - small frame, fastest preset, short output
+const PROXY_HEIGHT = 360;
+const PROXY_MAX_DURATION = 15;
+
+// Above these sizes orders/speeds are sampled lazily instead of enumerated in memory
+const EAGER_PERMUTATION_LIMIT = 8;          // 8! = 40,320 orders
+const EAGER_SPEED_COMBINATION_LIMIT = 50000;
+
 export class AutoMixingService {
+  // Random source for variant generation - seeded per generateVariants() call
+  private random: RandomFn = Math.random;
+  private diversityService = new VariantDiversityService();
+  private transitionService = new TransitionService();
+  private colorGradingService = new ColorGradingService();
+  private musicBedService = new MusicBedService();
+  private loudnessService = new LoudnessService();
+  private textOverlayService = new TextOverlayService();
+  private subtitleService = new SubtitleService();
+  private watermarkService = new WatermarkService();
+  private imageClipService = new ImageClipService();
+  private aspectFillService = new AspectFillService();
+  private bumperService = new BumperService();
+  private speedRampService = new SpeedRampService();
+  private durationFillService = new DurationFillService();
+  private metadataProfileService = new MetadataProfileService();
+  private microVariationService = new MicroVariationService();
+  private orderingRulesService = new OrderingRulesService();
+
   /**
-   * Calculate smart duration distribution for clips
+   * Calculate smart duration distribution for clips.
+   * Clips of a group with a duration budget share that budget; the rest share what is left.
    */
   private calculateSmartDurations(
     clips: VideoClip[],
     targetDuration: number,
     speeds: Map<string, number>,
-    distributionMode: 'proportional' | 'equal' | 'weighted' = 'proportional'
+    distributionMode: 'proportional' | 'equal' | 'weighted' = 'proportional',
+    groupBudgets: Record<string, number> = {}
   ): Map<string, ClipDurationInfo> {
     const durations = new Map<string, ClipDurationInfo>();
 
     // Step 1: Calculate adjusted durations after speed effects
-    let totalAdjustedDuration = 0;
-    const clipInfos: ClipDurationInfo[] = [];
-
-    for (const clip of clips) {
+    const clipInfos: ClipDurationInfo[] = clips.map(clip => {
       const speed = speeds.get(clip.id) || 1;
-      const adjustedDuration = clip.duration / speed;
-      totalAdjustedDuration += adjustedDuration;
-
-      clipInfos.push({
+      return {
         clipId: clip.id,
         originalDuration: clip.duration,
         speedMultiplier: speed,
-        adjustedDuration,
+        adjustedDuration: clip.duration / speed,
         targetDuration: 0, // Will be calculated
         trimStart: 0,
         trimEnd: 0
-      });
-    }
+      };
+    });
 
-    // Step 2: Distribute target duration based on mode
-    if (distributionMode === 'equal') {
-      // Equal distribution: each clip gets equal duration
-      const equalDuration = targetDuration / clips.length;
-      for (const info of clipInfos) {
-        info.targetDuration = equalDuration;
-      }
-    } else if (distributionMode === 'proportional') {
-      // Proportional distribution: maintain relative durations
-      const scaleFactor = targetDuration / totalAdjustedDuration;
-      for (const info of clipInfos) {
-        info.targetDuration = info.adjustedDuration * scaleFactor;
-      }
-    } else if (distributionMode === 'weighted') {
-      // Weighted distribution: prioritize first and last clips
-      const weights = clips.map((_, index) => {
-        if (index === 0 || index === clips.length - 1) return 1.5;
-        return 1.0;
-      });
-      const totalWeight = weights.reduce((a, b) => a + b, 0);
+    // Step 2: Distribute target duration based on mode, budgeted groups first
+    const budgetedGroupIds = new Set(
+      clips.map(clip => clip.groupId).filter((id): id is string => !!id && groupBudgets[id] > 0)
+    );
+    let remainingDuration = targetDuration;
+
+    budgetedGroupIds.forEach(groupId => {
+      const groupInfos = clipInfos.filter((_, index) => clips[index].groupId === groupId);
+      this.distributeDuration(groupInfos, groupBudgets[groupId], distributionMode);
+      remainingDuration -= groupBudgets[groupId];
+      logger.info(`[Smart Duration] Group ${groupId}: ${groupBudgets[groupId]}s budget over ${groupInfos.length} clips`);
+    });
 
-      for (let i = 0; i < clipInfos.length; i++) {
-        clipInfos[i].targetDuration = (weights[i] / totalWeight) * targetDuration;
+    const freeInfos = clipInfos.filter((_, index) => !budgetedGroupIds.has(clips[index].groupId || ''));
+    if (freeInfos.length > 0) {
+      if (remainingDuration <= 0) {
+        logger.warn(`[Smart Duration] Group budgets use the whole ${targetDuration}s target, ${freeInfos.length} clips get no time`);
       }
+      this.distributeDuration(freeInfos, Math.max(0, remainingDuration), distributionMode);
     }
 
     // Step 3: Calculate trim points with validation
@@ -185,6 +350,41 @@ export class AutoMixingService {
     return durations;
   }
 
+  /**
+   * Split a target duration across clips in place
+   */
+  private distributeDuration(
+    clipInfos: ClipDurationInfo[],
+    targetDuration: number,
+    distributionMode: 'proportional' | 'equal' | 'weighted'
+  ): void {
+    if (distributionMode === 'equal') {
+      // Equal distribution: each clip gets equal duration
+      const equalDuration = targetDuration / clipInfos.length;
+      for (const info of clipInfos) {
+        info.targetDuration = equalDuration;
+      }
+    } else if (distributionMode === 'proportional') {
+      // Proportional distribution: maintain relative durations
+      const totalAdjustedDuration = clipInfos.reduce((sum, info) => sum + info.adjustedDuration, 0);
+      const scaleFactor = targetDuration / totalAdjustedDuration;
+      for (const info of clipInfos) {
+        info.targetDuration = info.adjustedDuration * scaleFactor;
+      }
+    } else if (distributionMode === 'weighted') {
+      // Weighted distribution: prioritize first and last clips
+      const weights = clipInfos.map((_, index) => {
+        if (index === 0 || index === clipInfos.length - 1) return 1.5;
+        return 1.0;
+      });
+      const totalWeight = weights.reduce((a, b) => a + b, 0);
+
+      for (let i = 0; i < clipInfos.length; i++) {
+        clipInfos[i].targetDuration = (weights[i] / totalWeight) * targetDuration;
+      }
+    }
+  }
+
   /**
    * Build smart filter complex with intelligent duration distribution
    */
@@ -222,208 +422,1327 @@ export class AutoMixingService {
       filterChain += `scale=${finalWidth}:${finalHeight}:force_original_aspect_ratio=decrease,`;
       filterChain += `pad=${finalWidth}:${finalHeight}:(ow-iw)/2:(oh-ih)/2:black`;
 
-      // Output to labeled stream
-      filterChain += `[v${index}]`;
-      filters.push(filterChain);
-      processedVideos.push(`[v${index}]`);
+      // Output to labeled stream
+      filterChain += `[v${index}]`;
+      filters.push(filterChain);
+      processedVideos.push(`[v${index}]`);
+    });
+
+    // Concatenate processed videos
+    if (processedVideos.length > 0) {
+      const concatFilter = `${processedVideos.join('')}concat=n=${processedVideos.length}:v=1:a=0[outv]`;
+      filters.push(concatFilter);
+    }
+
+    return filters;
+  }
+
+  /**
+   * Generate variants for group-based mixing.
+   * usage carries clip appearance counts from variants already in the batch and
+   * batchRemaining the outputs still to fill, including these.
+   */
+  private generateGroupBasedVariants(
+    groups: VideoGroup[],
+    settings: MixingSettings,
+    outputCount: number,
+    usage: Map<string, number> = new Map(),
+    batchRemaining: number = outputCount
+  ): string[][] {
+    const variants: string[][] = [];
+    const sortedGroups = [...groups].sort((a, b) => a.order - b.order);
+    const pins = this.getPinMap(groups.flatMap(group => group.videos));
+
+    for (let i = 0; i < outputCount; i++) {
+      const variant: string[] = [];
+      // Random mode shuffles groups per output, the other modes keep group sequence
+      const orderedGroups = settings.groupMixingMode === 'random'
+        ? this.shuffleArray([...sortedGroups])
+        : sortedGroups;
+
+      for (const group of orderedGroups) {
+        if (group.videos.length === 0) continue;
+        // Only optional groups draw for inclusion, so required-only plans stay unchanged per seed
+        if (group.optional && this.random() >= (group.inclusionProbability ?? 1)) continue;
+        variant.push(...this.pickGroupClips(group, settings, usage, batchRemaining - i));
+      }
+
+      // Every group was optional and skipped - keep the first so the output is not empty
+      const fallbackGroup = orderedGroups.find(group => group.videos.length > 0);
+      if (variant.length === 0 && fallbackGroup) {
+        variant.push(...this.pickGroupClips(fallbackGroup, settings, usage, batchRemaining - i));
+      }
+
+      if (variant.length > 0) {
+        variants.push(this.applyPins(variant, pins));
+      }
+    }
+
+    return variants;
+  }
+
+  /**
+   * Enumerate distinct combinations of group picks (cartesian product) in a balanced order.
+   * Output i is decoded from mixed-radix digits a_1..a_m and group g takes option
+   * (a_1 + ... + a_g + offset_g) mod options_g: a bijection, so no combination repeats,
+   * and every group moves to its next option on each output, spreading clips evenly.
+   */
+  private generateExhaustiveGroupVariants(groups: VideoGroup[], outputCount: number): string[][] {
+    const sortedGroups = [...groups].filter(group => group.videos.length > 0).sort((a, b) => a.order - b.order);
+    const pins = this.getPinMap(sortedGroups.flatMap(group => group.videos));
+    const optionCounts = sortedGroups.map(group => this.getGroupOptionCount(group));
+    // Seeded offsets vary which combinations a batch starts with
+    const offsets = optionCounts.map(count => Math.floor(this.random() * count));
+    const total = optionCounts.reduce((product, count) => product * count, 1);
+    const variants: string[][] = [];
+
+    for (let i = 0; i < total && variants.length < outputCount; i++) {
+      const variant: string[] = [];
+      let rest = i;
+      let digitSum = 0;
+
+      sortedGroups.forEach((group, g) => {
+        digitSum += rest % optionCounts[g];
+        rest = Math.floor(rest / optionCounts[g]);
+        variant.push(...this.getGroupOption(group, (digitSum + offsets[g]) % optionCounts[g]));
+      });
+
+      // All groups optional and left out - not a usable output
+      if (variant.length > 0) {
+        variants.push(this.applyPins(variant, pins));
+      }
+    }
+
+    logger.info(`[Variant Generation] Exhaustive group mixing: ${variants.length} of ${this.countGroupCombinations(groups)} combinations used`);
+    return variants;
+  }
+
+  /**
+   * Distinct combinations exhaustive group mixing can produce
+   */
+  private countGroupCombinations(groups: VideoGroup[]): number {
+    const nonEmpty = groups.filter(group => group.videos.length > 0);
+    if (nonEmpty.length === 0) return 0;
+
+    const total = nonEmpty.reduce((product, group) => product * this.getGroupOptionCount(group), 1);
+    // Leaving out every optional group at once yields an empty output
+    return nonEmpty.every(group => group.optional) ? total - 1 : total;
+  }
+
+  /**
+   * Picks a group offers per output: each clip subset within its min/max count,
+   * plus leaving it out when optional (inclusion probability does not apply here)
+   */
+  private getGroupOptionCount(group: VideoGroup): number {
+    const { min, max } = this.getGroupClipRange(group);
+    let count = group.optional ? 1 : 0;
+    for (let k = min; k <= max; k++) {
+      count += this.binomial(group.videos.length, k);
+    }
+    return count;
+  }
+
+  /**
+   * Decode an option index into the clip IDs it picks, kept in group order.
+   * Options list subsets by size then lexicographically; the optional "left out" option is last.
+   */
+  private getGroupOption(group: VideoGroup, optionIndex: number): string[] {
+    const { min, max } = this.getGroupClipRange(group);
+    const n = group.videos.length;
+    let rank = optionIndex;
+
+    for (let k = min; k <= max; k++) {
+      const subsetCount = this.binomial(n, k);
+      if (rank >= subsetCount) {
+        rank -= subsetCount;
+        continue;
+      }
+
+      // Unrank the k-subset (combinatorial number system)
+      const picked: string[] = [];
+      let remaining = k;
+      for (let i = 0; i < n && remaining > 0; i++) {
+        const withClip = this.binomial(n - i - 1, remaining - 1);
+        if (rank < withClip) {
+          picked.push(group.videos[i].id);
+          remaining--;
+        } else {
+          rank -= withClip;
+        }
+      }
+      return picked;
+    }
+
+    return [];
+  }
+
+  private binomial(n: number, k: number): number {
+    if (k < 0 || k > n) return 0;
+    const smaller = Math.min(k, n - k);
+    let result = 1;
+    for (let i = 1; i <= smaller; i++) {
+      result = result * (n - smaller + i) / i;
+    }
+    return Math.round(result);
+  }
+
+  /**
+   * Pick this output's clips from a group - a count within the group's min/max, no clip twice
+   */
+  private pickGroupClips(
+    group: VideoGroup,
+    settings: MixingSettings,
+    usage: Map<string, number>,
+    remainingOutputs: number
+  ): string[] {
+    const { min, max } = this.getGroupClipRange(group);
+    const count = max > min ? min + Math.floor(this.random() * (max - min + 1)) : min;
+    const picked: string[] = [];
+
+    for (let i = 0; i < count; i++) {
+      const video = this.pickGroupClip(group, settings, usage, remainingOutputs, picked);
+      usage.set(video.id, (usage.get(video.id) || 0) + 1);
+      picked.push(video.id);
+    }
+
+    return picked;
+  }
+
+  /**
+   * Clips taken from a group per output, clamped to the clips it has
+   */
+  private getGroupClipRange(group: VideoGroup): { min: number; max: number } {
+    const size = group.videos.length;
+    const min = Math.min(size, Math.max(1, Math.floor(group.minClips ?? 1)));
+    const max = Math.min(size, Math.max(min, Math.floor(group.maxClips ?? min)));
+    return { min, max };
+  }
+
+  /**
+   * Pick one clip from a group while honoring batch exposure bounds.
+   * Clips still short of minClipAppearances are forced once the remaining outputs run out;
+   * clips at maxClipAppearances are skipped; balanceExposure always takes a least-used clip.
+   */
+  private pickGroupClip(
+    group: VideoGroup,
+    settings: MixingSettings,
+    usage: Map<string, number>,
+    remainingOutputs: number,
+    excludeIds: string[] = []
+  ): VideoClip {
+    const min = settings.minClipAppearances || 0;
+    const max = settings.maxClipAppearances || 0;
+    const countOf = (clip: VideoClip) => usage.get(clip.id) || 0;
+    const available = group.videos.filter(clip => !excludeIds.includes(clip.id));
+
+    let candidates = max > 0 ? available.filter(clip => countOf(clip) < max) : available;
+    if (candidates.length === 0) {
+      candidates = available;
+    }
+
+    const deficit = group.videos.reduce((sum, clip) => sum + Math.max(0, min - countOf(clip)), 0);
+    const mustCoverMinimum = min > 0 && deficit >= remainingOutputs;
+
+    if (settings.balanceExposure || mustCoverMinimum) {
+      const lowest = Math.min(...candidates.map(countOf));
+      candidates = candidates.filter(clip => countOf(clip) === lowest);
+    }
+
+    return candidates[Math.floor(this.random() * candidates.length)];
+  }
+
+  /**
+   * Generate all possible order permutations of videos
+   */
+  private generateOrderPermutations(videos: VideoClip[]): string[][] {
+    if (videos.length === 0) return [];
+    if (videos.length === 1) return [[videos[0].id]];
+
+    // Only free clips are permuted; pinned clips are slotted back into each order
+    const pins = this.getPinMap(videos);
+    const freeIds = videos.map(v => v.id).filter(id => !pins.has(id));
+
+    const permutations: string[][] = [];
+
+    const permute = (arr: string[], m: string[] = []) => {
+      if (arr.length === 0) {
+        permutations.push(m);
+      } else {
+        for (let i = 0; i < arr.length; i++) {
+          const curr = arr.slice();
+          const next = curr.splice(i, 1);
+          permute(curr.slice(), m.concat(next));
+        }
+      }
+    };
+
+    permute(freeIds);
+    return permutations.map(order => this.applyPins([...order, ...pins.keys()], pins));
+  }
+
+  /**
+   * Map clip id -> pin for clips that carry a position constraint
+   */
+  private getPinMap(videos: VideoClip[]): Map<string, ClipPin> {
+    const pins = new Map<string, ClipPin>();
+    videos.forEach(video => {
+      if (video.pin) {
+        pins.set(video.id, video.pin);
+      }
+    });
+    return pins;
+  }
+
+  /**
+   * Place pinned clips at their fixed slots and fill the rest with the free clips in their given order.
+   * Pinned clips missing from the order (e.g. not picked from their group) are ignored.
+   */
+  private applyPins(order: string[], pins: Map<string, ClipPin>): string[] {
+    if (pins.size === 0) return order;
+
+    const pinned = order.filter(id => pins.has(id));
+    if (pinned.length === 0) return order;
+
+    const slots: (string | null)[] = new Array(order.length).fill(null);
+    const firsts = pinned.filter(id => pins.get(id)!.position === 'first');
+    const lasts = pinned.filter(id => pins.get(id)!.position === 'last');
+    const indexed = pinned.filter(id => pins.get(id)!.position === 'index');
+
+    firsts.forEach((id, i) => { slots[i] = id; });
+    lasts.forEach((id, i) => { slots[order.length - lasts.length + i] = id; });
+
+    // Index pins take the nearest free slot when their slot is taken or out of range
+    indexed.forEach(id => {
+      const target = Math.min(Math.max(0, pins.get(id)!.index ?? 0), order.length - 1);
+      for (let offset = 0; offset < order.length; offset++) {
+        const candidates = [target + offset, target - offset];
+        const slot = candidates.find(c => c >= 0 && c < order.length && slots[c] === null);
+        if (slot !== undefined) {
+          slots[slot] = id;
+          break;
+        }
+      }
+    });
+
+    const free = order.filter(id => !pins.has(id));
+    return slots.map(slot => slot ?? free.shift()!);
+  }
+
+  /**
+   * Sample unique random orders without building every permutation.
+   * Small sets draw distinct ranks and unrank them; large sets draw random Lehmer codes.
+   * With differentStartingVideo the starting clip rotates round-robin across outputs.
+   */
+  private sampleOrderPermutations(
+    videos: VideoClip[],
+    count: number,
+    differentStartingVideo: boolean
+  ): string[][] {
+    const pins = this.getPinMap(videos);
+    const videoIds = videos.map(v => v.id).filter(id => !pins.has(id));
+    if (videoIds.length <= 1) return [this.applyPins(videoIds.concat([...pins.keys()]), pins)];
+
+    // A clip pinned first fixes the starting video, so rotation cannot apply
+    const hasFirstPin = [...pins.values()].some(pin => pin.position === 'first');
+    if (!differentStartingVideo || hasFirstPin) {
+      return this.sampleUniquePermutations(videoIds, count).map(order => this.applyPins(order.concat([...pins.keys()]), pins));
+    }
+
+    // Sample tails per starting video, then interleave so consecutive outputs start differently
+    const startOrder = this.shuffleArray(videoIds);
+    const perStart = Math.ceil(count / videoIds.length);
+    const tailsByStart = startOrder.map(startId =>
+      this.sampleUniquePermutations(videoIds.filter(id => id !== startId), perStart)
+    );
+
+    const orders: string[][] = [];
+    for (let round = 0; round < perStart && orders.length < count; round++) {
+      startOrder.forEach((startId, startIndex) => {
+        const tail = tailsByStart[startIndex][round];
+        if (tail && orders.length < count) {
+          orders.push(this.applyPins([startId, ...tail, ...pins.keys()], pins));
+        }
+      });
+    }
+
+    logger.info(`[Variant Generation] Sampled ${orders.length} orders across ${startOrder.length} starting videos`);
+    return orders;
+  }
+
+  /**
+   * Draw up to count distinct random permutations of items
+   */
+  private sampleUniquePermutations(items: string[], count: number): string[][] {
+    const total = this.factorial(items.length);
+    const target = Math.min(count, total);
+
+    if (items.length <= EAGER_PERMUTATION_LIMIT) {
+      // Partial Fisher-Yates over the rank space gives distinct ranks without rejection
+      const ranks = Array.from({ length: total }, (_, i) => i);
+      for (let i = 0; i < target; i++) {
+        const j = i + Math.floor(this.random() * (total - i));
+        [ranks[i], ranks[j]] = [ranks[j], ranks[i]];
+      }
+      return ranks.slice(0, target).map(rank => this.unrankPermutation(items, rank));
+    }
+
+    // n! dwarfs any output count here, so collisions are rare - dedupe and redraw
+    const seen = new Set<string>();
+    const orders: string[][] = [];
+    let attempts = 0;
+    while (orders.length < target && attempts < target * 20) {
+      attempts++;
+      const lehmerCode = items.map((_, i) => Math.floor(this.random() * (items.length - i)));
+      const order = this.decodeLehmerCode(items, lehmerCode);
+      const key = order.join('|');
+      if (!seen.has(key)) {
+        seen.add(key);
+        orders.push(order);
+      }
+    }
+
+    return orders;
+  }
+
+  /**
+   * Convert a permutation rank (0 to n!-1) to its Lehmer code and decode it
+   */
+  private unrankPermutation(items: string[], rank: number): string[] {
+    const lehmerCode: number[] = [];
+    let remainder = rank;
+    for (let i = items.length; i >= 1; i--) {
+      const base = this.factorial(i - 1);
+      lehmerCode.push(Math.floor(remainder / base));
+      remainder %= base;
+    }
+    return this.decodeLehmerCode(items, lehmerCode);
+  }
+
+  /**
+   * Each Lehmer digit picks an index among the items not yet placed
+   */
+  private decodeLehmerCode(items: string[], lehmerCode: number[]): string[] {
+    const remaining = [...items];
+    return lehmerCode.map(digit => remaining.splice(digit, 1)[0]);
+  }
+
+  private factorial(n: number): number {
+    let result = 1;
+    for (let i = 2; i <= n; i++) {
+      result *= i;
+    }
+    return result;
+  }
+
+  /**
+   * Sample random speed maps when the full speeds^videos enumeration would be too large
+   */
+  private sampleSpeedCombinations(
+    videos: VideoClip[],
+    allowedSpeeds: number[],
+    count: number
+  ): Map<string, number>[] {
+    const combinations: Map<string, number>[] = [];
+    for (let i = 0; i < count; i++) {
+      const speeds = new Map<string, number>();
+      videos.forEach(video => {
+        speeds.set(video.id, allowedSpeeds[Math.floor(this.random() * allowedSpeeds.length)]);
+      });
+      combinations.push(speeds);
+    }
+    return combinations;
+  }
+
+  /**
+   * Generate rotated orders for Different Starting Video feature
+   * Each output starts with a different video, maintaining relative order
+   */
+  private generateRotatedOrders(videos: VideoClip[], outputCount: number): string[][] {
+    const orders: string[][] = [];
+    const pins = this.getPinMap(videos);
+    const videoIds = videos.map(v => v.id).filter(id => !pins.has(id));
+    const pinnedIds = videos.map(v => v.id).filter(id => pins.has(id));
+
+    for (let i = 0; i < outputCount; i++) {
+      // Rotate only the free clips by i positions, pinned clips keep their slots
+      const rotationIndex = videoIds.length > 0 ? i % videoIds.length : 0;
+      const rotatedOrder = this.applyPins([
+        ...videoIds.slice(rotationIndex),
+        ...videoIds.slice(0, rotationIndex),
+        ...pinnedIds
+      ], pins);
+      orders.push(rotatedOrder);
+
+      logger.info(`[Variant Generation] Rotated order ${i + 1}: [${rotatedOrder.join(', ')}]`);
+    }
+
+    return orders;
+  }
+
+  /**
+   * Generate speed combinations for videos
+   */
+  private generateSpeedCombinations(
+    videos: VideoClip[],
+    allowedSpeeds: number[]
+  ): Map<string, number>[] {
+    const combinations: Map<string, number>[] = [];
+
+    // Generate all possible speed combinations
+    const generateCombos = (index: number, current: Map<string, number>) => {
+      if (index === videos.length) {
+        combinations.push(new Map(current));
+        return;
+      }
+
+      for (const speed of allowedSpeeds) {
+        current.set(videos[index].id, speed);
+        generateCombos(index + 1, current);
+      }
+    };
+
+    generateCombos(0, new Map());
+    return combinations;
+  }
+
+  /**
+   * Calculate total possible variants
+   */
+  public calculateVariantCount(
+    videoCount: number,
+    settings: Pick<MixingSettings, 'orderMixing' | 'speedMixing' | 'allowedSpeeds' | 'groupMixing' | 'groupMixingMode'>,
+    groups?: VideoGroup[]
+  ): number {
+    // Exhaustive group mixing: every output is a distinct combination of group picks
+    if (settings.groupMixing && settings.groupMixingMode === 'exhaustive' && groups && groups.length > 0) {
+      return this.countGroupCombinations(groups);
+    }
+
+    let totalVariants = 1;
+
+    // Order permutations (n!)
+    if (settings.orderMixing) {
+      let factorial = 1;
+      for (let i = 2; i <= videoCount; i++) {
+        factorial *= i;
+      }
+      totalVariants *= factorial;
+    }
+
+    // Speed combinations (speeds^videos)
+    if (settings.speedMixing) {
+      const speedCount = settings.allowedSpeeds.length;
+      totalVariants *= Math.pow(speedCount, videoCount);
+    }
+
+    return totalVariants;
+  }
+
+  /**
+   * Generate video variants based on settings (with optional groups)
+   */
+  public async generateVariants(
+    videos: VideoClip[],
+    settings: MixingSettings,
+    groups?: VideoGroup[]
+  ): Promise<VideoVariant[]> {
+    if (settings.groupMixing && groups && groups.length > 0) {
+      // Carry group duration budgets on the variant settings for smart trimming
+      const budgets = Object.fromEntries(
+        groups.filter(group => (group.durationBudget || 0) > 0).map(group => [group.id, group.durationBudget!])
+      );
+      if (Object.keys(budgets).length > 0) {
+        settings = { ...settings, groupDurationBudgets: budgets };
+      }
+
+      // Exhaustive mode stops when the combinations run out instead of repeating one
+      const combinations = this.calculateVariantCount(videos.length, settings, groups);
+      if (settings.groupMixingMode === 'exhaustive' && combinations < settings.outputCount) {
+        logger.warn(`[Variant Generation] Only ${combinations} unique combinations possible - generating ${combinations} of ${settings.outputCount} outputs`);
+        settings = { ...settings, outputCount: combinations };
+      }
+    }
+
+    // Seed the random source so the same seed and sources yield identical plans. this.random is shared by
+    // every job on this instance, so nothing from here to the return may await - the whole plan is drawn in one go.
+    this.random = settings.seed !== undefined ? createSeededRandom(settings.seed) : Math.random;
+
+    let variants = this.generateBaseVariants(videos, settings, groups);
+
+    if (settings.minVariantDistance && settings.minVariantDistance > 0 && settings.outputCount > 1) {
+      variants = this.enforceVariantDiversity(variants, videos, settings, groups);
+    }
+
+    if (settings.groupMixing && groups && groups.length > 0) {
+      this.assertExposureBounds(variants, groups, settings);
+    }
+
+    if (settings.transitionMixing) {
+      variants = variants.map(variant => this.assignTransitions(variant));
+    }
+
+    if (settings.colorVariations || (settings.colorLuts && settings.colorLuts.length > 0)) {
+      variants = variants.map((variant, index) => this.assignColorGrade(variant, index));
+    }
+
+    const musicTracks = settings.musicTracks || [];
+    if (this.musicBedService.usesMusic(settings.audioMode) && musicTracks.length > 0) {
+      // Rotate from a seeded start so small batches don't always open with the first track
+      const offset = Math.floor(this.random() * musicTracks.length);
+      variants = variants.map((variant, index) => ({
+        ...variant,
+        musicTrackId: musicTracks[(offset + index) % musicTracks.length].id
+      }));
+    }
+
+    if (settings.textOverlay) {
+      const headlines = this.textOverlayService.assignHeadlines(variants.length, settings.textOverlay, this.random);
+      variants = variants.map((variant, index) => ({ ...variant, headline: headlines[index] }));
+    }
+
+    if (settings.watermark) {
+      const { positions } = settings.watermark;
+      const offset = Math.floor(this.random() * positions.length);
+      variants = variants.map((variant, index) => ({
+        ...variant,
+        watermarkPosition: positions[(offset + index) % positions.length]
+      }));
+    }
+
+    const imageIds = new Set(videos.filter(video => video.isImage).map(video => video.id));
+    if (imageIds.size > 0 && settings.imageMotion !== 'off') {
+      variants = variants.map(variant => ({
+        ...variant,
+        imageMotions: new Map(variant.videoOrder
+          .filter(id => imageIds.has(id))
+          .map(id => [id, this.imageClipService.pickMotion(this.random)]))
+      }));
+    }
+
+    // Intros and outros rotate independently from seeded starts, like music tracks
+    const intros = settings.bumpers ? settings.introBumpers || [] : [];
+    const outros = settings.bumpers ? settings.outroBumpers || [] : [];
+    if (intros.length > 0 || outros.length > 0) {
+      const introOffset = Math.floor(this.random() * Math.max(1, intros.length));
+      const outroOffset = Math.floor(this.random() * Math.max(1, outros.length));
+      variants = variants.map((variant, index) => ({
+        ...variant,
+        introId: intros.length > 0 ? intros[(introOffset + index) % intros.length].id : undefined,
+        outroId: outros.length > 0 ? outros[(outroOffset + index) % outros.length].id : undefined
+      }));
+    }
+
+    // Ramped clips are picked per output; curves rotate from a seeded start. Stills have no motion to retime.
+    if (settings.speedRamps) {
+      const { curves, clipsPerOutput } = settings.speedRamps;
+      const offset = Math.floor(this.random() * curves.length);
+      variants = variants.map((variant, index) => ({
+        ...variant,
+        speedRamps: new Map(this.shuffleArray(variant.videoOrder.filter(id => !imageIds.has(id)))
+          .slice(0, clipsPerOutput)
+          .map((id, k) => [id, curves[(offset + index + k) % curves.length]]))
+      }));
+    }
+
+    // Metadata profiles rotate from a seeded start
+    const metadataProfiles = this.getMetadataProfiles(settings);
+    if (metadataProfiles.length > 0) {
+      const uploadTimes = new Map(videos.map(video => [video.id, video.metadata?.uploadedAt]));
+      const offset = Math.floor(this.random() * metadataProfiles.length);
+      variants = variants.map((variant, index) => {
+        const profile = metadataProfiles[(offset + index) % metadataProfiles.length];
+        return {
+          ...variant,
+          metadataProfileId: profile.id,
+          creationTime: this.metadataProfileService.pickCreationTime(profile, this.random, uploadTimes.get(variant.videoOrder[0]))
+        };
+      });
+    }
+
+    // Micro-variations are picked last so enabling them leaves every other seeded choice as it was
+    if (settings.microVariations) {
+      const videoMap = new Map(videos.map(video => [video.id, video]));
+      variants = variants.map(variant => ({
+        ...variant,
+        microVariation: this.microVariationService.pick(
+          settings.microVariations!,
+          Array.from(new Set(variant.videoOrder)).map(id => videoMap.get(id)).filter((clip): clip is VideoClip => !!clip),
+          this.random
+        )
+      }));
+    }
+
+    return variants;
+  }
+
+  /**
+   * Grade one output - random eq/hue within the intensity bounds, LUTs rotated so each is used evenly
+   */
+  private assignColorGrade(variant: VideoVariant, index: number): VideoVariant {
+    const grade: ColorGrade = variant.settings.colorVariations
+      ? this.generateColorAdjustments(variant.settings.colorIntensity || 'low')
+      : { ...NEUTRAL_GRADE };
+
+    const luts = variant.settings.colorLuts || [];
+    if (luts.length > 0) {
+      grade.lutId = luts[index % luts.length].id;
+    }
+
+    return { ...variant, colorAdjustments: grade };
+  }
+
+  /**
+   * Pick a transition and overlap for every cut of a variant
+   */
+  private assignTransitions(variant: VideoVariant): VideoVariant {
+    const { transitions, durations } = this.transitionService.pickTransitions(
+      Math.max(0, variant.videoOrder.length - 1),
+      this.transitionService.parseStyles(variant.settings.transitionTypes),
+      this.transitionService.parseDuration(variant.settings.transitionDuration),
+      this.random
+    );
+    return { ...variant, transitions, transitionDurations: durations };
+  }
+
+  /**
+   * Smart trimming target - overlaps eat into the output, so clips are planned longer by their sum
+   */
+  private getSmartTrimTarget(variant: VideoVariant): number {
+    const overlap = variant.transitions.reduce((total, transition, i) =>
+      total + (transition !== HARD_CUT ? variant.transitionDurations?.[i] || 0 : 0), 0);
+    return this.getContentDuration(variant) + overlap;
+  }
+
+  /**
+   * Seconds of a fixed-duration output left for the mixed clips - bumpers only take
+   * a share when they are counted in the duration, otherwise they are added on top
+   */
+  private getContentDuration(variant: VideoVariant): number {
+    const { intro, outro } = this.getBumpers(variant);
+    const bumperDuration = variant.settings.bumpers?.countInDuration
+      ? (intro?.duration || 0) + (outro?.duration || 0)
+      : 0;
+    return Math.max(1, variant.settings.fixedDuration! - bumperDuration);
+  }
+
+  /**
+   * Intro and outro assigned to this output
+   */
+  private getBumpers(variant: VideoVariant): { intro?: BumperFile; outro?: BumperFile } {
+    if (!variant.settings.bumpers) return {};
+    return {
+      intro: variant.settings.introBumpers?.find(bumper => bumper.id === variant.introId),
+      outro: variant.settings.outroBumpers?.find(bumper => bumper.id === variant.outroId)
+    };
+  }
+
+  /**
+   * Clips as an output plays them - start offsets shorten clips before anything is planned around them
+   */
+  private getPlayedClips(variant: VideoVariant, videos: VideoClip[]): VideoClip[] {
+    return this.microVariationService.applyStartOffsets(videos, variant.microVariation, variant.settings.frameRate);
+  }
+
+  /**
+   * Profile pool of a job - callers that resolved no profiles keep the legacy metadataSource preset
+   */
+  private getMetadataProfiles(settings: MixingSettings): MetadataProfileTags[] {
+    return settings.metadataProfiles ?? this.metadataProfileService
+      .parseProfileIds([], settings.metadataSource)
+      .map(id => this.metadataProfileService.getBuiltInProfile(id)!);
+  }
+
+  /**
+   * Length of the mixed clips with the variant's trims, speeds and cuts, before any duration cut
+   */
+  private getSequenceDuration(variant: VideoVariant, clips: VideoClip[]): number {
+    const settings = variant.settings;
+    const durations = settings.smartTrimming && settings.durationType === 'fixed' && settings.fixedDuration
+      ? this.calculateSmartDurations(
+          clips,
+          this.getSmartTrimTarget(variant),
+          this.getEffectiveSpeeds(variant),
+          settings.durationDistributionMode || 'proportional',
+          settings.groupDurationBudgets
+        )
+      : null;
+    const { clipDurations, cuts } = this.getClipTimeline(variant, clips, durations);
+    return this.transitionService.getOutputDuration(clipDurations, cuts);
+  }
+
+  /**
+   * Fill a fixed-duration output whose clips run short - loop repeats the order, slow scales the
+   * speeds down, freeze and outro hold a last frame for the missing seconds
+   */
+  private planDurationFill(variant: VideoVariant, videos: VideoClip[]): DurationFillPlan {
+    const settings = variant.settings;
+    const strategy = settings.durationFill;
+    if (settings.durationType !== 'fixed' || !settings.fixedDuration || !strategy || strategy === 'none') {
+      return { variant, shortfall: 0, hold: 0 };
+    }
+
+    const videoMap = new Map(videos.map(v => [v.id, v]));
+    const clips = variant.videoOrder.map(id => videoMap.get(id)).filter((clip): clip is VideoClip => !!clip);
+    const sequence = this.getSequenceDuration(variant, clips);
+    const target = this.getContentDuration(variant);
+    const shortfall = target - sequence;
+    if (shortfall < FILL_TOLERANCE) {
+      return { variant, shortfall: 0, hold: 0 };
+    }
+
+    if (strategy === 'loop') {
+      const passes = this.durationFillService.getLoopPasses(sequence, target);
+      const looped = this.durationFillService.loopSequence(
+        variant.videoOrder, variant.transitions, variant.transitionDurations || [], passes
+      );
+      logger.info(`[Duration Fill] ${variant.id}: ${sequence.toFixed(2)}s of clips looped ${passes}x to reach ${target}s`);
+      return {
+        variant: { ...variant, videoOrder: looped.order, transitions: looped.transitions, transitionDurations: looped.durations },
+        strategy,
+        shortfall,
+        hold: 0
+      };
+    }
+
+    if (strategy === 'slow') {
+      const overlap = this.getSmartTrimTarget(variant) - target;
+      const factor = this.durationFillService.getSlowdown(sequence, target, overlap);
+      const floor = this.durationFillService.getSpeedFloor(settings.speedRange);
+      const speeds = new Map(variant.videoOrder.map(id => {
+        const speed = variant.speeds.get(id) || 1;
+        return [id, Math.min(speed, Math.max(floor, speed * factor))];
+      }));
+      logger.info(`[Duration Fill] ${variant.id}: clips slowed by ${factor.toFixed(3)}x (floor ${floor}x) to reach ${target}s`);
+      return { variant: { ...variant, speeds }, strategy, shortfall, hold: 0 };
+    }
+
+    // Without an outro in this output, outro-fill falls back to holding the mix's last frame
+    const holdStrategy = strategy === 'outro' && this.getBumpers(variant).outro ? 'outro' : 'freeze';
+    logger.info(`[Duration Fill] ${variant.id}: holding the ${holdStrategy === 'outro' ? 'outro' : 'mix'}'s last frame for ${shortfall.toFixed(2)}s`);
+    return { variant, strategy: holdStrategy, shortfall, hold: shortfall };
+  }
+
+  /**
+   * Average speed of a clip in this output - its constant speed, times the ramp's average when ramped
+   */
+  private getClipSpeed(variant: VideoVariant, clipId: string): number {
+    const speed = variant.speeds.get(clipId) || 1;
+    const curve = variant.speedRamps?.get(clipId);
+    if (!curve || !variant.settings.speedRamps) return speed;
+    return speed * this.speedRampService.getAverageFactor(curve, variant.settings.speedRamps);
+  }
+
+  /**
+   * Clip speeds for smart trimming, with ramped clips at their average speed
+   */
+  private getEffectiveSpeeds(variant: VideoVariant): Map<string, number> {
+    if (!variant.speedRamps || variant.speedRamps.size === 0) return variant.speeds;
+    const speeds = new Map(variant.speeds);
+    variant.speedRamps.forEach((_, clipId) => speeds.set(clipId, this.getClipSpeed(variant, clipId)));
+    return speeds;
+  }
+
+  /**
+   * Each clip's length in the output (after trim and speed) and the resolved cuts between them
+   */
+  private getClipTimeline(
+    variant: VideoVariant,
+    clips: VideoClip[],
+    durations: Map<string, ClipDurationInfo> | null
+  ): { clipDurations: number[]; cuts: TransitionCut[] } {
+    const clipDurations = clips.map(clip => {
+      const info = durations?.get(clip.id);
+      const length = info ? info.trimEnd - info.trimStart : clip.duration;
+      return length / this.getClipSpeed(variant, clip.id);
+    });
+
+    return {
+      clipDurations,
+      cuts: this.transitionService.planCuts(clipDurations, variant.transitions, variant.transitionDurations || [])
+    };
+  }
+
+  /**
+   * Music track assigned to this output, or undefined when the audio mode has no music bed
+   */
+  private getMusicTrack(variant: VideoVariant): MusicTrackFile | undefined {
+    if (!this.musicBedService.usesMusic(variant.settings.audioMode) || !variant.musicTrackId) {
+      return undefined;
+    }
+    return variant.settings.musicTracks?.find(track => track.id === variant.musicTrackId);
+  }
+
+  /**
+   * Whether an output carries captions - subtitles are on and at least one of its clips has some
+   */
+  public hasSubtitles(variant: VideoVariant, videos: VideoClip[]): boolean {
+    const mode = variant.settings.subtitleMode;
+    if (!mode || mode === 'off') return false;
+    return videos.some(video => variant.videoOrder.includes(video.id) && (video.subtitles?.length ?? 0) > 0);
+  }
+
+  /**
+   * Clip captions moved onto the output timeline - each clip's cues follow its trim and speed
+   * and start where the clip starts after the cuts before it
+   */
+  public getSubtitleCues(variant: VideoVariant, videos: VideoClip[]): SubtitleCue[] {
+    const [plan] = this.getVariantPlan([variant], videos);
+    const videoMap = new Map(this.getPlayedClips(variant, videos).map(v => [v.id, v]));
+    const introDuration = plan.intro?.duration || 0;
+    // A held outro frame belongs to the outro, not to the clips
+    const outroHold = plan.durationFill?.strategy === 'outro' ? plan.durationFill.seconds : 0;
+    const contentDuration = plan.expectedDuration - introDuration - (plan.outro?.duration || 0) - outroHold;
+
+    const segments = plan.clips.map((clip, index) => ({
+      cues: videoMap.get(clip.clipId)?.subtitles || [],
+      trimStart: clip.trimStart,
+      trimEnd: clip.trimEnd,
+      speed: clip.speed,
+      outputStart: index === 0 ? 0 : plan.cuts[index - 1].offset,
+      outputEnd: index < plan.cuts.length ? plan.cuts[index].offset : contentDuration
+    }));
+
+    const cues = this.subtitleService.retime(segments, contentDuration);
+
+    // Burned captions are drawn on the mix before the intro is joined; a muxed track spans the whole output
+    if (variant.settings.subtitleMode !== 'soft' || introDuration === 0) {
+      return cues;
+    }
+    const round = (value: number) => Math.round(value * 1000) / 1000;
+    return cues.map(cue => ({ ...cue, start: round(cue.start + introDuration), end: round(cue.end + introDuration) }));
+  }
+
+  /**
+   * Check exposure bounds can be met by the group sizes before generating anything.
+   * Returns a user-facing error message, or null when the bounds are reachable.
+   */
+  public validateExposure(
+    groups: VideoGroup[],
+    settings: Pick<MixingSettings, 'outputCount' | 'minClipAppearances' | 'maxClipAppearances'>
+  ): string | null {
+    const min = settings.minClipAppearances || 0;
+    const max = settings.maxClipAppearances || 0;
+
+    if (max > 0 && min > max) {
+      return `Minimum appearances (${min}) cannot exceed maximum appearances (${max})`;
+    }
+
+    for (const group of groups.filter(g => g.videos.length > 0)) {
+      const clipCount = group.videos.length;
+      const range = this.getGroupClipRange(group);
+      const isSkippable = Boolean(group.optional) && (group.inclusionProbability ?? 1) < 1;
+
+      if (min > 0 && isSkippable) {
+        return `Group "${group.name}" is optional, so its clips cannot be guaranteed ${min} appearances`;
+      }
+      if (min > 0 && clipCount * min > settings.outputCount * range.max) {
+        return `Group "${group.name}" has ${clipCount} clips, so ${settings.outputCount} outputs cannot show each clip at least ${min} times`;
+      }
+      if (max > 0 && !isSkippable && clipCount * max < settings.outputCount * range.min) {
+        return `Group "${group.name}" has ${clipCount} clips, so ${settings.outputCount} outputs need some clip more than ${max} times`;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Describe generated variants the way buildFFmpegCommand would render them:
+   * order, speeds, smart-trim points, expected duration and output resolution
+   */
+  public getVariantPlan(variants: VideoVariant[], videos: VideoClip[]): VariantPlan[] {
+    const round = (value: number) => Math.round(value * 1000) / 1000;
+
+    return variants.map(planned => {
+      const played = this.getPlayedClips(planned, videos);
+      const { variant, strategy, shortfall, hold } = this.planDurationFill(planned, played);
+      const settings = variant.settings;
+      const playedMap = new Map(played.map(v => [v.id, v]));
+      const clips = variant.videoOrder.map(id => playedMap.get(id)).filter((clip): clip is VideoClip => !!clip);
+      const useSmartTrimming = Boolean(settings.smartTrimming && settings.durationType === 'fixed' && settings.fixedDuration);
+      const durations = useSmartTrimming
+        ? this.calculateSmartDurations(
+            clips,
+            this.getSmartTrimTarget(variant),
+            this.getEffectiveSpeeds(variant),
+            settings.durationDistributionMode || 'proportional',
+            settings.groupDurationBudgets
+          )
+        : null;
+
+      const plannedClips = clips.map(clip => {
+        const speed = this.getClipSpeed(variant, clip.id);
+        const info = durations?.get(clip.id);
+        const trimStart = info ? info.trimStart : 0;
+        const trimEnd = info ? info.trimEnd : clip.duration;
+
+        return {
+          clipId: clip.id,
+          originalName: clip.originalName,
+          speed: round(speed),
+          trimStart: round(trimStart),
+          trimEnd: round(trimEnd),
+          duration: round((trimEnd - trimStart) / speed),
+          motion: variant.imageMotions?.get(clip.id),
+          ramp: variant.speedRamps?.get(clip.id)
+        };
+      });
+
+      const { clipDurations, cuts } = this.getClipTimeline(variant, clips, durations);
+      let expectedDuration = this.transitionService.getOutputDuration(clipDurations, cuts) + hold;
+      // A fixed duration always caps the output (hard-cut fallbacks can leave smart-trimmed outputs long)
+      if (settings.durationType === 'fixed' && settings.fixedDuration) {
+        expectedDuration = Math.min(expectedDuration, this.getContentDuration(variant));
+      }
+
+      const { intro, outro } = this.getBumpers(variant);
+      expectedDuration += (intro?.duration || 0) + (outro?.duration || 0);
+
+      const { finalWidth, finalHeight } = this.getOutputDimensions(settings.aspectRatio, settings.resolution);
+      const music = this.getMusicTrack(variant);
+      const metadata = this.getMetadataProfiles(settings).find(profile => profile.id === variant.metadataProfileId);
+
+      return {
+        variantId: variant.id,
+        clips: plannedClips,
+        expectedDuration: round(expectedDuration),
+        resolution: { width: finalWidth, height: finalHeight },
+        cuts,
+        grade: {
+          ...variant.colorAdjustments,
+          lutName: settings.colorLuts?.find(lut => lut.id === variant.colorAdjustments.lutId)?.name
+        },
+        music: music ? { trackId: music.id, name: music.name } : undefined,
+        headline: variant.headline,
+        watermarkPosition: variant.watermarkPosition,
+        intro: intro ? { id: intro.id, name: intro.name, duration: intro.duration } : undefined,
+        outro: outro ? { id: outro.id, name: outro.name, duration: outro.duration } : undefined,
+        durationFill: strategy ? { strategy, seconds: round(shortfall) } : undefined,
+        metadata: metadata ? { profileId: metadata.id, name: metadata.name, creationTime: variant.creationTime } : undefined
+      };
     });
+  }
 
-    // Concatenate processed videos
-    if (processedVideos.length > 0) {
-      const concatFilter = `${processedVideos.join('')}concat=n=${processedVideos.length}:v=1:a=0[outv]`;
-      filters.push(concatFilter);
+  /**
+   * Expected length in seconds of one output, used for credit estimates.
+   * Intros and outros are joined on top unless they are counted in a fixed duration.
+   */
+  public estimateOutputDuration(
+    videos: VideoClip[],
+    settings: Pick<MixingSettings, 'groupMixing' | 'durationType' | 'fixedDuration' | 'bumpers' | 'introBumpers' | 'outroBumpers'>,
+    groups?: VideoGroup[]
+  ): number {
+    if (settings.durationType === 'fixed' && settings.fixedDuration) {
+      return settings.fixedDuration + (settings.bumpers?.countInDuration ? 0 : this.getAverageBumperLength(settings));
     }
 
-    return filters;
+    return this.estimateClipDuration(videos, settings, groups) + this.getAverageBumperLength(settings);
   }
 
   /**
-   * Generate variants for group-based mixing
+   * Expected length of the mixed clips alone.
+   * Group mixing weighs each group by its average clip count and inclusion probability.
    */
-  private generateGroupBasedVariants(
-    groups: VideoGroup[],
-    settings: MixingSettings,
-    outputCount: number
-  ): string[][] {
-    const variants: string[][] = [];
-    const sortedGroups = [...groups].sort((a, b) => a.order - b.order);
+  private estimateClipDuration(videos: VideoClip[], settings: Pick<MixingSettings, 'groupMixing'>, groups?: VideoGroup[]): number {
+    if (settings.groupMixing && groups && groups.length > 0) {
+      return groups
+        .filter(group => group.videos.length > 0)
+        .reduce((total, group) => {
+          const { min, max } = this.getGroupClipRange(group);
+          const averageClip = group.videos.reduce((sum, clip) => sum + clip.duration, 0) / group.videos.length;
+          const probability = group.optional ? Math.max(0, Math.min(1, group.inclusionProbability ?? 1)) : 1;
+          return total + probability * averageClip * (min + max) / 2;
+        }, 0);
+    }
 
-    if (settings.groupMixingMode === 'strict') {
-      // Strict order: maintain group sequence
-      for (let i = 0; i < outputCount; i++) {
-        const variant: string[] = [];
+    return videos.reduce((total, clip) => total + clip.duration, 0);
+  }
 
-        for (const group of sortedGroups) {
-          if (group.videos.length > 0) {
-            // Pick random video from group
-            const randomVideo = group.videos[Math.floor(Math.random() * group.videos.length)];
-            variant.push(randomVideo.id);
-          }
-        }
+  /**
+   * Intro plus outro length, averaged over each rotation pool
+   */
+  private getAverageBumperLength(settings: Pick<MixingSettings, 'bumpers' | 'introBumpers' | 'outroBumpers'>): number {
+    if (!settings.bumpers) return 0;
 
-        if (variant.length > 0) {
-          variants.push(variant);
-        }
-      }
-    } else {
-      // Random mode: completely randomize groups and videos
-      for (let i = 0; i < outputCount; i++) {
-        const variant: string[] = [];
-        const shuffledGroups = this.shuffleArray([...sortedGroups]);
-
-        for (const group of shuffledGroups) {
-          if (group.videos.length > 0) {
-            const randomVideo = group.videos[Math.floor(Math.random() * group.videos.length)];
-            variant.push(randomVideo.id);
-          }
-        }
+    const average = (bumpers: BumperFile[] = []) =>
+      bumpers.length > 0 ? bumpers.reduce((total, bumper) => total + bumper.duration, 0) / bumpers.length : 0;
+    return average(settings.introBumpers) + average(settings.outroBumpers);
+  }
 
-        if (variant.length > 0) {
-          variants.push(variant);
-        }
+  /**
+   * Warn about a fixed duration the clips can't reach on their own, or that the chosen fill
+   * can't fully cover. Speeds and trims vary per output, so lengths are estimates.
+   */
+  public getDurationFillWarning(
+    videos: VideoClip[],
+    settings: Pick<MixingSettings, 'groupMixing' | 'durationType' | 'fixedDuration' | 'durationFill' | 'speedRange' | 'bumpers'>,
+    groups?: VideoGroup[]
+  ): string | null {
+    if (settings.durationType !== 'fixed' || !settings.fixedDuration) return null;
+
+    const length = this.estimateClipDuration(videos, settings, groups);
+    const target = settings.fixedDuration;
+    if (length >= target - FILL_TOLERANCE) return null;
+
+    const short = `Clips add up to about ${length.toFixed(1)}s, short of the ${target}s fixed duration`;
+    switch (settings.durationFill || 'none') {
+      case 'none':
+        return `${short}. Outputs will come out short unless a fill strategy is chosen.`;
+      case 'loop': {
+        const looped = length * this.durationFillService.getLoopPasses(length, target);
+        return looped < target - FILL_TOLERANCE ? `${short}. Looping is capped and only reaches about ${looped.toFixed(1)}s.` : null;
       }
+      case 'slow': {
+        const floor = this.durationFillService.getSpeedFloor(settings.speedRange);
+        const slowed = length / floor;
+        return slowed < target - FILL_TOLERANCE
+          ? `${short}. Slowing clips to ${floor}x only reaches about ${slowed.toFixed(1)}s.`
+          : null;
+      }
+      case 'outro':
+        return settings.bumpers?.outroIds.length ? null : `${short}. No outro is selected, so the last frame of the clips is held instead.`;
+      default:
+        return null;
     }
+  }
 
-    return variants;
+  /**
+   * Fail when the final batch breaks the exposure bounds (e.g. after diversity re-sampling)
+   */
+  private assertExposureBounds(variants: VideoVariant[], groups: VideoGroup[], settings: MixingSettings): void {
+    const min = settings.minClipAppearances || 0;
+    const max = settings.maxClipAppearances || 0;
+    if (min === 0 && max === 0) return;
+
+    const coverage = this.getCoverageReport(variants, groups.flatMap(group => group.videos));
+    const outOfBounds = coverage.find(entry => entry.outputs < min || (max > 0 && entry.outputs > max));
+
+    if (outOfBounds) {
+      throw new Error(
+        `Clip "${outOfBounds.originalName || outOfBounds.clipId}" appears in ${outOfBounds.outputs} outputs, ` +
+        `outside the allowed ${min}-${max || 'unlimited'} range. Adjust the exposure limits or the number of outputs.`
+      );
+    }
   }
 
   /**
-   * Generate all possible order permutations of videos
+   * Count how many outputs each clip appears in
    */
-  private generateOrderPermutations(videos: VideoClip[]): string[][] {
-    if (videos.length === 0) return [];
-    if (videos.length === 1) return [[videos[0].id]];
+  public getCoverageReport(variants: VideoVariant[], videos: VideoClip[]): ClipCoverage[] {
+    const counts = new Map<string, number>();
+    variants.forEach(variant => {
+      new Set(variant.videoOrder).forEach(id => counts.set(id, (counts.get(id) || 0) + 1));
+    });
 
-    const permutations: string[][] = [];
+    return videos.map(video => ({
+      clipId: video.id,
+      originalName: video.originalName,
+      groupId: video.groupId,
+      outputs: counts.get(video.id) || 0
+    }));
+  }
 
-    const permute = (arr: string[], m: string[] = []) => {
-      if (arr.length === 0) {
-        permutations.push(m);
+  /**
+   * Keep only variants that stay at least minVariantDistance away from every accepted one,
+   * re-sampling replacements until outputCount is reached or attempts run out
+   */
+  private enforceVariantDiversity(
+    variants: VideoVariant[],
+    videos: VideoClip[],
+    settings: MixingSettings,
+    groups?: VideoGroup[]
+  ): VideoVariant[] {
+    const threshold = settings.minVariantDistance!;
+    const accepted: VideoVariant[] = [];
+    const candidates = [...variants];
+    const maxAttempts = settings.outputCount * 50;
+    let attempts = 0;
+    let rejected = 0;
+
+    while (accepted.length < settings.outputCount && attempts < maxAttempts) {
+      const candidate = candidates.length > 0
+        ? candidates.shift()!
+        : this.resampleVariant(videos, settings, groups, accepted);
+      attempts++;
+
+      if (this.diversityService.meetsThreshold(candidate, accepted, threshold)) {
+        accepted.push({ ...candidate, id: `variant-${accepted.length}` });
       } else {
-        for (let i = 0; i < arr.length; i++) {
-          const curr = arr.slice();
-          const next = curr.splice(i, 1);
-          permute(curr.slice(), m.concat(next));
-        }
+        rejected++;
       }
-    };
+    }
+
+    logger.info(`[Variant Diversity] Accepted ${accepted.length}/${settings.outputCount} variants (threshold: ${threshold}, rejected: ${rejected}, attempts: ${attempts})`);
+
+    if (accepted.length < settings.outputCount) {
+      throw new Error(
+        `Only ${accepted.length} of ${settings.outputCount} variants reach the minimum difference of ${Math.round(threshold * 100)}%. ` +
+        `Lower the minimum difference, add more clips or enable more mixing options.`
+      );
+    }
 
-    permute(videos.map(v => v.id));
-    return permutations;
+    return accepted;
   }
 
   /**
-   * Generate rotated orders for Different Starting Video feature
-   * Each output starts with a different video, maintaining relative order
+   * Draw a single new random variant following the same mixing rules as generateBaseVariants
    */
-  private generateRotatedOrders(videos: VideoClip[], outputCount: number): string[][] {
-    const orders: string[][] = [];
+  private resampleVariant(
+    videos: VideoClip[],
+    settings: MixingSettings,
+    groups?: VideoGroup[],
+    accepted: VideoVariant[] = []
+  ): VideoVariant {
     const videoIds = videos.map(v => v.id);
+    const pins = this.getPinMap(videos);
+    let order = this.applyPins(videoIds, pins);
+
+    if (settings.groupMixing && groups && groups.length > 0) {
+      // Continue exposure counting from the variants accepted so far
+      const usage = new Map<string, number>();
+      accepted.forEach(variant => variant.videoOrder.forEach(id => usage.set(id, (usage.get(id) || 0) + 1)));
+      const remainingOutputs = Math.max(1, settings.outputCount - accepted.length);
+      order = this.generateGroupBasedVariants(groups, settings, 1, usage, remainingOutputs)[0] || order;
+    } else if (settings.orderMixing) {
+      order = this.applyPins(this.shuffleArray(videoIds), pins);
+    } else if (settings.differentStartingVideo) {
+      const freeIds = videoIds.filter(id => !pins.has(id));
+      const rotationIndex = Math.floor(this.random() * freeIds.length);
+      order = this.applyPins([...freeIds.slice(rotationIndex), ...freeIds.slice(0, rotationIndex), ...pins.keys()], pins);
+    }
 
-    for (let i = 0; i < outputCount; i++) {
-      // Rotate the array by i positions
-      const rotationIndex = i % videos.length;
-      const rotatedOrder = [
-        ...videoIds.slice(rotationIndex),
-        ...videoIds.slice(0, rotationIndex)
-      ];
-      orders.push(rotatedOrder);
-
-      logger.info(`[Variant Generation] Rotated order ${i + 1}: [${rotatedOrder.join(', ')}]`);
+    if (settings.orderingRules && settings.orderingRules.length > 0) {
+      const variantIndex = Math.floor(this.random() * videoIds.length);
+      const result = this.enforceOrderingRules(order, settings.orderingRules, pins, variantIndex);
+      if (result.status !== 'unsatisfiable') order = result.order;
     }
 
-    return orders;
+    // Without speed mixing every clip plays at 1x, as in the base variants
+    const speedChoices = settings.speedMixing && settings.allowedSpeeds.length > 0 ? settings.allowedSpeeds : [1];
+    const speeds = new Map<string, number>();
+    videos.forEach(video => {
+      speeds.set(video.id, speedChoices[Math.floor(this.random() * speedChoices.length)]);
+    });
+
+    return {
+      id: 'variant-resampled',
+      videoOrder: order,
+      speeds,
+      transitions: [],
+      colorAdjustments: { ...NEUTRAL_GRADE },
+      settings
+    };
   }
 
   /**
-   * Generate minimal speed variations for output uniqueness
-   * Creates slight speed variations (0.95x - 1.05x) to ensure outputs are different
+   * Check a project's ordering rules can be satisfied together with its pinned clips.
+   * Returns a user-facing error message, or null when at least one valid order exists
+   * or the rule set is too large to decide within the search budget.
    */
-  private generateMinimalSpeedVariations(videos: VideoClip[], outputCount: number): Map<string, number>[] {
-    const speedCombos: Map<string, number>[] = [];
+  public validateOrderingRules(videos: VideoClip[], rules: OrderingRule[]): string | null {
+    if (rules.length === 0) return null;
 
-    for (let i = 0; i < outputCount; i++) {
-      const speeds = new Map<string, number>();
+    const structureError = this.orderingRulesService.validateStructure(rules, videos);
+    if (structureError) return structureError;
 
-      videos.forEach((video, videoIndex) => {
-        // Create slight variations: 0.95, 0.97, 1.0, 1.02, 1.05
-        const variations = [0.95, 0.97, 1.0, 1.02, 1.05];
-        const variationIndex = (i + videoIndex) % variations.length;
-        speeds.set(video.id, variations[variationIndex]);
-      });
+    const pins = this.getPinMap(videos);
+    const baseOrder = this.applyPins(videos.map(v => v.id), pins);
+    const result = this.enforceOrderingRules(baseOrder, rules, pins, 0);
+    if (result.status === 'valid') return null;
 
-      speedCombos.push(speeds);
+    if (result.status === 'budget-exhausted') {
+      // Too many clips and rules to prove either way - outputs fall back to best-effort orders
+      logger.warn(`[Ordering Rules] Search budget exhausted checking ${rules.length} rules on ${videos.length} clips`);
+      return null;
     }
 
-    logger.info(`[Variant Generation] Generated ${speedCombos.length} minimal speed variations`);
-    return speedCombos;
+    return 'No clip order satisfies all ordering rules together with the pinned clip positions';
   }
 
   /**
-   * Generate speed combinations for videos
+   * Make every order satisfy the ordering rules, repairing violations and dropping duplicates
    */
-  private generateSpeedCombinations(
+  private applyOrderingRules(
+    orders: string[][],
     videos: VideoClip[],
-    allowedSpeeds: number[]
-  ): Map<string, number>[] {
-    const combinations: Map<string, number>[] = [];
-
-    // Generate all possible speed combinations
-    const generateCombos = (index: number, current: Map<string, number>) => {
-      if (index === videos.length) {
-        combinations.push(new Map(current));
-        return;
+    rules: OrderingRule[],
+    dedupe: boolean = true
+  ): string[][] {
+    const pins = this.getPinMap(videos);
+    const seen = new Set<string>();
+    const validOrders: string[][] = [];
+    let bestEffortCount = 0;
+
+    orders.forEach((order, index) => {
+      const result = this.enforceOrderingRules(order, rules, pins, index);
+      if (result.status === 'unsatisfiable') return;
+      if (result.status === 'budget-exhausted') bestEffortCount++;
+
+      const key = result.order.join('|');
+      if (!dedupe || !seen.has(key)) {
+        seen.add(key);
+        validOrders.push(result.order);
       }
+    });
 
-      for (const speed of allowedSpeeds) {
-        current.set(videos[index].id, speed);
-        generateCombos(index + 1, current);
-      }
-    };
+    logger.info(`[Ordering Rules] ${validOrders.length}/${orders.length} orders kept after applying ${rules.length} rules`);
+    if (bestEffortCount > 0) {
+      logger.warn(`[Ordering Rules] Search budget exhausted for ${bestEffortCount} orders; kept best-effort orders that may break some rules`);
+    }
 
-    generateCombos(0, new Map());
-    return combinations;
+    if (validOrders.length === 0) {
+      throw new Error('No clip order satisfies the project ordering rules');
+    }
+
+    return validOrders;
   }
 
   /**
-   * Calculate total possible variants
+   * Pick at-most-one-of members for this variant, then repair the order around pinned clips.
+   * Other member choices are tried when the preferred one leaves the rules unsatisfiable.
+   * A best-effort order is returned when the search budget runs out for every choice.
    */
-  public calculateVariantCount(
-    videoCount: number,
-    settings: MixingSettings
-  ): number {
-    let totalVariants = 1;
-
-    // Order permutations (n!)
-    if (settings.orderMixing) {
-      let factorial = 1;
-      for (let i = 2; i <= videoCount; i++) {
-        factorial *= i;
+  private enforceOrderingRules(
+    order: string[],
+    rules: OrderingRule[],
+    pins: Map<string, ClipPin>,
+    variantIndex: number
+  ): OrderSearchResult {
+    const choices = Math.max(1, ...rules.filter(r => r.type === 'at-most-one-of').map(r => r.clipIds.length));
+    const fixedIds = new Set(order.filter(id => pins.has(id)));
+    let bestEffort: OrderSearchResult = { status: 'unsatisfiable' };
+
+    for (let attempt = 0; attempt < choices; attempt++) {
+      const selected = this.orderingRulesService.selectClips(order, rules, variantIndex + attempt);
+      const result = this.orderingRulesService.findValidOrder(selected, rules, fixedIds);
+      if (result.status === 'valid') return result;
+      if (result.status === 'budget-exhausted' && bestEffort.status === 'unsatisfiable') {
+        bestEffort = result;
       }
-      totalVariants *= factorial;
     }
 
-    // Speed combinations (speeds^videos)
-    if (settings.speedMixing) {
-      const speedCount = settings.allowedSpeeds.length;
-      totalVariants *= Math.pow(speedCount, videoCount);
-    }
+    return bestEffort;
+  }
 
-    return totalVariants;
+  /**
+   * Summarize pairwise variant distances for job reporting
+   */
+  public getDiversityReport(variants: VideoVariant[], settings: MixingSettings) {
+    return this.diversityService.summarize(variants, settings.minVariantDistance || 0);
   }
 
   /**
-   * Generate video variants based on settings (with optional groups)
+   * Build the base variant list before diversity enforcement
    */
-  public async generateVariants(
+  private generateBaseVariants(
     videos: VideoClip[],
     settings: MixingSettings,
     groups?: VideoGroup[]
-  ): Promise<VideoVariant[]> {
+  ): VideoVariant[] {
     try {
       const variants: VideoVariant[] = [];
 
-      logger.info(`[Variant Generation] Starting with ${videos.length} videos`);
+      logger.info(`[Variant Generation] Starting with ${videos.length} videos (seed: ${settings.seed ?? 'none'})`);
       videos.forEach((v, idx) => {
         logger.info(`[Variant Generation] Video ${idx + 1}: ${v.originalName} (ID: ${v.id})`);
       });
@@ -434,18 +1753,29 @@ export class AutoMixingService {
       }
 
       // Get all possible orders
-      let orders: string[][] = [videos.map(v => v.id)]; // Default order
+      let orders: string[][] = [this.applyPins(videos.map(v => v.id), this.getPinMap(videos))]; // Default order
       logger.info(`[Variant Generation] Default order: [${orders[0].join(', ')}]`);
 
       // Check if group-based mixing should be used
       if (settings.groupMixing && groups && groups.length > 0) {
         // Use group-based generation
-        orders = this.generateGroupBasedVariants(groups, settings, settings.outputCount);
+        orders = settings.groupMixingMode === 'exhaustive'
+          ? this.generateExhaustiveGroupVariants(groups, settings.outputCount)
+          : this.generateGroupBasedVariants(groups, settings, settings.outputCount);
+      } else if (settings.orderMixing && videos.length > EAGER_PERMUTATION_LIMIT) {
+        // Large projects: n! orders cannot be held in memory, sample only what outputCount needs
+        logger.info(`[Variant Generation] ${videos.length} videos exceed eager limit (${EAGER_PERMUTATION_LIMIT}) - sampling orders lazily`);
+        orders = this.sampleOrderPermutations(videos, settings.outputCount, settings.differentStartingVideo);
       } else if (settings.orderMixing) {
         orders = this.generateOrderPermutations(videos);
 
         // If different starting video is enabled, filter to ensure unique starting videos
-        if (settings.differentStartingVideo && orders.length > 1) {
+        // (skipped when a clip is pinned first - every order already starts with it)
+        const hasFirstPin = videos.some(v => v.pin?.position === 'first');
+        if (hasFirstPin && settings.differentStartingVideo) {
+          logger.warn('[Variant Generation] A clip is pinned first - Different Starting Video has no effect');
+        }
+        if (settings.differentStartingVideo && !hasFirstPin && orders.length > 1) {
           // Group permutations by their starting video
           const groupedByStart = new Map<string, string[][]>();
 
@@ -480,14 +1810,21 @@ export class AutoMixingService {
         orders = this.generateRotatedOrders(videos, settings.outputCount);
       }
 
+      if (settings.orderingRules && settings.orderingRules.length > 0) {
+        // Group picks repeat by design (exposure balancing), so only permutations are de-duplicated
+        const isGroupPlan = Boolean(settings.groupMixing && groups && groups.length > 0);
+        orders = this.applyOrderingRules(orders, videos, settings.orderingRules, !isGroupPlan);
+      }
+
       // Get all possible speed combinations
       let speedCombos: Map<string, number>[] = [new Map()]; // Default speeds (1x)
-      if (settings.speedMixing) {
+      if (settings.speedMixing && Math.pow(settings.allowedSpeeds.length, videos.length) > EAGER_SPEED_COMBINATION_LIMIT) {
+        speedCombos = this.sampleSpeedCombinations(videos, settings.allowedSpeeds, settings.outputCount);
+      } else if (settings.speedMixing) {
         speedCombos = this.generateSpeedCombinations(videos, settings.allowedSpeeds);
       } else if (settings.outputCount > 1) {
-        // NEW: Generate slight speed variations even when speed mixing is disabled
-        logger.info('[Variant Generation] Generating minimal speed variations for output uniqueness');
-        speedCombos = this.generateMinimalSpeedVariations(videos, settings.outputCount);
+        // One 1x slot per output so repeated orders still fill the batch - micro-variations tell them apart
+        speedCombos = Array.from({ length: settings.outputCount }, () => new Map(videos.map(v => [v.id, 1])));
       } else {
         // Set all speeds to 1x if speed mixing is disabled and only 1 output
         const defaultSpeeds = new Map<string, number>();
@@ -505,19 +1842,9 @@ export class AutoMixingService {
           const order = orders[i];
           const speeds = speedCombos[i % speedCombos.length];
 
-          // CRITICAL: Force disable transitions and colors completely for stability
+          // Transitions and color grades are picked once the batch is final
           const transitions: string[] = [];
-          const colorAdjustments = { brightness: 0, contrast: 1, saturation: 1, hue: 0 };
-
-          // Override settings to ensure stability
-          const stableSettings = {
-            ...settings,
-            transitionMixing: false,
-            colorVariations: false,
-            transitionTypes: [],
-            transitionDuration: { min: 0, max: 0 },
-            colorIntensity: 'low' as const
-          };
+          const colorAdjustments = { ...NEUTRAL_GRADE };
 
           logger.info(`[Variant Generation] Variant ${variantId}: order starting with ${order[0]}, speeds vary`);
 
@@ -527,7 +1854,7 @@ export class AutoMixingService {
             speeds,
             transitions,
             colorAdjustments,
-            settings: stableSettings
+            settings
           });
         }
       } else {
@@ -540,19 +1867,9 @@ export class AutoMixingService {
           const order = orders[variantIndex % orders.length];
           const speeds = speedCombos[variantIndex % speedCombos.length];
 
-          // CRITICAL: Force disable transitions and colors completely for stability
+          // Transitions and color grades are picked once the batch is final
           const transitions: string[] = [];
-          const colorAdjustments = { brightness: 0, contrast: 1, saturation: 1, hue: 0 };
-
-          // Override settings to ensure stability
-          const stableSettings = {
-            ...settings,
-            transitionMixing: false,
-            colorVariations: false,
-            transitionTypes: [],
-            transitionDuration: { min: 0, max: 0 },
-            colorIntensity: 'low' as const
-          };
+          const colorAdjustments = { ...NEUTRAL_GRADE };
 
           logger.info(`[Variant Generation] Creating variant ${variantId} (${variants.length + 1}/${settings.outputCount})`);
 
@@ -562,7 +1879,7 @@ export class AutoMixingService {
             speeds,
             transitions,
             colorAdjustments,
-            settings: stableSettings
+            settings
           });
 
           variantIndex++;
@@ -651,41 +1968,6 @@ export class AutoMixingService {
     }
   }
 
-  /**
-   * Get metadata injection based on source
-   */
-  public getMetadataInjection(source: string): Record<string, string> {
-    switch (source) {
-      case 'capcut':
-        return {
-          encoder: 'CapCut',
-          software: 'CapCut for Windows',
-          creation_time: new Date().toISOString(),
-          handler_name: 'CapCut'
-        };
-
-      case 'vn':
-        return {
-          encoder: 'VN Video Editor',
-          software: 'VN - Video Editor & Maker',
-          comment: 'Made with VN',
-          handler_name: 'VN Editor'
-        };
-
-      case 'inshot':
-        return {
-          encoder: 'InShot',
-          software: 'InShot Video Editor',
-          handler_name: 'InShot Inc.',
-          comment: 'Created with InShot'
-        };
-
-      case 'normal':
-      default:
-        return {};
-    }
-  }
-
   /**
    * Get bitrate value based on quality setting
    */
@@ -716,6 +1998,17 @@ export class AutoMixingService {
     }
   }
 
+  /**
+   * Frame size of the rendered output - proxies keep the aspect ratio at a small height
+   */
+  private getRenderDimensions(settings: MixingSettings, profile: RenderProfile): { width: number; height: number } {
+    const { finalWidth, finalHeight } = this.getOutputDimensions(settings.aspectRatio, settings.resolution);
+    if (profile === 'proxy' && finalHeight > PROXY_HEIGHT) {
+      return { width: Math.round((finalWidth * PROXY_HEIGHT) / finalHeight / 2) * 2, height: PROXY_HEIGHT };
+    }
+    return { width: finalWidth, height: finalHeight };
+  }
+
   /**
    * Get output dimensions combining aspect ratio and resolution
    */
@@ -745,62 +2038,68 @@ export class AutoMixingService {
   }
 
   /**
-   * Get aspect ratio dimensions and filter
+   * Get aspect ratio dimensions, the fill modes clips can use to reach them, and the fit filter for a fill
    */
-  public getAspectRatioSettings(aspectRatio: string): {
+  public getAspectRatioSettings(aspectRatio: string, fill?: AspectFillSettings): {
     width: number;
     height: number;
     filter: string;
+    fillModes: FillMode[];
   } {
+    const { width, height } = this.getAspectRatioFrame(aspectRatio);
+    if (width === 0 || height === 0) {
+      // Keep original, no filter needed
+      return { width, height, filter: '', fillModes: [] };
+    }
+
+    return {
+      width,
+      height,
+      filter: this.aspectFillService.buildFilters(this.aspectFillService.resolve(fill), width, height, '').join(','),
+      fillModes: FILL_MODES
+    };
+  }
+
+  private getAspectRatioFrame(aspectRatio: string): { width: number; height: number } {
     switch (aspectRatio) {
       case 'tiktok':
       case 'instagram_reels':
       case 'youtube_shorts':
         // 9:16 vertical
-        return {
-          width: 1080,
-          height: 1920,
-          filter: 'scale=1080:1920:force_original_aspect_ratio=decrease,pad=1080:1920:(ow-iw)/2:(oh-ih)/2:black'
-        };
+        return { width: 1080, height: 1920 };
 
       case 'instagram_square':
         // 1:1 square
-        return {
-          width: 1080,
-          height: 1080,
-          filter: 'crop=min(iw\\,ih):min(iw\\,ih)'
-        };
+        return { width: 1080, height: 1080 };
 
       case 'youtube':
         // 16:9 horizontal
-        return {
-          width: 1920,
-          height: 1080,
-          filter: 'scale=1920:1080:force_original_aspect_ratio=decrease,pad=1920:1080:(ow-iw)/2:(oh-ih)/2:black'
-        };
+        return { width: 1920, height: 1080 };
 
       case 'original':
       default:
-        // Keep original, no filter needed
-        return {
-          width: 0,
-          height: 0,
-          filter: ''
-        };
+        return { width: 0, height: 0 };
     }
   }
 
+
   /**
-   * Build FFmpeg command for a variant
+   * Build FFmpeg command for a variant (proxy profile = small labelled preview render)
    */
   public buildFFmpegCommand(
     variant: VideoVariant,
     videos: VideoClip[],
-    outputPath: string
+    outputPath: string,
+    profile: RenderProfile = 'final'
   ): string[] {
     const commands: string[] = [];
+    videos = this.getPlayedClips(variant, videos);
     const videoMap = new Map(videos.map(v => [v.id, v]));
 
+    // Short fixed-duration outputs are rendered looped or slowed down, or hold a last frame
+    const durationFill = this.planDurationFill(variant, videos);
+    variant = durationFill.variant;
+
     // Enhanced logging for debugging
     logger.info(`[FFmpeg Build] Starting command build for variant ${variant.id}`);
     logger.info(`[FFmpeg Build] Total videos provided: ${videos.length}`);
@@ -884,9 +2183,10 @@ export class AutoMixingService {
         try {
           durationInfoMap = this.calculateSmartDurations(
             orderedClips,
-            variant.settings.fixedDuration,
-            variant.speeds,
-            variant.settings.durationDistributionMode || 'proportional'
+            this.getSmartTrimTarget(variant),
+            this.getEffectiveSpeeds(variant),
+            variant.settings.durationDistributionMode || 'proportional',
+            variant.settings.groupDurationBudgets
           );
 
           logger.info(`[Smart Trim] Using smart duration distribution: ${variant.settings.fixedDuration}s target, mode: ${variant.settings.durationDistributionMode}, videos: ${orderedClips.length}`);
@@ -903,15 +2203,30 @@ export class AutoMixingService {
       }
     }
 
+    // Resolve transitions from the real clip lengths so xfade offsets match the rendered streams
+    const { clipDurations, cuts } = this.getClipTimeline(variant, validatedVideos, durationInfoMap);
+    const hasTransitions = cuts.some(cut => cut.transition !== HARD_CUT);
+    if (hasTransitions) {
+      logger.info(`[FFmpeg Build] Transitions: ${cuts.map(cut => `${cut.transition}@${cut.offset}s/${cut.duration}s`).join(', ')}`);
+    }
+
+    const keepOriginalAudio = this.musicBedService.keepsOriginalAudio(variant.settings.audioMode);
+    const musicTrack = this.getMusicTrack(variant);
+
     // Process validated videos in the order specified by variant
     validatedVideos.forEach((video, index) => {
       const videoId = video.id;
       logger.info(`[FFmpeg Build] Processing video ${index + 1}: ${video.originalName} (ID: ${videoId})`);
 
+      // Virtual clips seek into their shared file, so trims below stay relative to the clip
+      if (video.sourceRange) {
+        inputs.push('-ss', video.sourceRange.start.toFixed(3), '-t', (video.sourceRange.end - video.sourceRange.start).toFixed(3));
+      }
       inputs.push('-i', video.path);
 
       // Build filter chain for each video
       let videoFilterChain: string[] = [];
+      let audioTrimFilter = '';
 
       // Apply smart trimming if enabled
       if (durationInfoMap) {
@@ -925,6 +2240,7 @@ export class AutoMixingService {
           if (safeStart > 0.01 || safeEnd < video.duration - 0.01) {
             videoFilterChain.push(`trim=${safeStart}:${safeEnd}`);
             videoFilterChain.push(`setpts=PTS-STARTPTS`);
+            audioTrimFilter = `atrim=${safeStart}:${safeEnd},asetpts=PTS-STARTPTS`;
             logger.info(`[Smart Trim] ${video.originalName}: trim=${safeStart.toFixed(2)}:${safeEnd.toFixed(2)} (duration: ${video.duration}s, target: ${durationInfo.targetDuration.toFixed(2)}s)`);
           } else {
             logger.info(`[Smart Trim] ${video.originalName}: Using full video (duration: ${video.duration}s)`);
@@ -948,217 +2264,295 @@ export class AutoMixingService {
         finalHeight = aspectSettings.height;
       }
 
+      // Proxy renders keep the aspect ratio at a small frame size (even width for yuv420p)
+      if (profile === 'proxy' && finalHeight > PROXY_HEIGHT) {
+        finalWidth = Math.round((finalWidth * PROXY_HEIGHT) / finalHeight / 2) * 2;
+        finalHeight = PROXY_HEIGHT;
+      }
+
       // 2. Apply speed adjustment FIRST (critical for xfade compatibility)
       // Must be done BEFORE fps normalization to avoid "rate of 1/0 is invalid" error
       const speed = variant.speeds.get(videoId) || 1;
-      if (speed !== 1) {
+      const rampCurve = variant.speedRamps?.get(videoId);
+      const rampSegments = rampCurve && variant.settings.speedRamps
+        ? this.speedRampService.buildSegments(
+            rampCurve,
+            variant.settings.speedRamps,
+            clipDurations[index] * this.getClipSpeed(variant, videoId),
+            speed
+          )
+        : undefined;
+      if (rampSegments) {
+        // A ramp replaces the constant speed - its steps already include it
+        videoFilterChain.push(...this.speedRampService.buildVideoFilters(rampSegments));
+        logger.info(`[FFmpeg Build] Speed ramp on ${video.originalName}: ${rampCurve}`);
+      } else if (speed !== 1) {
         // Apply speed change: speed=2 means 2x faster (setpts=0.5*PTS)
         videoFilterChain.push(`setpts=${1/speed}*PTS`);
       }
 
-      // 3. Apply scaling and padding to normalize all videos to the same dimensions
-      // This ensures all videos have identical dimensions before concatenation
-      videoFilterChain.push(`scale=${finalWidth}:${finalHeight}:force_original_aspect_ratio=decrease`);
-      videoFilterChain.push(`pad=${finalWidth}:${finalHeight}:(ow-iw)/2:(oh-ih)/2:black`);
+      // 3. Fit every clip to the same dimensions before concatenation - letterbox, blurred fill or crop.
+      // Stills are fitted before zoompan, which already outputs the frame size.
+      const fill = this.aspectFillService.resolve(variant.settings.aspectFill, video.fill);
+      if (!video.isImage) {
+        videoFilterChain.push(...this.aspectFillService.buildFilters(fill, finalWidth, finalHeight, String(index)));
+      }
+      if (variant.microVariation?.mirrored.includes(videoId)) {
+        videoFilterChain.push('hflip');
+      }
 
       // 4. Normalize frame rate (AFTER speed adjustment for proper xfade)
       videoFilterChain.push(`fps=${targetFPS}`);
 
-      // 4. Color adjustments COMPLETELY DISABLED for stability
-      // No color filters will be applied regardless of settings
+      // xfade offsets assume each stream lasts exactly its planned length (source durations can be off slightly),
+      // and both inputs need identical pixel format and sample aspect ratio
+      if (hasTransitions) {
+        videoFilterChain.push(
+          'tpad=stop_mode=clone:stop_duration=1',
+          `trim=duration=${clipDurations[index].toFixed(3)}`,
+          'format=yuv420p',
+          'setsar=1'
+        );
+      }
+
+      // Color grade is applied once to the joined output, not per clip
+
+      // A still is expanded into a pan/zoom stream of its display duration before anything else
+      if (video.isImage) {
+        const source = this.imageClipService.getSourceSize(finalWidth, finalHeight);
+        videoFilterChain.unshift(
+          ...this.aspectFillService.buildFilters(fill, source.width, source.height, String(index)),
+          ...this.imageClipService.buildVideoFilters(
+            variant.imageMotions?.get(videoId),
+            variant.settings.imageMotion || 'subtle',
+            { duration: video.duration, width: finalWidth, height: finalHeight, fps: targetFPS }
+          )
+        );
+      }
 
       // Build the complete video filter
       const videoFilter = videoFilterChain.join(',');
       filters.push(`[${index}:v]${videoFilter}[v${index}]`);
 
-      // Audio processing (only if audio is kept)
-      if (variant.settings.audioMode !== 'mute') {
+      // Audio processing (only if the clips' own audio is kept)
+      if (keepOriginalAudio) {
         // Create audio filter with proper fallback for missing audio
         let audioFilter = '';
 
-        // Check if video has audio (we'll assume it does for now, FFmpeg will handle missing audio)
-        hasAudioTrack[index] = true;
+        // Stills and sources without an audio stream get a silent track, so the audio join keeps every clip
+        const silent = video.isImage || video.hasAudio === false;
+        hasAudioTrack[index] = !silent;
 
-        // Normalize audio to stereo 48kHz
-        audioFilter = 'aresample=48000,aformat=sample_fmts=fltp:sample_rates=48000:channel_layouts=stereo';
+        // Normalize audio to stereo 48kHz (trimmed with the video when smart trimming)
+        audioFilter = [audioTrimFilter, 'aresample=48000,aformat=sample_fmts=fltp:sample_rates=48000:channel_layouts=stereo']
+          .filter(Boolean).join(',');
 
-        // Apply speed adjustment to audio
-        if (speed !== 1) {
-          // atempo can only handle 0.5 to 2.0 range, chain multiple for larger changes
-          let currentSpeed = speed;
-          let tempoFilters: string[] = [];
-
-          while (currentSpeed < 0.5 || currentSpeed > 2.0) {
-            if (currentSpeed < 0.5) {
-              tempoFilters.push('atempo=0.5');
-              currentSpeed /= 0.5;
-            } else {
-              tempoFilters.push('atempo=2.0');
-              currentSpeed /= 2.0;
-            }
-          }
+        if (silent) {
+          audioFilter = [this.imageClipService.buildSilentAudio(video.duration), audioTrimFilter].filter(Boolean).join(',');
+        }
 
-          if (currentSpeed !== 1) {
-            tempoFilters.push(`atempo=${currentSpeed}`);
-          }
+        // Level each clip to the loudness target so volume doesn't jump at the cuts
+        if (variant.settings.loudnessPreset && !silent) {
+          const target = this.loudnessService.getTarget(variant.settings.loudnessPreset);
+          audioFilter += ',' + this.loudnessService.buildNormalizeFilter(target, video.loudness);
+        }
 
-          if (tempoFilters.length > 0) {
-            audioFilter = audioFilter + ',' + tempoFilters.join(',');
-          }
+        // acrossfade overlaps the stream ends, so audio must last exactly as long as the video
+        const transitionPad = hasTransitions ? ['apad', `atrim=end=${clipDurations[index].toFixed(3)}`] : [];
+
+        if (rampSegments) {
+          filters.push(...this.speedRampService.buildAudioFilters(rampSegments, variant.settings.speedRamps!.audio, {
+            source: `${silent ? '' : `[${index}:a?]`}${audioFilter}`,
+            prefix: `ramp${index}`,
+            output: `a${index}`,
+            tail: transitionPad
+          }));
+          return;
         }
 
+        // Apply speed adjustment to audio (pitch-preserving atempo)
+        if (speed !== 1) {
+          audioFilter = [audioFilter, ...this.speedRampService.buildTempoFilters(speed)].join(',');
+        }
+        audioFilter = [audioFilter, ...transitionPad].join(',');
+
         // Use conditional audio with fallback
         // The '?' in [${index}:a?] means use if exists, otherwise ignore
-        filters.push(`[${index}:a?]${audioFilter}[a${index}]`);
+        filters.push(`${silent ? '' : `[${index}:a?]`}${audioFilter}[a${index}]`);
       }
     });
 
-    // Concat videos with transitions if enabled
+    // Join clips - hard cuts concatenate, transitions chain xfade/acrossfade
     let finalVideoOutput = 'outv';
     let finalAudioOutput = 'outa';
     // Use the actual number of validated videos for concatenation
     const concatenationVideoCount = validatedVideos.length;
 
-    logger.info(`[FFmpeg Build] Concatenating ${concatenationVideoCount} videos (validated from ${variant.videoOrder.length} in variant order)`);
-
-    // CRITICAL: Force disable ALL transitions for stability
-    // This block will NEVER execute to prevent complex xfade commands
-    const hasTransitions = false;
-    const transitionsCompletelyDisabled = true;
-
-    if (hasTransitions && !transitionsCompletelyDisabled) {
-      logger.info(`[FFmpeg Build] Transition Effects ENABLED - Applying ${variant.transitions.length} transitions between ${concatenationVideoCount} videos`);
-      logger.info(`[FFmpeg Build] Available transitions: ${variant.transitions.join(', ')}`);
-
-      // Use xfade for video transitions
-      // Build chain of xfade filters: v0 + v1 -> tmp1, tmp1 + v2 -> tmp2, etc.
-      let currentVideoStream = 'v0';
-      let currentAudioStream = variant.settings.audioMode !== 'mute' ? 'a0' : null;
-
-      // Calculate cumulative durations for offset calculation
-      let cumulativeDuration = 0;
-      const videoDurations: number[] = [];
-
-      // Get duration for each video (accounting for speed changes and trimming)
-      validatedVideos.forEach((video, index) => {
-        const videoId = variant.videoOrder[index];
-        const speed = variant.speeds.get(videoId) || 1;
-        const durationInfo = durationInfoMap?.get(videoId);
-        const originalVideo = videoMap.get(videoId);
-
-        let effectiveDuration: number;
-        if (durationInfo && variant.settings.smartTrimming) {
-          // When smart trimming is enabled, use the actual trimmed duration
-          // trimStart and trimEnd are already in original video time (see lines 170-171)
-          const trimmedDuration = durationInfo.trimEnd - durationInfo.trimStart;
-          effectiveDuration = trimmedDuration;
-          logger.info(`[Duration Calc] Video ${index}: trimmed=${trimmedDuration.toFixed(3)}s (trim ${durationInfo.trimStart.toFixed(3)}-${durationInfo.trimEnd.toFixed(3)}), original=${originalVideo?.duration.toFixed(3)}s`);
-        } else {
-          // Use full video duration
-          effectiveDuration = originalVideo?.duration || 10;
-          logger.info(`[Duration Calc] Video ${index}: using full duration=${effectiveDuration.toFixed(3)}s`);
-        }
-
-        // Apply speed adjustment to the duration
-        // speed=2 means 2x faster -> setpts=0.5*PTS -> duration is halved
-        // speed=0.5 means 0.5x speed -> setpts=2*PTS -> duration is doubled
-        const finalDuration = effectiveDuration / speed;
-        videoDurations.push(finalDuration);
-        logger.info(`[Duration Calc] Video ${index} (${videoId}): final=${finalDuration.toFixed(3)}s (base=${effectiveDuration.toFixed(3)}s, speed=${speed}x)`);
-      });
+    logger.info(`[FFmpeg Build] Joining ${concatenationVideoCount} videos (validated from ${variant.videoOrder.length} in variant order)`);
+    filters.push(...this.transitionService.buildJoinFilters(concatenationVideoCount, cuts, {
+      hasAudio: keepOriginalAudio,
+      videoOutput: finalVideoOutput,
+      audioOutput: finalAudioOutput
+    }));
+
+    // Freeze-fill holds the mix's last frame over silence until the target, before any effects
+    if (durationFill.strategy === 'freeze') {
+      filters.push(...this.durationFillService.buildHoldFilters({
+        video: finalVideoOutput,
+        audio: keepOriginalAudio ? finalAudioOutput : undefined,
+        seconds: durationFill.hold,
+        videoOutput: 'heldv',
+        audioOutput: 'helda'
+      }));
+      finalVideoOutput = 'heldv';
+      finalAudioOutput = keepOriginalAudio ? 'helda' : finalAudioOutput;
+    }
 
-      // Apply transitions between videos
-      for (let i = 0; i < concatenationVideoCount - 1; i++) {
-        const transitionType = variant.transitions[i] || 'fade';
-        // Use configured transition duration (defaults to 1.0s since transitionDuration not in settings)
-        const configuredDuration = 1.0;
-        const transitionDuration = Math.min(
-          configuredDuration,
-          Math.min(videoDurations[i], videoDurations[i + 1]) * 0.2 // Max 20% of shorter video
-        );
+    // Note: Aspect ratio already applied per video, no need to apply again after concatenation
 
-        // Calculate offset for xfade (transition starts before the end of the first video)
-        // For chained xfades, use cumulative duration for subsequent transitions
-        let offset = i === 0
-          ? videoDurations[i] - transitionDuration
-          : cumulativeDuration;
+    // Per-output color grade on the joined stream
+    const grade = variant.colorAdjustments;
+    if (grade && !this.colorGradingService.isNeutral(grade)) {
+      const lut = variant.settings.colorLuts?.find(entry => entry.id === grade.lutId);
+      const gradeFilter = this.colorGradingService.buildFilter(grade, lut?.path);
+      if (gradeFilter) {
+        filters.push(`[${finalVideoOutput}]${gradeFilter}[graded]`);
+        finalVideoOutput = 'graded';
+        logger.info(`[FFmpeg Build] Color grade: ${gradeFilter}`);
+      }
+    }
 
-        // Validate and adjust offset to ensure it doesn't exceed video duration
-        const maxOffset = i === 0 ? videoDurations[i] - 0.1 : cumulativeDuration;
+    // Micro-variations change the picture only - headline, captions and watermark are drawn on top unchanged
+    const frame = this.getRenderDimensions(variant.settings, profile);
+    const frameVariation = variant.microVariation
+      ? this.microVariationService.buildFrameFilters(variant.microVariation, frame.width, frame.height)
+      : [];
+    if (frameVariation.length > 0) {
+      filters.push(`[${finalVideoOutput}]${frameVariation.join(',')}[varied]`);
+      finalVideoOutput = 'varied';
+      logger.info(`[FFmpeg Build] Micro-variation: ${frameVariation.join(',')}`);
+    }
 
-        // Log BEFORE adjustment for debugging
-        logger.info(`[Transition ${i}] Pre-validation: offset=${offset.toFixed(3)}s, maxOffset=${maxOffset.toFixed(3)}s`);
+    // Hook headline for this output, drawn over the graded picture
+    const textOverlay = variant.settings.textOverlay;
+    if (textOverlay && variant.headline) {
+      filters.push(`[${finalVideoOutput}]${this.textOverlayService.buildFilter(variant.headline, textOverlay.style, frame.height)}[titled]`);
+      finalVideoOutput = 'titled';
+      logger.info(`[FFmpeg Build] Headline: "${variant.headline}"`);
+    }
 
-        if (offset > maxOffset) {
-          logger.warn(`[Transition ${i}] Offset ${offset.toFixed(3)}s exceeds max ${maxOffset.toFixed(3)}s, adjusting...`);
-          offset = Math.max(0.1, maxOffset - transitionDuration);
-        }
+    // Captions come from the retimed sidecar SRT the caller writes next to the output (previews skip them)
+    const subtitleMode = profile !== 'proxy' && this.hasSubtitles(variant, validatedVideos)
+      ? variant.settings.subtitleMode
+      : undefined;
+    const subtitlePath = this.subtitleService.getSidecarPath(outputPath);
+    if (subtitleMode === 'burn') {
+      filters.push(`[${finalVideoOutput}]${this.subtitleService.buildBurnFilter(subtitlePath, variant.settings.subtitleStyle || 'classic')}[subbed]`);
+      finalVideoOutput = 'subbed';
+      logger.info(`[FFmpeg Build] Burning in subtitles from ${subtitlePath}`);
+    }
 
-        if (offset < 0 || isNaN(offset)) {
-          logger.error(`[Transition ${i}] Invalid offset ${offset}s - setting to minimum`);
-          offset = 0.1; // Fallback to minimal offset
-        }
+    // Watermark on top of everything else - a logo is one more input, text is drawn directly
+    const watermark = variant.settings.watermark;
+    const logo = watermark?.logoId ? variant.settings.watermarkLogo : undefined;
+    const logoInputIndex = actualVideoCount + (musicTrack ? 1 : 0);
+    if (watermark && (logo || watermark.text)) {
+      filters.push(...this.watermarkService.buildFilters(watermark, {
+        input: finalVideoOutput,
+        output: 'watermarked',
+        position: variant.watermarkPosition || watermark.positions[0],
+        width: frame.width,
+        height: frame.height,
+        logoInput: logo ? logoInputIndex : undefined
+      }));
+      finalVideoOutput = 'watermarked';
+      logger.info(`[FFmpeg Build] Watermark: ${logo ? logo.name : `"${watermark.text}"`} at ${variant.watermarkPosition}`);
+    }
 
-        // Log final calculations for debugging
-        logger.info(`[Transition ${i}] Final: Video${i}_dur=${videoDurations[i].toFixed(3)}s, ` +
-                   `Video${i+1}_dur=${videoDurations[i + 1].toFixed(3)}s, ` +
-                   `transition=${transitionDuration.toFixed(3)}s, ` +
-                   `offset=${offset.toFixed(3)}s, ` +
-                   `cumulative=${cumulativeDuration.toFixed(3)}s`);
-
-        // Update cumulative duration for next iteration
-        // The cumulative duration represents where the next transition should start
-        if (i === 0) {
-          // After first transition: first video ends at its duration minus overlap
-          // Second video starts during the overlap, so total is v0 + v1 - overlap
-          cumulativeDuration = videoDurations[i] + videoDurations[i + 1] - transitionDuration;
-          logger.info(`[Transition ${i}] Updated cumulative: ${videoDurations[i].toFixed(3)} + ${videoDurations[i + 1].toFixed(3)} - ${transitionDuration.toFixed(3)} = ${cumulativeDuration.toFixed(3)}`);
-        } else {
-          // For subsequent transitions, add the next video duration minus overlap
-          const oldCumulative = cumulativeDuration;
-          cumulativeDuration += videoDurations[i + 1] - transitionDuration;
-          logger.info(`[Transition ${i}] Updated cumulative: ${oldCumulative.toFixed(3)} + ${videoDurations[i + 1].toFixed(3)} - ${transitionDuration.toFixed(3)} = ${cumulativeDuration.toFixed(3)}`);
-        }
+    // Music bed - looped input trimmed and faded to the output, ducked under the clip audio
+    if (musicTrack) {
+      let musicDuration = this.transitionService.getOutputDuration(clipDurations, cuts) +
+        (durationFill.strategy === 'freeze' ? durationFill.hold : 0);
+      if (variant.settings.durationType === 'fixed' && variant.settings.fixedDuration) {
+        musicDuration = Math.min(musicDuration, this.getContentDuration(variant));
+      }
+      if (profile === 'proxy') {
+        musicDuration = Math.min(musicDuration, PROXY_MAX_DURATION);
+      }
 
-        // Get the transition filter with proper offset
-        const transitionFilter = this.getTransitionFilter(transitionType, transitionDuration, offset);
+      const musicInputIndex = actualVideoCount;
+      inputs.push(...this.musicBedService.buildInputArgs(musicTrack));
+      filters.push(...this.musicBedService.buildMixFilters({
+        ...(variant.settings.musicBed || DEFAULT_MUSIC_OPTIONS),
+        inputIndex: musicInputIndex,
+        duration: musicDuration,
+        clipAudio: keepOriginalAudio ? finalAudioOutput : undefined,
+        output: 'mixa'
+      }));
+      finalAudioOutput = 'mixa';
+      logger.info(`[FFmpeg Build] Music bed: ${musicTrack.name} (${musicDuration.toFixed(1)}s, original audio: ${keepOriginalAudio})`);
+    }
+    const hasOutputAudio = keepOriginalAudio || Boolean(musicTrack);
+
+    // Pitch shift on the whole mix, music included, before intro and outro are joined
+    const pitchVariation = hasOutputAudio && variant.microVariation
+      ? this.microVariationService.buildPitchFilters(variant.microVariation.pitch)
+      : [];
+    if (pitchVariation.length > 0) {
+      filters.push(`[${finalAudioOutput}]${pitchVariation.join(',')}[pitcheda]`);
+      finalAudioOutput = 'pitcheda';
+    }
 
-        if (transitionFilter) {
-          const outputLabel = i === concatenationVideoCount - 2 ? finalVideoOutput : `vtmp${i}`;
+    if (logo) {
+      inputs.push('-i', logo.path);
+    }
 
-          // Apply xfade for video with proper offset
-          const xfadeFilter = `[${currentVideoStream}][v${i + 1}]${transitionFilter}[${outputLabel}]`;
-          filters.push(xfadeFilter);
-          logger.info(`[FFmpeg Build] Adding xfade filter: ${xfadeFilter}`);
-          currentVideoStream = outputLabel;
+    // Soft subtitles are one more input, muxed as a selectable mov_text track
+    const subtitleInputIndex = logoInputIndex + (logo ? 1 : 0);
+    if (subtitleMode === 'soft') {
+      inputs.push('-i', subtitlePath);
+      logger.info(`[FFmpeg Build] Muxing subtitles from ${subtitlePath}`);
+    }
 
-          // Apply crossfade for audio if not muted
-          if (variant.settings.audioMode !== 'mute' && currentAudioStream) {
-            const audioOutputLabel = i === concatenationVideoCount - 2 ? finalAudioOutput : `atmp${i}`;
-            // Audio crossfade (acrossfade doesn't use offset, it automatically applies at the overlap point)
-            filters.push(`[${currentAudioStream}][a${i + 1}]acrossfade=d=${transitionDuration}[${audioOutputLabel}]`);
-            currentAudioStream = audioOutputLabel;
-          }
-        }
+    // A fixed duration without smart trimming cuts the mix; transitions can leave a smart-trimmed mix slightly long
+    const capsDuration = variant.settings.durationType === 'fixed' && Boolean(variant.settings.fixedDuration) &&
+      (!variant.settings.smartTrimming || hasTransitions);
 
-        logger.info(`[FFmpeg Build] Transition ${i}: ${transitionType} (duration: ${transitionDuration}s, offset: ${offset}s)`);
+    // Intro and outro are joined around the finished mix, so effects and the duration cut only apply to the mix
+    const { intro, outro } = this.getBumpers(variant);
+    const bumperInputIndex = subtitleInputIndex + (subtitleMode === 'soft' ? 1 : 0);
+    if (intro || outro) {
+      if (intro) {
+        inputs.push('-i', intro.path);
       }
-    } else {
-      // No transitions - use simple concatenation (ALWAYS executed for stability)
-      logger.info(`[FFmpeg Build] Using simple concatenation (no transitions) - transitions disabled for stability`);
-
-      if (variant.settings.audioMode === 'mute') {
-        // Video-only concatenation
-        const videoInputs = validatedVideos.map((_, i) => `[v${i}]`).join('');
-        filters.push(`${videoInputs}concat=n=${concatenationVideoCount}:v=1:a=0[${finalVideoOutput}]`);
-      } else {
-        // Video and audio concatenation - ensure all streams are present
-        const concatInputs = validatedVideos.map((_, i) => `[v${i}][a${i}]`).join('');
-        filters.push(`${concatInputs}concat=n=${concatenationVideoCount}:v=1:a=1[${finalVideoOutput}][${finalAudioOutput}]`);
+      if (outro) {
+        inputs.push('-i', outro.path);
       }
+      filters.push(...this.bumperService.buildJoinFilters({
+        video: finalVideoOutput,
+        audio: hasOutputAudio ? finalAudioOutput : undefined,
+        intro: intro ? { bumper: intro, inputIndex: bumperInputIndex } : undefined,
+        outro: outro ? { bumper: outro, inputIndex: bumperInputIndex + (intro ? 1 : 0) } : undefined,
+        limit: capsDuration ? this.getContentDuration(variant) : undefined,
+        outroHold: durationFill.strategy === 'outro' ? durationFill.hold : undefined,
+        width: frame.width,
+        height: frame.height,
+        fps: targetFPS,
+        fill: variant.settings.aspectFill,
+        videoOutput: 'bumperv',
+        audioOutput: 'bumpera'
+      }));
+      finalVideoOutput = 'bumperv';
+      finalAudioOutput = 'bumpera';
+      logger.info(`[FFmpeg Build] Bumpers: intro ${intro?.name || 'none'}, outro ${outro?.name || 'none'}`);
+    }
+
+    // Proxy: burn in a label so a preview can't pass as a final render
+    if (profile === 'proxy') {
+      filters.push(`[${finalVideoOutput}]drawtext=text='PREVIEW':fontcolor=white@0.8:fontsize=28:box=1:boxcolor=black@0.4:boxborderw=8:x=(w-text_w)/2:y=h-text_h-24[preview]`);
+      finalVideoOutput = 'preview';
     }
 
-    // Note: Aspect ratio already applied per video, no need to apply again after concatenation
 
     // Build FFmpeg command arguments (without 'ffmpeg' as it's the executable name)
     commands.push('-y'); // Overwrite output at the beginning
@@ -1185,37 +2579,65 @@ export class AutoMixingService {
 
     // Map outputs
     commands.push('-map', `[${finalVideoOutput}]`);
-    if (variant.settings.audioMode !== 'mute') {
+    if (hasOutputAudio) {
       commands.push('-map', `[${finalAudioOutput}]`);
     }
+    if (subtitleMode === 'soft') {
+      commands.push('-map', `${subtitleInputIndex}:s`, '-c:s', 'mov_text');
+    }
 
     // Video settings - dimensions already normalized in filter, no need to specify again
     // The filter chain has already set the correct dimensions
-    commands.push('-b:v', this.getBitrateValue(variant.settings.bitrate));
+    if (profile !== 'proxy') {
+      commands.push('-b:v', this.getBitrateValue(variant.settings.bitrate));
+    }
     commands.push('-r', variant.settings.frameRate.toString());
 
     // Apply duration control based on smartTrimming setting
-    if (variant.settings.durationType === 'fixed' && variant.settings.fixedDuration) {
+    let outputDuration: number | undefined;
+    if (intro || outro) {
+      // Any cut was applied to the mix inside the graph - the bumpers come on top of it
+      if (capsDuration) {
+        logger.info(`[Duration Control] Mix cut to ${this.getContentDuration(variant)}s before the bumpers were joined`);
+      }
+    } else if (variant.settings.durationType === 'fixed' && variant.settings.fixedDuration) {
       if (!variant.settings.smartTrimming) {
         // When smart trimming is disabled, cut the final output to the specified duration
-        commands.push('-t', variant.settings.fixedDuration.toString());
+        outputDuration = variant.settings.fixedDuration;
         logger.info(`[Duration Control] Applying fixed duration to final output: ${variant.settings.fixedDuration} seconds (smartTrimming: false)`);
+      } else if (hasTransitions) {
+        // Clips were planned for every overlap; a hard-cut fallback leaves the output slightly long
+        outputDuration = variant.settings.fixedDuration;
       } else {
         logger.info(`[Duration Control] Smart trimming enabled - duration applied per video, not to final output`);
       }
     }
 
-    // Add metadata
-    const metadata = this.getMetadataInjection(variant.settings.metadataSource);
-    for (const [key, value] of Object.entries(metadata)) {
-      commands.push('-metadata', `${key}="${value}"`);
+    // Proxy previews only need the opening seconds to judge the cut
+    if (profile === 'proxy') {
+      outputDuration = Math.min(outputDuration ?? PROXY_MAX_DURATION, PROXY_MAX_DURATION);
+    }
+    if (outputDuration) {
+      commands.push('-t', outputDuration.toString());
+    }
+
+    // Add metadata - previews are never published, so they skip it
+    if (profile !== 'proxy') {
+      const tags = this.getMetadataProfiles(variant.settings).find(entry => entry.id === variant.metadataProfileId);
+      if (tags) {
+        commands.push(...this.metadataProfileService.buildArgs(tags, variant.creationTime));
+      }
     }
 
     // Output settings - Determine quality based on settings
     commands.push('-c:v', 'libx264');
 
     // Adjust preset based on bitrate setting for better balance
-    switch (variant.settings.bitrate) {
+    switch (profile === 'proxy' ? 'proxy' : variant.settings.bitrate) {
+      case 'proxy':
+        commands.push('-preset', 'ultrafast');
+        commands.push('-crf', '32');
+        break;
       case 'low':
         commands.push('-preset', 'faster');
         commands.push('-crf', '28'); // Lower quality, smaller file
@@ -1232,11 +2654,11 @@ export class AutoMixingService {
     }
 
     // Audio codec or no audio
-    if (variant.settings.audioMode === 'mute') {
+    if (!hasOutputAudio) {
       commands.push('-an'); // No audio
     } else {
       commands.push('-c:a', 'aac');
-      commands.push('-b:a', '128k'); // Audio bitrate
+      commands.push('-b:a', profile === 'proxy' ? '64k' : '128k'); // Audio bitrate
       commands.push('-ar', '48000'); // Audio sample rate
       commands.push('-ac', '2'); // Stereo audio
     }
@@ -1255,38 +2677,23 @@ export class AutoMixingService {
     logger.info('FFmpeg command arguments:', commands.join(' '));
     logger.info(`Output will contain ${actualVideoCount} concatenated videos`);
 
-    // Final verification - ensure command has correct number of inputs
+    // Final verification - ensure command has correct number of inputs (videos plus music bed, logo, soft subtitles and bumpers)
     const commandInputCount = commands.filter(arg => arg === '-i').length;
-    if (commandInputCount !== actualVideoCount) {
-      logger.error(`[FFmpeg Verification] Command input mismatch! Expected ${actualVideoCount} inputs, found ${commandInputCount}`);
-      throw new Error(`FFmpeg command validation failed: input count mismatch (${commandInputCount} vs ${actualVideoCount})`);
+    const expectedInputCount = bumperInputIndex + (intro ? 1 : 0) + (outro ? 1 : 0);
+    if (commandInputCount !== expectedInputCount) {
+      logger.error(`[FFmpeg Verification] Command input mismatch! Expected ${expectedInputCount} inputs, found ${commandInputCount}`);
+      throw new Error(`FFmpeg command validation failed: input count mismatch (${commandInputCount} vs ${expectedInputCount})`);
     }
 
-    logger.info(`[FFmpeg Verification] Command validated: ${commandInputCount} input videos confirmed`);
+    logger.info(`[FFmpeg Verification] Command validated: ${commandInputCount} inputs confirmed`);
 
     return commands;
   }
 
-  /**
-   * Generate random transitions for video cuts
-   */
-  private generateTransitions(
-    videoCount: number,
-    transitionTypes: string[]
-  ): string[] {
-    const transitions: string[] = [];
-    // n-1 transitions for n videos
-    for (let i = 0; i < videoCount - 1; i++) {
-      const randomIndex = Math.floor(Math.random() * transitionTypes.length);
-      transitions.push(transitionTypes[randomIndex]);
-    }
-    return transitions;
-  }
-
   /**
    * Generate color adjustments based on intensity
    */
-  private generateColorAdjustments(intensity: 'low' | 'medium' | 'high') {
+  private generateColorAdjustments(intensity: ColorIntensity): ColorGrade {
     const ranges = {
       low: { brightness: 0.05, contrast: 0.08, saturation: 0.1, hue: 3 },
       medium: { brightness: 0.1, contrast: 0.15, saturation: 0.2, hue: 5 },
@@ -1295,53 +2702,23 @@ export class AutoMixingService {
 
     const range = ranges[intensity];
 
+    const round = (value: number) => Math.round(value * 1000) / 1000;
+
     return {
-      brightness: (Math.random() * 2 - 1) * range.brightness, // -range to +range
-      contrast: 1 + (Math.random() * 2 - 1) * range.contrast,  // 1-range to 1+range
-      saturation: 1 + (Math.random() * 2 - 1) * range.saturation,
-      hue: (Math.random() * 2 - 1) * range.hue
+      brightness: round((this.random() * 2 - 1) * range.brightness), // -range to +range
+      contrast: round(1 + (this.random() * 2 - 1) * range.contrast),  // 1-range to 1+range
+      saturation: round(1 + (this.random() * 2 - 1) * range.saturation),
+      hue: round((this.random() * 2 - 1) * range.hue)
     };
   }
 
-  /**
-   * Get transition filter for FFmpeg
-   */
-  private getTransitionFilter(
-    transition: string,
-    duration: number,
-    offset: number
-  ): string {
-    // Include offset for proper timing when chaining xfade filters
-    // The offset determines when the transition starts relative to the beginning of the first video
-    const baseFilter = `xfade=offset=${offset}:duration=${duration}:`;
-
-    switch (transition) {
-      case 'fade':
-        return `${baseFilter}transition=fade`;
-      case 'dissolve':
-        return `${baseFilter}transition=dissolve`;
-      case 'wipe':
-        const direction = ['left', 'right', 'up', 'down'][Math.floor(Math.random() * 4)];
-        return `${baseFilter}transition=wipe${direction}`;
-      case 'slide':
-        const slideDir = ['left', 'right', 'up', 'down'][Math.floor(Math.random() * 4)];
-        return `${baseFilter}transition=slide${slideDir}`;
-      case 'zoom':
-        return `${baseFilter}transition=circlecrop`;
-      case 'blur':
-        return `${baseFilter}transition=fadeblack`;
-      default:
-        return ''; // No transition (hard cut)
-    }
-  }
-
   /**
    * Shuffle array using Fisher-Yates algorithm
    */
   private shuffleArray<T>(array: T[]): T[] {
     const shuffled = [...array];
     for (let i = shuffled.length - 1; i > 0; i--) {
-      const j = Math.floor(Math.random() * (i + 1));
+      const j = Math.floor(this.random() * (i + 1));
       [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
     }
     return shuffled;
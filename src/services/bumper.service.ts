@@ -0,0 +1,162 @@
+import path from 'path';
+import fs from 'fs/promises';
+import { sanitizeFilename } from '@/utils/validation';
+import logger from '@/utils/logger';
+import { AspectFillService, AspectFillSettings } from './aspect-fill.service';
+
+export type BumperKind = 'intro' | 'outro';
+
+export const BUMPER_EXTENSIONS = ['.mp4', '.mov', '.webm', '.mkv'];
+
+// Project intro/outro clip resolved to a file on disk for rendering
+export interface BumperFile {
+  id: string;
+  name: string;
+  path: string;
+  duration: number;
+  hasAudio: boolean;
+}
+
+export interface BumperSettings {
+  introIds: string[];       // Pool of intros, rotated across outputs
+  outroIds: string[];
+  countInDuration: boolean; // Bumpers are part of fixedDuration instead of added to it
+}
+
+export interface BumperJoinOptions {
+  video: string;            // Label of the finished mix
+  audio?: string;           // Mix audio label; the output is silent without it
+  intro?: BumperInput;
+  outro?: BumperInput;
+  limit?: number;           // Seconds the mix is cut to before the bumpers are joined
+  outroHold?: number;       // Seconds the outro's last frame is held to fill a short output
+  width: number;            // Output frame size
+  height: number;
+  fps: number;
+  fill?: AspectFillSettings;
+  videoOutput: string;
+  audioOutput: string;
+}
+
+export interface BumperInput {
+  bumper: BumperFile;
+  inputIndex: number;
+}
+
+const AUDIO_FORMAT = 'aresample=48000,aformat=sample_fmts=fltp:sample_rates=48000:channel_layouts=stereo';
+
+/**
+ * Stores per-project intro and outro clips and joins them around each output,
+ * outside order mixing, trimming and the per-output effects
+ */
+export class BumperService {
+  private readonly bumperDir = path.join(process.env.UPLOAD_PATH || 'uploads', 'bumpers');
+  private aspectFillService = new AspectFillService();
+
+  parseKind(raw: unknown): BumperKind | undefined {
+    return raw === 'intro' || raw === 'outro' ? raw : undefined;
+  }
+
+  /**
+   * Normalize bumper settings from a request. Returns undefined when no intro or outro is selected.
+   */
+  parseSettings(raw: any): BumperSettings | undefined {
+    const ids = (value: unknown): string[] => Array.isArray(value)
+      ? Array.from(new Set(value.filter((id): id is string => typeof id === 'string' && id.length > 0)))
+      : [];
+
+    const introIds = ids(raw?.introIds);
+    const outroIds = ids(raw?.outroIds);
+    if (introIds.length === 0 && outroIds.length === 0) return undefined;
+
+    return { introIds, outroIds, countInDuration: Boolean(raw.countInDuration) };
+  }
+
+  /**
+   * Resolve the selected project bumpers of one kind to files on disk
+   */
+  resolveFiles(projectBumpers: any[] | undefined, bumperIds: unknown, kind: BumperKind): BumperFile[] {
+    if (!Array.isArray(bumperIds) || bumperIds.length === 0) return [];
+
+    return (projectBumpers || [])
+      .filter((bumper: any) => bumper.kind === kind && bumperIds.includes(bumper.id))
+      .map((bumper: any) => ({
+        id: bumper.id,
+        name: bumper.name,
+        path: this.getBumperPath(bumper.filename),
+        duration: bumper.duration,
+        hasAudio: bumper.hasAudio
+      }));
+  }
+
+  /**
+   * Move an uploaded bumper from the upload directory into the bumper directory. The caller probes it and records it.
+   */
+  async storeBumper(originalName: string, uploadPath: string): Promise<{ name: string; filename: string; path: string }> {
+    await fs.mkdir(this.bumperDir, { recursive: true });
+    const filename = `${Date.now()}_${sanitizeFilename(originalName)}`;
+    const bumperPath = this.getBumperPath(filename);
+    await fs.rename(uploadPath, bumperPath);
+
+    logger.info(`[Bumpers] Stored bumper ${filename}`);
+    return { name: path.basename(originalName, path.extname(originalName)), filename, path: bumperPath };
+  }
+
+  /**
+   * Drop an upload that was never stored - rejected requests leave nothing behind
+   */
+  async discardUpload(uploadPath: string): Promise<void> {
+    await fs.unlink(uploadPath).catch(() => undefined);
+  }
+
+  async removeBumper(filename: string): Promise<void> {
+    await fs.unlink(this.getBumperPath(filename)).catch(() => {
+      logger.warn(`[Bumpers] Bumper file already missing: ${filename}`);
+    });
+  }
+
+  getBumperPath(filename: string): string {
+    return path.join(this.bumperDir, filename);
+  }
+
+  /**
+   * Filters that fit each bumper to the output frame and concatenate intro, mix and outro.
+   * Bumpers without sound get a silent track so the audio join lines up.
+   */
+  buildJoinFilters(options: BumperJoinOptions): string[] {
+    const { video, audio, intro, outro, limit, width, height, fps, videoOutput, audioOutput } = options;
+    const fill = this.aspectFillService.resolve(options.fill);
+    const filters: string[] = [];
+    const segments: string[] = [];
+
+    const addBumper = (input: BumperInput | undefined, label: BumperKind, hold = 0) => {
+      if (!input) return;
+      const { bumper, inputIndex } = input;
+      const fit = this.aspectFillService.buildFilters(fill, width, height, label);
+      const freeze = hold > 0 ? [`tpad=stop_mode=clone:stop_duration=${hold.toFixed(3)}`] : [];
+      filters.push(`[${inputIndex}:v]${[...fit, `fps=${fps}`, ...freeze, 'format=yuv420p', 'setsar=1'].join(',')}[${label}v]`);
+      if (audio) {
+        const duration = (bumper.duration + hold).toFixed(3);
+        filters.push(bumper.hasAudio
+          ? `[${inputIndex}:a]${AUDIO_FORMAT},apad,atrim=duration=${duration}[${label}a]`
+          : `anullsrc=channel_layout=stereo:sample_rate=48000,atrim=duration=${duration}[${label}a]`);
+      }
+      segments.push(`[${label}v]${audio ? `[${label}a]` : ''}`);
+    };
+
+    addBumper(intro, 'intro');
+
+    const cut = limit ? `trim=duration=${limit.toFixed(3)},setpts=PTS-STARTPTS,` : '';
+    filters.push(`[${video}]${cut}format=yuv420p,setsar=1[bodyv]`);
+    if (audio) {
+      filters.push(`[${audio}]${limit ? `atrim=duration=${limit.toFixed(3)},asetpts=PTS-STARTPTS` : 'anull'}[bodya]`);
+    }
+    segments.push(`[bodyv]${audio ? '[bodya]' : ''}`);
+
+    addBumper(outro, 'outro', options.outroHold);
+
+    const outputs = `[${videoOutput}]${audio ? `[${audioOutput}]` : ''}`;
+    filters.push(`${segments.join('')}concat=n=${segments.length}:v=1:a=${audio ? 1 : 0}${outputs}`);
+    return filters;
+  }
+}
\ No newline at end of file
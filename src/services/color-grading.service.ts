@@ -0,0 +1,129 @@
+import path from 'path';
+import fs from 'fs/promises';
+import { sanitizeFilename } from '@/utils/validation';
+import logger from '@/utils/logger';
+
+export type ColorIntensity = 'low' | 'medium' | 'high';
+
+/**
+ * Grade applied to one output: eq/hue offsets (neutral = 0/1/1/0) plus an optional LUT
+ */
+export interface ColorGrade {
+  brightness: number;
+  contrast: number;
+  saturation: number;
+  hue: number;
+  lutId?: string;
+}
+
+// Project LUT resolved to a file on disk for rendering
+export interface ColorLutFile {
+  id: string;
+  name: string;
+  path: string;
+}
+
+export const NEUTRAL_GRADE: ColorGrade = { brightness: 0, contrast: 1, saturation: 1, hue: 0 };
+
+// lut3d interpolates any size, but huge cubes only slow rendering down
+const MIN_LUT_SIZE = 2;
+const MAX_LUT_SIZE = 128;
+
+/**
+ * Stores per-project .cube LUTs and turns color grades into FFmpeg filters
+ */
+export class ColorGradingService {
+  private readonly lutDir = path.join(process.env.UPLOAD_PATH || 'uploads', 'luts');
+
+  /**
+   * Validate a .cube file and return its LUT_3D_SIZE. Throws a user-facing error when malformed.
+   */
+  parseCube(content: string): number {
+    let size = 0;
+    let rows = 0;
+
+    for (const rawLine of content.split(/\r?\n/)) {
+      const line = rawLine.trim();
+      if (!line || line.startsWith('#')) continue;
+
+      const [keyword, ...values] = line.split(/\s+/);
+      if (keyword === 'LUT_1D_SIZE') {
+        throw new Error('1D LUTs are not supported - export a 3D .cube LUT');
+      }
+      if (keyword === 'LUT_3D_SIZE') {
+        size = parseInt(values[0], 10);
+        continue;
+      }
+      if (/^[A-Z_]+$/.test(keyword)) continue; // TITLE, DOMAIN_MIN, DOMAIN_MAX
+
+      const numbers = line.split(/\s+/).map(Number);
+      if (numbers.length !== 3 || numbers.some(n => !Number.isFinite(n))) {
+        throw new Error(`Invalid LUT row: "${line.substring(0, 40)}"`);
+      }
+      rows++;
+    }
+
+    if (!size || size < MIN_LUT_SIZE || size > MAX_LUT_SIZE) {
+      throw new Error(`LUT_3D_SIZE must be between ${MIN_LUT_SIZE} and ${MAX_LUT_SIZE}`);
+    }
+    if (rows !== size * size * size) {
+      throw new Error(`LUT has ${rows} rows, expected ${size * size * size} for size ${size}`);
+    }
+
+    return size;
+  }
+
+  /**
+   * Validate an uploaded LUT and write it to the LUT directory.
+   * The caller records the returned file on the project.
+   */
+  async storeLut(originalName: string, buffer: Buffer): Promise<{ name: string; filename: string; size: number }> {
+    const size = this.parseCube(buffer.toString('utf8'));
+
+    await fs.mkdir(this.lutDir, { recursive: true });
+    const filename = `${Date.now()}_${sanitizeFilename(originalName)}`;
+    await fs.writeFile(this.getLutPath(filename), buffer);
+
+    logger.info(`[Color Grading] Stored LUT ${filename} (${size}³)`);
+    return { name: path.basename(originalName, path.extname(originalName)), filename, size };
+  }
+
+  async removeLut(filename: string): Promise<void> {
+    await fs.unlink(this.getLutPath(filename)).catch(() => {
+      logger.warn(`[Color Grading] LUT file already missing: ${filename}`);
+    });
+  }
+
+  getLutPath(filename: string): string {
+    return path.join(this.lutDir, filename);
+  }
+
+  isNeutral(grade: ColorGrade): boolean {
+    return !grade.lutId &&
+      grade.brightness === NEUTRAL_GRADE.brightness &&
+      grade.contrast === NEUTRAL_GRADE.contrast &&
+      grade.saturation === NEUTRAL_GRADE.saturation &&
+      grade.hue === NEUTRAL_GRADE.hue;
+  }
+
+  /**
+   * FFmpeg filter chain for a grade (eq, hue, then the LUT), or '' for a neutral grade
+   */
+  buildFilter(grade: ColorGrade, lutPath?: string): string {
+    const chain: string[] = [];
+    const round = (value: number) => Math.round(value * 1000) / 1000;
+
+    if (grade.brightness !== 0 || grade.contrast !== 1 || grade.saturation !== 1) {
+      chain.push(`eq=brightness=${round(grade.brightness)}:contrast=${round(grade.contrast)}:saturation=${round(grade.saturation)}`);
+    }
+    if (grade.hue !== 0) {
+      chain.push(`hue=h=${round(grade.hue)}`);
+    }
+    if (lutPath) {
+      // Forward slashes and an escaped drive colon keep Windows paths valid inside the filter option
+      chain.push(`lut3d=file='${lutPath.replace(/\\/g, '/').replace(/:/g, '\\:')}'`);
+    }
+
+    return chain.join(',');
+  }
+}
\ No newline at end of file
@@ -0,0 +1,88 @@
+import { HARD_CUT } from './transition.service';
+
+// What fills the gap when a fixed-duration output's clips run out early:
+// none leaves the output short, loop replays the sequence, freeze holds the last frame,
+// slow stretches every clip (no slower than speedRange.min), outro holds the outro's last frame
+export type DurationFillStrategy = 'none' | 'loop' | 'freeze' | 'slow' | 'outro';
+export const DURATION_FILL_STRATEGIES: DurationFillStrategy[] = ['none', 'loop', 'freeze', 'slow', 'outro'];
+
+export interface HoldFilterOptions {
+  video: string;
+  audio?: string;
+  seconds: number;
+  videoOutput: string;
+  audioOutput: string;
+}
+
+// Gaps below this are rounding, not short outputs
+export const FILL_TOLERANCE = 0.05;
+// Every pass is another set of inputs, so looping very short sequences is capped
+const MAX_LOOP_PASSES = 10;
+
+/**
+ * Loop-to-fill for fixed-duration outputs whose clips add up to less than the target
+ */
+export class DurationFillService {
+  parseStrategy(raw: unknown): DurationFillStrategy {
+    return DURATION_FILL_STRATEGIES.includes(raw as DurationFillStrategy) ? raw as DurationFillStrategy : 'none';
+  }
+
+  /**
+   * Times the sequence has to play to reach the target - the last pass is cut with the output
+   */
+  getLoopPasses(sequenceLength: number, target: number): number {
+    if (!(sequenceLength > 0)) return 1;
+    return Math.max(1, Math.min(MAX_LOOP_PASSES, Math.ceil((target - FILL_TOLERANCE) / sequenceLength)));
+  }
+
+  /**
+   * Repeat a clip order and its cuts - passes are joined with hard cuts
+   */
+  loopSequence(
+    order: string[],
+    transitions: string[],
+    durations: number[],
+    passes: number
+  ): { order: string[]; transitions: string[]; durations: number[] } {
+    const looped = { order: [] as string[], transitions: [] as string[], durations: [] as number[] };
+    for (let pass = 0; pass < passes; pass++) {
+      if (pass > 0) {
+        looped.transitions.push(HARD_CUT);
+        looped.durations.push(0);
+      }
+      looped.order.push(...order);
+      looped.transitions.push(...order.slice(1).map((_, i) => transitions[i] || HARD_CUT));
+      looped.durations.push(...order.slice(1).map((_, i) => durations[i] || 0));
+    }
+    return looped;
+  }
+
+  /**
+   * Factor clip speeds are multiplied by so the sequence reaches the target. Overlaps at
+   * transitions stay the same length, so they are left out of the stretch.
+   */
+  getSlowdown(sequenceLength: number, target: number, overlap: number): number {
+    if (!(sequenceLength > 0) || target <= sequenceLength) return 1;
+    return (sequenceLength + overlap) / (target + overlap);
+  }
+
+  /**
+   * Slowest speed slow-fill may use - the job's speed range minimum, 0.5x when it is unset
+   */
+  getSpeedFloor(speedRange?: { min: number }): number {
+    const min = Number(speedRange?.min);
+    return Number.isFinite(min) && min > 0 ? min : 0.5;
+  }
+
+  /**
+   * Hold the last frame and pad the audio with silence
+   */
+  buildHoldFilters(options: HoldFilterOptions): string[] {
+    const seconds = options.seconds.toFixed(3);
+    const filters = [`[${options.video}]tpad=stop_mode=clone:stop_duration=${seconds}[${options.videoOutput}]`];
+    if (options.audio) {
+      filters.push(`[${options.audio}]apad=pad_dur=${seconds}[${options.audioOutput}]`);
+    }
+    return filters;
+  }
+}
\ No newline at end of file
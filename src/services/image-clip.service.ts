@@ -0,0 +1,115 @@
+import path from 'path';
+import { RandomFn } from '@/utils/seeded-random';
+
+export type ImageMotion = 'zoom-in' | 'zoom-out' | 'pan-left' | 'pan-right' | 'pan-up' | 'pan-down';
+export type ImageMotionLevel = 'off' | 'subtle' | 'strong';
+
+export const IMAGE_MOTIONS: ImageMotion[] = ['zoom-in', 'zoom-out', 'pan-left', 'pan-right', 'pan-up', 'pan-down'];
+
+export const IMAGE_EXTENSIONS = ['.png', '.jpg', '.jpeg'];
+export const IMAGE_MIME_TYPES = ['image/png', 'image/jpeg'];
+
+export interface ImageFilterOptions {
+  duration: number; // Seconds the still is shown before trims and speed
+  width: number;    // Output frame size
+  height: number;
+  fps: number;
+}
+
+// Largest zoom reached over the clip - pans move across the zoomed-in frame
+const MOTION_ZOOM: Record<ImageMotionLevel, number> = {
+  off: 1,
+  subtle: 1.1,
+  strong: 1.25
+};
+
+export const DEFAULT_IMAGE_DURATION = 3;
+const MIN_IMAGE_DURATION = 1;
+const MAX_IMAGE_DURATION = 30;
+
+// zoompan moves in whole pixels of its input, so stills are upscaled first to keep slow motion smooth
+const OVERSAMPLE = 2;
+
+/**
+ * Still images used as clips - each image becomes a zoompan stream of its display duration
+ * with a generated silent audio track, so it trims, speeds and joins like a video clip
+ */
+export class ImageClipService {
+  isImage(mimetype: string, filename: string): boolean {
+    return IMAGE_MIME_TYPES.includes(mimetype) || IMAGE_EXTENSIONS.includes(path.extname(filename).toLowerCase());
+  }
+
+  parseMotionLevel(raw: unknown): ImageMotionLevel {
+    return typeof raw === 'string' && raw in MOTION_ZOOM ? raw as ImageMotionLevel : 'subtle';
+  }
+
+  /**
+   * Display duration in seconds, clamped to a range that still works with smart trimming
+   */
+  parseDisplayDuration(raw: unknown): number {
+    const duration = Number(raw);
+    if (!Number.isFinite(duration) || duration <= 0) return DEFAULT_IMAGE_DURATION;
+    return Math.round(Math.max(MIN_IMAGE_DURATION, Math.min(MAX_IMAGE_DURATION, duration)) * 10) / 10;
+  }
+
+  pickMotion(random: RandomFn): ImageMotion {
+    return IMAGE_MOTIONS[Math.floor(random() * IMAGE_MOTIONS.length)];
+  }
+
+  /**
+   * Size the image is fitted to before zoompan - larger than the output so slow motion stays smooth
+   */
+  getSourceSize(width: number, height: number): { width: number; height: number } {
+    return { width: width * OVERSAMPLE, height: height * OVERSAMPLE };
+  }
+
+  /**
+   * Filters that turn a single decoded image, already fitted to the source size, into a video
+   * stream of the display duration at the output size. Without a motion the frame is held still.
+   */
+  buildVideoFilters(motion: ImageMotion | undefined, level: ImageMotionLevel, options: ImageFilterOptions): string[] {
+    const { duration, width, height, fps } = options;
+    const frames = Math.max(1, Math.ceil(duration * fps));
+    const { z, x, y } = this.getMotionExpressions(motion, MOTION_ZOOM[level], frames);
+
+    return [
+      'setsar=1',
+      `zoompan=z='${z}':x='${x}':y='${y}':d=${frames}:s=${width}x${height}:fps=${fps}`
+    ];
+  }
+
+  /**
+   * Silent stereo source standing in for the missing audio of a still
+   */
+  buildSilentAudio(duration: number): string {
+    return `anullsrc=channel_layout=stereo:sample_rate=48000,atrim=duration=${duration.toFixed(3)}`;
+  }
+
+  private getMotionExpressions(motion: ImageMotion | undefined, maxZoom: number, frames: number): { z: string; x: string; y: string } {
+    const progress = `on/${frames}`;
+    const centerX = 'iw/2-(iw/zoom/2)';
+    const centerY = 'ih/2-(ih/zoom/2)';
+    const travelX = '(iw-iw/zoom)';
+    const travelY = '(ih-ih/zoom)';
+
+    if (!motion || maxZoom <= 1) {
+      return { z: '1', x: '0', y: '0' };
+    }
+
+    switch (motion) {
+      case 'zoom-in':
+        return { z: `1+${(maxZoom - 1).toFixed(3)}*${progress}`, x: centerX, y: centerY };
+      case 'zoom-out':
+        return { z: `${maxZoom}-${(maxZoom - 1).toFixed(3)}*${progress}`, x: centerX, y: centerY };
+      case 'pan-left':
+        return { z: `${maxZoom}`, x: `${travelX}*(1-${progress})`, y: centerY };
+      case 'pan-right':
+        return { z: `${maxZoom}`, x: `${travelX}*${progress}`, y: centerY };
+      case 'pan-up':
+        return { z: `${maxZoom}`, x: centerX, y: `${travelY}*(1-${progress})` };
+      case 'pan-down':
+      default:
+        return { z: `${maxZoom}`, x: centerX, y: `${travelY}*${progress}` };
+    }
+  }
+}
\ No newline at end of file
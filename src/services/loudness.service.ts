@@ -0,0 +1,154 @@
+export type LoudnessPreset = 'social' | 'podcast' | 'broadcast';
+
+export interface LoudnessTarget {
+  integrated: number; // LUFS
+  truePeak: number;   // dBTP
+  range: number;      // LU
+}
+
+export const LOUDNESS_PRESETS: Record<LoudnessPreset, LoudnessTarget> = {
+  social: { integrated: -14, truePeak: -1, range: 11 },    // TikTok, Reels, Shorts, YouTube
+  podcast: { integrated: -16, truePeak: -1.5, range: 11 }, // Spoken word
+  broadcast: { integrated: -23, truePeak: -1, range: 7 }   // EBU R128
+};
+
+/**
+ * First-pass loudnorm analysis of one input, used to run the second pass in linear mode
+ */
+export interface LoudnessMeasurement {
+  inputI: number;
+  inputTp: number;
+  inputLra: number;
+  inputThresh: number;
+  targetOffset: number;
+}
+
+// Loudness of a finished output as reported by the second pass
+export interface LoudnessStats {
+  integrated: number;
+  truePeak: number;
+  range: number;
+}
+
+const AUDIO_FORMAT = 'aresample=48000,aformat=sample_fmts=fltp:sample_rates=48000:channel_layouts=stereo';
+
+/**
+ * Two-pass EBU R128 loudness normalization with FFmpeg's loudnorm filter.
+ * Pass one measures an input, pass two applies a linear gain from the measurement
+ * so the dynamics of the mix are kept.
+ */
+export class LoudnessService {
+  parsePreset(raw: unknown): LoudnessPreset | undefined {
+    return typeof raw === 'string' && raw in LOUDNESS_PRESETS ? raw as LoudnessPreset : undefined;
+  }
+
+  getTarget(preset: LoudnessPreset): LoudnessTarget {
+    return LOUDNESS_PRESETS[preset];
+  }
+
+  /**
+   * loudnorm filter for the first pass - prints its analysis as JSON on stderr
+   */
+  buildMeasureFilter(target: LoudnessTarget): string {
+    return `loudnorm=${this.targetOptions(target)}:print_format=json`;
+  }
+
+  /**
+   * loudnorm filter for the second pass. Without a measurement it falls back to
+   * single-pass dynamic mode. loudnorm upsamples to 192kHz, so the output is resampled.
+   */
+  buildNormalizeFilter(target: LoudnessTarget, measured?: LoudnessMeasurement, printStats: boolean = false): string {
+    const options = [this.targetOptions(target)];
+    if (measured) {
+      options.push(
+        `measured_I=${measured.inputI}`,
+        `measured_TP=${measured.inputTp}`,
+        `measured_LRA=${measured.inputLra}`,
+        `measured_thresh=${measured.inputThresh}`,
+        `offset=${measured.targetOffset}`,
+        'linear=true'
+      );
+    }
+    if (printStats) {
+      options.push('print_format=json');
+    }
+    return `loudnorm=${options.join(':')},${AUDIO_FORMAT}`;
+  }
+
+  /**
+   * Arguments for a measuring pass - audio only, nothing written. A range limits it to part of the input.
+   */
+  buildMeasureArgs(inputPath: string, target: LoudnessTarget, range?: { start: number; end: number }): string[] {
+    const seek = range ? ['-ss', range.start.toFixed(3), '-t', (range.end - range.start).toFixed(3)] : [];
+    return ['-hide_banner', '-nostats', ...seek, '-i', inputPath, '-vn', '-af', this.buildMeasureFilter(target), '-f', 'null', '-'];
+  }
+
+  /**
+   * Arguments for the second pass on a rendered output - video and any subtitle track are copied,
+   * only audio is re-encoded
+   */
+  buildApplyArgs(inputPath: string, outputPath: string, target: LoudnessTarget, measured: LoudnessMeasurement): string[] {
+    return [
+      '-y', '-hide_banner', '-nostats',
+      '-i', inputPath,
+      '-map', '0:v', '-map', '0:a', '-map', '0:s?',
+      '-c:v', 'copy', '-c:s', 'copy',
+      '-af', this.buildNormalizeFilter(target, measured, true),
+      '-c:a', 'aac', '-b:a', '128k', '-ar', '48000', '-ac', '2',
+      '-map_metadata', '0',
+      '-movflags', '+faststart',
+      outputPath
+    ];
+  }
+
+  /**
+   * Read the first-pass analysis from FFmpeg stderr, or null when there was no audio to measure
+   */
+  parseMeasurement(stderr: string): LoudnessMeasurement | null {
+    const report = this.parseReport(stderr);
+    if (!report) return null;
+
+    const measurement = {
+      inputI: Number(report.input_i),
+      inputTp: Number(report.input_tp),
+      inputLra: Number(report.input_lra),
+      inputThresh: Number(report.input_thresh),
+      targetOffset: Number(report.target_offset)
+    };
+
+    // Silent inputs report -inf, which loudnorm cannot take back as a measurement
+    return Object.values(measurement).every(Number.isFinite) ? measurement : null;
+  }
+
+  /**
+   * Read the output loudness reported by a second pass
+   */
+  parseStats(stderr: string): LoudnessStats | null {
+    const report = this.parseReport(stderr);
+    if (!report) return null;
+
+    const stats = {
+      integrated: Number(report.output_i),
+      truePeak: Number(report.output_tp),
+      range: Number(report.output_lra)
+    };
+    return Object.values(stats).every(Number.isFinite) ? stats : null;
+  }
+
+  private targetOptions(target: LoudnessTarget): string {
+    return `I=${target.integrated}:TP=${target.truePeak}:LRA=${target.range}`;
+  }
+
+  // loudnorm prints a single JSON object as the last block on stderr
+  private parseReport(stderr: string): Record<string, string> | null {
+    const start = stderr.lastIndexOf('{');
+    const end = stderr.lastIndexOf('}');
+    if (start === -1 || end < start) return null;
+
+    try {
+      return JSON.parse(stderr.substring(start, end + 1));
+    } catch {
+      return null;
+    }
+  }
+}
\ No newline at end of file
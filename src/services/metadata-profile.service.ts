@@ -0,0 +1,173 @@
+import { RandomFn } from '@/utils/seeded-random';
+
+// now stamps the render time, random picks a moment in the profile's window of days,
+// source copies the upload time of the output's opening clip
+export type CreationTimeStrategy = 'now' | 'random' | 'source';
+export const CREATION_TIME_STRATEGIES: CreationTimeStrategy[] = ['now', 'random', 'source'];
+
+// Tags written into one output, resolved from a user, global or built-in profile
+export interface MetadataProfileTags {
+  id: string;
+  name: string;
+  encoder?: string;
+  software?: string;
+  comment?: string;
+  handlerName?: string;       // Stream tag, written on video and audio
+  creationTime: CreationTimeStrategy;
+  creationWindow: number;     // Days back a random creation time may fall
+}
+
+// Editable fields of a stored profile
+export type MetadataProfileInput = Omit<MetadataProfileTags, 'id'>;
+
+// The presets metadataSource used to hard-code - listed next to stored profiles and
+// still used for jobs that only carry a metadataSource
+export const BUILT_IN_METADATA_PROFILES: MetadataProfileTags[] = [
+  {
+    id: 'capcut',
+    name: 'CapCut',
+    encoder: 'CapCut',
+    software: 'CapCut for Windows',
+    handlerName: 'CapCut',
+    creationTime: 'now',
+    creationWindow: 30
+  },
+  {
+    id: 'vn',
+    name: 'VN',
+    encoder: 'VN Video Editor',
+    software: 'VN - Video Editor & Maker',
+    comment: 'Made with VN',
+    handlerName: 'VN Editor',
+    creationTime: 'now',
+    creationWindow: 30
+  },
+  {
+    id: 'inshot',
+    name: 'InShot',
+    encoder: 'InShot',
+    software: 'InShot Video Editor',
+    comment: 'Created with InShot',
+    handlerName: 'InShot Inc.',
+    creationTime: 'now',
+    creationWindow: 30
+  }
+];
+
+const MAX_TAG_LENGTH = 120;
+const MAX_CREATION_WINDOW = 365;
+const DAY_SECONDS = 24 * 60 * 60;
+
+/**
+ * Container and stream tags per output - user and admin-defined profiles,
+ * a pool of them rotated across the batch
+ */
+export class MetadataProfileService {
+  /**
+   * Validate a create/update request. Tags are trimmed and stripped of control characters.
+   */
+  parseInput(raw: any): { profile?: MetadataProfileInput; error?: string } {
+    const name = this.parseTag(raw?.name);
+    if (!name) {
+      return { error: 'Profile name is required' };
+    }
+
+    const profile: MetadataProfileInput = {
+      name,
+      encoder: this.parseTag(raw.encoder),
+      software: this.parseTag(raw.software),
+      comment: this.parseTag(raw.comment),
+      handlerName: this.parseTag(raw.handlerName),
+      creationTime: this.parseCreationTime(raw.creationTime),
+      creationWindow: this.parseCreationWindow(raw.creationWindow)
+    };
+
+    if (!profile.encoder && !profile.software && !profile.comment && !profile.handlerName) {
+      return { error: 'A profile needs at least one of encoder, software, comment or handler name' };
+    }
+    return { profile };
+  }
+
+  parseCreationTime(raw: unknown): CreationTimeStrategy {
+    return CREATION_TIME_STRATEGIES.includes(raw as CreationTimeStrategy) ? raw as CreationTimeStrategy : 'now';
+  }
+
+  parseCreationWindow(raw: unknown): number {
+    const days = Math.round(Number(raw));
+    return days > 0 ? Math.min(MAX_CREATION_WINDOW, days) : 30;
+  }
+
+  /**
+   * Selected profile ids, falling back to the built-in preset a legacy metadataSource names
+   */
+  parseProfileIds(raw: unknown, legacySource?: unknown): string[] {
+    const ids = Array.isArray(raw)
+      ? Array.from(new Set(raw.filter((id): id is string => typeof id === 'string' && id.length > 0)))
+      : [];
+    if (ids.length > 0) return ids;
+    return BUILT_IN_METADATA_PROFILES.some(profile => profile.id === legacySource) ? [legacySource as string] : [];
+  }
+
+  getBuiltInProfile(id: string): MetadataProfileTags | undefined {
+    return BUILT_IN_METADATA_PROFILES.find(profile => profile.id === id);
+  }
+
+  /**
+   * Stored profile row to the tags it writes
+   */
+  toTags(record: any): MetadataProfileTags {
+    return {
+      id: record.id,
+      name: record.name,
+      encoder: record.encoder || undefined,
+      software: record.software || undefined,
+      comment: record.comment || undefined,
+      handlerName: record.handlerName || undefined,
+      creationTime: this.parseCreationTime(record.creationTime),
+      creationWindow: this.parseCreationWindow(record.creationWindow)
+    };
+  }
+
+  /**
+   * Creation time picked when the variant is planned. Undefined for 'now', which is stamped at render time.
+   */
+  pickCreationTime(profile: MetadataProfileTags, random: RandomFn, sourceTime?: unknown): string | undefined {
+    if (profile.creationTime === 'random') {
+      const offset = Math.floor(random() * profile.creationWindow * DAY_SECONDS);
+      return new Date(Date.now() - offset * 1000).toISOString();
+    }
+    if (profile.creationTime === 'source') {
+      const source = sourceTime ? new Date(sourceTime as string) : undefined;
+      return source && !isNaN(source.getTime()) ? source.toISOString() : undefined;
+    }
+    return undefined;
+  }
+
+  /**
+   * FFmpeg output arguments. Values are passed as separate arguments, so they are not quoted.
+   */
+  buildArgs(profile: MetadataProfileTags, creationTime?: string): string[] {
+    const args: string[] = [];
+    const container: Array<[string, string | undefined]> = [
+      ['encoder', profile.encoder],
+      ['software', profile.software],
+      ['comment', profile.comment],
+      ['creation_time', creationTime || new Date().toISOString()]
+    ];
+
+    for (const [key, value] of container) {
+      if (value) args.push('-metadata', `${key}=${value}`);
+    }
+    if (profile.handlerName) {
+      args.push('-metadata:s:v', `handler_name=${profile.handlerName}`);
+      args.push('-metadata:s:a', `handler_name=${profile.handlerName}`);
+    }
+    return args;
+  }
+
+  private parseTag(raw: unknown): string | undefined {
+    if (typeof raw !== 'string') return undefined;
+    const value = raw.replace(/[\u0000-\u001f\u007f]/g, ' ').trim().slice(0, MAX_TAG_LENGTH);
+    return value || undefined;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,150 @@
+import { RandomFn } from '@/utils/seeded-random';
+import { VideoClip } from './auto-mixing.service';
+
+export interface VariationRange {
+  min: number;
+  max: number;
+}
+
+// Opt-in variations, each picked per output within its bounds. Unset ranges are off.
+export interface MicroVariationSettings {
+  zoom?: VariationRange;        // Percent the picture is zoomed in and cropped back to the frame
+  mirror?: boolean;             // Flip clips marked as mirrorable, each with even odds per output
+  hue?: VariationRange;         // Degrees, in either direction
+  grain?: VariationRange;       // Film grain (noise) strength
+  pitch?: VariationRange;       // Percent, in either direction, tempo unchanged
+  startOffset?: VariationRange; // Frames skipped at the start of each clip
+}
+
+// What one output was rendered with - recorded in its settings JSON
+export interface MicroVariation {
+  zoom: number;
+  mirrored: string[];                   // Clip IDs flipped in this output
+  hue: number;
+  grain: number;
+  pitch: number;
+  startOffsets: Record<string, number>; // Clip ID -> frames skipped
+}
+
+// Upper bounds - beyond these a variation stops being subtle
+export const MICRO_VARIATION_LIMITS = {
+  zoom: 3,
+  hue: 5,
+  grain: 10,
+  pitch: 3,
+  startOffset: 15
+};
+
+type RangeKey = keyof typeof MICRO_VARIATION_LIMITS;
+
+// Offsets never take more than this share of a clip
+const MAX_OFFSET_SHARE = 0.1;
+
+/**
+ * Subtle per-output differences for platform de-duplication - a slight zoom, mirrored clips,
+ * a hue shift, grain, a pitch shift and frame offsets at clip starts
+ */
+export class MicroVariationService {
+  /**
+   * Normalize micro-variation settings from a request. Returns undefined when nothing is enabled.
+   */
+  parseSettings(raw: any): MicroVariationSettings | undefined {
+    if (!raw || typeof raw !== 'object') return undefined;
+
+    const settings: MicroVariationSettings = {};
+    (Object.keys(MICRO_VARIATION_LIMITS) as RangeKey[]).forEach(key => {
+      const range = this.parseRange(raw[key], MICRO_VARIATION_LIMITS[key]);
+      if (range) settings[key] = range;
+    });
+    if (raw.mirror === true) settings.mirror = true;
+
+    return Object.keys(settings).length > 0 ? settings : undefined;
+  }
+
+  /**
+   * Pick one output's variation. Stills keep their first frame, so they get no start offset.
+   */
+  pick(settings: MicroVariationSettings, clips: VideoClip[], random: RandomFn): MicroVariation {
+    const within = (range?: VariationRange) => range ? range.min + random() * (range.max - range.min) : 0;
+    const signed = (range?: VariationRange) => range ? within(range) * (random() < 0.5 ? -1 : 1) : 0;
+    const round = (value: number) => Math.round(value * 100) / 100;
+
+    const startOffsets: Record<string, number> = {};
+    if (settings.startOffset) {
+      clips.filter(clip => !clip.isImage).forEach(clip => {
+        const frames = Math.round(within(settings.startOffset));
+        if (frames > 0) startOffsets[clip.id] = frames;
+      });
+    }
+
+    return {
+      zoom: round(within(settings.zoom)),
+      mirrored: settings.mirror ? clips.filter(clip => clip.allowMirror && random() < 0.5).map(clip => clip.id) : [],
+      hue: round(signed(settings.hue)),
+      grain: Math.round(within(settings.grain)),
+      pitch: round(signed(settings.pitch)),
+      startOffsets
+    };
+  }
+
+  /**
+   * Clips as this output plays them - offset clips start later in their file and are shorter,
+   * so plans, trims and captions all see the same lengths
+   */
+  applyStartOffsets(clips: VideoClip[], variation: MicroVariation | undefined, fps: number): VideoClip[] {
+    if (!variation || Object.keys(variation.startOffsets).length === 0) return clips;
+
+    return clips.map(clip => {
+      const frames = variation.startOffsets[clip.id];
+      if (!frames) return clip;
+
+      const offset = Math.min(frames / fps, clip.duration * MAX_OFFSET_SHARE);
+      const start = clip.sourceRange?.start ?? 0;
+      return {
+        ...clip,
+        duration: clip.duration - offset,
+        sourceRange: { start: start + offset, end: clip.sourceRange?.end ?? start + clip.duration },
+        subtitles: clip.subtitles
+          ?.filter(cue => cue.end > offset)
+          .map(cue => ({ ...cue, start: Math.max(0, cue.start - offset), end: cue.end - offset }))
+      };
+    });
+  }
+
+  /**
+   * Zoom, hue and grain on the joined picture, at the output frame size
+   */
+  buildFrameFilters(variation: MicroVariation, width: number, height: number): string[] {
+    const filters: string[] = [];
+    if (variation.zoom > 0) {
+      const scale = 1 + variation.zoom / 100;
+      const even = (value: number) => Math.ceil(value * scale / 2) * 2;
+      filters.push(`scale=${even(width)}:${even(height)}`, `crop=${width}:${height}`);
+    }
+    if (variation.hue !== 0) {
+      filters.push(`hue=h=${variation.hue}`);
+    }
+    if (variation.grain > 0) {
+      filters.push(`noise=alls=${variation.grain}:allf=t`);
+    }
+    return filters;
+  }
+
+  /**
+   * Pitch shift that keeps the tempo - resampled up or down, then stretched back
+   */
+  buildPitchFilters(pitch: number): string[] {
+    if (pitch === 0) return [];
+    const factor = 1 + pitch / 100;
+    return [`asetrate=${Math.round(48000 * factor)}`, 'aresample=48000', `atempo=${Number((1 / factor).toFixed(6))}`];
+  }
+
+  private parseRange(raw: any, limit: number): VariationRange | undefined {
+    const min = Number(raw?.min);
+    const max = Number(raw?.max);
+    if (!Number.isFinite(max) || max <= 0) return undefined;
+
+    const upper = Math.min(limit, max);
+    return { min: Number.isFinite(min) ? Math.max(0, Math.min(upper, min)) : 0, max: upper };
+  }
+}
\ No newline at end of file
@@ -0,0 +1,149 @@
+import path from 'path';
+import fs from 'fs/promises';
+import { sanitizeFilename } from '@/utils/validation';
+import logger from '@/utils/logger';
+
+export type AudioMode = 'keep' | 'mute' | 'music' | 'music+original';
+
+export const AUDIO_MODES: AudioMode[] = ['keep', 'mute', 'music', 'music+original'];
+
+// Project music track resolved to a file on disk for rendering
+export interface MusicTrackFile {
+  id: string;
+  name: string;
+  path: string;
+  duration: number;
+}
+
+export interface MusicBedOptions {
+  volume: number;  // Music gain (0-1) before ducking
+  fade: number;    // Fade in/out length in seconds
+  ducking: boolean; // Duck the music under speech in the clips' own audio
+}
+
+export interface MusicMixOptions extends MusicBedOptions {
+  inputIndex: number;    // FFmpeg input carrying the looped track
+  duration: number;      // Final output length in seconds
+  clipAudio?: string;    // Joined clip audio label, when original audio is kept
+  output: string;
+}
+
+export const DEFAULT_MUSIC_OPTIONS: MusicBedOptions = { volume: 0.3, fade: 1.5, ducking: true };
+
+export const MUSIC_EXTENSIONS = ['.mp3', '.wav', '.m4a', '.aac', '.ogg'];
+
+const MAX_FADE = 5;
+
+// Speech sits roughly in this band - keying the compressor on it keeps
+// loud effects and low rumble in the clips from pumping the music
+const SPEECH_BAND = { low: 200, high: 3500 };
+
+/**
+ * Stores per-project music tracks and mixes them under the clips as a music bed
+ */
+export class MusicBedService {
+  private readonly musicDir = path.join(process.env.UPLOAD_PATH || 'uploads', 'music');
+
+  usesMusic(audioMode?: string): boolean {
+    return audioMode === 'music' || audioMode === 'music+original';
+  }
+
+  keepsOriginalAudio(audioMode?: string): boolean {
+    return audioMode !== 'mute' && audioMode !== 'music';
+  }
+
+  /**
+   * Normalize the audio mode; music modes fall back to keep when there is no track to play
+   */
+  parseAudioMode(raw: unknown, hasTracks: boolean): AudioMode {
+    const mode = AUDIO_MODES.includes(raw as AudioMode) ? raw as AudioMode : 'keep';
+    if (this.usesMusic(mode) && !hasTracks) {
+      logger.warn(`[Music Bed] Audio mode "${mode}" has no music tracks selected, keeping original audio`);
+      return 'keep';
+    }
+    return mode;
+  }
+
+  parseOptions(raw: any): MusicBedOptions {
+    const volume = Number(raw?.musicVolume);
+    const fade = Number(raw?.musicFade);
+    return {
+      volume: Number.isFinite(volume) ? Math.max(0, Math.min(1, volume)) : DEFAULT_MUSIC_OPTIONS.volume,
+      fade: Number.isFinite(fade) ? Math.max(0, Math.min(MAX_FADE, fade)) : DEFAULT_MUSIC_OPTIONS.fade,
+      ducking: raw?.musicDucking === undefined ? DEFAULT_MUSIC_OPTIONS.ducking : Boolean(raw.musicDucking)
+    };
+  }
+
+  /**
+   * Write an uploaded track to the music directory. The caller probes the duration and records the track.
+   */
+  async storeTrack(originalName: string, buffer: Buffer): Promise<{ name: string; filename: string; path: string }> {
+    await fs.mkdir(this.musicDir, { recursive: true });
+    const filename = `${Date.now()}_${sanitizeFilename(originalName)}`;
+    const trackPath = this.getTrackPath(filename);
+    await fs.writeFile(trackPath, buffer);
+
+    logger.info(`[Music Bed] Stored track ${filename}`);
+    return { name: path.basename(originalName, path.extname(originalName)), filename, path: trackPath };
+  }
+
+  async removeTrack(filename: string): Promise<void> {
+    await fs.unlink(this.getTrackPath(filename)).catch(() => {
+      logger.warn(`[Music Bed] Track file already missing: ${filename}`);
+    });
+  }
+
+  getTrackPath(filename: string): string {
+    return path.join(this.musicDir, filename);
+  }
+
+  /**
+   * Input arguments for a track - looped endlessly, the mix trims it to the output
+   */
+  buildInputArgs(track: MusicTrackFile): string[] {
+    return ['-stream_loop', '-1', '-i', track.path];
+  }
+
+  /**
+   * Filters that trim and fade the track to the output length, then duck it under the
+   * clip audio (sidechain keyed on the speech band) and mix the two
+   */
+  buildMixFilters(options: MusicMixOptions): string[] {
+    const { inputIndex, duration, clipAudio, output } = options;
+    const fade = Math.min(options.fade, duration / 2);
+    const filters: string[] = [];
+
+    const bed = [
+      'aresample=48000,aformat=sample_fmts=fltp:sample_rates=48000:channel_layouts=stereo',
+      `volume=${options.volume}`,
+      `atrim=duration=${duration.toFixed(3)}`
+    ];
+    if (fade > 0) {
+      bed.push(
+        `afade=t=in:st=0:d=${fade.toFixed(2)}`,
+        `afade=t=out:st=${(duration - fade).toFixed(3)}:d=${fade.toFixed(2)}`
+      );
+    }
+
+    if (!clipAudio) {
+      filters.push(`[${inputIndex}:a]${bed.join(',')}[${output}]`);
+      return filters;
+    }
+
+    filters.push(`[${inputIndex}:a]${bed.join(',')}[music]`);
+
+    let music = 'music';
+    let original = clipAudio;
+    if (options.ducking) {
+      filters.push(`[${clipAudio}]asplit=2[original][speechkey]`);
+      filters.push(`[speechkey]highpass=f=${SPEECH_BAND.low},lowpass=f=${SPEECH_BAND.high}[speech]`);
+      filters.push('[music][speech]sidechaincompress=threshold=0.02:ratio=8:attack=20:release=400[ducked]');
+      music = 'ducked';
+      original = 'original';
+    }
+
+    // The clip audio sets the length; normalize=0 keeps both at their own level
+    filters.push(`[${original}][${music}]amix=inputs=2:duration=first:dropout_transition=0:normalize=0[${output}]`);
+    return filters;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,269 @@
+import { VideoClip } from './auto-mixing.service';
+
+export type OrderingRuleType = 'before' | 'never-adjacent' | 'at-most-one-of';
+
+/**
+ * Relational rule between clips, declared per project.
+ * before: clipIds[0] must come before clipIds[1]
+ * never-adjacent: clipIds[0] and clipIds[1] never sit next to each other
+ * at-most-one-of: no output uses more than one of clipIds
+ */
+export interface OrderingRule {
+  type: OrderingRuleType;
+  clipIds: string[];
+}
+
+/**
+ * Outcome of an order search.
+ * valid: order satisfies every rule
+ * unsatisfiable: the search proved no order exists
+ * budget-exhausted: the search gave up; order is a best effort that may still break rules
+ */
+export type OrderSearchResult =
+  | { status: 'valid'; order: string[] }
+  | { status: 'unsatisfiable' }
+  | { status: 'budget-exhausted'; order: string[] };
+
+const RULE_TYPES: OrderingRuleType[] = ['before', 'never-adjacent', 'at-most-one-of'];
+
+// Backtracking budget per order - keeps repair bounded for large projects
+const MAX_SEARCH_STEPS = 20000;
+
+/**
+ * Validates and enforces clip ordering rules for the variant generator
+ */
+export class OrderingRulesService {
+  /**
+   * Normalize rules from a request body or stored JSON, dropping malformed entries
+   */
+  parseRules(raw: unknown): OrderingRule[] {
+    let value = raw;
+    if (typeof value === 'string') {
+      try {
+        value = JSON.parse(value);
+      } catch {
+        return [];
+      }
+    }
+
+    if (!Array.isArray(value)) return [];
+
+    return value
+      .filter((rule: any) => rule && RULE_TYPES.includes(rule.type) && Array.isArray(rule.clipIds))
+      .map((rule: any) => ({
+        type: rule.type as OrderingRuleType,
+        clipIds: rule.clipIds.filter((id: unknown) => typeof id === 'string' && id.length > 0)
+      }));
+  }
+
+  /**
+   * Check rules are well formed for the given clips. Returns the first problem or null.
+   */
+  validateStructure(rules: OrderingRule[], clips: VideoClip[]): string | null {
+    const clipIds = new Set(clips.map(c => c.id));
+
+    for (let i = 0; i < rules.length; i++) {
+      const rule = rules[i];
+      const label = `Rule ${i + 1} (${rule.type})`;
+
+      if (rule.clipIds.some(id => !clipIds.has(id))) {
+        return `${label} references a clip that is not in this project`;
+      }
+
+      if (new Set(rule.clipIds).size !== rule.clipIds.length) {
+        return `${label} uses the same clip more than once`;
+      }
+
+      if (rule.type === 'at-most-one-of') {
+        if (rule.clipIds.length < 2) {
+          return `${label} needs at least 2 clips`;
+        }
+      } else if (rule.clipIds.length !== 2) {
+        return `${label} needs exactly 2 clips`;
+      }
+    }
+
+    const cycle = this.findBeforeCycle(rules);
+    if (cycle) {
+      const names = cycle.map(id => this.getClipName(id, clips));
+      return `"Before" rules form a loop: ${names.join(' → ')}`;
+    }
+
+    return null;
+  }
+
+  /**
+   * True when an order breaks none of the rules
+   */
+  isSatisfied(order: string[], rules: OrderingRule[]): boolean {
+    const positions = new Map(order.map((id, index) => [id, index]));
+
+    return rules.every(rule => {
+      if (rule.type === 'at-most-one-of') {
+        return rule.clipIds.filter(id => positions.has(id)).length <= 1;
+      }
+
+      const [a, b] = rule.clipIds;
+      if (!positions.has(a) || !positions.has(b)) return true;
+
+      if (rule.type === 'before') {
+        return positions.get(a)! < positions.get(b)!;
+      }
+      return Math.abs(positions.get(a)! - positions.get(b)!) !== 1;
+    });
+  }
+
+  /**
+   * Drop clips so every at-most-one-of set keeps a single member.
+   * The kept member rotates with variantIndex so each option is used across the batch.
+   */
+  selectClips(order: string[], rules: OrderingRule[], variantIndex: number): string[] {
+    let selected = order;
+
+    rules
+      .filter(rule => rule.type === 'at-most-one-of')
+      .forEach(rule => {
+        const present = rule.clipIds.filter(id => selected.includes(id));
+        if (present.length <= 1) return;
+
+        const keep = present[variantIndex % present.length];
+        selected = selected.filter(id => id === keep || !present.includes(id));
+      });
+
+    return selected;
+  }
+
+  /**
+   * Find the order closest to the given one that satisfies the rules.
+   * Clips in fixedIds (pins) keep their slot; free clips are tried in their original order first.
+   * When the search budget runs out, the deepest valid prefix found is completed with the
+   * remaining clips in their original order and returned as a best effort.
+   */
+  findValidOrder(order: string[], rules: OrderingRule[], fixedIds: Set<string> = new Set()): OrderSearchResult {
+    if (this.isSatisfied(order, rules)) return { status: 'valid', order };
+
+    const fixed = order.map(id => fixedIds.has(id));
+    const slots: (string | null)[] = order.map((id, index) => (fixed[index] ? id : null));
+    const free = order.filter(id => !fixedIds.has(id));
+    const members = new Set(order);
+    const used = new Set<string>();
+    let bestPrefix: (string | null)[] = [];
+    let steps = 0;
+    let exhausted = false;
+
+    const place = (position: number): boolean => {
+      if (position === order.length) return this.isSatisfied(slots as string[], rules);
+      if (steps++ > MAX_SEARCH_STEPS) {
+        exhausted = true;
+        return false;
+      }
+      if (position > bestPrefix.length) bestPrefix = slots.slice(0, position);
+
+      if (fixed[position]) {
+        return this.isPrefixValid(slots, position, rules, members) && place(position + 1);
+      }
+
+      for (const candidate of free) {
+        if (used.has(candidate)) continue;
+
+        slots[position] = candidate;
+        used.add(candidate);
+        if (this.isPrefixValid(slots, position, rules, members) && place(position + 1)) {
+          return true;
+        }
+        used.delete(candidate);
+        slots[position] = null;
+        if (exhausted) return false;
+      }
+
+      return false;
+    };
+
+    if (place(0)) return { status: 'valid', order: slots as string[] };
+    if (!exhausted) return { status: 'unsatisfiable' };
+
+    return { status: 'budget-exhausted', order: this.completePrefix(bestPrefix, order, fixed) };
+  }
+
+  /**
+   * Fill the slots after a partial order: pinned clips keep their slot, free clips follow in original order
+   */
+  private completePrefix(prefix: (string | null)[], order: string[], fixed: boolean[]): string[] {
+    const placed = new Set(prefix);
+    const rest = order.filter((id, index) => !fixed[index] && !placed.has(id));
+
+    return order.map((id, index) => {
+      if (index < prefix.length) return prefix[index] as string;
+      return fixed[index] ? id : rest.shift()!;
+    });
+  }
+
+  /**
+   * Check the rules that can already be decided once slots 0..position are filled
+   */
+  private isPrefixValid(slots: (string | null)[], position: number, rules: OrderingRule[], members: Set<string>): boolean {
+    const prefix = slots.slice(0, position + 1);
+    const current = prefix[position];
+    const previous = position > 0 ? prefix[position - 1] : null;
+
+    return rules.every(rule => {
+      const [a, b] = rule.clipIds;
+
+      if (rule.type === 'never-adjacent') {
+        return !((previous === a && current === b) || (previous === b && current === a));
+      }
+
+      if (rule.type === 'before') {
+        // b is placed while a is still to come
+        return !(current === b && members.has(a) && !prefix.includes(a));
+      }
+
+      return true;
+    });
+  }
+
+  /**
+   * Detect a cycle in the "before" graph (A before B, B before A, ...)
+   */
+  private findBeforeCycle(rules: OrderingRule[]): string[] | null {
+    const edges = new Map<string, string[]>();
+    rules
+      .filter(rule => rule.type === 'before' && rule.clipIds.length === 2)
+      .forEach(rule => {
+        const [a, b] = rule.clipIds;
+        edges.set(a, [...(edges.get(a) || []), b]);
+      });
+
+    const visiting = new Set<string>();
+    const done = new Set<string>();
+    const path: string[] = [];
+
+    const visit = (node: string): string[] | null => {
+      if (visiting.has(node)) {
+        return [...path.slice(path.indexOf(node)), node];
+      }
+      if (done.has(node)) return null;
+
+      visiting.add(node);
+      path.push(node);
+      for (const next of edges.get(node) || []) {
+        const cycle = visit(next);
+        if (cycle) return cycle;
+      }
+      path.pop();
+      visiting.delete(node);
+      done.add(node);
+      return null;
+    };
+
+    for (const node of edges.keys()) {
+      const cycle = visit(node);
+      if (cycle) return cycle;
+    }
+    return null;
+  }
+
+  private getClipName(id: string, clips: VideoClip[]): string {
+    return clips.find(c => c.id === id)?.originalName || id;
+  }
+}
\ No newline at end of file
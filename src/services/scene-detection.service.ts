@@ -0,0 +1,176 @@
+import ffmpeg from 'fluent-ffmpeg';
+import logger from '@/utils/logger';
+
+export type SplitMode = 'virtual' | 'physical';
+
+export interface SceneDetectionOptions {
+  threshold: number;     // 0-1 scene change score a frame must exceed to start a new scene
+  minClipLength: number; // Seconds; shorter scenes are merged into their neighbour
+}
+
+// One proposed or confirmed clip, in seconds of the source
+export interface SceneSegment {
+  start: number;
+  end: number;
+}
+
+export const DEFAULT_SCENE_DETECTION: SceneDetectionOptions = {
+  threshold: 0.3,
+  minClipLength: 2
+};
+
+const MIN_THRESHOLD = 0.05;
+const MAX_THRESHOLD = 0.9;
+const MIN_CLIP_LENGTH = 0.5;
+const MAX_CLIP_LENGTH = 60;
+const MAX_SEGMENTS = 200;
+
+// Scene scores barely change with resolution, so frames are shrunk before scoring to keep long uploads fast
+const ANALYSIS_WIDTH = 320;
+const DETECT_TIMEOUT_SECONDS = 15 * 60;
+const CUT_TIMEOUT_SECONDS = 10 * 60;
+
+/**
+ * Scene detection on long uploads - finds hard cuts with FFmpeg's scene score and
+ * turns them into clip ranges, either used in place or cut into their own files
+ */
+export class SceneDetectionService {
+  /**
+   * Normalize detection options from a request. Missing or invalid fields get the defaults.
+   */
+  parseOptions(raw: any): SceneDetectionOptions {
+    const threshold = Number(raw?.threshold);
+    const minClipLength = Number(raw?.minClipLength);
+    return {
+      threshold: Number.isFinite(threshold) && threshold > 0
+        ? Math.max(MIN_THRESHOLD, Math.min(MAX_THRESHOLD, threshold))
+        : DEFAULT_SCENE_DETECTION.threshold,
+      minClipLength: Number.isFinite(minClipLength) && minClipLength > 0
+        ? Math.max(MIN_CLIP_LENGTH, Math.min(MAX_CLIP_LENGTH, minClipLength))
+        : DEFAULT_SCENE_DETECTION.minClipLength
+    };
+  }
+
+  parseMode(raw: unknown): SplitMode {
+    return raw === 'physical' ? 'physical' : 'virtual';
+  }
+
+  /**
+   * Run scene detection on a file and propose clip ranges covering all of it
+   */
+  async detectScenes(videoPath: string, duration: number, options: SceneDetectionOptions): Promise<SceneSegment[]> {
+    const stderr = await new Promise<string>((resolve, reject) => {
+      ffmpeg(videoPath, { timeout: DETECT_TIMEOUT_SECONDS })
+        .noAudio()
+        .videoFilters(this.buildDetectFilter(options.threshold))
+        .format('null')
+        .output('-')
+        .on('end', (_stdout: string | null, stderrOutput: string | null) => resolve(stderrOutput || ''))
+        .on('error', (err: Error) => {
+          logger.error(`[Scene Detection] Failed on ${videoPath}:`, err);
+          reject(new Error('Failed to detect scenes'));
+        })
+        .run();
+    });
+
+    const cuts = this.parseSceneTimes(stderr);
+    logger.info(`[Scene Detection] ${cuts.length} cuts above ${options.threshold} in ${videoPath}`);
+    return this.proposeSegments(cuts, duration, options.minClipLength);
+  }
+
+  /**
+   * Re-encode one range of a file into its own clip. Stream copy would snap to keyframes.
+   */
+  async cutSegment(videoPath: string, outputPath: string, segment: SceneSegment): Promise<void> {
+    return new Promise((resolve, reject) => {
+      ffmpeg(videoPath, { timeout: CUT_TIMEOUT_SECONDS })
+        .seekInput(segment.start)
+        .duration(segment.end - segment.start)
+        .outputOptions([
+          '-map', '0:v:0', '-map', '0:a?',
+          '-c:v', 'libx264', '-preset', 'veryfast', '-crf', '18', '-pix_fmt', 'yuv420p',
+          '-c:a', 'aac', '-b:a', '192k',
+          '-movflags', '+faststart'
+        ])
+        .on('end', () => resolve())
+        .on('error', (err: Error) => {
+          logger.error(`[Scene Detection] Failed to cut ${segment.start}-${segment.end}s of ${videoPath}:`, err);
+          reject(new Error('Failed to cut clip'));
+        })
+        .save(outputPath);
+    });
+  }
+
+  buildDetectFilter(threshold: number): string {
+    return `scale=${ANALYSIS_WIDTH}:-2,select='gt(scene,${threshold})',showinfo`;
+  }
+
+  /**
+   * Timestamps of the frames showinfo reported, i.e. the frames that start a new scene
+   */
+  parseSceneTimes(stderr: string): number[] {
+    const times = Array.from(stderr.matchAll(/\bpts_time:\s*(\d+(?:\.\d+)?)/g), match => Number(match[1]));
+    return Array.from(new Set(times)).sort((a, b) => a - b);
+  }
+
+  /**
+   * Split points become back-to-back ranges from 0 to the duration. A cut that would leave a
+   * scene shorter than the minimum is dropped, merging that scene into the one after it; a
+   * short last scene is merged into the one before.
+   */
+  proposeSegments(cuts: number[], duration: number, minClipLength: number): SceneSegment[] {
+    if (!(duration > 0)) return [];
+
+    const boundaries = [0];
+    for (const cut of [...cuts].sort((a, b) => a - b)) {
+      if (cut - boundaries[boundaries.length - 1] >= minClipLength && cut < duration) {
+        boundaries.push(cut);
+      }
+    }
+    if (boundaries.length > 1 && duration - boundaries[boundaries.length - 1] < minClipLength) {
+      boundaries.pop();
+    }
+    boundaries.push(duration);
+
+    return boundaries.slice(0, -1).map((start, i) => ({
+      start: this.round(start),
+      end: this.round(boundaries[i + 1])
+    }));
+  }
+
+  /**
+   * Check segments confirmed by the user - edited proposals may be dropped but must stay
+   * inside the source, in order and without overlaps. Throws with a user-facing message.
+   */
+  validateSegments(raw: unknown, duration: number): SceneSegment[] {
+    if (!Array.isArray(raw) || raw.length === 0) {
+      throw new Error('At least one segment is required');
+    }
+    if (raw.length > MAX_SEGMENTS) {
+      throw new Error(`At most ${MAX_SEGMENTS} segments can be created at once`);
+    }
+
+    const segments = raw.map((segment: any) => ({
+      start: this.round(Number(segment?.start)),
+      end: this.round(Math.min(Number(segment?.end), duration))
+    }));
+
+    segments.forEach((segment, i) => {
+      if (!Number.isFinite(segment.start) || !Number.isFinite(segment.end) || segment.start < 0) {
+        throw new Error(`Segment ${i + 1} has an invalid start or end`);
+      }
+      if (segment.end - segment.start < MIN_CLIP_LENGTH) {
+        throw new Error(`Segment ${i + 1} is shorter than ${MIN_CLIP_LENGTH}s`);
+      }
+      if (i > 0 && segment.start < segments[i - 1].end) {
+        throw new Error(`Segment ${i + 1} overlaps the one before it`);
+      }
+    });
+
+    return segments;
+  }
+
+  private round(seconds: number): number {
+    return Math.round(seconds * 1000) / 1000;
+  }
+}
\ No newline at end of file
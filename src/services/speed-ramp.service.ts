@@ -0,0 +1,194 @@
+export type SpeedRampCurve = 'ease-in-out' | 'slow-mo' | 'ramp-out';
+export const SPEED_RAMP_CURVES: SpeedRampCurve[] = ['ease-in-out', 'slow-mo', 'ramp-out'];
+
+// mute silences ramped clips, segments change tempo with every step of the curve,
+// stretch spreads the audio evenly over the clip's new length
+export type SpeedRampAudio = 'mute' | 'segments' | 'stretch';
+export const SPEED_RAMP_AUDIO: SpeedRampAudio[] = ['mute', 'segments', 'stretch'];
+
+export interface SpeedRampSettings {
+  curves: SpeedRampCurve[]; // Rotated across outputs
+  clipsPerOutput: number;   // Clips ramped in each output, picked at random
+  peakSpeed: number;        // Fastest point of the speed-up curves
+  slowSpeed: number;        // Slowest point of the slow-mo curve
+  slowMoAt: number;         // 0-1, moment of the clip the slow-mo centres on
+  audio: SpeedRampAudio;
+}
+
+// One constant-speed step of a ramp, in seconds of the trimmed source
+export interface RampSegment {
+  start: number;
+  end: number;
+  speed: number;
+}
+
+export interface RampAudioOptions {
+  source: string;     // Clip audio chain without an output label, e.g. "[0:a]aresample=48000"
+  prefix: string;     // Unique label prefix for the intermediate streams
+  output: string;
+  tail?: string[];    // Filters applied after the ramp, e.g. transition padding
+}
+
+export const DEFAULT_SPEED_RAMPS: Omit<SpeedRampSettings, 'curves'> = {
+  clipsPerOutput: 1,
+  peakSpeed: 2,
+  slowSpeed: 0.5,
+  slowMoAt: 0.5,
+  audio: 'segments'
+};
+
+// Curves are rendered as constant-speed steps - enough for the eye, few enough for per-step atempo
+const RAMP_STEPS = 8;
+const MAX_CLIPS_PER_OUTPUT = 5;
+const SLOW_MO_WIDTH = 0.2; // Share of the clip the slow-mo dip spans on either side of its centre
+
+/**
+ * Speed ramps - clips whose speed follows a curve instead of a constant multiplier,
+ * with video retimed by a piecewise setpts and audio muted, stepped or stretched
+ */
+export class SpeedRampService {
+  /**
+   * Normalize ramp settings from a request. Returns undefined when no curve is selected.
+   */
+  parseSettings(raw: any): SpeedRampSettings | undefined {
+    const requested: unknown[] = Array.isArray(raw?.curves) ? raw.curves : [];
+    const curves = SPEED_RAMP_CURVES.filter(curve => requested.includes(curve));
+    if (curves.length === 0) return undefined;
+
+    const clipsPerOutput = Math.round(Number(raw.clipsPerOutput));
+    const peakSpeed = Number(raw.peakSpeed);
+    const slowSpeed = Number(raw.slowSpeed);
+    const slowMoAt = Number(raw.slowMoAt);
+    return {
+      curves,
+      clipsPerOutput: clipsPerOutput > 0 ? Math.min(MAX_CLIPS_PER_OUTPUT, clipsPerOutput) : DEFAULT_SPEED_RAMPS.clipsPerOutput,
+      peakSpeed: Number.isFinite(peakSpeed) && peakSpeed > 1 ? Math.min(4, peakSpeed) : DEFAULT_SPEED_RAMPS.peakSpeed,
+      slowSpeed: Number.isFinite(slowSpeed) && slowSpeed > 0 && slowSpeed < 1 ? Math.max(0.25, slowSpeed) : DEFAULT_SPEED_RAMPS.slowSpeed,
+      slowMoAt: Number.isFinite(slowMoAt) ? Math.max(0, Math.min(1, slowMoAt)) : DEFAULT_SPEED_RAMPS.slowMoAt,
+      audio: SPEED_RAMP_AUDIO.includes(raw.audio) ? raw.audio : DEFAULT_SPEED_RAMPS.audio
+    };
+  }
+
+  /**
+   * Speed multiplier of a curve at a position (0-1) of the clip
+   */
+  getFactor(curve: SpeedRampCurve, settings: SpeedRampSettings, position: number): number {
+    switch (curve) {
+      case 'ease-in-out':
+        // Eases up to the peak mid-clip and back to normal speed for the cuts
+        return 1 + (settings.peakSpeed - 1) * Math.pow(Math.sin(Math.PI * position), 2);
+      case 'slow-mo': {
+        const distance = (position - settings.slowMoAt) / SLOW_MO_WIDTH;
+        return 1 - (1 - settings.slowSpeed) * Math.exp(-distance * distance);
+      }
+      case 'ramp-out':
+        return 1 + (settings.peakSpeed - 1) * position * position;
+    }
+  }
+
+  /**
+   * Source length divided by output length for a ramped clip at normal base speed.
+   * Steps split the source evenly, so this does not depend on the clip's length.
+   */
+  getAverageFactor(curve: SpeedRampCurve, settings: SpeedRampSettings): number {
+    const factors = this.getStepFactors(curve, settings);
+    return factors.length / factors.reduce((total, factor) => total + 1 / factor, 0);
+  }
+
+  /**
+   * Constant-speed steps covering a trimmed source of the given length, on top of the clip's own speed
+   */
+  buildSegments(curve: SpeedRampCurve, settings: SpeedRampSettings, sourceLength: number, baseSpeed: number): RampSegment[] {
+    const step = sourceLength / RAMP_STEPS;
+    return this.getStepFactors(curve, settings).map((factor, i) => ({
+      start: i * step,
+      end: (i + 1) * step,
+      speed: baseSpeed * factor
+    }));
+  }
+
+  getOutputLength(segments: RampSegment[]): number {
+    return segments.reduce((total, segment) => total + (segment.end - segment.start) / segment.speed, 0);
+  }
+
+  /**
+   * Video retiming - output time is piecewise linear in source time, one slope per step
+   */
+  buildVideoFilters(segments: RampSegment[]): string[] {
+    let elapsed = 0;
+    const pieces = segments.map(segment => {
+      const piece = `${this.format(elapsed)}+(T-${this.format(segment.start)})/${this.format(segment.speed)}`;
+      elapsed += (segment.end - segment.start) / segment.speed;
+      return piece;
+    });
+
+    let expression = pieces[pieces.length - 1];
+    for (let i = segments.length - 2; i >= 0; i--) {
+      expression = `if(lt(T,${this.format(segments[i].end)}),${pieces[i]},${expression})`;
+    }
+    return ['setpts=PTS-STARTPTS', `setpts='(${expression})/TB'`];
+  }
+
+  /**
+   * Audio for a ramped clip, always exactly as long as its video
+   */
+  buildAudioFilters(segments: RampSegment[], mode: SpeedRampAudio, options: RampAudioOptions): string[] {
+    const { source, prefix, output } = options;
+    const length = this.format(this.getOutputLength(segments));
+    const tail = [...(options.tail || [])];
+    const end = (filters: string[]) => [...filters, 'apad', `atrim=end=${length}`, ...tail].join(',');
+
+    if (mode === 'mute') {
+      return [`anullsrc=channel_layout=stereo:sample_rate=48000,atrim=duration=${length}${tail.length ? `,${tail.join(',')}` : ''}[${output}]`];
+    }
+
+    if (mode === 'stretch') {
+      const sourceLength = segments[segments.length - 1].end - segments[0].start;
+      const average = sourceLength / this.getOutputLength(segments);
+      return [`${source},${end(this.buildTempoFilters(average))}[${output}]`];
+    }
+
+    const parts = segments.map((_, i) => `${prefix}p${i}`);
+    const steps = segments.map((_, i) => `${prefix}s${i}`);
+    return [
+      `${source},asetpts=PTS-STARTPTS,asplit=${segments.length}${parts.map(label => `[${label}]`).join('')}`,
+      ...segments.map((segment, i) => `[${parts[i]}]${[
+        `atrim=start=${this.format(segment.start)}:end=${this.format(segment.end)}`,
+        'asetpts=PTS-STARTPTS',
+        ...this.buildTempoFilters(segment.speed)
+      ].join(',')}[${steps[i]}]`),
+      `${steps.map(label => `[${label}]`).join('')}concat=n=${segments.length}:v=0:a=1,${end([])}[${output}]`
+    ];
+  }
+
+  /**
+   * Pitch-preserving tempo change - atempo accepts 0.5-2.0, so larger changes are chained
+   */
+  buildTempoFilters(speed: number): string[] {
+    const filters: string[] = [];
+    let remaining = speed;
+
+    while (remaining < 0.5 || remaining > 2.0) {
+      if (remaining < 0.5) {
+        filters.push('atempo=0.5');
+        remaining /= 0.5;
+      } else {
+        filters.push('atempo=2.0');
+        remaining /= 2.0;
+      }
+    }
+
+    if (remaining !== 1) {
+      filters.push(`atempo=${remaining}`);
+    }
+    return filters;
+  }
+
+  private getStepFactors(curve: SpeedRampCurve, settings: SpeedRampSettings): number[] {
+    return Array.from({ length: RAMP_STEPS }, (_, i) => this.getFactor(curve, settings, (i + 0.5) / RAMP_STEPS));
+  }
+
+  private format(value: number): string {
+    return Number(value.toFixed(4)).toString();
+  }
+}
\ No newline at end of file
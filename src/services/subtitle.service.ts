@@ -0,0 +1,180 @@
+import path from 'path';
+import fs from 'fs/promises';
+import { sanitizeFilename } from '@/utils/validation';
+import logger from '@/utils/logger';
+
+export type SubtitleMode = 'off' | 'burn' | 'soft';
+export type SubtitleStyle = 'classic' | 'boxed' | 'bold';
+
+export const SUBTITLE_EXTENSIONS = ['.srt', '.vtt'];
+
+export interface SubtitleCue {
+  start: number; // Seconds
+  end: number;
+  text: string;
+}
+
+// Where one clip lands in an output - trim points are source seconds
+export interface SubtitleSegment {
+  cues: SubtitleCue[];
+  trimStart: number;
+  trimEnd: number;
+  speed: number;
+  outputStart: number; // The clip owns the captions from here...
+  outputEnd: number;   // ...until the next clip starts
+}
+
+// libass force_style presets for burned-in captions
+const STYLE_PRESETS: Record<SubtitleStyle, string> = {
+  classic: 'FontName=Arial,FontSize=18,PrimaryColour=&H00FFFFFF,OutlineColour=&H00000000,BorderStyle=1,Outline=2,Shadow=0,MarginV=30',
+  boxed: 'FontName=Arial,FontSize=18,PrimaryColour=&H00FFFFFF,BackColour=&H80000000,BorderStyle=3,Outline=1,Shadow=0,MarginV=30',
+  bold: 'FontName=Arial,FontSize=24,Bold=1,PrimaryColour=&H0000FFFF,OutlineColour=&H00000000,BorderStyle=1,Outline=3,Shadow=1,MarginV=60'
+};
+
+const MAX_CUES = 5000;
+const MIN_CUE_LENGTH = 0.05; // Cues cut shorter than this by a trim are dropped
+
+const TIMESTAMP = /(?:(\d+):)?(\d{1,2}):(\d{2})[,.](\d{1,3})/;
+
+/**
+ * Per-clip SRT/VTT captions - stored normalized to SRT, retimed to each output's trims,
+ * speeds and cuts, then burned in or muxed as a mov_text track
+ */
+export class SubtitleService {
+  private readonly subtitleDir = path.join(process.env.UPLOAD_PATH || 'uploads', 'subtitles');
+
+  parseMode(raw: unknown): SubtitleMode {
+    return raw === 'burn' || raw === 'soft' ? raw : 'off';
+  }
+
+  parseStyle(raw: unknown): SubtitleStyle {
+    return typeof raw === 'string' && raw in STYLE_PRESETS ? raw as SubtitleStyle : 'classic';
+  }
+
+  /**
+   * Parse SRT or WebVTT into cues. Throws a user-facing error when nothing usable is found.
+   */
+  parse(content: string): SubtitleCue[] {
+    const cues: SubtitleCue[] = [];
+    const blocks = content.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n').split(/\n{2,}/);
+
+    for (const block of blocks) {
+      const lines = block.split('\n').filter(line => line.trim());
+      const timingIndex = lines.findIndex(line => line.includes('-->'));
+      if (timingIndex === -1) continue; // WEBVTT header, NOTE and STYLE blocks, stray numbering
+
+      const [from, to] = lines[timingIndex].split('-->');
+      const start = this.parseTimestamp(from);
+      const end = this.parseTimestamp(to);
+      if (start === null || end === null || end <= start) {
+        throw new Error(`Invalid subtitle timing: "${lines[timingIndex].trim().substring(0, 40)}"`);
+      }
+
+      // VTT voice/styling tags and SRT font tags don't survive retiming to mov_text
+      const text = lines.slice(timingIndex + 1).map(line => line.replace(/<[^>]+>/g, '').trim()).join('\n').trim();
+      if (text) {
+        cues.push({ start, end, text });
+      }
+    }
+
+    if (cues.length === 0) {
+      throw new Error('No subtitle cues found - upload an SRT or WebVTT file');
+    }
+    if (cues.length > MAX_CUES) {
+      throw new Error(`Subtitle file has ${cues.length} cues, the limit is ${MAX_CUES}`);
+    }
+    return cues.sort((a, b) => a.start - b.start);
+  }
+
+  /**
+   * Map each clip's cues into output time, keeping only what survives the trim.
+   * Captions switch to the next clip where it starts, so transitions never stack two cues.
+   */
+  retime(segments: SubtitleSegment[], outputDuration: number): SubtitleCue[] {
+    const round = (value: number) => Math.round(value * 1000) / 1000;
+    const retimed: SubtitleCue[] = [];
+
+    for (const segment of segments) {
+      const windowEnd = Math.min(segment.outputEnd, outputDuration);
+      for (const cue of segment.cues) {
+        if (cue.end <= segment.trimStart || cue.start >= segment.trimEnd) continue;
+
+        const start = Math.max(segment.outputStart, segment.outputStart + (cue.start - segment.trimStart) / segment.speed);
+        const end = Math.min(windowEnd, segment.outputStart + (Math.min(cue.end, segment.trimEnd) - segment.trimStart) / segment.speed);
+        if (end - start >= MIN_CUE_LENGTH) {
+          retimed.push({ start: round(start), end: round(end), text: cue.text });
+        }
+      }
+    }
+
+    return retimed;
+  }
+
+  toSrt(cues: SubtitleCue[]): string {
+    return cues
+      .map((cue, index) => `${index + 1}\n${this.formatTimestamp(cue.start)} --> ${this.formatTimestamp(cue.end)}\n${cue.text}\n`)
+      .join('\n');
+  }
+
+  /**
+   * Validate an uploaded caption file and store it as SRT. The caller links it to the clip.
+   */
+  async storeSubtitle(originalName: string, buffer: Buffer): Promise<{ filename: string; cueCount: number }> {
+    const cues = this.parse(buffer.toString('utf8'));
+
+    await fs.mkdir(this.subtitleDir, { recursive: true });
+    const filename = `${Date.now()}_${sanitizeFilename(path.basename(originalName, path.extname(originalName)))}.srt`;
+    await fs.writeFile(this.getSubtitlePath(filename), this.toSrt(cues), 'utf8');
+
+    logger.info(`[Subtitles] Stored ${filename} (${cues.length} cues)`);
+    return { filename, cueCount: cues.length };
+  }
+
+  async loadCues(filename: string): Promise<SubtitleCue[]> {
+    try {
+      return this.parse(await fs.readFile(this.getSubtitlePath(filename), 'utf8'));
+    } catch (error) {
+      logger.warn(`[Subtitles] Could not load ${filename}: ${error instanceof Error ? error.message : error}`);
+      return [];
+    }
+  }
+
+  async removeSubtitle(filename: string): Promise<void> {
+    await fs.unlink(this.getSubtitlePath(filename)).catch(() => {
+      logger.warn(`[Subtitles] Subtitle file already missing: ${filename}`);
+    });
+  }
+
+  getSubtitlePath(filename: string): string {
+    return path.join(this.subtitleDir, filename);
+  }
+
+  /**
+   * Retimed captions are written next to each output and exported with it
+   */
+  getSidecarPath(outputPath: string): string {
+    return outputPath.replace(/\.[^./\\]+$/, '') + '.srt';
+  }
+
+  /**
+   * subtitles filter that burns a sidecar SRT in with a style preset
+   */
+  buildBurnFilter(srtPath: string, style: SubtitleStyle): string {
+    // Same path escaping as lut3d - forward slashes and an escaped drive colon
+    const file = srtPath.replace(/\\/g, '/').replace(/:/g, '\\:');
+    return `subtitles=filename='${file}':force_style='${STYLE_PRESETS[style]}'`;
+  }
+
+  private parseTimestamp(raw: string): number | null {
+    const match = raw.trim().match(TIMESTAMP);
+    if (!match) return null;
+    const [, hours, minutes, seconds, fraction] = match;
+    return Number(hours || 0) * 3600 + Number(minutes) * 60 + Number(seconds) + Number(fraction.padEnd(3, '0')) / 1000;
+  }
+
+  private formatTimestamp(seconds: number): string {
+    const totalMs = Math.max(0, Math.round(seconds * 1000));
+    const pad = (value: number, length: number = 2) => String(value).padStart(length, '0');
+    return `${pad(Math.floor(totalMs / 3600000))}:${pad(Math.floor(totalMs / 60000) % 60)}:${pad(Math.floor(totalMs / 1000) % 60)},${pad(totalMs % 1000, 3)}`;
+  }
+}
\ No newline at end of file
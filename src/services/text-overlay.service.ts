@@ -0,0 +1,151 @@
+import { RandomFn } from '@/utils/seeded-random';
+
+export type HeadlineAssignment = 'round-robin' | 'balanced';
+export type TextBoxStyle = 'none' | 'box' | 'outline';
+export type TextPosition = 'top' | 'center' | 'bottom';
+
+export interface TextOverlayStyle {
+  font?: string;       // Font family (fontconfig name); FFmpeg's default font when unset
+  fontSize: number;    // Pixels at 1080p output height, scaled to the real output
+  color: string;       // FFmpeg color - name or 0xRRGGBB
+  boxStyle: TextBoxStyle;
+  position: TextPosition;
+  start: number;       // Seconds into the output
+  end?: number;        // Seconds; shown until the end when unset
+}
+
+export interface TextOverlaySettings {
+  headlines: string[];
+  assignment: HeadlineAssignment;
+  style: TextOverlayStyle;
+}
+
+export const DEFAULT_TEXT_STYLE: TextOverlayStyle = {
+  fontSize: 64,
+  color: 'white',
+  boxStyle: 'box',
+  position: 'top',
+  start: 0,
+  end: 3
+};
+
+const MAX_HEADLINES = 50;
+const MAX_HEADLINE_LENGTH = 120;
+const REFERENCE_HEIGHT = 1080;
+
+/**
+ * Hook headlines burned into each output with drawtext, one headline per output
+ */
+export class TextOverlayService {
+  /**
+   * Normalize overlay settings from a request. Returns undefined when there are no headlines.
+   */
+  parseSettings(raw: any): TextOverlaySettings | undefined {
+    const headlines: string[] = Array.isArray(raw?.headlines)
+      ? raw.headlines
+          .filter((headline: unknown): headline is string => typeof headline === 'string')
+          .map((headline: string) => headline.replace(/\s+/g, ' ').trim().substring(0, MAX_HEADLINE_LENGTH))
+          .filter(Boolean)
+          .slice(0, MAX_HEADLINES)
+      : [];
+    if (headlines.length === 0) return undefined;
+
+    const style = raw.style || {};
+    const start = Math.max(0, Number(style.start) || 0);
+    const end = Number(style.end);
+
+    return {
+      headlines,
+      assignment: raw.assignment === 'balanced' ? 'balanced' : 'round-robin',
+      style: {
+        font: typeof style.font === 'string' && /^[\w -]{1,64}$/.test(style.font) ? style.font.trim() : undefined,
+        fontSize: Math.max(12, Math.min(200, Number(style.fontSize) || DEFAULT_TEXT_STYLE.fontSize)),
+        color: this.parseColor(style.color),
+        boxStyle: ['none', 'box', 'outline'].includes(style.boxStyle) ? style.boxStyle : DEFAULT_TEXT_STYLE.boxStyle,
+        position: ['top', 'center', 'bottom'].includes(style.position) ? style.position : DEFAULT_TEXT_STYLE.position,
+        start,
+        end: Number.isFinite(end) && end > start ? end : undefined
+      }
+    };
+  }
+
+  /**
+   * Pick a headline for each output. Round-robin walks the list in order;
+   * balanced uses every headline equally often but in a shuffled order.
+   */
+  assignHeadlines(outputCount: number, settings: TextOverlaySettings, random: RandomFn): string[] {
+    const { headlines } = settings;
+    if (settings.assignment === 'round-robin') {
+      return Array.from({ length: outputCount }, (_, i) => headlines[i % headlines.length]);
+    }
+
+    const assigned: string[] = [];
+    while (assigned.length < outputCount) {
+      const round = [...headlines];
+      for (let i = round.length - 1; i > 0; i--) {
+        const j = Math.floor(random() * (i + 1));
+        [round[i], round[j]] = [round[j], round[i]];
+      }
+      assigned.push(...round);
+    }
+    return assigned.slice(0, outputCount);
+  }
+
+  /**
+   * drawtext filter for one headline on an output of the given height
+   */
+  buildFilter(text: string, style: TextOverlayStyle, outputHeight: number): string {
+    const scale = outputHeight / REFERENCE_HEIGHT;
+    const options = [
+      `text=${this.escapeText(text)}`,
+      'expansion=none',
+      `fontsize=${Math.round(style.fontSize * scale)}`,
+      `fontcolor=${style.color}`,
+      'x=(w-text_w)/2',
+      `y=${this.getY(style.position)}`
+    ];
+
+    if (style.font) {
+      options.push(`font=${style.font}`);
+    }
+    if (style.boxStyle === 'box') {
+      options.push('box=1', 'boxcolor=black@0.5', `boxborderw=${Math.max(4, Math.round(16 * scale))}`);
+    } else if (style.boxStyle === 'outline') {
+      options.push(`borderw=${Math.max(1, Math.round(4 * scale))}`, 'bordercolor=black');
+    }
+
+    const window = style.end !== undefined
+      ? `between(t,${style.start},${style.end})`
+      : `gte(t,${style.start})`;
+    options.push(`enable='${window}'`);
+
+    return `drawtext=${options.join(':')}`;
+  }
+
+  private getY(position: TextPosition): string {
+    switch (position) {
+      case 'center':
+        return '(h-text_h)/2';
+      case 'bottom':
+        return 'h-text_h-h*0.12';
+      case 'top':
+      default:
+        return 'h*0.08';
+    }
+  }
+
+  private parseColor(raw: unknown): string {
+    if (typeof raw !== 'string') return DEFAULT_TEXT_STYLE.color;
+    const hex = raw.match(/^#?([0-9a-fA-F]{6})$/);
+    if (hex) return `0x${hex[1].toUpperCase()}`;
+    return /^[a-zA-Z]{3,20}$/.test(raw) ? raw.toLowerCase() : DEFAULT_TEXT_STYLE.color;
+  }
+
+  /**
+   * Escape text for a drawtext option value, then again for the filtergraph around it
+   */
+  escapeText(text: string): string {
+    const optionLevel = text.replace(/[\\':]/g, char => `\\${char}`);
+    return optionLevel.replace(/[\\'[\],;]/g, char => `\\${char}`);
+  }
+}
\ No newline at end of file
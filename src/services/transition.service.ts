@@ -0,0 +1,179 @@
+import { RandomFn } from '@/utils/seeded-random';
+
+export type TransitionStyle = 'fade' | 'dissolve' | 'wipe' | 'slide' | 'zoom';
+
+export const TRANSITION_STYLES: TransitionStyle[] = ['fade', 'dissolve', 'wipe', 'slide', 'zoom'];
+
+// Hard cut marker in a variant's transition list
+export const HARD_CUT = 'cut';
+
+/**
+ * One join between clip i and clip i + 1 in the output timeline.
+ * offset is where the overlap starts in the joined output (xfade offset).
+ */
+export interface TransitionCut {
+  transition: string; // xfade transition name, or HARD_CUT
+  duration: number;   // Overlap in seconds (0 for a hard cut)
+  offset: number;
+}
+
+export interface TransitionJoinOptions {
+  hasAudio: boolean;
+  videoOutput: string;
+  audioOutput: string;
+}
+
+// Each neighbouring clip must be this many times longer than the overlap,
+// so a clip with a transition on both ends still shows most of its footage
+const MIN_CLIP_TO_TRANSITION_RATIO = 2.5;
+const DEFAULT_DURATION = { min: 0.5, max: 1 };
+const MAX_DURATION = 3;
+
+const DIRECTIONS = ['left', 'right', 'up', 'down'];
+
+/**
+ * Plans and renders xfade transitions between clips.
+ * Offsets are planned here for both the FFmpeg command and the variant plan, so they are computed one way.
+ */
+export class TransitionService {
+  /**
+   * Normalize transition styles from request settings, dropping unknown entries
+   */
+  parseStyles(raw: unknown): TransitionStyle[] {
+    if (!Array.isArray(raw)) return [...TRANSITION_STYLES];
+    const styles = raw.filter((style): style is TransitionStyle => TRANSITION_STYLES.includes(style));
+    return styles.length > 0 ? Array.from(new Set(styles)) : [...TRANSITION_STYLES];
+  }
+
+  /**
+   * Normalize the per-cut duration range in seconds
+   */
+  parseDuration(raw: any): { min: number; max: number } {
+    const min = Math.max(0.1, Math.min(MAX_DURATION, Number(raw?.min) || DEFAULT_DURATION.min));
+    const max = Math.max(min, Math.min(MAX_DURATION, Number(raw?.max) || DEFAULT_DURATION.max));
+    return { min, max };
+  }
+
+  /**
+   * Pick a concrete xfade transition and overlap for each cut.
+   * Directions are fixed here so rendering the same plan twice gives the same output.
+   */
+  pickTransitions(
+    cutCount: number,
+    styles: TransitionStyle[],
+    duration: { min: number; max: number },
+    random: RandomFn
+  ): { transitions: string[]; durations: number[] } {
+    const transitions: string[] = [];
+    const durations: number[] = [];
+
+    for (let i = 0; i < cutCount; i++) {
+      const style = styles[Math.floor(random() * styles.length)];
+      const direction = DIRECTIONS[Math.floor(random() * DIRECTIONS.length)];
+      transitions.push(this.toXfadeTransition(style, direction));
+      durations.push(Math.round((duration.min + random() * (duration.max - duration.min)) * 100) / 100);
+    }
+
+    return { transitions, durations };
+  }
+
+  /**
+   * Resolve xfade offsets from each clip's length in the output (after trim and speed).
+   * A cut falls back to a hard cut when either neighbouring clip is too short for its overlap.
+   */
+  planCuts(clipDurations: number[], transitions: string[], durations: number[]): TransitionCut[] {
+    const cuts: TransitionCut[] = [];
+    let elapsed = clipDurations[0] || 0; // End of clip i in the joined output
+
+    for (let i = 0; i < clipDurations.length - 1; i++) {
+      const transition = transitions[i] || HARD_CUT;
+      const duration = durations[i] || 0;
+      const shorterClip = Math.min(clipDurations[i], clipDurations[i + 1]);
+      const fits = transition !== HARD_CUT && duration > 0 && shorterClip >= duration * MIN_CLIP_TO_TRANSITION_RATIO;
+
+      const cut = fits
+        ? { transition, duration, offset: this.round(elapsed - duration) }
+        : { transition: HARD_CUT, duration: 0, offset: this.round(elapsed) };
+
+      cuts.push(cut);
+      elapsed += clipDurations[i + 1] - cut.duration;
+    }
+
+    return cuts;
+  }
+
+  /**
+   * Length of the joined output - overlaps shorten it
+   */
+  getOutputDuration(clipDurations: number[], cuts: TransitionCut[]): number {
+    const total = clipDurations.reduce((sum, duration) => sum + duration, 0);
+    return this.round(total - cuts.reduce((sum, cut) => sum + cut.duration, 0));
+  }
+
+  /**
+   * Join the labelled clip streams [v0]..[vN] (and [a0]..[aN]) into the output labels.
+   * Without transitions this is a single concat; otherwise cuts are chained pairwise
+   * with xfade/acrossfade, and hard cuts inside the chain use a two-input concat.
+   */
+  buildJoinFilters(clipCount: number, cuts: TransitionCut[], options: TransitionJoinOptions): string[] {
+    const filters: string[] = [];
+    const { hasAudio, videoOutput, audioOutput } = options;
+
+    if (cuts.every(cut => cut.transition === HARD_CUT)) {
+      if (hasAudio) {
+        const inputs = Array.from({ length: clipCount }, (_, i) => `[v${i}][a${i}]`).join('');
+        filters.push(`${inputs}concat=n=${clipCount}:v=1:a=1[${videoOutput}][${audioOutput}]`);
+      } else {
+        const inputs = Array.from({ length: clipCount }, (_, i) => `[v${i}]`).join('');
+        filters.push(`${inputs}concat=n=${clipCount}:v=1:a=0[${videoOutput}]`);
+      }
+      return filters;
+    }
+
+    let currentVideo = 'v0';
+    let currentAudio = 'a0';
+
+    cuts.forEach((cut, i) => {
+      const isLast = i === cuts.length - 1;
+      const nextVideo = isLast ? videoOutput : `vj${i}`;
+      const nextAudio = isLast ? audioOutput : `aj${i}`;
+
+      if (cut.transition === HARD_CUT) {
+        filters.push(`[${currentVideo}][v${i + 1}]concat=n=2:v=1:a=0[${nextVideo}]`);
+        if (hasAudio) {
+          filters.push(`[${currentAudio}][a${i + 1}]concat=n=2:v=0:a=1[${nextAudio}]`);
+        }
+      } else {
+        filters.push(`[${currentVideo}][v${i + 1}]xfade=transition=${cut.transition}:duration=${cut.duration}:offset=${cut.offset}[${nextVideo}]`);
+        if (hasAudio) {
+          filters.push(`[${currentAudio}][a${i + 1}]acrossfade=d=${cut.duration}[${nextAudio}]`);
+        }
+      }
+
+      currentVideo = nextVideo;
+      currentAudio = nextAudio;
+    });
+
+    return filters;
+  }
+
+  private toXfadeTransition(style: TransitionStyle, direction: string): string {
+    switch (style) {
+      case 'wipe':
+        return `wipe${direction}`;
+      case 'slide':
+        return `slide${direction}`;
+      case 'zoom':
+        return 'zoomin';
+      case 'dissolve':
+        return 'dissolve';
+      case 'fade':
+      default:
+        return 'fade';
+    }
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 1000) / 1000;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,115 @@
+import { VideoVariant } from './auto-mixing.service';
+
+export interface VariantDiversityReport {
+  variantCount: number;
+  comparedPairs: number;
+  minDistance: number;     // 0 = identical, 1 = completely different
+  averageDistance: number;
+  threshold: number;       // User-set minimum distance (0 when disabled)
+}
+
+// Component weights - order carries the most perceptible difference between outputs
+const ORDER_WEIGHT = 0.5;
+const SPEED_WEIGHT = 0.25;
+const CLIP_SET_WEIGHT = 0.25;
+
+/**
+ * Scores how different two variant plans are so a batch can be proven varied
+ */
+export class VariantDiversityService {
+  /**
+   * Weighted distance between two variants in the range 0-1
+   */
+  calculateDistance(a: VideoVariant, b: VideoVariant): number {
+    const orderDistance = this.getOrderDistance(a.videoOrder, b.videoOrder);
+    const speedDistance = this.getSpeedDistance(a, b);
+    const clipSetDistance = this.getClipSetDistance(a.videoOrder, b.videoOrder);
+
+    return ORDER_WEIGHT * orderDistance + SPEED_WEIGHT * speedDistance + CLIP_SET_WEIGHT * clipSetDistance;
+  }
+
+  /**
+   * Check a candidate against every accepted variant
+   */
+  meetsThreshold(candidate: VideoVariant, accepted: VideoVariant[], threshold: number): boolean {
+    return accepted.every(existing => this.calculateDistance(candidate, existing) >= threshold);
+  }
+
+  /**
+   * Summarize pairwise distances for a batch
+   */
+  summarize(variants: VideoVariant[], threshold: number = 0): VariantDiversityReport {
+    let comparedPairs = 0;
+    let total = 0;
+    let minDistance = variants.length > 1 ? 1 : 0;
+
+    for (let i = 0; i < variants.length; i++) {
+      for (let j = i + 1; j < variants.length; j++) {
+        const distance = this.calculateDistance(variants[i], variants[j]);
+        minDistance = Math.min(minDistance, distance);
+        total += distance;
+        comparedPairs++;
+      }
+    }
+
+    return {
+      variantCount: variants.length,
+      comparedPairs,
+      minDistance: this.round(minDistance),
+      averageDistance: this.round(comparedPairs > 0 ? total / comparedPairs : 0),
+      threshold
+    };
+  }
+
+  /**
+   * Levenshtein edit distance between two clip orders, normalized by the longer order
+   */
+  private getOrderDistance(a: string[], b: string[]): number {
+    const maxLength = Math.max(a.length, b.length);
+    if (maxLength === 0) return 0;
+
+    let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+    for (let i = 1; i <= a.length; i++) {
+      const current = [i];
+      for (let j = 1; j <= b.length; j++) {
+        const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+        current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      }
+      previous = current;
+    }
+
+    return previous[b.length] / maxLength;
+  }
+
+  /**
+   * Mean absolute speed difference over clips used by both variants (capped at 1 per clip)
+   */
+  private getSpeedDistance(a: VideoVariant, b: VideoVariant): number {
+    const shared = a.videoOrder.filter(id => b.videoOrder.includes(id));
+    if (shared.length === 0) return 0;
+
+    const totalDelta = shared.reduce((sum, id) => {
+      const delta = Math.abs((a.speeds.get(id) || 1) - (b.speeds.get(id) || 1));
+      return sum + Math.min(1, delta);
+    }, 0);
+
+    return totalDelta / shared.length;
+  }
+
+  /**
+   * Jaccard distance between the clip sets of two variants
+   */
+  private getClipSetDistance(a: string[], b: string[]): number {
+    const setA = new Set(a);
+    const setB = new Set(b);
+    const union = new Set([...setA, ...setB]);
+    if (union.size === 0) return 0;
+
+    const intersection = [...setA].filter(id => setB.has(id)).length;
+    return 1 - intersection / union.size;
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 1000) / 1000;
+  }
+}
\ No newline at end of file
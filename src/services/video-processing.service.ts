@@ -1,17 +1,35 @@
 import ffmpeg from 'fluent-ffmpeg';
 import ffmpegStatic from 'ffmpeg-static';
 import path from 'path';
+import crypto from 'crypto';
 import fs from 'fs/promises';
 import { database, prisma } from '@/utils/database';
 import { MixingMode, VideoFormat, VideoQuality, JobStatus as JobStatusType, ProjectStatus as ProjectStatusType, TransactionType as TransactionTypeType } from '@/types';
 import { JobStatus, ProjectStatus, TransactionType } from '@/utils/database';
 import logger from '@/utils/logger';
 import { promisify } from 'util';
-import { AutoMixingService, VideoClip, VideoGroup } from './auto-mixing.service';
+import { AutoMixingService, GroupMixingMode, MixingSettings, VariantPlan, VideoClip, VideoGroup, VideoVariant } from './auto-mixing.service';
+import { OrderingRule } from './ordering-rules.service';
+import { TransitionService, TransitionStyle } from './transition.service';
+import { ColorGradingService, ColorIntensity, ColorLutFile } from './color-grading.service';
+import { AudioMode, MusicBedService, MusicTrackFile } from './music-bed.service';
+import { LoudnessMeasurement, LoudnessPreset, LoudnessService, LoudnessStats } from './loudness.service';
+import { TextOverlayService, TextOverlaySettings } from './text-overlay.service';
+import { SubtitleMode, SubtitleService, SubtitleStyle } from './subtitle.service';
+import { LogoFile, WatermarkPosition, WatermarkService } from './watermark.service';
+import { ImageClipService, ImageMotionLevel } from './image-clip.service';
+import { AspectFillService, AspectFillSettings, ClipFill } from './aspect-fill.service';
+import { BumperService, BumperSettings } from './bumper.service';
+import { SpeedRampService, SpeedRampSettings } from './speed-ramp.service';
+import { MicroVariation, MicroVariationService, MicroVariationSettings } from './micro-variation.service';
+import { MetadataProfileService, MetadataProfileTags } from './metadata-profile.service';
+import { DurationFillService, DurationFillStrategy } from './duration-fill.service';
 import processingMonitor from './processing-monitor.service';
 import { ErrorHandlingService } from './error-handling.service';
 import { RetryService } from './retry.service';
 import { voiceOverService } from './voice-over.service';
+import { createSeededRandom, normalizeSeed } from '@/utils/seeded-random';
+import { DbHelper } from '@/utils/db-helper';
 
 // Set FFmpeg and FFprobe paths
 if (ffmpegStatic) {
@@ -60,8 +78,11 @@ export interface ThumbnailOptions {
 export interface WatermarkOptions {
   text?: string;
   imagePath?: string;
-  position?: 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right' | 'center';
+  logoId?: string; // Project logo asset, drawn by the mixing graph
+  position?: WatermarkPosition;
+  positions?: WatermarkPosition[]; // Rotated across outputs of a mixing job
   opacity?: number; // 0-1
+  scale?: number; // Logo width as a fraction of the output width
   fontSize?: number;
   fontColor?: string;
 }
@@ -97,23 +118,97 @@ export interface VideoMixingOptions {
   groupMixing?: boolean;
 
   // Audio options
-  audioMode?: 'keep' | 'mute' | 'voiceover';
+  audioMode?: AudioMode | 'voiceover';
   voiceOverMode?: boolean;
+  musicTrackIds?: string[]; // Project tracks rotated across outputs in music modes
+  musicVolume?: number;
+  musicFade?: number;
+  musicDucking?: boolean;
+  loudnessPreset?: LoudnessPreset; // Two-pass loudnorm per clip and per output (undefined = off)
+
+  // Hook headlines drawn on each output (undefined = no overlay)
+  textOverlay?: TextOverlaySettings;
+
+  // Clip captions retimed per output - burned in or muxed as mov_text, SRT exported either way
+  subtitleMode?: SubtitleMode;
+  subtitleStyle?: SubtitleStyle;
+
+  // Pan/zoom strength on still-image clips
+  imageMotion?: ImageMotionLevel;
+
+  // Fit to the output frame - clips can override the mode and focal point
+  aspectFill?: AspectFillSettings;
+
+  // Project intros/outros joined around every output
+  bumpers?: BumperSettings;
+
+  // Speed curves on a few clips per output
+  speedRamps?: SpeedRampSettings;
+
+  // Subtle zoom, mirror, hue, grain, pitch and start-offset differences per output
+  microVariations?: MicroVariationSettings;
+
+  // Container/stream tag profiles (user, global or built-in) rotated across outputs
+  metadataProfileIds?: string[];
+  metadataSource?: 'normal' | 'capcut' | 'vn' | 'inshot'; // Legacy built-in preset, used when no profile is selected
 
   // Speed settings
   speedRange?: { min: number; max: number };
   speedVariations?: boolean;
 
   // Duration settings
+  durationType?: 'original' | 'fixed';
+  fixedDuration?: number;
   durationDistributionMode?: 'proportional' | 'equal' | 'weighted';
   smartTrimming?: boolean;
+  durationFill?: DurationFillStrategy;
 
   // Transition and color options
   transitionMixing?: boolean;
   transitionVariations?: boolean;
+  transitionTypes?: TransitionStyle[];
+  transitionDuration?: { min: number; max: number };
   colorVariations?: boolean;
+  colorIntensity?: ColorIntensity;
+  colorLutIds?: string[]; // Project LUTs rotated across outputs
+
+  // Reproducibility seed for variant generation
+  seed?: number;
+
+  // Minimum pairwise distance (0-1) between generated variants
+  minVariantDistance?: number;
+
+  // Project clip ordering rules (before / never-adjacent / at-most-one-of)
+  orderingRules?: OrderingRule[];
+
+  // Batch exposure bounds for group picks (0 = no bound)
+  minClipAppearances?: number;
+  maxClipAppearances?: number;
+  balanceExposure?: boolean;
 }
 
+// What one rendered output carried, recorded with its ProcessedVideo row
+interface OutputDetails {
+  loudness?: LoudnessStats; // Measured after normalization
+  headline?: string;
+  subtitleFile?: string;    // Retimed SRT exported next to the output
+  microVariation?: MicroVariation;
+}
+
+// Cached low-resolution render of one planned variant
+export interface PreviewRender {
+  path: string;
+  planHash: string;
+  cached: boolean;
+}
+
+// Preview renders are killed past this point so they stay cheap
+const PREVIEW_RENDER_TIMEOUT_MS = 10000;
+
+// Cached previews are evicted after a day unused, or least recently used first past this count
+const PREVIEW_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+const PREVIEW_CACHE_LIMIT = 50;
+
 // Prisma client is imported from database adapter
 
 export class VideoProcessingService {
@@ -122,7 +217,22 @@ export class VideoProcessingService {
   private readonly tempDir = process.env.TEMP_DIR || 'temp';
   private readonly outputDir = process.env.OUTPUT_PATH || process.env.OUTPUT_DIR || 'outputs';
   private readonly thumbnailDir = process.env.THUMBNAIL_DIR || 'thumbnails';
+  private readonly previewDir = path.join(this.outputDir, 'previews');
   private autoMixingService = new AutoMixingService();
+  private transitionService = new TransitionService();
+  private colorGradingService = new ColorGradingService();
+  private musicBedService = new MusicBedService();
+  private loudnessService = new LoudnessService();
+  private textOverlayService = new TextOverlayService();
+  private subtitleService = new SubtitleService();
+  private watermarkService = new WatermarkService();
+  private imageClipService = new ImageClipService();
+  private aspectFillService = new AspectFillService();
+  private bumperService = new BumperService();
+  private speedRampService = new SpeedRampService();
+  private microVariationService = new MicroVariationService();
+  private metadataProfileService = new MetadataProfileService();
+  private durationFillService = new DurationFillService();
   private errorHandlingService = new ErrorHandlingService();
   private retryService = new RetryService(this.errorHandlingService);
 
@@ -134,7 +244,8 @@ export class VideoProcessingService {
     await Promise.all([
       fs.mkdir(this.tempDir, { recursive: true }),
       fs.mkdir(this.outputDir, { recursive: true }),
-      fs.mkdir(this.thumbnailDir, { recursive: true })
+      fs.mkdir(this.thumbnailDir, { recursive: true }),
+      fs.mkdir(this.previewDir, { recursive: true })
     ]);
   }
 
@@ -629,7 +740,11 @@ export class VideoProcessingService {
               videos: true
             },
             orderBy: { order: 'asc' }
-          }
+          },
+          colorLuts: true,
+          musicTracks: true,
+          logos: true,
+          bumpers: true
           // voiceOverFiles disabled - feature incomplete
         }
       });
@@ -669,6 +784,7 @@ export class VideoProcessingService {
 
       const settings = data.settings;
       const outputs: string[] = [];
+      const outputDetails = new Map<string, OutputDetails>(); // Output path -> loudness, headline
 
       // Check if this is voice over mode processing
       const isVoiceOverMode = (settings as any).voiceOverMode === true || (settings as any).audioMode === 'voiceover';
@@ -746,13 +862,23 @@ export class VideoProcessingService {
         }
       } else {
         // Normal processing mode
-        // CRITICAL FIX: Pre-generate all variants for "Different Starting Video" feature
-        let preGeneratedVariants: any[] | null = null;
-        if (settings.differentStartingVideo && !settings.groupMixing) {
-          logger.info(`[Pre-Generation] Generating all variants upfront for Different Starting Video feature`);
-          preGeneratedVariants = await this.preGenerateVariants(project, settings, data.outputCount);
-          logger.info(`[Pre-Generation] Generated ${preGeneratedVariants.length} variants for ${data.outputCount} outputs`);
-        }
+        // CRITICAL FIX: Pre-generate all variants once so every output draws from the same plan
+        // (needed for Different Starting Video and for the batch diversity report)
+        logger.info(`[Pre-Generation] Generating all variants upfront`);
+        const preGeneratedVariants = await this.preGenerateVariants(project, settings, data.outputCount);
+        logger.info(`[Pre-Generation] Generated ${preGeneratedVariants.length} variants for ${data.outputCount} outputs`);
+
+        const diversity = this.autoMixingService.getDiversityReport(preGeneratedVariants, preGeneratedVariants[0]?.settings || ({} as MixingSettings));
+        const coverage = this.autoMixingService.getCoverageReport(preGeneratedVariants, project.videos);
+        logger.info(`[Variant Diversity] Job ${jobId}: min=${diversity.minDistance}, avg=${diversity.averageDistance}`);
+        const manifest = this.autoMixingService.getVariantPlan(preGeneratedVariants, this.toPlanningClips(project.videos));
+        await this.saveJobResult(jobId, { diversity, coverage, manifest });
+
+        const loudnessPreset = this.loudnessService.parsePreset(settings.loudnessPreset);
+        const subtitleMode = this.subtitleService.parseMode(settings.subtitleMode);
+
+        // First-pass clip analyses are shared by this job's outputs only - files can be replaced between jobs
+        const clipLoudness = new Map<string, LoudnessMeasurement | null>(); // "<path>|<preset>" -> analysis
 
         for (let i = 0; i < data.outputCount; i++) {
         // Check if job was cancelled - check both memory and database
@@ -796,7 +922,7 @@ export class VideoProcessingService {
             progress + 5,
             `Analyzing content for intelligent auto-mixing (${currentOutput}/${data.outputCount})`
           );
-          outputPath = await this.processAutoMixing(project, settings, i, preGeneratedVariants);
+          outputPath = await this.processAutoMixing(project, i, preGeneratedVariants, clipLoudness);
         } else {
           await this.updateJobStatusWithDetails(
             jobId,
@@ -804,10 +930,38 @@ export class VideoProcessingService {
             progress + 5,
             `Processing manual group-based mixing (${currentOutput}/${data.outputCount})`
           );
-          outputPath = await this.processManualMixing(project, settings, i);
+          outputPath = await this.processManualMixing(project, settings, i, clipLoudness, preGeneratedVariants);
         }
 
         if (outputPath) {
+          if (loudnessPreset && settings.audioMode !== 'mute') {
+            await this.updateJobStatusWithDetails(
+              jobId,
+              JobStatus.PROCESSING,
+              progress + 10,
+              `Normalizing loudness (${currentOutput}/${data.outputCount})`
+            );
+            const stats = await this.normalizeOutputLoudness(outputPath, loudnessPreset);
+            if (stats) {
+              outputDetails.set(outputPath, { loudness: stats });
+            }
+          }
+
+          const headline = preGeneratedVariants[i % preGeneratedVariants.length]?.headline;
+          if (headline) {
+            outputDetails.set(outputPath, { ...outputDetails.get(outputPath), headline });
+          }
+
+          const microVariation = preGeneratedVariants[i % preGeneratedVariants.length]?.microVariation;
+          if (microVariation) {
+            outputDetails.set(outputPath, { ...outputDetails.get(outputPath), microVariation });
+          }
+
+          const subtitlePath = this.subtitleService.getSidecarPath(outputPath);
+          if (subtitleMode !== 'off' && await fs.access(subtitlePath).then(() => true, () => false)) {
+            outputDetails.set(outputPath, { ...outputDetails.get(outputPath), subtitleFile: path.basename(subtitlePath) });
+          }
+
           outputs.push(outputPath);
           await this.updateJobStatusWithDetails(
             jobId,
@@ -821,7 +975,7 @@ export class VideoProcessingService {
 
       // Save output files to database
       await this.updateJobStatusWithDetails(jobId, JobStatus.PROCESSING, 90, 'Saving output files to database');
-      await this.saveOutputFiles(jobId, outputs, settings);
+      await this.saveOutputFiles(jobId, outputs, settings, outputDetails);
 
       await this.updateJobStatusWithDetails(
         jobId,
@@ -935,121 +1089,190 @@ export class VideoProcessingService {
     }
   }
 
-  private async preGenerateVariants(project: any, settings: any, outputCount: number): Promise<any[]> {
-    const videoFiles = project.videos;
-
-    // Convert video files to VideoClip format for auto-mixing service
-    const clips: VideoClip[] = videoFiles.map((file: any) => ({
-      id: file.id,
-      path: file.path || `uploads/${file.filename}`, // Construct path from filename if not present
-      duration: file.duration || 30,
-      metadata: {
-        resolution: file.resolution,
-        format: file.format,
-        bitrate: file.metadata?.bitrate
-      },
-      originalName: file.originalName,
-      groupId: file.groupId
-    }));
-
-    // Check if voice over mode is enabled
-    const isVoiceOverMode = (settings as any).voiceOverMode === true || (settings as any).audioMode === 'voiceover';
-
-    // Sanitize settings (same as in processAutoMixing)
-    const sanitizedSettings = {
-      // Core mixing options
-      orderMixing: Boolean(settings.orderMixing),
-      // Force speedMixing to false in voice over mode
-      speedMixing: isVoiceOverMode ? false : Boolean(settings.speedMixing),
-      differentStartingVideo: Boolean(settings.differentStartingVideo),
-      groupMixing: Boolean(settings.groupMixing),
+  /**
+   * Dry-run the variant plan for a project - no FFmpeg, no job row, no credits
+   */
+  async planVariants(project: any, settings: any): Promise<VariantPlan[]> {
+    const variants = await this.preGenerateVariants(project, settings, settings.outputCount);
+    return this.autoMixingService.getVariantPlan(variants, this.toPlanningClips(project.videos));
+  }
 
-      // Speed settings with validation
-      speedRange: settings.speedRange || { min: 0.5, max: 2 },
-      allowedSpeeds: Array.isArray(settings.allowedSpeeds) ? settings.allowedSpeeds : [0.5, 0.75, 1, 1.25, 1.5, 2],
+  /**
+   * Render one planned variant with the proxy profile.
+   * Renders are cached by plan hash, so the same seed and settings reuse the file.
+   */
+  async renderPreview(project: any, settings: any, variantIndex: number): Promise<PreviewRender> {
+    const clips = this.toPlanningClips(project.videos);
+    const variants = await this.preGenerateVariants(project, settings, settings.outputCount);
+    const variant = variants[variantIndex];
+    if (!variant) {
+      throw new Error(`Variant ${variantIndex + 1} is not in the plan (${variants.length} planned)`);
+    }
 
-      // Group mixing settings
-      groupMixingMode: (settings.groupMixingMode === 'random' ? 'random' : 'strict') as 'strict' | 'random',
+    // The command is everything the render depends on, so any setting that changes the output changes the hash.
+    // Only the output path - always the last argument - is left out, and set once the hash names the file.
+    const command = this.autoMixingService.buildFFmpegCommand(variant, clips, 'preview.mp4', 'proxy');
+    const planHash = crypto.createHash('sha1').update(JSON.stringify(command.slice(0, -1))).digest('hex');
 
-      // Removed features - force to safe defaults
-      transitionMixing: false,
-      transitionTypes: [],
-      transitionDuration: { min: 0, max: 0 },
-      colorVariations: false,
-      colorIntensity: 'low' as const,
+    const previewPath = path.join(this.previewDir, `preview_${planHash}.mp4`);
+    try {
+      // Touched on every hit so eviction drops the least recently used previews
+      const now = new Date();
+      await fs.utimes(previewPath, now, now);
+      return { path: previewPath, planHash, cached: true };
+    } catch {
+      // Not rendered yet
+    }
 
-      // Quality settings with validation
-      metadataSource: ['normal', 'capcut', 'vn', 'inshot'].includes(settings.metadataSource) ? settings.metadataSource : 'normal',
-      bitrate: ['low', 'medium', 'high'].includes(settings.bitrate) ? settings.bitrate : 'medium',
-      resolution: ['sd', 'hd', 'fullhd'].includes(settings.resolution) ? settings.resolution : 'hd',
-      frameRate: [24, 30, 60].includes(settings.frameRate) ? settings.frameRate : 30,
+    // Render next to the cache entry and move it in place once complete
+    const partialPath = path.join(this.previewDir, `preview_${planHash}.partial.mp4`);
+    await fs.mkdir(this.previewDir, { recursive: true });
+    command[command.length - 1] = partialPath;
 
-      // Duration and audio settings
-      aspectRatio: settings.aspectRatio || 'original',
-      durationType: settings.durationType || 'original',
-      fixedDuration: typeof settings.fixedDuration === 'number' ? settings.fixedDuration : 30,
-      durationDistributionMode: settings.durationDistributionMode || 'proportional',
-      smartTrimming: Boolean(settings.smartTrimming),
-      audioMode: (settings.audioMode === 'mute' ? 'mute' : 'keep') as 'keep' | 'mute',
-
-      // Output count with validation
-      outputCount: Math.max(1, Math.min(100, Number(outputCount) || 5))
-    };
+    try {
+      await this.executeFFmpegCommand(command, PREVIEW_RENDER_TIMEOUT_MS);
+      await fs.rename(partialPath, previewPath);
+    } catch (error) {
+      await fs.unlink(partialPath).catch(() => undefined);
+      throw error;
+    }
 
-    // Map sanitized settings to auto-mixing service format
-    const mixingSettings = {
-      ...sanitizedSettings,
-      bitrate: this.mapQualityToBitrate(sanitizedSettings.bitrate),
-      resolution: this.mapQualityToResolution(sanitizedSettings.resolution)
-    };
+    logger.info(`[Preview] Rendered variant ${variantIndex + 1} of project ${project.id} (${planHash})`);
+    await this.evictPreviews().catch(error => logger.warn('[Preview] Failed to evict cached previews:', error));
+    return { path: previewPath, planHash, cached: false };
+  }
 
-    // Generate ALL variants at once
-    const variants = await this.autoMixingService.generateVariants(clips, mixingSettings);
+  /**
+   * Drop previews unused for a day, then the least recently used ones past the cache limit
+   */
+  private async evictPreviews(): Promise<void> {
+    const names = (await fs.readdir(this.previewDir)).filter(name => name.endsWith('.mp4') && !name.endsWith('.partial.mp4'));
+    const entries = await Promise.all(names.map(async name => {
+      const previewPath = path.join(this.previewDir, name);
+      const stats = await fs.stat(previewPath).catch(() => null);
+      return { previewPath, usedAt: stats ? stats.mtimeMs : 0 };
+    }));
 
-    logger.info(`[Pre-Generation] Generated ${variants.length} total variants for Different Starting Video selection`);
+    const cutoff = Date.now() - PREVIEW_MAX_AGE_MS;
+    const stale = entries
+      .sort((a, b) => b.usedAt - a.usedAt)
+      .filter((entry, index) => index >= PREVIEW_CACHE_LIMIT || entry.usedAt < cutoff);
 
-    return variants;
+    await Promise.all(stale.map(entry => fs.unlink(entry.previewPath).catch(() => undefined)));
+    if (stale.length > 0) {
+      logger.info(`[Preview] Evicted ${stale.length} cached previews`);
+    }
   }
 
-  private async processAutoMixing(project: any, settings: any, index: number, preGeneratedVariants?: any[]): Promise<string> {
-    const videoFiles = project.videos;
-
-    // Enhanced logging for debugging
-    logger.info(`[Auto-Mixing] Starting auto-mixing for output ${index + 1}`);
-    logger.info(`[Auto-Mixing] Project "${project.name}" has ${videoFiles.length} video files`);
+  /**
+   * Resolve the selected project LUTs to files on disk, in the order the project lists them
+   */
+  private resolveColorLuts(project: any, lutIds: unknown): ColorLutFile[] {
+    if (!Array.isArray(lutIds) || lutIds.length === 0) return [];
+
+    return (project.colorLuts || [])
+      .filter((lut: any) => lutIds.includes(lut.id))
+      .map((lut: any) => ({
+        id: lut.id,
+        name: lut.name,
+        path: this.colorGradingService.getLutPath(lut.filename)
+      }));
+  }
 
-    if (videoFiles.length === 0) {
-      throw new Error('No video files to process');
-    }
+  /**
+   * Resolve the watermark logo to a file on disk
+   */
+  private resolveLogo(project: any, logoId: unknown): LogoFile | undefined {
+    const logo = (project.logos || []).find((entry: any) => entry.id === logoId);
+    return logo ? { id: logo.id, name: logo.name, path: this.watermarkService.getLogoPath(logo.filename) } : undefined;
+  }
 
-    // Allow single video processing - just duplicate or loop it
-    // No minimum requirement, we'll handle single video case in processing
+  /**
+   * Resolve the selected metadata profiles - the user's own, global ones and built-in presets - keeping the selection order
+   */
+  private async resolveMetadataProfiles(userId: string, settings: any): Promise<MetadataProfileTags[]> {
+    const ids = this.metadataProfileService.parseProfileIds(settings.metadataProfileIds, settings.metadataSource);
+    if (ids.length === 0) return [];
 
-    // Log details of each video file
-    videoFiles.forEach((file: any, idx: number) => {
-      logger.info(`[Auto-Mixing] Video ${idx + 1}/${videoFiles.length}: ${file.originalName} - ID: ${file.id}, Path: ${file.path}, Duration: ${file.duration}s`);
+    const records = await prisma.metadataProfile.findMany({
+      where: { id: { in: ids }, OR: [{ userId }, { userId: null }] }
     });
+    const stored = records.map((record: any) => this.metadataProfileService.toTags(record));
+    return ids
+      .map(id => this.metadataProfileService.getBuiltInProfile(id) || stored.find((profile: MetadataProfileTags) => profile.id === id))
+      .filter((profile): profile is MetadataProfileTags => Boolean(profile));
+  }
 
-    // Convert video files to VideoClip format for auto-mixing service
-    const clips: VideoClip[] = videoFiles.map((file: any) => ({
+  /**
+   * Resolve the selected project music tracks to files on disk
+   */
+  private resolveMusicTracks(project: any, trackIds: unknown): MusicTrackFile[] {
+    if (!Array.isArray(trackIds) || trackIds.length === 0) return [];
+
+    return (project.musicTracks || [])
+      .filter((track: any) => trackIds.includes(track.id))
+      .map((track: any) => ({
+        id: track.id,
+        name: track.name,
+        path: this.musicBedService.getTrackPath(track.filename),
+        duration: track.duration
+      }));
+  }
+
+  /**
+   * Convert video files to VideoClip format for variant planning
+   */
+  private toPlanningClips(videoFiles: any[]): VideoClip[] {
+    return videoFiles.map((file: any) => ({
       id: file.id,
       path: file.path || `uploads/${file.filename}`, // Construct path from filename if not present
       duration: file.duration || 30,
       metadata: {
         resolution: file.resolution,
         format: file.format,
-        bitrate: file.metadata?.bitrate
+        bitrate: file.metadata?.bitrate,
+        uploadedAt: file.uploadedAt
       },
       originalName: file.originalName,
-      groupId: file.groupId
+      groupId: file.groupId,
+      pin: file.pinPosition ? { position: file.pinPosition, index: file.pinIndex ?? undefined } : undefined,
+      isImage: Boolean(file.isImage),
+      hasAudio: file.hasAudio !== false,
+      fill: this.toClipFill(file),
+      sourceRange: this.toSourceRange(file),
+      allowMirror: Boolean(file.allowMirror)
     }));
+  }
 
-    logger.info(`[Auto-Mixing] Converted ${videoFiles.length} video files to ${clips.length} clips for processing`);
+  /**
+   * Part of a shared file a virtual clip (split from a longer upload) plays
+   */
+  private toSourceRange(file: any): { start: number; end: number } | undefined {
+    if (typeof file.sourceStart !== 'number' || typeof file.sourceEnd !== 'number') return undefined;
+    return { start: file.sourceStart, end: file.sourceEnd };
+  }
 
+  /**
+   * A clip's own fill mode and focal point, if it overrides the job
+   */
+  private toClipFill(file: any): ClipFill {
+    return {
+      mode: this.aspectFillService.parseMode(file.fillMode),
+      focalX: this.aspectFillService.parseFocal(file.focalX),
+      focalY: this.aspectFillService.parseFocal(file.focalY)
+    };
+  }
+
+  /**
+   * Sanitize request settings into the auto-mixing format, resolving the project's tracks, LUTs,
+   * logo, bumpers and metadata profiles. Runs once per job - every output reads it from its variant.
+   */
+  private async buildMixingSettings(project: any, settings: any, outputCount: number): Promise<MixingSettings> {
     // Check if voice over mode is enabled
     const isVoiceOverMode = (settings as any).voiceOverMode === true || (settings as any).audioMode === 'voiceover';
 
-    // Validate and sanitize settings with fallbacks for removed properties
+    const musicTracks = this.resolveMusicTracks(project, settings.musicTrackIds);
+
     const sanitizedSettings = {
       // Core mixing options
       orderMixing: Boolean(settings.orderMixing),
@@ -1063,17 +1286,24 @@ export class VideoProcessingService {
       allowedSpeeds: Array.isArray(settings.allowedSpeeds) ? settings.allowedSpeeds : [0.5, 0.75, 1, 1.25, 1.5, 2],
 
       // Group mixing settings
-      groupMixingMode: (settings.groupMixingMode === 'random' ? 'random' : 'strict') as 'strict' | 'random',
+      groupMixingMode: (['random', 'exhaustive'].includes(settings.groupMixingMode) ? settings.groupMixingMode : 'strict') as GroupMixingMode,
+      minClipAppearances: Math.max(0, Math.floor(Number(settings.minClipAppearances) || 0)),
+      maxClipAppearances: Math.max(0, Math.floor(Number(settings.maxClipAppearances) || 0)),
+      balanceExposure: Boolean(settings.balanceExposure),
+
+      // Transitions per cut (hard cut when a clip is too short)
+      transitionMixing: Boolean(settings.transitionMixing),
+      transitionTypes: this.transitionService.parseStyles(settings.transitionTypes),
+      transitionDuration: this.transitionService.parseDuration(settings.transitionDuration),
 
-      // Removed features - force to safe defaults
-      transitionMixing: false,
-      transitionTypes: [],
-      transitionDuration: { min: 0, max: 0 },
-      colorVariations: false,
-      colorIntensity: 'low' as const,
+      // Color grade per output, project LUTs rotated across the batch
+      colorVariations: Boolean(settings.colorVariations),
+      colorIntensity: (['medium', 'high'].includes(settings.colorIntensity) ? settings.colorIntensity : 'low') as ColorIntensity,
+      colorLuts: this.resolveColorLuts(project, settings.colorLutIds),
 
       // Quality settings with validation
       metadataSource: ['normal', 'capcut', 'vn', 'inshot'].includes(settings.metadataSource) ? settings.metadataSource : 'normal',
+      metadataProfiles: await this.resolveMetadataProfiles(project.userId, settings),
       bitrate: ['low', 'medium', 'high'].includes(settings.bitrate) ? settings.bitrate : 'medium',
       resolution: ['sd', 'hd', 'fullhd'].includes(settings.resolution) ? settings.resolution : 'hd',
       frameRate: [24, 30, 60].includes(settings.frameRate) ? settings.frameRate : 30,
@@ -1084,73 +1314,115 @@ export class VideoProcessingService {
       fixedDuration: typeof settings.fixedDuration === 'number' ? settings.fixedDuration : 30,
       durationDistributionMode: settings.durationDistributionMode || 'proportional',
       smartTrimming: Boolean(settings.smartTrimming),
-      audioMode: (settings.audioMode === 'mute' ? 'mute' : 'keep') as 'keep' | 'mute',
+      durationFill: this.durationFillService.parseStrategy(settings.durationFill),
+      audioMode: this.musicBedService.parseAudioMode(settings.audioMode, musicTracks.length > 0),
+      musicTracks,
+      musicBed: this.musicBedService.parseOptions(settings),
+      loudnessPreset: this.loudnessService.parsePreset(settings.loudnessPreset),
+      textOverlay: this.textOverlayService.parseSettings(settings.textOverlay),
+      subtitleMode: this.subtitleService.parseMode(settings.subtitleMode),
+      subtitleStyle: this.subtitleService.parseStyle(settings.subtitleStyle),
+      watermark: this.watermarkService.parseSettings(settings.watermark),
+      watermarkLogo: this.resolveLogo(project, settings.watermark?.logoId),
+      imageMotion: this.imageClipService.parseMotionLevel(settings.imageMotion),
+      aspectFill: this.aspectFillService.parseSettings(settings.aspectFill),
+      bumpers: this.bumperService.parseSettings(settings.bumpers),
+      introBumpers: this.bumperService.resolveFiles(project.bumpers, settings.bumpers?.introIds, 'intro'),
+      outroBumpers: this.bumperService.resolveFiles(project.bumpers, settings.bumpers?.outroIds, 'outro'),
+      speedRamps: this.speedRampService.parseSettings(settings.speedRamps),
+      microVariations: this.microVariationService.parseSettings(settings.microVariations),
 
       // Output count with validation
-      outputCount: Math.max(1, Math.min(100, Number(settings.outputCount) || 5))
+      outputCount: Math.max(1, Math.min(100, Number(outputCount) || 5)),
+
+      // Seed keeps pre-generated variants reproducible
+      seed: normalizeSeed(settings.seed),
+
+      // Diversity threshold between variants (0 = disabled)
+      minVariantDistance: Math.max(0, Math.min(0.9, Number(settings.minVariantDistance) || 0)),
+
+      // Ordering rules were validated for satisfiability when the job started
+      orderingRules: Array.isArray(settings.orderingRules) ? settings.orderingRules : []
     };
 
-    // Log sanitized settings for debugging
-    logger.info('[ProcessAutoMixing] Sanitized settings:', {
+    logger.info('[Settings Validation] Sanitized settings:', {
       original: settings,
-      sanitized: sanitizedSettings,
-      note: 'Transition and color features disabled for stability'
+      sanitized: sanitizedSettings
     });
 
     // Map sanitized settings to auto-mixing service format
-    const mixingSettings = {
-      // Use sanitized settings for safety
+    return {
       ...sanitizedSettings,
-
-      // Override specific mappings for compatibility
       bitrate: this.mapQualityToBitrate(sanitizedSettings.bitrate),
       resolution: this.mapQualityToResolution(sanitizedSettings.resolution)
     };
+  }
 
-    // Log complete settings for debugging
-    logger.info('[Settings Validation] Processing with settings:', JSON.stringify({
-      durationType: mixingSettings.durationType,
-      fixedDuration: mixingSettings.fixedDuration,
-      smartTrimming: mixingSettings.smartTrimming,
-      durationDistributionMode: mixingSettings.durationDistributionMode,
-      videoCount: clips.length,
-      outputCount: mixingSettings.outputCount
-    }));
-
-    // Track settings in monitor
-    processingMonitor.logStage('current-job', 'AUTO_MIXING_SETTINGS', {
-      settings: mixingSettings,
-      videoCount: clips.length,
-      hasSmartTrimming: mixingSettings.smartTrimming,
-      durationType: mixingSettings.durationType
-    });
+  /**
+   * Project groups with their planning clips for group mixing - undefined when it is off or no group has clips
+   */
+  private toPlanningGroups(project: any, settings: any, clips: VideoClip[]): VideoGroup[] | undefined {
+    if (!settings.groupMixing || !project.groups || project.groups.length === 0) return undefined;
 
-    // Prepare groups if group mixing is enabled
-    let groups = undefined;
-    if (settings.groupMixing && project.groups && project.groups.length > 0) {
-      groups = project.groups.map((group: any) => ({
+    return project.groups
+      .map((group: any) => ({
         id: group.id,
         name: group.name,
         order: group.order,
-        videos: clips.filter(clip => clip.groupId === group.id)
-      }));
+        videos: clips.filter(clip => clip.groupId === group.id),
+        minClips: group.minClips,
+        maxClips: group.maxClips,
+        optional: group.isOptional,
+        inclusionProbability: group.inclusionProbability,
+        durationBudget: group.durationBudget ?? undefined
+      }))
+      .filter((group: VideoGroup) => group.videos.length > 0);
+  }
 
-      // Filter out empty groups
-      groups = groups.filter((group: any) => group.videos.length > 0);
-    }
+  private async preGenerateVariants(project: any, settings: any, outputCount: number): Promise<VideoVariant[]> {
+    const clips = this.toPlanningClips(project.videos);
+    const mixingSettings = await this.buildMixingSettings(project, settings, outputCount);
 
-    // Use pre-generated variants if available (for Different Starting Video feature)
-    let variants;
-    if (preGeneratedVariants) {
-      logger.info(`[Auto-Mixing] Using pre-generated variants for Different Starting Video (${preGeneratedVariants.length} available)`);
-      variants = preGeneratedVariants;
-    } else {
-      // Generate variants based on new mixing settings (fallback)
-      logger.info(`[Auto-Mixing] Generating variants with ${clips.length} clips`);
-      variants = await this.autoMixingService.generateVariants(clips, mixingSettings, groups);
-      logger.info(`[Auto-Mixing] Generated ${variants.length} variants`);
+    // Group mixing plans one pick per group for the whole batch so exposure can be balanced
+    const groups = this.toPlanningGroups(project, settings, clips);
+
+    // Generate ALL variants at once
+    const variants = await this.autoMixingService.generateVariants(clips, mixingSettings, groups);
+
+    logger.info(`[Pre-Generation] Generated ${variants.length} total variants for Different Starting Video selection`);
+
+    return variants;
+  }
+
+  /**
+   * Render one output from the job's planned variants
+   */
+  private async processAutoMixing(
+    project: any,
+    index: number,
+    variants: VideoVariant[],
+    clipLoudness: Map<string, LoudnessMeasurement | null>
+  ): Promise<string> {
+    const videoFiles = project.videos;
+
+    // Enhanced logging for debugging
+    logger.info(`[Auto-Mixing] Starting auto-mixing for output ${index + 1}`);
+    logger.info(`[Auto-Mixing] Project "${project.name}" has ${videoFiles.length} video files`);
+
+    if (videoFiles.length === 0) {
+      throw new Error('No video files to process');
     }
 
+    // Allow single video processing - just duplicate or loop it
+    // No minimum requirement, we'll handle single video case in processing
+
+    // Log details of each video file
+    videoFiles.forEach((file: any, idx: number) => {
+      logger.info(`[Auto-Mixing] Video ${idx + 1}/${videoFiles.length}: ${file.originalName} - ID: ${file.id}, Path: ${file.path}, Duration: ${file.duration}s`);
+    });
+
+    const clips = this.toPlanningClips(videoFiles);
+
     if (index >= variants.length) {
       throw new Error(`Not enough variants generated. Requested: ${index + 1}, Available: ${variants.length}`);
     }
@@ -1158,6 +1430,14 @@ export class VideoProcessingService {
     const variant = variants[index];
     logger.info(`[Auto-Mixing] Selected variant ${variant.id} with ${variant.videoOrder.length} videos in order: [${variant.videoOrder.join(', ')}]`);
 
+    // Track settings in monitor
+    processingMonitor.logStage('current-job', 'AUTO_MIXING_SETTINGS', {
+      settings: variant.settings,
+      videoCount: clips.length,
+      hasSmartTrimming: variant.settings.smartTrimming,
+      durationType: variant.settings.durationType
+    });
+
     // Verify all videos in variant order exist in clips
     const clipIds = clips.map(c => c.id);
     variant.videoOrder.forEach(vid => {
@@ -1171,6 +1451,27 @@ export class VideoProcessingService {
     const outputPath = path.join(this.outputDir, outputFileName);
     logger.info(`[Auto-Mixing] Output will be saved to: ${outputPath}`);
 
+    // First loudness pass on the clips this output uses, so they are leveled linearly in the render
+    const loudnessPreset = variant.settings.loudnessPreset;
+    if (loudnessPreset && this.musicBedService.keepsOriginalAudio(variant.settings.audioMode)) {
+      for (const clip of clips.filter(c => variant.videoOrder.includes(c.id) && !c.isImage && c.hasAudio !== false)) {
+        clip.loudness = await this.measureClipLoudness(clipLoudness, clip.path, loudnessPreset, clip.sourceRange) ?? undefined;
+      }
+    }
+
+    // Retime the captions of the clips this output uses and write them next to the output
+    if (variant.settings.subtitleMode && variant.settings.subtitleMode !== 'off') {
+      for (const clip of clips.filter(c => variant.videoOrder.includes(c.id))) {
+        const subtitleFile = videoFiles.find((file: any) => file.id === clip.id)?.subtitleFile;
+        clip.subtitles = subtitleFile ? await this.subtitleService.loadCues(subtitleFile) : undefined;
+      }
+      if (this.autoMixingService.hasSubtitles(variant, clips)) {
+        const cues = this.autoMixingService.getSubtitleCues(variant, clips);
+        await fs.writeFile(this.subtitleService.getSidecarPath(outputPath), this.subtitleService.toSrt(cues), 'utf8');
+        logger.info(`[Subtitles] Wrote ${cues.length} retimed cues for output ${index + 1}`);
+      }
+    }
+
     // Build FFmpeg command for this variant
     logger.info(`[Auto-Mixing] Building FFmpeg command with ${clips.length} clips for variant`);
     const ffmpegCommand = this.autoMixingService.buildFFmpegCommand(
@@ -1186,7 +1487,62 @@ export class VideoProcessingService {
     return outputPath;
   }
 
-  private async executeFFmpegCommand(command: string[]): Promise<void> {
+  /**
+   * First loudnorm pass on an input. Returns null when there is no measurable audio.
+   */
+  private async measureLoudness(inputPath: string, preset: LoudnessPreset, range?: { start: number; end: number }): Promise<LoudnessMeasurement | null> {
+    const target = this.loudnessService.getTarget(preset);
+    try {
+      const stderr = await this.executeFFmpegCommand(this.loudnessService.buildMeasureArgs(inputPath, target, range));
+      return this.loudnessService.parseMeasurement(stderr);
+    } catch (error) {
+      logger.warn(`[Loudness] Could not measure ${path.basename(inputPath)}: ${error instanceof Error ? error.message : error}`);
+      return null;
+    }
+  }
+
+  /**
+   * Source clips are measured once per preset and job - outputs reuse the same clips many times
+   */
+  private async measureClipLoudness(
+    cache: Map<string, LoudnessMeasurement | null>,
+    clipPath: string,
+    preset: LoudnessPreset,
+    range?: { start: number; end: number }
+  ): Promise<LoudnessMeasurement | null> {
+    const key = range ? `${clipPath}|${range.start}-${range.end}|${preset}` : `${clipPath}|${preset}`;
+    if (!cache.has(key)) {
+      cache.set(key, await this.measureLoudness(clipPath, preset, range));
+    }
+    return cache.get(key) ?? null;
+  }
+
+  /**
+   * Two-pass loudnorm on a rendered output: measure, then apply a linear gain with the
+   * video stream copied. Returns the output loudness, or null when it has no audio.
+   */
+  private async normalizeOutputLoudness(outputPath: string, preset: LoudnessPreset): Promise<LoudnessStats | null> {
+    const measured = await this.measureLoudness(outputPath, preset);
+    if (!measured) {
+      return null;
+    }
+
+    const target = this.loudnessService.getTarget(preset);
+    const normalizedPath = outputPath.replace(/\.mp4$/, '.loudnorm.mp4');
+    try {
+      const stderr = await this.executeFFmpegCommand(this.loudnessService.buildApplyArgs(outputPath, normalizedPath, target, measured));
+      await fs.rename(normalizedPath, outputPath);
+
+      const stats = this.loudnessService.parseStats(stderr);
+      logger.info(`[Loudness] ${path.basename(outputPath)}: ${measured.inputI} -> ${stats?.integrated ?? '?'} LUFS (${preset})`);
+      return stats;
+    } catch (error) {
+      await fs.unlink(normalizedPath).catch(() => undefined);
+      throw error;
+    }
+  }
+
+  private async executeFFmpegCommand(command: string[], timeoutMs?: number): Promise<string> {
     return new Promise((resolve, reject) => {
       const ffmpegPath = process.env.FFMPEG_PATH || ffmpegStatic || 'ffmpeg';
       const child_process = require('child_process');
@@ -1204,6 +1560,14 @@ export class VideoProcessingService {
 
       const proc = child_process.spawn(ffmpegPath, command); // Use command array directly (no 'ffmpeg' in array)
 
+      // Optional compute cap - stop this process and fail the render
+      let timedOut = false;
+      const timer = timeoutMs ? setTimeout(() => {
+        timedOut = true;
+        proc.kill('SIGKILL');
+        reject(new Error(`FFmpeg render exceeded ${Math.round(timeoutMs / 1000)}s limit`));
+      }, timeoutMs) : undefined;
+
       let stderr = '';
       let fullStderr = ''; // Capture complete stderr for debugging
       let lastProgress = '';
@@ -1243,9 +1607,12 @@ export class VideoProcessingService {
       });
 
       proc.on('close', (code: number) => {
+        if (timer) clearTimeout(timer);
+        if (timedOut) return;
+
         if (code === 0) {
           logger.info('FFmpeg command completed successfully');
-          resolve();
+          resolve(fullStderr); // Analysis filters (loudnorm) report on stderr
         } else {
           // Build detailed error message
           let errorMessage = `FFmpeg process failed with exit code ${code}`;
@@ -1301,6 +1668,7 @@ export class VideoProcessingService {
       });
 
       proc.on('error', (err: Error) => {
+        if (timer) clearTimeout(timer);
         const errorMessage = `Failed to start FFmpeg process: ${err.message}`;
         logger.error(errorMessage, {
           error: err.message,
@@ -1314,7 +1682,13 @@ export class VideoProcessingService {
     });
   }
 
-  private async processManualMixing(project: any, settings: VideoMixingOptions, index: number): Promise<string> {
+  private async processManualMixing(
+    project: any,
+    settings: VideoMixingOptions,
+    index: number,
+    clipLoudness: Map<string, LoudnessMeasurement | null>,
+    preGeneratedVariants?: any[]
+  ): Promise<string> {
     // FIX #1: Add null check for groups
     if (!project.groups || !Array.isArray(project.groups)) {
       throw new Error('Project groups not loaded. Cannot perform manual mixing.');
@@ -1330,6 +1704,18 @@ export class VideoProcessingService {
     // FIX #2: Get upload directory from environment
     const uploadDir = process.env.UPLOAD_PATH || process.env.UPLOAD_DIR || 'uploads';
 
+    // The batch plan's group picks honor exposure bounds across all outputs, and only the auto pipeline
+    // renders everything a variant can carry - so planned variants always go through it
+    const plannedVariant = preGeneratedVariants?.[index % preGeneratedVariants.length];
+    if (plannedVariant) {
+      return this.processAutoMixing(project, index, preGeneratedVariants!, clipLoudness);
+    }
+
+    const picks: Array<{ video: any; groupName: string }> = [];
+    // Seeded jobs derive one random source per output so group picks are reproducible
+    const seed = normalizeSeed(settings.seed);
+    const random = seed !== undefined ? createSeededRandom(seed + index) : Math.random;
+
     // Select one random video from each group in order
     for (const group of groups) {
       // FIX #3: Add null check for group.videos
@@ -1338,8 +1724,10 @@ export class VideoProcessingService {
         continue;
       }
 
-      const randomVideo = group.videos[Math.floor(Math.random() * group.videos.length)];
+      picks.push({ video: group.videos[Math.floor(random() * group.videos.length)], groupName: group.name });
+    }
 
+    for (const { video: randomVideo, groupName } of picks) {
       // FIX #4: Construct proper absolute path
       let videoPath: string;
       if (randomVideo.path) {
@@ -1349,14 +1737,14 @@ export class VideoProcessingService {
         // Construct from filename
         videoPath = path.join(uploadDir, randomVideo.filename);
       } else {
-        logger.error(`[Manual Mixing] Video in group "${group.name}" has no path or filename:`, randomVideo);
+        logger.error(`[Manual Mixing] Video in group "${groupName}" has no path or filename:`, randomVideo);
         throw new Error(`Video ${randomVideo.id || 'unknown'} has no path or filename`);
       }
 
       // Ensure path is absolute
       const absolutePath = path.isAbsolute(videoPath) ? videoPath : path.resolve(videoPath);
 
-      logger.info(`[Manual Mixing] Selected video from group "${group.name}": ${randomVideo.originalName || randomVideo.filename} (${absolutePath})`);
+      logger.info(`[Manual Mixing] Selected video from group "${groupName}": ${randomVideo.originalName || randomVideo.filename} (${absolutePath})`);
 
       selectedVideos.push({
         ...randomVideo,
@@ -1531,71 +1919,6 @@ export class VideoProcessingService {
     });
   }
 
-  private async combineVideosWithTransitions(
-    clips: VideoClip[],
-    settings: VideoMixingOptions,
-    outputName: string,
-    transitionType: string
-  ): Promise<string> {
-    const timestamp = Date.now();
-    const outputPath = path.join(this.outputDir, `${outputName}_${timestamp}.${settings.outputFormat.toLowerCase()}`);
-
-    return new Promise((resolve, reject) => {
-      let command = ffmpeg();
-
-      // Add input videos from clips
-      clips.forEach(clip => {
-        command = command.input(clip.path);
-      });
-
-      // Generate advanced filter complex using auto-mixing service
-      // Note: This method is currently unused as transitions are disabled
-      const filterComplex: string[] = []; // this.autoMixingService.generateFilterComplex would go here
-
-      // Apply the intelligent filter complex
-      if (filterComplex.length > 0) {
-        command = command.complexFilter(filterComplex);
-        command = command.map('[outv]').map('[outa]');
-      }
-
-      // Apply quality settings
-      command = this.applyQualitySettings(command, settings.quality);
-
-      // Add metadata
-      command = this.addMetadata(command, settings.metadata, clips);
-
-      // Add watermark if specified
-      if (settings.watermark) {
-        command = this.applyWatermarkToCommand(command, settings.watermark);
-      }
-
-      // Set output
-      command = command.output(outputPath);
-
-      // Handle events with enhanced progress tracking
-      command
-        .on('start', (commandLine) => {
-          logger.info(`FFmpeg enhanced mixing started: ${commandLine}`);
-          logger.info(`Using ${transitionType} transitions for ${clips.length} clips`);
-        })
-        .on('progress', (progress) => {
-          logger.debug(`Enhanced mixing progress: ${progress.percent}%`);
-        })
-        .on('end', () => {
-          logger.info(`Enhanced video mixing completed: ${outputPath}`);
-          resolve(outputPath);
-        })
-        .on('error', (err, stdout, stderr) => {
-          logger.error('Enhanced mixing FFmpeg error:', err);
-          logger.error('FFmpeg stderr:', stderr);
-          reject(new Error(`Enhanced video processing failed: ${err.message}`));
-        });
-
-      // Start processing
-      command.run();
-    });
-  }
-
   private configureOutputSettings(command: ffmpeg.FfmpegCommand, settings: VideoMixingOptions, videoCount: number): ffmpeg.FfmpegCommand {
     // Build filter complex with quality settings integrated
     const filterComplex = this.buildFilterComplex(settings, videoCount);
@@ -1730,7 +2053,12 @@ export class VideoProcessingService {
     return command;
   }
 
-  private async saveOutputFiles(jobId: string, outputPaths: string[], settings: any): Promise<void> {
+  private async saveOutputFiles(
+    jobId: string,
+    outputPaths: string[],
+    settings: any,
+    details: Map<string, OutputDetails> = new Map()
+  ): Promise<void> {
     const outputFiles = await Promise.all(
       outputPaths.map(async (outputPath, index) => {
         const stats = await fs.stat(outputPath);
@@ -1748,6 +2076,8 @@ export class VideoProcessingService {
         const duration = metadata.format.duration || 0;
         const videoStream = metadata.streams.find((s: any) => s.codec_type === 'video');
 
+        const { loudness, headline, subtitleFile, microVariation } = details.get(outputPath) || {};
+
         // Check if this is voice-over mode
         const isVoiceOverMode = settings.voiceOverMode === 'enabled' || settings.voiceOverMode === true;
 
@@ -1758,6 +2088,15 @@ export class VideoProcessingService {
           resolution: `${videoStream?.width || 0}x${videoStream?.height || 0}`,
           created_at: new Date().toISOString()
         };
+        if (headline) {
+          settingsObj.headline = headline;
+        }
+        if (subtitleFile) {
+          settingsObj.subtitleFile = subtitleFile;
+        }
+        if (microVariation) {
+          settingsObj.microVariation = microVariation;
+        }
 
         // Add voice-over specific metadata if applicable - DISABLED
         /*
@@ -1779,7 +2118,10 @@ export class VideoProcessingService {
           height: videoStream?.height || 0,
           fps: videoStream?.r_frame_rate ? eval(videoStream.r_frame_rate) : 30,
           bitrate: parseInt(metadata.format.bit_rate || '0'),
-          settings: JSON.stringify(settingsObj)
+          settings: JSON.stringify(settingsObj),
+          loudnessLufs: loudness?.integrated ?? null,
+          truePeakDb: loudness?.truePeak ?? null,
+          loudnessRange: loudness?.range ?? null
         };
       })
     );
@@ -1790,6 +2132,28 @@ export class VideoProcessingService {
     });
   }
 
+  /**
+   * Merge a section (diversity, coverage, ...) into the job's result JSON
+   */
+  private async saveJobResult(jobId: string, section: Record<string, any>): Promise<void> {
+    try {
+      const job = await prisma.processingJob.findUnique({
+        where: { id: jobId },
+        select: { result: true }
+      });
+
+      const existing = job?.result ? DbHelper.deserializeJson(job.result) || {} : {};
+
+      await prisma.processingJob.update({
+        where: { id: jobId },
+        data: { result: DbHelper.serializeJson({ ...existing, ...section }) as string }
+      });
+    } catch (error) {
+      // Reporting must never fail the job itself
+      logger.warn(`Failed to save result for job ${jobId}:`, error);
+    }
+  }
+
   private async updateJobStatus(jobId: string, status: JobStatusType, progress: number, errorMessage?: string): Promise<void> {
     const updateData: any = {
       status,
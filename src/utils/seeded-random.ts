@@ -0,0 +1,47 @@
+/**
+ * Seeded Random Number Generation
+ * Deterministic PRNG used to make variant generation reproducible
+ */
+
+export type RandomFn = () => number;
+
+const MAX_SEED = 0xffffffff;
+
+/**
+ * Generate a fresh seed for a job that did not request one
+ */
+export const generateSeed = (): number => {
+  return Math.floor(Math.random() * MAX_SEED) + 1;
+};
+
+/**
+ * Normalize a user supplied seed (number or numeric string) to an unsigned 32-bit integer.
+ * Returns undefined for missing or invalid values so callers can fall back to a fresh seed.
+ */
+export const normalizeSeed = (value: unknown): number | undefined => {
+  if (value === null || value === undefined || value === '') {
+    return undefined;
+  }
+
+  const num = typeof value === 'number' ? value : Number(value);
+  if (!Number.isFinite(num) || num < 0) {
+    return undefined;
+  }
+
+  return Math.floor(num) % (MAX_SEED + 1);
+};
+
+/**
+ * Create a mulberry32 generator returning floats in [0, 1), same contract as Math.random
+ */
+export const createSeededRandom = (seed: number): RandomFn => {
+  let state = seed >>> 0;
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
\ No newline at end of file
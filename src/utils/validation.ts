@@ -37,7 +37,8 @@ export const ProjectUpdateSchema = ProjectCreateSchema.partial();
 
 export const VideoUploadSchema = z.object({
   projectId: z.string().min(1, 'Project ID is required'),
-  groupId: z.string().min(1).optional()
+  groupId: z.string().min(1).optional(),
+  imageDuration: z.coerce.number().positive().max(30).optional() // Seconds each uploaded still is shown
 });
 
 export const CreditPurchaseSchema = z.object({
@@ -67,6 +68,8 @@ export const validateFileType = (mimetype: string): boolean => {
     'video/x-matroska',
     'video/avi',
     'video/webm',
+    'image/png',  // Stills become clips with pan/zoom motion
+    'image/jpeg',
     'application/octet-stream' // Allow generic binary for video files
   ];
   return allowedTypes.includes(mimetype);
@@ -0,0 +1,66 @@
+import { AspectFillService, DEFAULT_ASPECT_FILL } from '@/services/aspect-fill.service';
+
+jest.mock('@/utils/logger', () => ({
+  __esModule: true,
+  default: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() }
+}));
+
+describe('AspectFillService', () => {
+  let service: AspectFillService;
+
+  beforeEach(() => {
+    service = new AspectFillService();
+  });
+
+  describe('parseSettings', () => {
+    it('should normalize hex colors and clamp focal points', () => {
+      expect(service.parseSettings({ mode: 'smart-crop', padColor: '#1a2b3c', focalX: 1.4, focalY: '0.25' }))
+        .toEqual({ mode: 'smart-crop', padColor: '0x1A2B3C', focalX: 1, focalY: 0.25 });
+    });
+
+    it('should fall back to the black letterbox for invalid fields', () => {
+      expect(service.parseSettings({ mode: 'stretch', padColor: 'red;drawtext', focalX: '' })).toEqual(DEFAULT_ASPECT_FILL);
+      expect(service.parseSettings({ padColor: 'White' }).padColor).toBe('white');
+    });
+  });
+
+  describe('resolve', () => {
+    it('should apply a clip mode and focal point over the job settings', () => {
+      const job = service.parseSettings({ mode: 'blur', padColor: 'white' });
+
+      expect(service.resolve(job, { mode: 'smart-crop', focalX: 0.2 })).toEqual({ mode: 'smart-crop', padColor: 'white', focalX: 0.2, focalY: 0.5 });
+      expect(service.resolve(undefined)).toEqual(DEFAULT_ASPECT_FILL);
+      expect(service.isCustom(undefined, [{ focalX: 0.2 }])).toBe(false);
+      expect(service.isCustom(undefined, [{ mode: 'crop' }])).toBe(true);
+    });
+  });
+
+  describe('buildFilters', () => {
+    it('should crop around the focal point without leaving the source', () => {
+      const fill = service.parseSettings({ mode: 'smart-crop', focalX: 0.3, focalY: 0.5 });
+
+      expect(service.buildFilters(fill, 1080, 1920, '0')).toEqual([
+        'scale=1080:1920:force_original_aspect_ratio=increase',
+        'crop=1080:1920:max(0\\,min(iw-ow\\,iw*0.3-ow/2)):max(0\\,min(ih-oh\\,ih*0.5-oh/2))'
+      ]);
+    });
+
+    it('should blur a scaled copy behind the fitted clip with labels unique to the stream', () => {
+      const [blur] = service.buildFilters(service.parseSettings({ mode: 'blur' }), 1080, 1920, '2');
+
+      expect(blur.split(';')).toEqual([
+        'split=2[bg2][fg2]',
+        '[bg2]scale=1080:1920:force_original_aspect_ratio=increase,crop=1080:1920,boxblur=luma_radius=min(h\\,w)/20:luma_power=2[bgb2]',
+        '[fg2]scale=1080:1920:force_original_aspect_ratio=decrease[fgs2]',
+        '[bgb2][fgs2]overlay=(W-w)/2:(H-h)/2'
+      ]);
+    });
+
+    it('should letterbox with the pad color', () => {
+      expect(service.buildFilters(service.parseSettings({ padColor: '#ffffff' }), 1920, 1080, '0')).toEqual([
+        'scale=1920:1080:force_original_aspect_ratio=decrease',
+        'pad=1920:1080:(ow-iw)/2:(oh-ih)/2:0xFFFFFF'
+      ]);
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,892 @@
+import { AutoMixingService, MixingSettings, VideoClip } from '@/services/auto-mixing.service';
+import { TextOverlayService } from '@/services/text-overlay.service';
+import { SubtitleService } from '@/services/subtitle.service';
+import { WatermarkService } from '@/services/watermark.service';
+import { SceneDetectionService } from '@/services/scene-detection.service';
+import { SpeedRampService } from '@/services/speed-ramp.service';
+
+jest.mock('@/utils/logger', () => ({
+  __esModule: true,
+  default: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() }
+}));
+
+const createClips = (count: number): VideoClip[] =>
+  Array.from({ length: count }, (_, i) => ({
+    id: `clip-${i + 1}`,
+    path: `/uploads/clip-${i + 1}.mp4`,
+    duration: 5 + i,
+    metadata: {},
+    originalName: `clip-${i + 1}.mp4`
+  }));
+
+const createSettings = (overrides: Partial<MixingSettings> = {}): MixingSettings => ({
+  orderMixing: true,
+  speedMixing: true,
+  differentStartingVideo: false,
+  speedRange: { min: 0.5, max: 2 },
+  allowedSpeeds: [0.75, 1, 1.25],
+  groupMixing: false,
+  groupMixingMode: 'strict',
+  metadataSource: 'normal',
+  bitrate: 'medium',
+  resolution: 'hd',
+  frameRate: 30,
+  outputCount: 5,
+  ...overrides
+});
+
+const toPlan = (variants: Awaited<ReturnType<AutoMixingService['generateVariants']>>) =>
+  variants.map(v => ({ order: v.videoOrder, speeds: Array.from(v.speeds.entries()) }));
+
+describe('AutoMixingService', () => {
+  let service: AutoMixingService;
+
+  beforeEach(() => {
+    service = new AutoMixingService();
+  });
+
+  describe('generateVariants with seed', () => {
+    it('should produce identical plans for the same seed', async () => {
+      const clips = createClips(4);
+      const settings = createSettings({ differentStartingVideo: true, seed: 1234 });
+
+      const first = await service.generateVariants(clips, settings);
+      const second = await new AutoMixingService().generateVariants(clips, settings);
+
+      expect(toPlan(first)).toEqual(toPlan(second));
+    });
+
+    it('should produce identical group picks for the same seed', async () => {
+      const clips = createClips(6);
+      const groups = [
+        { id: 'g1', name: 'Hook', order: 0, videos: clips.slice(0, 3) },
+        { id: 'g2', name: 'Body', order: 1, videos: clips.slice(3) }
+      ];
+      const settings = createSettings({ groupMixing: true, groupMixingMode: 'random', seed: 42 });
+
+      const first = await service.generateVariants(clips, settings, groups);
+      const second = await service.generateVariants(clips, settings, groups);
+
+      expect(toPlan(first)).toEqual(toPlan(second));
+    });
+  });
+
+  describe('generateVariants with minVariantDistance', () => {
+    it('should keep every pair of variants above the threshold', async () => {
+      const clips = createClips(5);
+      const settings = createSettings({ outputCount: 8, minVariantDistance: 0.3, seed: 7 });
+
+      const variants = await service.generateVariants(clips, settings);
+      const report = service.getDiversityReport(variants, settings);
+
+      expect(variants).toHaveLength(8);
+      expect(report.minDistance).toBeGreaterThanOrEqual(0.3);
+    });
+
+    it('should keep resampled variants at 1x when speed mixing is off', async () => {
+      const clips = createClips(5);
+      const settings = createSettings({ speedMixing: false, outputCount: 8, minVariantDistance: 0.3, seed: 7 });
+
+      const variants = await service.generateVariants(clips, settings);
+
+      expect(variants).toHaveLength(8);
+      variants.forEach(v => v.speeds.forEach(speed => expect(speed).toBe(1)));
+    });
+
+    it('should refuse when the threshold cannot be reached', async () => {
+      const clips = createClips(2);
+      const settings = createSettings({ orderMixing: false, speedMixing: false, outputCount: 5, minVariantDistance: 0.9, seed: 7 });
+
+      await expect(service.generateVariants(clips, settings)).rejects.toThrow('minimum difference');
+    });
+  });
+
+  describe('generateVariants with pinned clips', () => {
+    it('should keep pinned clips at their positions across order permutations', async () => {
+      const clips = createClips(6);
+      clips[2].pin = { position: 'first' };
+      clips[0].pin = { position: 'last' };
+      clips[4].pin = { position: 'index', index: 1 };
+      const settings = createSettings({ outputCount: 6, seed: 3 });
+
+      const variants = await service.generateVariants(clips, settings);
+
+      expect(new Set(variants.map(v => v.videoOrder.join('|'))).size).toBe(6);
+      variants.forEach(v => {
+        expect(v.videoOrder[0]).toBe('clip-3');
+        expect(v.videoOrder[1]).toBe('clip-5');
+        expect(v.videoOrder[5]).toBe('clip-1');
+      });
+    });
+
+    it('should rotate only free clips when differentStartingVideo is used without order mixing', async () => {
+      const clips = createClips(4);
+      clips[3].pin = { position: 'last' };
+      const settings = createSettings({ orderMixing: false, differentStartingVideo: true, outputCount: 3, seed: 3 });
+
+      const variants = await service.generateVariants(clips, settings);
+
+      expect(new Set(variants.map(v => v.videoOrder[0])).size).toBe(3);
+      variants.forEach(v => expect(v.videoOrder[3]).toBe('clip-4'));
+    });
+  });
+
+  describe('generateVariants with ordering rules', () => {
+    it('should enforce before, never-adjacent and at-most-one-of rules in every output', async () => {
+      const clips = createClips(6);
+      const settings = createSettings({
+        outputCount: 10,
+        seed: 11,
+        orderingRules: [
+          { type: 'before', clipIds: ['clip-4', 'clip-2'] },
+          { type: 'never-adjacent', clipIds: ['clip-1', 'clip-3'] },
+          { type: 'at-most-one-of', clipIds: ['clip-5', 'clip-6'] }
+        ]
+      });
+
+      const variants = await service.generateVariants(clips, settings);
+
+      expect(variants).toHaveLength(10);
+      variants.forEach(({ videoOrder }) => {
+        expect(videoOrder.indexOf('clip-4')).toBeLessThan(videoOrder.indexOf('clip-2'));
+        expect(Math.abs(videoOrder.indexOf('clip-1') - videoOrder.indexOf('clip-3'))).not.toBe(1);
+        expect(videoOrder.filter(id => id === 'clip-5' || id === 'clip-6')).toHaveLength(1);
+      });
+    });
+
+    it('should report rules that cannot be satisfied', () => {
+      const clips = createClips(4);
+      clips[0].pin = { position: 'first' };
+
+      expect(service.validateOrderingRules(clips, [
+        { type: 'before', clipIds: ['clip-1', 'clip-2'] },
+        { type: 'before', clipIds: ['clip-2', 'clip-1'] }
+      ])).toContain('loop');
+      expect(service.validateOrderingRules(clips, [
+        { type: 'before', clipIds: ['clip-2', 'clip-1'] }
+      ])).toContain('No clip order');
+      expect(service.validateOrderingRules(clips, [
+        { type: 'never-adjacent', clipIds: ['clip-2', 'clip-3'] }
+      ])).toBeNull();
+    });
+  });
+
+  describe('generateVariants with exposure bounds', () => {
+    const createGroups = (clips: VideoClip[]) => [
+      { id: 'g1', name: 'Hook', order: 0, videos: clips.slice(0, 4) },
+      { id: 'g2', name: 'Body', order: 1, videos: clips.slice(4) }
+    ];
+
+    it('should balance clip appearances within each group', async () => {
+      const clips = createClips(6);
+      const groups = createGroups(clips);
+      const settings = createSettings({ groupMixing: true, balanceExposure: true, outputCount: 8, seed: 21 });
+
+      const variants = await service.generateVariants(clips, settings, groups);
+      const coverage = service.getCoverageReport(variants, clips);
+
+      expect(coverage.slice(0, 4).map(c => c.outputs)).toEqual([2, 2, 2, 2]);
+      expect(coverage.slice(4).map(c => c.outputs)).toEqual([4, 4]);
+    });
+
+    it('should honor minimum and maximum appearances', async () => {
+      const clips = createClips(6);
+      const groups = createGroups(clips);
+      const settings = createSettings({ groupMixing: true, minClipAppearances: 2, maxClipAppearances: 5, outputCount: 9, seed: 4 });
+
+      const variants = await service.generateVariants(clips, settings, groups);
+
+      service.getCoverageReport(variants, clips).forEach(entry => {
+        expect(entry.outputs).toBeGreaterThanOrEqual(2);
+        expect(entry.outputs).toBeLessThanOrEqual(5);
+      });
+    });
+
+    it('should reject bounds the group sizes cannot reach', () => {
+      const groups = createGroups(createClips(6));
+
+      expect(service.validateExposure(groups, { outputCount: 6, minClipAppearances: 2 })).toContain('Hook');
+      expect(service.validateExposure(groups, { outputCount: 8, maxClipAppearances: 3 })).toContain('Body');
+      expect(service.validateExposure(groups, { outputCount: 8, minClipAppearances: 2, maxClipAppearances: 4 })).toBeNull();
+    });
+  });
+
+  describe('generateVariants with per-group clip counts', () => {
+    const createGroups = (clips: VideoClip[]) => [
+      { id: 'g1', name: 'Hook', order: 0, videos: clips.slice(0, 4), minClips: 2, maxClips: 3 },
+      { id: 'g2', name: 'Proof', order: 1, videos: clips.slice(4, 6), optional: true, inclusionProbability: 0.5, durationBudget: 4 },
+      { id: 'g3', name: 'CTA', order: 2, videos: clips.slice(6) }
+    ];
+
+    it('should take a varying number of distinct clips and skip optional groups in some outputs', async () => {
+      const clips = createClips(8);
+      const settings = createSettings({ groupMixing: true, outputCount: 20, seed: 8 });
+
+      const variants = await service.generateVariants(clips, settings, createGroups(clips));
+      const hookCounts = variants.map(v => v.videoOrder.filter(id => ['clip-1', 'clip-2', 'clip-3', 'clip-4'].includes(id)).length);
+      const withProof = variants.filter(v => v.videoOrder.some(id => id === 'clip-5' || id === 'clip-6'));
+
+      variants.forEach((v, index) => {
+        expect(new Set(v.videoOrder).size).toBe(v.videoOrder.length);
+        expect(v.videoOrder.slice(0, hookCounts[index]).every(id => Number(id.split('-')[1]) <= 4)).toBe(true);
+        expect(v.videoOrder[v.videoOrder.length - 1]).toMatch(/^clip-[78]$/);
+        expect(v.settings.groupDurationBudgets).toEqual({ g2: 4 });
+      });
+      expect(new Set(hookCounts)).toEqual(new Set([2, 3]));
+      expect(withProof.length).toBeGreaterThan(0);
+      expect(withProof.length).toBeLessThan(20);
+    });
+
+    it('should estimate output length from clip counts and inclusion probability', () => {
+      const clips = createClips(8);
+      const groups = createGroups(clips);
+
+      // Hook 2.5 x 6.5s + Proof 0.5 x 9.5s + CTA 11.5s
+      expect(service.estimateOutputDuration(clips, { groupMixing: true }, groups)).toBeCloseTo(32.5);
+      expect(service.estimateOutputDuration(clips, { groupMixing: true, durationType: 'fixed', fixedDuration: 20 }, groups)).toBe(20);
+      expect(service.validateExposure(groups, { outputCount: 10, minClipAppearances: 1 })).toContain('optional');
+    });
+  });
+
+  describe('generateVariants with exhaustive group mixing', () => {
+    const createGroups = (clips: VideoClip[]) => [
+      { id: 'g1', name: 'Hook', order: 0, videos: clips.slice(0, 2) },
+      { id: 'g2', name: 'Body', order: 1, videos: clips.slice(2, 5) },
+      { id: 'g3', name: 'CTA', order: 2, videos: clips.slice(5) }
+    ];
+
+    it('should emit every combination once and stop when they run out', async () => {
+      const clips = createClips(7);
+      const settings = createSettings({ groupMixing: true, groupMixingMode: 'exhaustive', outputCount: 20, seed: 2 });
+
+      const variants = await service.generateVariants(clips, settings, createGroups(clips));
+
+      expect(variants).toHaveLength(12);
+      expect(new Set(variants.map(v => v.videoOrder.join('|'))).size).toBe(12);
+      variants.forEach(v => expect(v.videoOrder).toHaveLength(3));
+    });
+
+    it('should balance clip usage within a partial batch', async () => {
+      const clips = createClips(7);
+      const settings = createSettings({ groupMixing: true, groupMixingMode: 'exhaustive', outputCount: 6, seed: 2 });
+
+      const variants = await service.generateVariants(clips, settings, createGroups(clips));
+      const coverage = service.getCoverageReport(variants, clips);
+
+      expect(coverage.map(c => c.outputs)).toEqual([3, 3, 2, 2, 2, 3, 3]);
+    });
+
+    it('should count combinations including clip ranges and optional groups', () => {
+      const clips = createClips(7);
+      const groups = createGroups(clips);
+      const settings = createSettings({ groupMixing: true, groupMixingMode: 'exhaustive' });
+
+      expect(service.calculateVariantCount(7, settings, groups)).toBe(12);
+      // Body takes 1-2 of 3 clips (6 options), CTA may be left out (3 options)
+      groups[1] = { ...groups[1], minClips: 1, maxClips: 2 } as typeof groups[1];
+      groups[2] = { ...groups[2], optional: true } as typeof groups[2];
+      expect(service.calculateVariantCount(7, settings, groups)).toBe(36);
+    });
+  });
+
+  describe('getVariantPlan', () => {
+    it('should report smart-trim points and durations that fill the fixed duration', async () => {
+      const clips = createClips(3);
+      const settings = createSettings({
+        speedMixing: false,
+        outputCount: 1,
+        seed: 1,
+        durationType: 'fixed',
+        fixedDuration: 12,
+        smartTrimming: true,
+        durationDistributionMode: 'equal',
+        resolution: 'hd'
+      });
+
+      const variants = await service.generateVariants(clips, settings);
+      const plan = service.getVariantPlan(variants, clips);
+
+      expect(plan).toHaveLength(1);
+      plan.forEach((output, index) => {
+        expect(output.clips.map(c => c.clipId)).toEqual(variants[index].videoOrder);
+        expect(output.expectedDuration).toBeCloseTo(12, 1);
+        output.clips.forEach(clip => {
+          expect(clip.trimEnd).toBeGreaterThan(clip.trimStart);
+          expect(clip.duration).toBeCloseTo((clip.trimEnd - clip.trimStart) / clip.speed, 2);
+        });
+        expect(output.resolution).toEqual({ width: 1280, height: 720 });
+      });
+    });
+  });
+
+  describe('transitions', () => {
+    const transitionSettings = createSettings({
+      speedMixing: false,
+      outputCount: 1,
+      seed: 5,
+      transitionMixing: true,
+      transitionTypes: ['fade'],
+      transitionDuration: { min: 1, max: 1 }
+    });
+
+    it('should place xfade offsets after each overlap and shorten the output by them', async () => {
+      const clips = createClips(3).map(clip => ({ ...clip, path: __filename }));
+      const variants = await service.generateVariants(clips, transitionSettings);
+      const [plan] = service.getVariantPlan(variants, clips);
+      const lengths = plan.clips.map(c => c.duration);
+
+      expect(plan.cuts.map(c => c.transition)).toEqual(['fade', 'fade']);
+      expect(plan.cuts[0].offset).toBeCloseTo(lengths[0] - 1, 3);
+      expect(plan.cuts[1].offset).toBeCloseTo(lengths[0] + lengths[1] - 2, 3);
+      expect(plan.expectedDuration).toBeCloseTo(lengths.reduce((a, b) => a + b, 0) - 2, 3);
+
+      const command = service.buildFFmpegCommand(variants[0], clips, 'output.mp4');
+      const filterComplex = command[command.indexOf('-filter_complex') + 1];
+      expect(filterComplex).toContain(`xfade=transition=fade:duration=1:offset=${plan.cuts[0].offset}`);
+      expect(filterComplex).toContain(`xfade=transition=fade:duration=1:offset=${plan.cuts[1].offset}`);
+      expect(filterComplex.match(/acrossfade=d=1/g)).toHaveLength(2);
+    });
+
+    it('should fall back to a hard cut next to a clip too short for the overlap', async () => {
+      const clips = createClips(3).map((clip, i) => ({ ...clip, duration: i === 1 ? 2 : clip.duration }));
+      const variants = await service.generateVariants(clips, { ...transitionSettings, orderMixing: false });
+      const [plan] = service.getVariantPlan(variants, clips);
+
+      expect(plan.clips.map(c => c.clipId)).toEqual(['clip-1', 'clip-2', 'clip-3']);
+      expect(plan.cuts.every(cut => cut.transition === 'cut' && cut.duration === 0)).toBe(true);
+      expect(plan.expectedDuration).toBeCloseTo(5 + 2 + 7, 3);
+    });
+
+    it('should cross-fade silence for a clip without an audio stream', async () => {
+      const clips = createClips(3).map((clip, i) => ({ ...clip, path: __filename, hasAudio: i !== 1 }));
+      const variants = await service.generateVariants(clips, { ...transitionSettings, orderMixing: false });
+
+      const command = service.buildFFmpegCommand(variants[0], clips, 'output.mp4');
+      const filterComplex = command[command.indexOf('-filter_complex') + 1];
+      const silentTrack = filterComplex.split(';').find(filter => filter.endsWith('[a1]'))!;
+
+      expect(filterComplex).not.toContain('[1:a');
+      expect(silentTrack).toMatch(/^anullsrc=channel_layout=stereo:sample_rate=48000,atrim=duration=6\.000/);
+      expect(silentTrack).toContain('apad,atrim=end=');
+      expect(filterComplex).toContain('[a0][a1]acrossfade=d=1');
+    });
+  });
+
+  describe('buildFFmpegCommand with the proxy profile', () => {
+    it('should render a small labelled preview without final encode settings', async () => {
+      // The command builder checks sources on disk
+      const clips = createClips(2).map(clip => ({ ...clip, path: __filename }));
+      const [variant] = await service.generateVariants(clips, createSettings({ outputCount: 1, seed: 3, aspectRatio: 'tiktok', metadataSource: 'capcut' }));
+
+      const proxy = service.buildFFmpegCommand(variant, clips, 'preview.mp4', 'proxy');
+      const filterComplex = proxy[proxy.indexOf('-filter_complex') + 1];
+
+      expect(filterComplex).toContain('scale=202:360');
+      expect(filterComplex).toContain("drawtext=text='PREVIEW'");
+      expect(proxy[proxy.indexOf('-preset') + 1]).toBe('ultrafast');
+      expect(proxy[proxy.indexOf('-t') + 1]).toBe('15');
+      expect(proxy).not.toContain('-metadata');
+      expect(proxy).not.toContain('-b:v');
+      // Preview caching hashes every argument but the output path, so it must stay last
+      expect(proxy[proxy.length - 1]).toBe('preview.mp4');
+      expect(service.buildFFmpegCommand(variant, clips, 'preview.mp4', 'proxy')).toEqual(proxy);
+
+      const final = service.buildFFmpegCommand(variant, clips, 'output.mp4');
+      expect(final[final.indexOf('-filter_complex') + 1]).toContain('scale=1080:1920');
+      expect(final).not.toContain('-t');
+    });
+  });
+
+  describe('color grading', () => {
+    it('should grade each output within bounds and rotate LUTs through the batch', async () => {
+      const clips = createClips(3).map(clip => ({ ...clip, path: __filename }));
+      const colorLuts = [
+        { id: 'lut-a', name: 'Warm', path: 'uploads/luts/warm.cube' },
+        { id: 'lut-b', name: 'Teal', path: 'uploads/luts/teal.cube' }
+      ];
+      const settings = createSettings({ outputCount: 4, seed: 8, colorVariations: true, colorIntensity: 'low', colorLuts });
+
+      const variants = await service.generateVariants(clips, settings);
+      const plans = service.getVariantPlan(variants, clips);
+
+      expect(plans.map(plan => plan.grade.lutName)).toEqual(['Warm', 'Teal', 'Warm', 'Teal']);
+      plans.forEach(plan => {
+        expect(Math.abs(plan.grade.brightness)).toBeLessThanOrEqual(0.05);
+        expect(Math.abs(plan.grade.contrast - 1)).toBeLessThanOrEqual(0.08);
+      });
+
+      const command = service.buildFFmpegCommand(variants[1], clips, 'output.mp4');
+      const filterComplex = command[command.indexOf('-filter_complex') + 1];
+      expect(filterComplex).toContain('[outv]eq=brightness=');
+      expect(filterComplex).toContain("lut3d=file='uploads/luts/teal.cube'[graded]");
+      expect(command[command.indexOf('-map') + 1]).toBe('[graded]');
+    });
+  });
+
+  describe('music bed', () => {
+    const musicTracks = [
+      { id: 'track-a', name: 'Upbeat', path: 'uploads/music/upbeat.mp3', duration: 8 },
+      { id: 'track-b', name: 'Chill', path: 'uploads/music/chill.mp3', duration: 120 }
+    ];
+
+    it('should rotate tracks and duck a looped bed under the original audio', async () => {
+      const clips = createClips(2).map(clip => ({ ...clip, path: __filename }));
+      const settings = createSettings({
+        outputCount: 4,
+        seed: 4,
+        speedMixing: false,
+        durationType: 'fixed',
+        fixedDuration: 10,
+        audioMode: 'music+original',
+        musicTracks,
+        musicBed: { volume: 0.25, fade: 2, ducking: true }
+      });
+
+      const variants = await service.generateVariants(clips, settings);
+      const trackIds = variants.map(v => v.musicTrackId);
+      expect(trackIds[0]).not.toBe(trackIds[1]);
+      expect(trackIds[0]).toBe(trackIds[2]);
+
+      const command = service.buildFFmpegCommand(variants[0], clips, 'output.mp4');
+      const filterComplex = command[command.indexOf('-filter_complex') + 1];
+      const track = musicTracks.find(t => t.id === variants[0].musicTrackId)!;
+
+      expect(command.slice(command.indexOf('-stream_loop'), command.indexOf('-stream_loop') + 4)).toEqual(['-stream_loop', '-1', '-i', track.path]);
+      expect(filterComplex).toContain('[2:a]aresample=48000');
+      expect(filterComplex).toContain('atrim=duration=10.000,afade=t=in:st=0:d=2.00,afade=t=out:st=8.000:d=2.00');
+      expect(filterComplex).toContain('[music][speech]sidechaincompress');
+      expect(filterComplex).toContain('[original][ducked]amix=inputs=2:duration=first');
+      expect(command[command.lastIndexOf('-map') + 1]).toBe('[mixa]');
+    });
+
+    it('should replace the clip audio in music-only mode', async () => {
+      const clips = createClips(2).map(clip => ({ ...clip, path: __filename }));
+      const [variant] = await service.generateVariants(clips, createSettings({
+        outputCount: 1,
+        seed: 4,
+        speedMixing: false,
+        audioMode: 'music',
+        musicTracks: [musicTracks[1]]
+      }));
+
+      const command = service.buildFFmpegCommand(variant, clips, 'output.mp4');
+      const filterComplex = command[command.indexOf('-filter_complex') + 1];
+
+      expect(filterComplex).not.toContain('[0:a?]');
+      expect(filterComplex).not.toContain('amix');
+      expect(filterComplex).toContain('atrim=duration=11.000');
+      expect(command[command.lastIndexOf('-map') + 1]).toBe('[mixa]');
+      expect(command).not.toContain('-an');
+    });
+  });
+
+  describe('loudness normalization', () => {
+    it('should level measured clips linearly and fall back to dynamic loudnorm', async () => {
+      const clips = createClips(2).map(clip => ({ ...clip, path: __filename }));
+      clips[0].loudness = { inputI: -27.3, inputTp: -8.1, inputLra: 6.2, inputThresh: -37.6, targetOffset: 0.4 };
+      const [variant] = await service.generateVariants(clips, createSettings({
+        outputCount: 1,
+        seed: 2,
+        orderMixing: false,
+        speedMixing: false,
+        loudnessPreset: 'social'
+      }));
+
+      const command = service.buildFFmpegCommand(variant, clips, 'output.mp4');
+      const filterComplex = command[command.indexOf('-filter_complex') + 1];
+
+      expect(filterComplex).toContain('loudnorm=I=-14:TP=-1:LRA=11:measured_I=-27.3:measured_TP=-8.1:measured_LRA=6.2:measured_thresh=-37.6:offset=0.4:linear=true,aresample=48000');
+      expect(filterComplex).toMatch(/\[1:a\?\][^;]*loudnorm=I=-14:TP=-1:LRA=11,aresample=48000/);
+    });
+  });
+
+  describe('headline overlays', () => {
+    it('should give every headline its share of the batch and escape it for drawtext', async () => {
+      const clips = createClips(3).map(clip => ({ ...clip, path: __filename }));
+      const textOverlay = new TextOverlayService().parseSettings({
+        headlines: ["Don't miss: 50% off", 'Second [hook]', 'Third'],
+        assignment: 'balanced',
+        style: { color: '#FFCC00', position: 'bottom', start: 0.5, end: 4 }
+      });
+      const variants = await service.generateVariants(clips, createSettings({ outputCount: 6, seed: 8, textOverlay }));
+
+      const counts = new Map<string, number>();
+      variants.forEach(variant => counts.set(variant.headline!, (counts.get(variant.headline!) || 0) + 1));
+      expect([...counts.values()]).toEqual([2, 2, 2]);
+
+      const variant = variants.find(v => v.headline === "Don't miss: 50% off")!;
+      const command = service.buildFFmpegCommand(variant, clips, 'output.mp4');
+      const filterComplex = command[command.indexOf('-filter_complex') + 1];
+
+      expect(filterComplex).toContain("drawtext=text=Don\\\\\\'t miss\\\\: 50% off:expansion=none:fontsize=");
+      expect(filterComplex).toContain("fontcolor=0xFFCC00");
+      expect(filterComplex).toContain("enable='between(t,0.5,4)'");
+      expect(service.getVariantPlan([variant], clips)[0].headline).toBe("Don't miss: 50% off");
+    });
+  });
+
+  describe('subtitles', () => {
+    it('should retime clip captions to trims and speeds and mux or burn the sidecar', async () => {
+      const subtitleService = new SubtitleService();
+      const clips = createClips(2).map(clip => ({ ...clip, path: __filename }));
+      clips[0].subtitles = subtitleService.parse('WEBVTT\n\n00:00.500 --> 00:02.000 align:start\n<v Host>Hello</v>\n\n00:04.000 --> 00:06.000\nCut off');
+      clips[1].subtitles = subtitleService.parse('1\n00:00:01,000 --> 00:00:03,000\nFast\n');
+
+      const settings = createSettings({ outputCount: 1, seed: 3, orderMixing: false, speedMixing: false, subtitleMode: 'soft' });
+      const [variant] = await service.generateVariants(clips, settings);
+      variant.speeds.set('clip-2', 2);
+
+      const cues = service.getSubtitleCues(variant, clips);
+      expect(cues).toEqual([
+        { start: 0.5, end: 2, text: 'Hello' },
+        { start: 4, end: 5, text: 'Cut off' },
+        { start: 5.5, end: 6.5, text: 'Fast' }
+      ]);
+
+      const soft = service.buildFFmpegCommand(variant, clips, 'output.mp4');
+      expect(soft.join(' ')).toContain('-i output.srt -filter_complex');
+      expect(soft.join(' ')).toContain('-map 2:s -c:s mov_text');
+
+      const burned = service.buildFFmpegCommand({ ...variant, settings: { ...settings, subtitleMode: 'burn' } }, clips, 'output.mp4');
+      expect(burned[burned.indexOf('-filter_complex') + 1]).toContain("[outv]subtitles=filename='output.srt':force_style='FontName=Arial");
+      expect(burned).not.toContain('mov_text');
+    });
+  });
+
+  describe('watermark', () => {
+    it('should overlay the project logo after the music input and rotate positions across outputs', async () => {
+      const clips = createClips(2).map(clip => ({ ...clip, path: __filename }));
+      const watermark = new WatermarkService().parseSettings({
+        logoId: 'logo-1',
+        positions: ['top-left', 'bottom-right', 'not-a-position'],
+        opacity: 0.5,
+        scale: 0.2
+      })!;
+
+      const settings = createSettings({
+        outputCount: 4,
+        seed: 11,
+        watermark,
+        watermarkLogo: { id: 'logo-1', name: 'Brand', path: 'uploads/logos/brand.png' },
+        audioMode: 'music',
+        musicTracks: [{ id: 'track-a', name: 'Upbeat', path: 'uploads/music/upbeat.mp3', duration: 60 }]
+      });
+      const variants = await service.generateVariants(clips, settings);
+      const positions = variants.map(v => v.watermarkPosition);
+
+      expect(new Set(positions)).toEqual(new Set(['top-left', 'bottom-right']));
+      positions.forEach((position, i) => expect(position).not.toBe(positions[i + 1]));
+
+      const command = service.buildFFmpegCommand(variants[0], clips, 'output.mp4');
+      const filterComplex = command[command.indexOf('-filter_complex') + 1];
+      expect(command.join(' ')).toContain('-i uploads/music/upbeat.mp3 -i uploads/logos/brand.png');
+      expect(filterComplex).toContain('[3:v]scale=');
+      expect(filterComplex).toContain('colorchannelmixer=aa=0.5[logo]');
+      expect(filterComplex).toContain('[logo]overlay=');
+    });
+  });
+
+  describe('still images', () => {
+    it('should expand an image into a pan/zoom stream with silent audio that trims like a video clip', async () => {
+      const clips = createClips(2).map(clip => ({ ...clip, path: __filename }));
+      clips[1] = { ...clips[1], duration: 4, isImage: true };
+
+      const settings = createSettings({
+        outputCount: 3,
+        seed: 21,
+        orderMixing: false,
+        speedMixing: false,
+        imageMotion: 'strong',
+        durationType: 'fixed',
+        fixedDuration: 6,
+        smartTrimming: true
+      });
+      const variants = await service.generateVariants(clips, settings);
+      variants.forEach(variant => {
+        expect([...variant.imageMotions!.keys()]).toEqual(['clip-2']);
+      });
+
+      const [plan] = service.getVariantPlan([variants[0]], clips);
+      expect(plan.clips[1].motion).toBe(variants[0].imageMotions!.get('clip-2'));
+      expect(plan.clips[1].trimEnd).toBeLessThanOrEqual(4);
+
+      const command = service.buildFFmpegCommand(variants[0], clips, 'output.mp4');
+      const filterComplex = command[command.indexOf('-filter_complex') + 1];
+      expect(filterComplex).toMatch(/\[1:v\]scale=\d+:\d+:force_original_aspect_ratio=decrease,pad=.*,setsar=1,zoompan=z='[^']+':x='[^']+':y='[^']+':d=\d+:s=\d+x\d+:fps=30/);
+      expect(filterComplex).toContain(';anullsrc=channel_layout=stereo:sample_rate=48000,atrim=duration=4.000');
+      expect(filterComplex).not.toContain('[1:a?]');
+    });
+  });
+
+  describe('aspect fill', () => {
+    it('should fit clips with the job fill mode unless a clip overrides it', async () => {
+      const clips = createClips(2).map(clip => ({ ...clip, path: __filename }));
+      clips[1].fill = { mode: 'smart-crop', focalX: 0.2 };
+
+      const settings = createSettings({
+        outputCount: 1,
+        orderMixing: false,
+        speedMixing: false,
+        aspectRatio: 'tiktok',
+        aspectFill: { mode: 'blur', padColor: 'black', focalX: 0.5, focalY: 0.5 }
+      });
+      const [variant] = await service.generateVariants(clips, settings);
+      const command = service.buildFFmpegCommand(variant, clips, 'output.mp4');
+      const filterComplex = command[command.indexOf('-filter_complex') + 1];
+
+      expect(filterComplex).toContain('[0:v]split=2[bg0][fg0];[bg0]scale=1080:1920:force_original_aspect_ratio=increase,crop=1080:1920,boxblur=');
+      expect(filterComplex).toContain('[bgb0][fgs0]overlay=(W-w)/2:(H-h)/2,fps=30');
+      expect(filterComplex).toContain('[1:v]scale=1080:1920:force_original_aspect_ratio=increase,crop=1080:1920:max(0\\,min(iw-ow\\,iw*0.2-ow/2)):max(0\\,min(ih-oh\\,ih*0.5-oh/2))');
+      expect(filterComplex).not.toContain('pad=');
+
+      expect(service.getAspectRatioSettings('tiktok').fillModes).toEqual(['pad', 'blur', 'crop', 'smart-crop']);
+      expect(service.getAspectRatioSettings('youtube').filter).toBe('scale=1920:1080:force_original_aspect_ratio=decrease,pad=1920:1080:(ow-iw)/2:(oh-ih)/2:black');
+    });
+  });
+
+  describe('bumpers', () => {
+    it('should rotate intros and join them around the mix, cut to the duration left for it', async () => {
+      const clips = createClips(2).map(clip => ({ ...clip, path: __filename }));
+      const settings = createSettings({
+        outputCount: 2,
+        orderMixing: false,
+        speedMixing: false,
+        durationType: 'fixed',
+        fixedDuration: 8,
+        smartTrimming: false,
+        bumpers: { introIds: ['intro-a', 'intro-b'], outroIds: ['outro'], countInDuration: true },
+        introBumpers: [
+          { id: 'intro-a', name: 'Logo sting', path: 'uploads/bumpers/a.mp4', duration: 2, hasAudio: true },
+          { id: 'intro-b', name: 'Silent sting', path: 'uploads/bumpers/b.mp4', duration: 2, hasAudio: false }
+        ],
+        outroBumpers: [{ id: 'outro', name: 'End card', path: 'uploads/bumpers/end.mp4', duration: 1.5, hasAudio: true }]
+      });
+
+      const variants = await service.generateVariants(clips, settings);
+      expect(new Set(variants.map(v => v.introId))).toEqual(new Set(['intro-a', 'intro-b']));
+      expect(variants.every(v => v.outroId === 'outro')).toBe(true);
+
+      const [plan] = service.getVariantPlan(variants, clips);
+      expect(plan.expectedDuration).toBe(8);
+      expect(plan.outro).toEqual({ id: 'outro', name: 'End card', duration: 1.5 });
+
+      const silent = variants.find(v => v.introId === 'intro-b')!;
+      const command = service.buildFFmpegCommand(silent, clips, 'output.mp4');
+      const filterComplex = command[command.indexOf('-filter_complex') + 1];
+
+      expect(command.filter(arg => arg === '-i')).toHaveLength(4);
+      expect(command[command.lastIndexOf('-i') + 1]).toBe('uploads/bumpers/end.mp4');
+      expect(command).not.toContain('-t');
+      expect(filterComplex).toContain('anullsrc=channel_layout=stereo:sample_rate=48000,atrim=duration=2.000[introa]');
+      expect(filterComplex).toContain('[outv]trim=duration=4.500,setpts=PTS-STARTPTS,format=yuv420p,setsar=1[bodyv]');
+      expect(filterComplex).toContain('[3:a]aresample=48000');
+      expect(filterComplex).toContain('[introv][introa][bodyv][bodya][outrov][outroa]concat=n=3:v=1:a=1[bumperv][bumpera]');
+    });
+
+    it('should add the average bumper lengths to the estimate unless they count in the fixed duration', () => {
+      const clips = createClips(2);
+      const bumperSettings = {
+        groupMixing: false,
+        bumpers: { introIds: ['intro-a', 'intro-b'], outroIds: ['outro'], countInDuration: false },
+        introBumpers: [
+          { id: 'intro-a', name: 'Short sting', path: 'uploads/bumpers/a.mp4', duration: 1, hasAudio: true },
+          { id: 'intro-b', name: 'Long sting', path: 'uploads/bumpers/b.mp4', duration: 3, hasAudio: true }
+        ],
+        outroBumpers: [{ id: 'outro', name: 'End card', path: 'uploads/bumpers/end.mp4', duration: 1.5, hasAudio: true }]
+      };
+
+      expect(service.estimateOutputDuration(clips, { ...bumperSettings, durationType: 'fixed', fixedDuration: 8 })).toBe(11.5);
+      expect(service.estimateOutputDuration(clips, {
+        ...bumperSettings,
+        bumpers: { ...bumperSettings.bumpers, countInDuration: true },
+        durationType: 'fixed',
+        fixedDuration: 8
+      })).toBe(8);
+      expect(service.estimateOutputDuration(clips, { ...bumperSettings, durationType: 'original' })).toBe(5 + 6 + 3.5);
+      expect(service.estimateOutputDuration(clips, { groupMixing: false, durationType: 'fixed', fixedDuration: 8 })).toBe(8);
+    });
+  });
+
+  describe('scene splitting', () => {
+    it('should seek virtual clips into their shared file', async () => {
+      const segments = new SceneDetectionService().proposeSegments([4.8, 5.5, 12, 19.6], 20.5, 2);
+      const clips = segments.map((segment, i) => ({
+        id: `scene-${i}`,
+        path: __filename,
+        duration: segment.end - segment.start,
+        metadata: {},
+        sourceRange: segment
+      }));
+      const [variant] = await service.generateVariants(clips, createSettings({ outputCount: 1, orderMixing: false, speedMixing: false }));
+      const command = service.buildFFmpegCommand(variant, clips, 'output.mp4');
+
+      const firstInput = command.indexOf('-ss');
+      expect(command.slice(firstInput, firstInput + 18)).toEqual([
+        '-ss', '0.000', '-t', '4.800', '-i', __filename,
+        '-ss', '4.800', '-t', '7.200', '-i', __filename,
+        '-ss', '12.000', '-t', '8.500', '-i', __filename
+      ]);
+    });
+  });
+
+  describe('speed ramps', () => {
+    it('should retime ramped clips step by step and keep their audio in step with the video', async () => {
+      const settings = new SpeedRampService().parseSettings({ curves: ['ease-in-out'], peakSpeed: 2, audio: 'segments' })!;
+      const clips = createClips(2).map(clip => ({ ...clip, path: __filename }));
+      const [variant] = await service.generateVariants(clips, createSettings({
+        outputCount: 1,
+        orderMixing: false,
+        speedMixing: false,
+        speedRamps: settings
+      }));
+      expect(variant.speedRamps?.size).toBe(1);
+
+      const [rampedId] = Array.from(variant.speedRamps!.keys());
+      const [plan] = service.getVariantPlan([variant], clips);
+      const ramped = plan.clips.find(clip => clip.clipId === rampedId)!;
+      expect(ramped.ramp).toBe('ease-in-out');
+      expect(ramped.speed).toBeGreaterThan(1);
+      expect(ramped.duration).toBeLessThan(ramped.trimEnd - ramped.trimStart);
+
+      const command = service.buildFFmpegCommand(variant, clips, 'output.mp4');
+      const filterComplex = command[command.indexOf('-filter_complex') + 1];
+      expect(filterComplex).toContain("setpts=PTS-STARTPTS,setpts='(if(lt(T,");
+      expect(filterComplex).toMatch(/asplit=8\[ramp\dp0\]/);
+      expect(filterComplex).toMatch(/concat=n=8:v=0:a=1,apad,atrim=end=[\d.]+\[a\d\]/);
+    });
+  });
+
+  describe('duration fill', () => {
+    it('should loop, slow down or freeze short clips up to the fixed duration and warn without a fill', async () => {
+      const clips = createClips(2).map(clip => ({ ...clip, path: __filename }));
+      const base = { outputCount: 1, orderMixing: false, speedMixing: false, durationType: 'fixed' as const, fixedDuration: 20, smartTrimming: false };
+
+      expect(service.getDurationFillWarning(clips, createSettings(base))).toContain('about 11.0s, short of the 20s');
+      expect(service.getDurationFillWarning(clips, createSettings({ ...base, durationFill: 'slow', speedRange: { min: 0.75, max: 2 } })))
+        .toContain('only reaches about 14.7s');
+      expect(service.getDurationFillWarning(clips, createSettings({ ...base, durationFill: 'loop' }))).toBeNull();
+
+      const [looped] = await service.generateVariants(clips, createSettings({ ...base, durationFill: 'loop' }));
+      const [loopPlan] = service.getVariantPlan([looped], clips);
+      expect(loopPlan.clips.map(clip => clip.clipId)).toEqual(['clip-1', 'clip-2', 'clip-1', 'clip-2']);
+      expect(loopPlan.expectedDuration).toBe(20);
+      expect(loopPlan.durationFill).toEqual({ strategy: 'loop', seconds: 9 });
+      expect(service.buildFFmpegCommand(looped, clips, 'output.mp4').filter(arg => arg === '-i')).toHaveLength(4);
+
+      const [slowed] = await service.generateVariants(clips, createSettings({ ...base, durationFill: 'slow' }));
+      const [slowPlan] = service.getVariantPlan([slowed], clips);
+      expect(slowPlan.clips.map(clip => clip.speed)).toEqual([0.55, 0.55]);
+      expect(slowPlan.expectedDuration).toBe(20);
+
+      const [frozen] = await service.generateVariants(clips, createSettings({ ...base, durationFill: 'freeze' }));
+      const command = service.buildFFmpegCommand(frozen, clips, 'output.mp4');
+      const filterComplex = command[command.indexOf('-filter_complex') + 1];
+      expect(filterComplex).toContain('[outv]tpad=stop_mode=clone:stop_duration=9.000[heldv]');
+      expect(filterComplex).toContain('[outa]apad=pad_dur=9.000[helda]');
+      expect(command[command.indexOf('-t') + 1]).toBe('20');
+    });
+  });
+
+  describe('metadata profiles', () => {
+    it('should rotate profiles across outputs and write unquoted container and stream tags', async () => {
+      const uploadedAt = '2025-06-01T10:00:00.000Z';
+      const clips = createClips(3).map(clip => ({ ...clip, path: __filename, metadata: { uploadedAt } }));
+      const metadataProfiles = [
+        { id: 'studio', name: 'Studio', encoder: 'Studio Encoder', handlerName: 'Studio Handler', creationTime: 'source' as const, creationWindow: 30 },
+        { id: 'phone', name: 'Phone', comment: 'Shot on phone', creationTime: 'random' as const, creationWindow: 7 }
+      ];
+
+      const variants = await service.generateVariants(clips, createSettings({ outputCount: 4, seed: 5, metadataProfiles }));
+      expect(new Set(variants.map(variant => variant.metadataProfileId))).toEqual(new Set(['studio', 'phone']));
+      expect(variants[0].metadataProfileId).not.toBe(variants[1].metadataProfileId);
+
+      const studio = variants.find(variant => variant.metadataProfileId === 'studio')!;
+      const command = service.buildFFmpegCommand(studio, clips, 'output.mp4');
+      expect(command).toContain('encoder=Studio Encoder');
+      expect(command).toContain(`creation_time=${uploadedAt}`);
+      expect(command[command.indexOf('-metadata:s:v') + 1]).toBe('handler_name=Studio Handler');
+
+      const phone = variants.find(variant => variant.metadataProfileId === 'phone')!;
+      const [plan] = service.getVariantPlan([phone], clips);
+      const age = Date.now() - new Date(plan.metadata!.creationTime!).getTime();
+      expect(plan.metadata?.name).toBe('Phone');
+      expect(age).toBeGreaterThanOrEqual(0);
+      expect(age).toBeLessThanOrEqual(7 * 24 * 60 * 60 * 1000);
+
+      const [legacy] = await service.generateVariants(clips, createSettings({ outputCount: 1, metadataSource: 'vn' }));
+      expect(service.buildFFmpegCommand(legacy, clips, 'output.mp4')).toContain('comment=Made with VN');
+    });
+  });
+
+  describe('micro variations', () => {
+    it('should pick variations within bounds and apply them to the picture, mirrored clips, audio and clip starts', async () => {
+      const clips = createClips(3).map((clip, i) => ({ ...clip, path: __filename, allowMirror: i === 0 }));
+      const microVariations = {
+        zoom: { min: 1, max: 3 },
+        mirror: true,
+        hue: { min: 1, max: 5 },
+        grain: { min: 2, max: 10 },
+        pitch: { min: 0.5, max: 3 },
+        startOffset: { min: 1, max: 6 }
+      };
+
+      const variants = await service.generateVariants(clips, createSettings({ outputCount: 4, seed: 11, speedMixing: false, microVariations }));
+      expect(variants).toHaveLength(4);
+      variants.forEach(variant => {
+        const variation = variant.microVariation!;
+        expect(variation.zoom).toBeGreaterThanOrEqual(1);
+        expect(variation.zoom).toBeLessThanOrEqual(3);
+        expect(Math.abs(variation.hue)).toBeGreaterThanOrEqual(1);
+        expect(Math.abs(variation.hue)).toBeLessThanOrEqual(5);
+        expect(variation.grain).toBeGreaterThanOrEqual(2);
+        expect(variation.grain).toBeLessThanOrEqual(10);
+        expect(Math.abs(variation.pitch)).toBeGreaterThanOrEqual(0.5);
+        expect(Math.abs(variation.pitch)).toBeLessThanOrEqual(3);
+        variation.mirrored.forEach(id => expect(id).toBe('clip-1'));
+        Object.values(variation.startOffsets).forEach(frames => {
+          expect(frames).toBeGreaterThanOrEqual(1);
+          expect(frames).toBeLessThanOrEqual(6);
+        });
+      });
+
+      const variant = {
+        ...variants[0],
+        videoOrder: ['clip-1', 'clip-2', 'clip-3'],
+        microVariation: { zoom: 2, mirrored: ['clip-1'], hue: -3, grain: 4, pitch: 1, startOffsets: { 'clip-2': 6 } }
+      };
+      const command = service.buildFFmpegCommand(variant, clips, 'output.mp4');
+      const filter = command[command.indexOf('-filter_complex') + 1];
+      expect(filter.match(/hflip/g)).toHaveLength(1);
+      expect(filter).toMatch(/scale=\d+:\d+,crop=\d+:\d+,hue=h=-3,noise=alls=4:allf=t\[varied\]/);
+      expect(filter).toContain('asetrate=48480,aresample=48000');
+      expect(command.slice(command.indexOf('-ss'), command.indexOf('-ss') + 4)).toEqual(['-ss', '0.200', '-t', '5.800']);
+
+      const [plan] = service.getVariantPlan([variant], clips);
+      expect(plan.clips.find(clip => clip.clipId === 'clip-2')?.duration).toBeCloseTo(5.8);
+    });
+  });
+
+  describe('generateVariants for large projects', () => {
+    it('should sample unique orders for 30 clips without enumerating permutations', async () => {
+      const clips = createClips(30);
+      const settings = createSettings({ outputCount: 50, seed: 99 });
+
+      const variants = await service.generateVariants(clips, settings);
+      const orderKeys = new Set(variants.map(v => v.videoOrder.join('|')));
+
+      expect(variants).toHaveLength(50);
+      expect(orderKeys.size).toBe(50);
+      variants.forEach(v => expect([...v.videoOrder].sort()).toEqual(clips.map(c => c.id).sort()));
+    });
+
+    it('should rotate starting videos when differentStartingVideo is enabled', async () => {
+      const clips = createClips(12);
+      const settings = createSettings({ outputCount: 12, differentStartingVideo: true, seed: 5 });
+
+      const variants = await service.generateVariants(clips, settings);
+      const starts = new Set(variants.map(v => v.videoOrder[0]));
+
+      expect(starts.size).toBe(12);
+    });
+  });
+});
\ No newline at end of file
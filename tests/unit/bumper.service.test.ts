@@ -0,0 +1,108 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { BumperService } from '@/services/bumper.service';
+
+jest.mock('fs/promises');
+jest.mock('@/utils/logger', () => ({
+  __esModule: true,
+  default: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() }
+}));
+
+const mockFs = fs as jest.Mocked<typeof fs>;
+
+const intro = { id: 'intro-1', name: 'Sting', path: 'uploads/bumpers/sting.mp4', duration: 2, hasAudio: false };
+const outro = { id: 'outro-1', name: 'End card', path: 'uploads/bumpers/end.mp4', duration: 1.5, hasAudio: true };
+
+describe('BumperService', () => {
+  let service: BumperService;
+
+  beforeEach(() => {
+    service = new BumperService();
+    jest.clearAllMocks();
+  });
+
+  describe('parseSettings', () => {
+    it('should keep unique string ids and return undefined when nothing is selected', () => {
+      expect(service.parseSettings({ introIds: ['a', 'a', '', 3], outroIds: 'b', countInDuration: 1 }))
+        .toEqual({ introIds: ['a'], outroIds: [], countInDuration: true });
+      expect(service.parseSettings({ introIds: [], outroIds: [] })).toBeUndefined();
+      expect(service.parseSettings(undefined)).toBeUndefined();
+    });
+  });
+
+  describe('resolveFiles', () => {
+    it('should pick the selected project bumpers of one kind', () => {
+      const projectBumpers = [
+        { id: 'intro-1', kind: 'intro', name: 'Sting', filename: 'sting.mp4', duration: 2, hasAudio: true },
+        { id: 'outro-1', kind: 'outro', name: 'End card', filename: 'end.mp4', duration: 1.5, hasAudio: true }
+      ];
+
+      expect(service.resolveFiles(projectBumpers, ['intro-1', 'outro-1'], 'intro')).toEqual([
+        { id: 'intro-1', name: 'Sting', path: path.join('uploads', 'bumpers', 'sting.mp4'), duration: 2, hasAudio: true }
+      ]);
+      expect(service.resolveFiles(projectBumpers, undefined, 'outro')).toEqual([]);
+      expect(service.resolveFiles(undefined, ['outro-1'], 'outro')).toEqual([]);
+    });
+  });
+
+  describe('buildJoinFilters', () => {
+    it('should give silent bumpers a silent track and hold the outro to fill the output', () => {
+      const filters = service.buildJoinFilters({
+        video: 'outv',
+        audio: 'outa',
+        intro: { bumper: intro, inputIndex: 2 },
+        outro: { bumper: outro, inputIndex: 3 },
+        outroHold: 1,
+        width: 1080,
+        height: 1920,
+        fps: 30,
+        videoOutput: 'bumperv',
+        audioOutput: 'bumpera'
+      });
+
+      expect(filters).toContain('anullsrc=channel_layout=stereo:sample_rate=48000,atrim=duration=2.000[introa]');
+      expect(filters.find(filter => filter.startsWith('[3:v]'))).toMatch(/fps=30,tpad=stop_mode=clone:stop_duration=1\.000,format=yuv420p,setsar=1\[outrov\]$/);
+      expect(filters).toContain('[3:a]aresample=48000,aformat=sample_fmts=fltp:sample_rates=48000:channel_layouts=stereo,apad,atrim=duration=2.500[outroa]');
+      expect(filters).toContain('[outa]anull[bodya]');
+      expect(filters[filters.length - 1]).toBe('[introv][introa][bodyv][bodya][outrov][outroa]concat=n=3:v=1:a=1[bumperv][bumpera]');
+    });
+
+    it('should join video only when the mix is silent', () => {
+      const filters = service.buildJoinFilters({
+        video: 'outv',
+        intro: { bumper: intro, inputIndex: 1 },
+        limit: 6,
+        width: 1920,
+        height: 1080,
+        fps: 25,
+        videoOutput: 'bumperv',
+        audioOutput: 'bumpera'
+      });
+
+      expect(filters.some(filter => filter.includes('anullsrc'))).toBe(false);
+      expect(filters).toContain('[outv]trim=duration=6.000,setpts=PTS-STARTPTS,format=yuv420p,setsar=1[bodyv]');
+      expect(filters[filters.length - 1]).toBe('[introv][bodyv]concat=n=2:v=1:a=0[bumperv]');
+    });
+  });
+
+  describe('storeBumper', () => {
+    it('should move the upload into the bumper directory under a sanitized name', async () => {
+      mockFs.mkdir.mockResolvedValue(undefined);
+      mockFs.rename.mockResolvedValue(undefined);
+
+      const stored = await service.storeBumper('Logo Sting.mp4', '/tmp/upload-1');
+
+      expect(stored.name).toBe('Logo Sting');
+      expect(stored.path).toBe(path.join('uploads', 'bumpers', stored.filename));
+      expect(mockFs.rename).toHaveBeenCalledWith('/tmp/upload-1', stored.path);
+    });
+  });
+
+  describe('discardUpload', () => {
+    it('should ignore uploads that are already gone', async () => {
+      mockFs.unlink.mockRejectedValue(new Error('ENOENT'));
+
+      await expect(service.discardUpload('/tmp/upload-1')).resolves.toBeUndefined();
+    });
+  });
+});
\ No newline at end of file
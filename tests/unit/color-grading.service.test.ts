@@ -0,0 +1,51 @@
+import { ColorGradingService, NEUTRAL_GRADE } from '@/services/color-grading.service';
+
+jest.mock('@/utils/logger', () => ({
+  __esModule: true,
+  default: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() }
+}));
+
+const createCube = (size: number, rows = size * size * size) =>
+  ['TITLE "Warm"', `LUT_3D_SIZE ${size}`, 'DOMAIN_MIN 0 0 0', '# rows', ...Array.from({ length: rows }, () => '0.5 0.25 1')].join('\r\n');
+
+describe('ColorGradingService', () => {
+  let service: ColorGradingService;
+
+  beforeEach(() => {
+    service = new ColorGradingService();
+  });
+
+  describe('parseCube', () => {
+    it('should return the size of a valid 3D LUT', () => {
+      expect(service.parseCube(createCube(2))).toBe(2);
+    });
+
+    it('should reject 1D LUTs, bad sizes, bad rows and a wrong row count', () => {
+      expect(() => service.parseCube('LUT_1D_SIZE 4')).toThrow('1D LUTs are not supported');
+      expect(() => service.parseCube(createCube(1))).toThrow('LUT_3D_SIZE must be between 2 and 128');
+      expect(() => service.parseCube(`${createCube(2, 7)}\n0.5 x 1`)).toThrow('Invalid LUT row: "0.5 x 1"');
+      expect(() => service.parseCube(createCube(2, 7))).toThrow('LUT has 7 rows, expected 8 for size 2');
+    });
+  });
+
+  describe('storeLut', () => {
+    it('should reject malformed files before writing them', async () => {
+      await expect(service.storeLut('warm.cube', Buffer.from('LUT_3D_SIZE 2\n0 0'))).rejects.toThrow('Invalid LUT row');
+    });
+  });
+
+  describe('buildFilter', () => {
+    it('should chain eq, hue and an escaped LUT path', () => {
+      const grade = { brightness: 0.05, contrast: 1.1, saturation: 0.9, hue: -4, lutId: 'lut-1' };
+
+      expect(service.isNeutral(grade)).toBe(false);
+      expect(service.buildFilter(grade, 'C:\\luts\\warm.cube'))
+        .toBe("eq=brightness=0.05:contrast=1.1:saturation=0.9,hue=h=-4,lut3d=file='C\\:/luts/warm.cube'");
+    });
+
+    it('should return an empty chain for a neutral grade', () => {
+      expect(service.isNeutral(NEUTRAL_GRADE)).toBe(true);
+      expect(service.buildFilter(NEUTRAL_GRADE)).toBe('');
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,71 @@
+import { DurationFillService } from '@/services/duration-fill.service';
+import { HARD_CUT } from '@/services/transition.service';
+
+jest.mock('@/utils/logger', () => ({
+  __esModule: true,
+  default: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() }
+}));
+
+describe('DurationFillService', () => {
+  let service: DurationFillService;
+
+  beforeEach(() => {
+    service = new DurationFillService();
+  });
+
+  describe('parseStrategy', () => {
+    it('should fall back to none for unknown strategies', () => {
+      expect(service.parseStrategy('freeze')).toBe('freeze');
+      expect(service.parseStrategy('rewind')).toBe('none');
+      expect(service.parseStrategy(undefined)).toBe('none');
+    });
+  });
+
+  describe('getLoopPasses', () => {
+    it('should play the sequence enough times to reach the target, capped at ten passes', () => {
+      expect(service.getLoopPasses(11, 20)).toBe(2);
+      expect(service.getLoopPasses(10, 20.03)).toBe(2);
+      expect(service.getLoopPasses(1, 60)).toBe(10);
+      expect(service.getLoopPasses(0, 20)).toBe(1);
+    });
+  });
+
+  describe('loopSequence', () => {
+    it('should repeat the order and join passes with hard cuts', () => {
+      expect(service.loopSequence(['a', 'b'], ['fade'], [0.5], 2)).toEqual({
+        order: ['a', 'b', 'a', 'b'],
+        transitions: ['fade', HARD_CUT, 'fade'],
+        durations: [0.5, 0, 0.5]
+      });
+    });
+  });
+
+  describe('getSlowdown', () => {
+    it('should stretch clips but not transition overlaps to reach the target', () => {
+      expect(service.getSlowdown(11, 20, 0)).toBeCloseTo(0.55, 6);
+      expect(service.getSlowdown(9, 19, 1)).toBeCloseTo(0.5, 6);
+      expect(service.getSlowdown(20, 15, 0)).toBe(1);
+      expect(service.getSlowdown(0, 15, 0)).toBe(1);
+    });
+  });
+
+  describe('getSpeedFloor', () => {
+    it('should use the speed range minimum and default to half speed', () => {
+      expect(service.getSpeedFloor({ min: 0.75 })).toBe(0.75);
+      expect(service.getSpeedFloor({ min: 0 })).toBe(0.5);
+      expect(service.getSpeedFloor()).toBe(0.5);
+    });
+  });
+
+  describe('buildHoldFilters', () => {
+    it('should hold the last frame and pad audio only when there is audio', () => {
+      const options = { video: 'outv', seconds: 9, videoOutput: 'heldv', audioOutput: 'helda' };
+
+      expect(service.buildHoldFilters({ ...options, audio: 'outa' })).toEqual([
+        '[outv]tpad=stop_mode=clone:stop_duration=9.000[heldv]',
+        '[outa]apad=pad_dur=9.000[helda]'
+      ]);
+      expect(service.buildHoldFilters(options)).toEqual(['[outv]tpad=stop_mode=clone:stop_duration=9.000[heldv]']);
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,64 @@
+import { ImageClipService, DEFAULT_IMAGE_DURATION } from '@/services/image-clip.service';
+
+jest.mock('@/utils/logger', () => ({
+  __esModule: true,
+  default: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() }
+}));
+
+describe('ImageClipService', () => {
+  let service: ImageClipService;
+
+  beforeEach(() => {
+    service = new ImageClipService();
+  });
+
+  describe('isImage', () => {
+    it('should recognise PNG and JPEG by mime type or extension', () => {
+      expect(service.isImage('image/png', 'still')).toBe(true);
+      expect(service.isImage('application/octet-stream', 'STILL.JPG')).toBe(true);
+      expect(service.isImage('image/gif', 'still.gif')).toBe(false);
+    });
+  });
+
+  describe('parseDisplayDuration', () => {
+    it('should clamp to 1-30 seconds and default invalid values', () => {
+      expect(service.parseDisplayDuration('4.25')).toBe(4.3);
+      expect(service.parseDisplayDuration(0.2)).toBe(1);
+      expect(service.parseDisplayDuration(90)).toBe(30);
+      expect(service.parseDisplayDuration('long')).toBe(DEFAULT_IMAGE_DURATION);
+    });
+  });
+
+  describe('parseMotionLevel', () => {
+    it('should default unknown levels to subtle', () => {
+      expect(service.parseMotionLevel('strong')).toBe('strong');
+      expect(service.parseMotionLevel('wild')).toBe('subtle');
+      expect(service.pickMotion(() => 0.99)).toBe('pan-down');
+    });
+  });
+
+  describe('buildVideoFilters', () => {
+    const options = { duration: 2.5, width: 1080, height: 1920, fps: 30 };
+
+    it('should zoom in over the whole display duration', () => {
+      expect(service.getSourceSize(1080, 1920)).toEqual({ width: 2160, height: 3840 });
+      expect(service.buildVideoFilters('zoom-in', 'strong', options)).toEqual([
+        'setsar=1',
+        "zoompan=z='1+0.250*on/75':x='iw/2-(iw/zoom/2)':y='ih/2-(ih/zoom/2)':d=75:s=1080x1920:fps=30"
+      ]);
+    });
+
+    it('should pan across the zoomed frame and hold still without motion', () => {
+      expect(service.buildVideoFilters('pan-left', 'subtle', options)[1])
+        .toBe("zoompan=z='1.1':x='(iw-iw/zoom)*(1-on/75)':y='ih/2-(ih/zoom/2)':d=75:s=1080x1920:fps=30");
+      expect(service.buildVideoFilters('pan-left', 'off', options)[1]).toBe("zoompan=z='1':x='0':y='0':d=75:s=1080x1920:fps=30");
+      expect(service.buildVideoFilters(undefined, 'strong', options)[1]).toContain("z='1':x='0':y='0'");
+    });
+  });
+
+  describe('buildSilentAudio', () => {
+    it('should generate stereo silence of the display duration', () => {
+      expect(service.buildSilentAudio(2.5)).toBe('anullsrc=channel_layout=stereo:sample_rate=48000,atrim=duration=2.500');
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,83 @@
+import { LoudnessService } from '@/services/loudness.service';
+
+const report = (fields: Record<string, string>) =>
+  `[Parsed_loudnorm_0 @ 0x1]\n${JSON.stringify(fields, null, 2)}\n`;
+
+describe('LoudnessService', () => {
+  let service: LoudnessService;
+
+  beforeEach(() => {
+    service = new LoudnessService();
+  });
+
+  describe('parsePreset', () => {
+    it('should accept known presets only', () => {
+      expect(service.parsePreset('broadcast')).toBe('broadcast');
+      expect(service.parsePreset('loud')).toBeUndefined();
+      expect(service.parsePreset(undefined)).toBeUndefined();
+    });
+  });
+
+  describe('parseMeasurement', () => {
+    it('should read the first-pass analysis from the last JSON block', () => {
+      const stderr = 'frame=1 {not json}\n' + report({
+        input_i: '-27.30',
+        input_tp: '-8.10',
+        input_lra: '6.20',
+        input_thresh: '-37.60',
+        target_offset: '0.40'
+      });
+
+      expect(service.parseMeasurement(stderr)).toEqual({
+        inputI: -27.3,
+        inputTp: -8.1,
+        inputLra: 6.2,
+        inputThresh: -37.6,
+        targetOffset: 0.4
+      });
+    });
+
+    it('should return null for silent inputs and missing reports', () => {
+      expect(service.parseMeasurement(report({
+        input_i: '-inf',
+        input_tp: '-inf',
+        input_lra: '0.00',
+        input_thresh: '-70.00',
+        target_offset: 'inf'
+      }))).toBeNull();
+      expect(service.parseMeasurement('Output file does not contain any stream')).toBeNull();
+    });
+  });
+
+  describe('parseStats', () => {
+    it('should read the output loudness of a second pass', () => {
+      expect(service.parseStats(report({ output_i: '-14.02', output_tp: '-1.00', output_lra: '5.10' })))
+        .toEqual({ integrated: -14.02, truePeak: -1, range: 5.1 });
+    });
+  });
+
+  describe('buildMeasureArgs', () => {
+    it('should measure only the audio of a clip range without writing a file', () => {
+      const args = service.buildMeasureArgs('clip.mp4', service.getTarget('podcast'), { start: 2, end: 5.5 });
+
+      expect(args).toEqual([
+        '-hide_banner', '-nostats', '-ss', '2.000', '-t', '3.500', '-i', 'clip.mp4', '-vn',
+        '-af', 'loudnorm=I=-16:TP=-1.5:LRA=11:print_format=json', '-f', 'null', '-'
+      ]);
+    });
+  });
+
+  describe('buildApplyArgs', () => {
+    it('should copy video and subtitles and re-encode audio with a linear second pass', () => {
+      const measured = { inputI: -20, inputTp: -3, inputLra: 4, inputThresh: -30, targetOffset: 0.1 };
+      const args = service.buildApplyArgs('in.mp4', 'out.mp4', service.getTarget('social'), measured);
+
+      expect(args.join(' ')).toContain('-map 0:v -map 0:a -map 0:s? -c:v copy -c:s copy');
+      expect(args[args.indexOf('-af') + 1]).toBe(
+        'loudnorm=I=-14:TP=-1:LRA=11:measured_I=-20:measured_TP=-3:measured_LRA=4:measured_thresh=-30:offset=0.1:linear=true:print_format=json,' +
+        'aresample=48000,aformat=sample_fmts=fltp:sample_rates=48000:channel_layouts=stereo'
+      );
+      expect(args[args.length - 1]).toBe('out.mp4');
+    });
+  });
+});
\ No newline at end of file
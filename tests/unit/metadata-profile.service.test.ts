@@ -0,0 +1,95 @@
+import { MetadataProfileService, MetadataProfileTags } from '@/services/metadata-profile.service';
+
+jest.mock('@/utils/logger', () => ({
+  __esModule: true,
+  default: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() }
+}));
+
+describe('MetadataProfileService', () => {
+  let service: MetadataProfileService;
+
+  beforeEach(() => {
+    service = new MetadataProfileService();
+  });
+
+  describe('parseInput', () => {
+    it('should trim tags, strip control characters and clamp the creation window', () => {
+      expect(service.parseInput({ name: ' Studio ', encoder: 'Studio\nEncoder', software: '   ', creationTime: 'random', creationWindow: 900 })).toEqual({
+        profile: {
+          name: 'Studio',
+          encoder: 'Studio Encoder',
+          software: undefined,
+          comment: undefined,
+          handlerName: undefined,
+          creationTime: 'random',
+          creationWindow: 365
+        }
+      });
+    });
+
+    it('should require a name and at least one tag', () => {
+      expect(service.parseInput({ encoder: 'Studio' })).toEqual({ error: 'Profile name is required' });
+      expect(service.parseInput({ name: 'Empty', creationTime: 'source' }))
+        .toEqual({ error: 'A profile needs at least one of encoder, software, comment or handler name' });
+    });
+  });
+
+  describe('parseProfileIds', () => {
+    it('should keep unique ids and fall back to a built-in legacy source', () => {
+      expect(service.parseProfileIds(['a', 'a', '', 7, 'b'], 'vn')).toEqual(['a', 'b']);
+      expect(service.parseProfileIds(undefined, 'vn')).toEqual(['vn']);
+      expect(service.parseProfileIds([], 'premiere')).toEqual([]);
+    });
+  });
+
+  describe('toTags', () => {
+    it('should drop empty columns and default invalid timing fields', () => {
+      expect(service.toTags({ id: 'p1', name: 'Phone', encoder: '', comment: 'Shot on phone', creationTime: 'later', creationWindow: null })).toEqual({
+        id: 'p1',
+        name: 'Phone',
+        encoder: undefined,
+        software: undefined,
+        comment: 'Shot on phone',
+        handlerName: undefined,
+        creationTime: 'now',
+        creationWindow: 30
+      });
+    });
+  });
+
+  describe('pickCreationTime', () => {
+    const profile: MetadataProfileTags = { id: 'p1', name: 'Phone', comment: 'Shot on phone', creationTime: 'random', creationWindow: 7 };
+
+    it('should pick a random time within the window', () => {
+      const picked = service.pickCreationTime(profile, () => 0.5)!;
+      const age = Date.now() - new Date(picked).getTime();
+
+      expect(age).toBeGreaterThanOrEqual(3.5 * 24 * 60 * 60 * 1000 - 1000);
+      expect(age).toBeLessThanOrEqual(3.5 * 24 * 60 * 60 * 1000 + 1000);
+    });
+
+    it('should copy a valid source time and leave now for render time', () => {
+      const source = { ...profile, creationTime: 'source' as const };
+
+      expect(service.pickCreationTime(source, Math.random, '2025-06-01T10:00:00Z')).toBe('2025-06-01T10:00:00.000Z');
+      expect(service.pickCreationTime(source, Math.random, 'yesterday')).toBeUndefined();
+      expect(service.pickCreationTime({ ...profile, creationTime: 'now' }, Math.random)).toBeUndefined();
+    });
+  });
+
+  describe('buildArgs', () => {
+    it('should write set container tags and the handler on both streams', () => {
+      const vn = service.getBuiltInProfile('vn')!;
+
+      expect(service.buildArgs(vn, '2025-06-01T10:00:00.000Z')).toEqual([
+        '-metadata', 'encoder=VN Video Editor',
+        '-metadata', 'software=VN - Video Editor & Maker',
+        '-metadata', 'comment=Made with VN',
+        '-metadata', 'creation_time=2025-06-01T10:00:00.000Z',
+        '-metadata:s:v', 'handler_name=VN Editor',
+        '-metadata:s:a', 'handler_name=VN Editor'
+      ]);
+      expect(service.getBuiltInProfile('premiere')).toBeUndefined();
+    });
+  });
+});
\ No newline at end of file
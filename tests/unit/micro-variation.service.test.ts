@@ -0,0 +1,90 @@
+import { MicroVariationService } from '@/services/micro-variation.service';
+import { VideoClip } from '@/services/auto-mixing.service';
+
+jest.mock('@/utils/logger', () => ({
+  __esModule: true,
+  default: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() }
+}));
+
+const createClips = (): VideoClip[] => [
+  { id: 'clip-1', path: '/uploads/clip-1.mp4', duration: 5, metadata: {}, allowMirror: true },
+  { id: 'clip-2', path: '/uploads/clip-2.mp4', duration: 1, metadata: {} },
+  { id: 'still', path: '/uploads/still.png', duration: 3, metadata: {}, isImage: true, allowMirror: true }
+];
+
+describe('MicroVariationService', () => {
+  let service: MicroVariationService;
+
+  beforeEach(() => {
+    service = new MicroVariationService();
+  });
+
+  describe('parseSettings', () => {
+    it('should clamp ranges to their limits and drop disabled ones', () => {
+      expect(service.parseSettings({ zoom: { min: 1, max: 8 }, hue: { min: 9, max: 4 }, grain: { max: 0 }, pitch: { max: 2 }, mirror: 'yes' })).toEqual({
+        zoom: { min: 1, max: 3 },
+        hue: { min: 4, max: 4 },
+        pitch: { min: 0, max: 2 }
+      });
+      expect(service.parseSettings({ mirror: true })).toEqual({ mirror: true });
+      expect(service.parseSettings({ zoom: { max: -1 } })).toBeUndefined();
+      expect(service.parseSettings('zoom')).toBeUndefined();
+    });
+  });
+
+  describe('pick', () => {
+    it('should pick values within the ranges and skip offsets for stills', () => {
+      const variation = service.pick(
+        { zoom: { min: 1, max: 3 }, hue: { min: 2, max: 4 }, mirror: true, startOffset: { min: 5, max: 10 } },
+        createClips(),
+        () => 0.25
+      );
+
+      expect(variation).toEqual({
+        zoom: 1.5,
+        mirrored: ['clip-1', 'still'],
+        hue: -2.5,
+        grain: 0,
+        pitch: 0,
+        startOffsets: { 'clip-1': 6, 'clip-2': 6 }
+      });
+    });
+  });
+
+  describe('applyStartOffsets', () => {
+    it('should start offset clips later, at most a tenth of their length, and shift their captions', () => {
+      const clips = createClips();
+      clips[0].subtitles = [{ start: 0, end: 0.1, text: 'Cut' }, { start: 0.1, end: 2, text: 'Kept' }];
+      const variation = { zoom: 0, mirrored: [], hue: 0, grain: 0, pitch: 0, startOffsets: { 'clip-1': 6, 'clip-2': 15 } };
+
+      const [first, second, still] = service.applyStartOffsets(clips, variation, 30);
+
+      expect(first.duration).toBeCloseTo(4.8, 6);
+      expect(first.sourceRange).toEqual({ start: 0.2, end: 5 });
+      expect(first.subtitles).toHaveLength(1);
+      expect(first.subtitles![0]).toMatchObject({ start: 0, text: 'Kept' });
+      expect(first.subtitles![0].end).toBeCloseTo(1.8, 6);
+      expect(second.duration).toBeCloseTo(0.9, 6);
+      expect(still).toBe(clips[2]);
+      expect(service.applyStartOffsets(clips, undefined, 30)).toBe(clips);
+    });
+  });
+
+  describe('buildFrameFilters', () => {
+    it('should zoom to even dimensions and crop back to the frame', () => {
+      expect(service.buildFrameFilters({ zoom: 2, mirrored: [], hue: -2.5, grain: 4, pitch: 0, startOffsets: {} }, 1920, 1080)).toEqual([
+        'scale=1960:1102',
+        'crop=1920:1080',
+        'hue=h=-2.5',
+        'noise=alls=4:allf=t'
+      ]);
+    });
+  });
+
+  describe('buildPitchFilters', () => {
+    it('should resample the pitch and stretch the tempo back', () => {
+      expect(service.buildPitchFilters(3)).toEqual(['asetrate=49440', 'aresample=48000', 'atempo=0.970874']);
+      expect(service.buildPitchFilters(0)).toEqual([]);
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,65 @@
+import { MusicBedService } from '@/services/music-bed.service';
+
+jest.mock('@/utils/logger', () => ({
+  __esModule: true,
+  default: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() }
+}));
+
+const BED = 'aresample=48000,aformat=sample_fmts=fltp:sample_rates=48000:channel_layouts=stereo';
+
+describe('MusicBedService', () => {
+  let service: MusicBedService;
+
+  beforeEach(() => {
+    service = new MusicBedService();
+  });
+
+  describe('parseAudioMode', () => {
+    it('should keep original audio when a music mode has no tracks', () => {
+      expect(service.parseAudioMode('music+original', true)).toBe('music+original');
+      expect(service.parseAudioMode('music', false)).toBe('keep');
+      expect(service.parseAudioMode('loud', true)).toBe('keep');
+      expect(service.keepsOriginalAudio('music')).toBe(false);
+      expect(service.usesMusic('mute')).toBe(false);
+    });
+  });
+
+  describe('parseOptions', () => {
+    it('should clamp volume and fade and default ducking on', () => {
+      expect(service.parseOptions({ musicVolume: 3, musicFade: 9 })).toEqual({ volume: 1, fade: 5, ducking: true });
+      expect(service.parseOptions({ musicVolume: 'loud', musicDucking: false })).toEqual({ volume: 0.3, fade: 1.5, ducking: false });
+    });
+  });
+
+  describe('buildInputArgs', () => {
+    it('should loop the track endlessly', () => {
+      expect(service.buildInputArgs({ id: 't1', name: 'Bed', path: 'uploads/music/bed.mp3', duration: 30 }))
+        .toEqual(['-stream_loop', '-1', '-i', 'uploads/music/bed.mp3']);
+    });
+  });
+
+  describe('buildMixFilters', () => {
+    it('should trim the track and cap fades at half the output when it replaces the clip audio', () => {
+      expect(service.buildMixFilters({ inputIndex: 3, duration: 2, volume: 0.5, fade: 1.5, ducking: true, output: 'mixa' })).toEqual([
+        `[3:a]${BED},volume=0.5,atrim=duration=2.000,afade=t=in:st=0:d=1.00,afade=t=out:st=1.000:d=1.00[mixa]`
+      ]);
+    });
+
+    it('should duck the music under the speech band of the clip audio', () => {
+      expect(service.buildMixFilters({ inputIndex: 3, duration: 10, volume: 0.3, fade: 0, ducking: true, clipAudio: 'outa', output: 'mixa' })).toEqual([
+        `[3:a]${BED},volume=0.3,atrim=duration=10.000[music]`,
+        '[outa]asplit=2[original][speechkey]',
+        '[speechkey]highpass=f=200,lowpass=f=3500[speech]',
+        '[music][speech]sidechaincompress=threshold=0.02:ratio=8:attack=20:release=400[ducked]',
+        '[original][ducked]amix=inputs=2:duration=first:dropout_transition=0:normalize=0[mixa]'
+      ]);
+    });
+
+    it('should mix without ducking when it is off', () => {
+      const filters = service.buildMixFilters({ inputIndex: 3, duration: 10, volume: 0.3, fade: 0, ducking: false, clipAudio: 'outa', output: 'mixa' });
+
+      expect(filters).toHaveLength(2);
+      expect(filters[1]).toBe('[outa][music]amix=inputs=2:duration=first:dropout_transition=0:normalize=0[mixa]');
+    });
+  });
+});
\ No newline at end of file
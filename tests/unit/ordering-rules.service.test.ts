@@ -0,0 +1,119 @@
+import { OrderingRule, OrderingRulesService } from '@/services/ordering-rules.service';
+import { AutoMixingService, MixingSettings, VideoClip } from '@/services/auto-mixing.service';
+
+jest.mock('@/utils/logger', () => ({
+  __esModule: true,
+  default: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() }
+}));
+
+const createClips = (ids: string[]): VideoClip[] =>
+  ids.map((id, i) => ({
+    id,
+    path: `/uploads/${id}.mp4`,
+    duration: 5 + i,
+    metadata: {},
+    originalName: `${id}.mp4`
+  }));
+
+// 10 fillers followed by 10 clips that may never touch each other:
+// satisfiable by alternating them, but far too many dead ends for the search budget
+const fillers = Array.from({ length: 10 }, (_, i) => `fill-${i + 1}`);
+const spaced = Array.from({ length: 10 }, (_, i) => `spaced-${i + 1}`);
+const spacedRules: OrderingRule[] = spaced.flatMap((a, i) =>
+  spaced.slice(i + 1).map(b => ({ type: 'never-adjacent' as const, clipIds: [a, b] }))
+);
+
+describe('OrderingRulesService', () => {
+  let service: OrderingRulesService;
+
+  beforeEach(() => {
+    service = new OrderingRulesService();
+  });
+
+  describe('parseRules', () => {
+    it('should drop malformed rules and empty clip ids', () => {
+      const rules = service.parseRules(JSON.stringify([
+        { type: 'before', clipIds: ['a', 'b', ''] },
+        { type: 'sometimes', clipIds: ['a', 'b'] },
+        { type: 'never-adjacent' },
+        null
+      ]));
+
+      expect(rules).toEqual([{ type: 'before', clipIds: ['a', 'b'] }]);
+      expect(service.parseRules('not json')).toEqual([]);
+    });
+  });
+
+  describe('validateStructure', () => {
+    it('should report unknown clips, wrong arity and before loops', () => {
+      const clips = createClips(['a', 'b', 'c']);
+
+      expect(service.validateStructure([{ type: 'before', clipIds: ['a', 'x'] }], clips)).toContain('not in this project');
+      expect(service.validateStructure([{ type: 'at-most-one-of', clipIds: ['a'] }], clips)).toContain('at least 2 clips');
+      expect(service.validateStructure([
+        { type: 'before', clipIds: ['a', 'b'] },
+        { type: 'before', clipIds: ['b', 'c'] },
+        { type: 'before', clipIds: ['c', 'a'] }
+      ], clips)).toContain('a.mp4 → b.mp4 → c.mp4 → a.mp4');
+    });
+  });
+
+  describe('findValidOrder', () => {
+    it('should repair an order and keep fixed clips in their slots', () => {
+      const result = service.findValidOrder(
+        ['a', 'b', 'c', 'd'],
+        [{ type: 'before', clipIds: ['c', 'b'] }, { type: 'never-adjacent', clipIds: ['c', 'd'] }],
+        new Set(['a'])
+      );
+
+      expect(result.status).toBe('valid');
+      if (result.status !== 'valid') return;
+      expect(result.order[0]).toBe('a');
+      expect(service.isSatisfied(result.order, [{ type: 'before', clipIds: ['c', 'b'] }])).toBe(true);
+    });
+
+    it('should tell an impossible order apart from one the search gave up on', () => {
+      expect(service.findValidOrder(
+        ['a', 'b'],
+        [{ type: 'before', clipIds: ['b', 'a'] }],
+        new Set(['a', 'b'])
+      )).toEqual({ status: 'unsatisfiable' });
+
+      const order = [...fillers, ...spaced];
+      const result = service.findValidOrder(order, spacedRules);
+
+      expect(result.status).toBe('budget-exhausted');
+      if (result.status !== 'budget-exhausted') return;
+      expect([...result.order].sort()).toEqual([...order].sort());
+    });
+  });
+
+  describe('with the variant generator', () => {
+    it('should accept a large satisfiable rule set and fall back to best-effort orders', async () => {
+      const mixer = new AutoMixingService();
+      const clips = createClips([...fillers, ...spaced]);
+      const settings: MixingSettings = {
+        orderMixing: false,
+        speedMixing: false,
+        differentStartingVideo: false,
+        speedRange: { min: 1, max: 1 },
+        allowedSpeeds: [1],
+        groupMixing: false,
+        groupMixingMode: 'strict',
+        metadataSource: 'normal',
+        bitrate: 'medium',
+        resolution: 'hd',
+        frameRate: 30,
+        outputCount: 1,
+        seed: 3,
+        orderingRules: spacedRules
+      };
+
+      expect(mixer.validateOrderingRules(clips, spacedRules)).toBeNull();
+
+      const variants = await mixer.generateVariants(clips, settings);
+      expect(variants).toHaveLength(1);
+      expect(variants[0].videoOrder).toHaveLength(clips.length);
+    });
+  });
+});
\ No newline at end of file
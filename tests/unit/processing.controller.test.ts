@@ -0,0 +1,195 @@
+import { Response } from 'express';
+import fs from 'fs';
+import { ProcessingController } from '@/controllers/processing.controller';
+import { AuthenticatedRequest } from '@/middleware/auth.middleware';
+import { VideoProcessingService } from '@/services/video-processing.service';
+import { prisma } from '@/utils/database';
+import { LicenseType } from '@/types';
+
+// Mock dependencies
+jest.mock('@/utils/database', () => ({
+  prisma: {
+    project: { findFirst: jest.fn() },
+    processedVideo: { findFirst: jest.fn() }
+  }
+}));
+jest.mock('@/services/video-processing.service', () => {
+  const service = { planVariants: jest.fn(), renderPreview: jest.fn() };
+  return { VideoProcessingService: jest.fn(() => service) };
+});
+jest.mock('@/utils/logger', () => ({
+  __esModule: true,
+  default: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() }
+}));
+
+const mockPrisma = prisma as any;
+const mockVideoProcessing = new (VideoProcessingService as unknown as jest.Mock)();
+
+const project = {
+  id: 'project-1',
+  userId: 'user-1',
+  orderingRules: null,
+  videos: [{ id: 'clip-1' }, { id: 'clip-2' }]
+};
+
+describe('ProcessingController', () => {
+  let processingController: ProcessingController;
+  let mockRequest: Partial<AuthenticatedRequest>;
+  let mockResponse: Partial<Response>;
+
+  beforeEach(() => {
+    processingController = new ProcessingController();
+    mockRequest = {
+      user: { userId: 'user-1', email: 'test@example.com', licenseType: LicenseType.FREE, iat: 0, exp: 0 },
+      params: { projectId: 'project-1' }
+    };
+    mockResponse = {
+      status: jest.fn().mockReturnThis(),
+      json: jest.fn().mockReturnThis(),
+      setHeader: jest.fn()
+    };
+
+    jest.clearAllMocks();
+    jest.restoreAllMocks();
+  });
+
+  describe('planVariants', () => {
+    it('should plan outputs with the request seed', async () => {
+      const outputs = [{ index: 0, clips: [] }, { index: 1, clips: [] }];
+      mockRequest.body = { settings: { outputCount: 2, seed: 42, orderMixing: true } };
+      mockPrisma.project.findFirst.mockResolvedValue(project);
+      mockVideoProcessing.planVariants.mockResolvedValue(outputs);
+
+      await processingController.planVariants(mockRequest as AuthenticatedRequest, mockResponse as Response);
+
+      expect(mockPrisma.project.findFirst).toHaveBeenCalledWith(expect.objectContaining({
+        where: { id: 'project-1', userId: 'user-1' }
+      }));
+      expect(mockVideoProcessing.planVariants).toHaveBeenCalledWith(project, expect.objectContaining({
+        seed: 42,
+        outputCount: 2,
+        orderMixing: true
+      }));
+      expect(mockResponse.status).toHaveBeenCalledWith(200);
+      expect(mockResponse.json).toHaveBeenCalledWith(expect.objectContaining({
+        success: true,
+        data: { seed: 42, outputCount: 2, outputs }
+      }));
+    });
+
+    it('should return generation errors as a bad request', async () => {
+      mockRequest.body = { settings: { outputCount: 2 } };
+      mockPrisma.project.findFirst.mockResolvedValue(project);
+      mockVideoProcessing.planVariants.mockRejectedValue(new Error('Ordering rules cannot be satisfied'));
+
+      await processingController.planVariants(mockRequest as AuthenticatedRequest, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+      expect(mockResponse.json).toHaveBeenCalledWith({ success: false, error: 'Ordering rules cannot be satisfied' });
+    });
+
+    it('should reject missing settings and projects with fewer than 2 videos', async () => {
+      mockRequest.body = {};
+      await processingController.planVariants(mockRequest as AuthenticatedRequest, mockResponse as Response);
+      expect(mockResponse.json).toHaveBeenCalledWith({ success: false, error: 'Processing settings are required' });
+
+      mockRequest.body = { settings: { outputCount: 2 } };
+      mockPrisma.project.findFirst.mockResolvedValue({ ...project, videos: [{ id: 'clip-1' }] });
+      await processingController.planVariants(mockRequest as AuthenticatedRequest, mockResponse as Response);
+      expect(mockResponse.json).toHaveBeenLastCalledWith({
+        success: false,
+        error: 'Minimum 2 videos required for mixing. Please upload more videos.'
+      });
+      expect(mockVideoProcessing.planVariants).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 for a project of another user', async () => {
+      mockRequest.body = { settings: { outputCount: 2 } };
+      mockPrisma.project.findFirst.mockResolvedValue(null);
+
+      await processingController.planVariants(mockRequest as AuthenticatedRequest, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(404);
+    });
+  });
+
+  describe('previewVariant', () => {
+    it('should stream the proxy render with its plan hash and seed', async () => {
+      const pipe = jest.fn();
+      const createReadStream = jest.spyOn(fs, 'createReadStream').mockReturnValue({ pipe } as any);
+      mockRequest.body = { settings: { outputCount: 3, seed: 42 }, variantIndex: 2 };
+      mockPrisma.project.findFirst.mockResolvedValue(project);
+      mockVideoProcessing.renderPreview.mockResolvedValue({ path: 'outputs/previews/abc.mp4', planHash: 'abc', cached: true });
+
+      await processingController.previewVariant(mockRequest as AuthenticatedRequest, mockResponse as Response);
+
+      expect(mockVideoProcessing.renderPreview).toHaveBeenCalledWith(project, expect.objectContaining({ seed: 42, outputCount: 3 }), 2);
+      expect(mockResponse.setHeader).toHaveBeenCalledWith('Content-Type', 'video/mp4');
+      expect(mockResponse.setHeader).toHaveBeenCalledWith('X-Preview-Hash', 'abc');
+      expect(mockResponse.setHeader).toHaveBeenCalledWith('X-Preview-Cached', 'true');
+      expect(mockResponse.setHeader).toHaveBeenCalledWith('X-Preview-Seed', '42');
+      expect(createReadStream).toHaveBeenCalledWith('outputs/previews/abc.mp4');
+      expect(pipe).toHaveBeenCalledWith(mockResponse);
+    });
+
+    it('should require the seed of the plan it previews', async () => {
+      mockRequest.body = { settings: { outputCount: 3 }, variantIndex: 0 };
+
+      await processingController.previewVariant(mockRequest as AuthenticatedRequest, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+      expect(mockResponse.json).toHaveBeenCalledWith({ success: false, error: 'Preview needs the seed of the plan it previews' });
+      expect(mockPrisma.project.findFirst).not.toHaveBeenCalled();
+    });
+
+    it('should reject an invalid variant index', async () => {
+      mockRequest.body = { settings: { outputCount: 3, seed: 42 }, variantIndex: -1 };
+
+      await processingController.previewVariant(mockRequest as AuthenticatedRequest, mockResponse as Response);
+
+      expect(mockResponse.json).toHaveBeenCalledWith({ success: false, error: 'variantIndex must be a non-negative integer' });
+      expect(mockVideoProcessing.renderPreview).not.toHaveBeenCalled();
+    });
+
+    it('should return render errors as a bad request', async () => {
+      mockRequest.body = { settings: { outputCount: 3, seed: 42 }, variantIndex: 5 };
+      mockPrisma.project.findFirst.mockResolvedValue(project);
+      mockVideoProcessing.renderPreview.mockRejectedValue(new Error('Variant 6 is not in the plan (3 planned)'));
+
+      await processingController.previewVariant(mockRequest as AuthenticatedRequest, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+      expect(mockResponse.json).toHaveBeenCalledWith({ success: false, error: 'Variant 6 is not in the plan (3 planned)' });
+    });
+  });
+
+  describe('downloadSubtitles', () => {
+    it('should stream the SRT exported next to the output', async () => {
+      const pipe = jest.fn();
+      jest.spyOn(fs, 'existsSync').mockReturnValue(true);
+      const createReadStream = jest.spyOn(fs, 'createReadStream').mockReturnValue({ pipe } as any);
+      mockRequest.params = { outputId: 'output-1' };
+      mockPrisma.processedVideo.findFirst.mockResolvedValue({ id: 'output-1', settings: JSON.stringify({ subtitleFile: 'outputs/output_1_123.srt' }) });
+
+      await processingController.downloadSubtitles(mockRequest as AuthenticatedRequest, mockResponse as Response);
+
+      expect(mockPrisma.processedVideo.findFirst).toHaveBeenCalledWith({
+        where: { id: 'output-1', job: { project: { userId: 'user-1' } } }
+      });
+      expect(mockResponse.setHeader).toHaveBeenCalledWith('Content-Disposition', 'attachment; filename="output_1_123.srt"');
+      expect(mockResponse.setHeader).toHaveBeenCalledWith('Content-Type', 'application/x-subrip');
+      expect(createReadStream).toHaveBeenCalledWith(expect.stringMatching(/output_1_123\.srt$/));
+      expect(pipe).toHaveBeenCalledWith(mockResponse);
+    });
+
+    it('should return 404 for outputs without subtitles', async () => {
+      mockRequest.params = { outputId: 'output-1' };
+      mockPrisma.processedVideo.findFirst.mockResolvedValue({ id: 'output-1', settings: JSON.stringify({ seed: 42 }) });
+
+      await processingController.downloadSubtitles(mockRequest as AuthenticatedRequest, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(404);
+      expect(mockResponse.json).toHaveBeenCalledWith({ success: false, error: 'No subtitles for this output' });
+    });
+  });
+});
\ No newline at end of file
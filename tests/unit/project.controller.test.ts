@@ -0,0 +1,211 @@
+import { Response } from 'express';
+import { ProjectController } from '@/controllers/project.controller';
+import { AuthenticatedRequest } from '@/middleware/auth.middleware';
+import { ColorGradingService } from '@/services/color-grading.service';
+import { MusicBedService } from '@/services/music-bed.service';
+import { WatermarkService } from '@/services/watermark.service';
+import { BumperService } from '@/services/bumper.service';
+import { VideoService } from '@/services/video.service';
+import { voiceOverService } from '@/services/voice-over.service';
+import { prisma } from '@/utils/database';
+import { LicenseType } from '@/types';
+
+// Mock dependencies
+jest.mock('@/utils/database', () => ({
+  prisma: {
+    project: { findFirst: jest.fn() },
+    colorLut: { create: jest.fn() },
+    musicTrack: { create: jest.fn() },
+    logoAsset: { create: jest.fn() },
+    bumperAsset: { create: jest.fn() }
+  },
+  database: {}
+}));
+jest.mock('@/utils/logger', () => ({
+  __esModule: true,
+  default: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() }
+}));
+
+const mockPrisma = prisma as any;
+
+const project = { id: 'project-1', userId: 'user-1' };
+
+describe('ProjectController', () => {
+  let projectController: ProjectController;
+  let mockRequest: Partial<AuthenticatedRequest>;
+  let mockResponse: Partial<Response>;
+
+  beforeEach(() => {
+    projectController = new ProjectController();
+    mockRequest = {
+      user: { userId: 'user-1', email: 'test@example.com', licenseType: LicenseType.FREE, iat: 0, exp: 0 },
+      params: { id: 'project-1' },
+      body: {}
+    };
+    mockResponse = {
+      status: jest.fn().mockReturnThis(),
+      json: jest.fn().mockReturnThis()
+    };
+
+    jest.clearAllMocks();
+    jest.restoreAllMocks();
+  });
+
+  describe('uploadColorLut', () => {
+    it('should store the LUT and record it on the project', async () => {
+      const stored = { name: 'warm', filename: '123_warm.cube', size: 33 };
+      const storeLut = jest.spyOn(ColorGradingService.prototype, 'storeLut').mockResolvedValue(stored);
+      mockRequest.file = { originalname: 'warm.cube', buffer: Buffer.from('LUT_3D_SIZE 33') } as Express.Multer.File;
+      mockPrisma.project.findFirst.mockResolvedValue(project);
+      mockPrisma.colorLut.create.mockResolvedValue({ id: 'lut-1', ...stored, projectId: 'project-1' });
+
+      await projectController.uploadColorLut(mockRequest as AuthenticatedRequest, mockResponse as Response);
+
+      expect(mockPrisma.project.findFirst).toHaveBeenCalledWith({ where: { id: 'project-1', userId: 'user-1' } });
+      expect(storeLut).toHaveBeenCalledWith('warm.cube', mockRequest.file!.buffer);
+      expect(mockPrisma.colorLut.create).toHaveBeenCalledWith({ data: { ...stored, projectId: 'project-1' } });
+      expect(mockResponse.status).toHaveBeenCalledWith(201);
+    });
+
+    it('should return a malformed LUT as a bad request', async () => {
+      mockRequest.file = { originalname: 'warm.cube', buffer: Buffer.from('LUT_1D_SIZE 4') } as Express.Multer.File;
+      mockPrisma.project.findFirst.mockResolvedValue(project);
+
+      await projectController.uploadColorLut(mockRequest as AuthenticatedRequest, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+      expect(mockResponse.json).toHaveBeenCalledWith({ success: false, error: '1D LUTs are not supported - export a 3D .cube LUT' });
+      expect(mockPrisma.colorLut.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject a request without a file', async () => {
+      await projectController.uploadColorLut(mockRequest as AuthenticatedRequest, mockResponse as Response);
+
+      expect(mockResponse.json).toHaveBeenCalledWith({ success: false, error: 'No LUT file uploaded' });
+      expect(mockPrisma.project.findFirst).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('uploadMusicTrack', () => {
+    const stored = { name: 'bed', filename: '123_bed.mp3', path: 'uploads/music/123_bed.mp3' };
+
+    beforeEach(() => {
+      mockRequest.file = { originalname: 'bed.mp3', buffer: Buffer.from('ID3') } as Express.Multer.File;
+      mockPrisma.project.findFirst.mockResolvedValue(project);
+      jest.spyOn(MusicBedService.prototype, 'storeTrack').mockResolvedValue(stored);
+    });
+
+    it('should record the track with its probed duration', async () => {
+      jest.spyOn(voiceOverService, 'getAudioDuration').mockResolvedValue(95.5);
+      mockPrisma.musicTrack.create.mockResolvedValue({ id: 'track-1' });
+
+      await projectController.uploadMusicTrack(mockRequest as AuthenticatedRequest, mockResponse as Response);
+
+      expect(mockPrisma.musicTrack.create).toHaveBeenCalledWith({
+        data: { name: 'bed', filename: '123_bed.mp3', duration: 95.5, projectId: 'project-1' }
+      });
+      expect(mockResponse.status).toHaveBeenCalledWith(201);
+    });
+
+    it('should remove a track whose audio cannot be read', async () => {
+      jest.spyOn(voiceOverService, 'getAudioDuration').mockRejectedValue(new Error('ffprobe failed'));
+      const removeTrack = jest.spyOn(MusicBedService.prototype, 'removeTrack').mockResolvedValue();
+
+      await projectController.uploadMusicTrack(mockRequest as AuthenticatedRequest, mockResponse as Response);
+
+      expect(removeTrack).toHaveBeenCalledWith('123_bed.mp3');
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        success: false,
+        error: 'Could not read the audio track - upload an MP3, WAV, M4A, AAC or OGG file'
+      });
+      expect(mockPrisma.musicTrack.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('uploadLogo', () => {
+    it('should store the logo and record it on the project', async () => {
+      const storeLogo = jest.spyOn(WatermarkService.prototype, 'storeLogo').mockResolvedValue({ name: 'brand', filename: '123_brand.png' });
+      mockRequest.file = { originalname: 'brand.png', buffer: Buffer.from([0x89, 0x50, 0x4e, 0x47]) } as Express.Multer.File;
+      mockPrisma.project.findFirst.mockResolvedValue(project);
+      mockPrisma.logoAsset.create.mockResolvedValue({ id: 'logo-1' });
+
+      await projectController.uploadLogo(mockRequest as AuthenticatedRequest, mockResponse as Response);
+
+      expect(storeLogo).toHaveBeenCalledWith('brand.png', mockRequest.file!.buffer);
+      expect(mockPrisma.logoAsset.create).toHaveBeenCalledWith({
+        data: { name: 'brand', filename: '123_brand.png', projectId: 'project-1' }
+      });
+      expect(mockResponse.status).toHaveBeenCalledWith(201);
+    });
+
+    it('should return files that are not images as a bad request', async () => {
+      mockRequest.file = { originalname: 'brand.png', buffer: Buffer.from('GIF89a') } as Express.Multer.File;
+      mockPrisma.project.findFirst.mockResolvedValue(project);
+
+      await projectController.uploadLogo(mockRequest as AuthenticatedRequest, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+      expect(mockResponse.json).toHaveBeenCalledWith({ success: false, error: 'Logo must be a PNG or JPEG image' });
+      expect(mockPrisma.logoAsset.create).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 for a project of another user', async () => {
+      mockRequest.file = { originalname: 'brand.png', buffer: Buffer.from('GIF89a') } as Express.Multer.File;
+      mockPrisma.project.findFirst.mockResolvedValue(null);
+
+      await projectController.uploadLogo(mockRequest as AuthenticatedRequest, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(404);
+    });
+  });
+
+  describe('uploadBumper', () => {
+    const stored = { name: 'sting', filename: '123_sting.mp4', path: 'uploads/bumpers/123_sting.mp4' };
+    let discardUpload: jest.SpyInstance;
+
+    beforeEach(() => {
+      mockRequest.file = { originalname: 'sting.mp4', path: 'uploads/tmp/upload-1' } as Express.Multer.File;
+      mockRequest.body = { kind: 'intro' };
+      mockPrisma.project.findFirst.mockResolvedValue(project);
+      jest.spyOn(BumperService.prototype, 'storeBumper').mockResolvedValue(stored);
+      discardUpload = jest.spyOn(BumperService.prototype, 'discardUpload').mockResolvedValue();
+    });
+
+    it('should record the clip length and whether it has audio', async () => {
+      jest.spyOn(VideoService.prototype, 'extractDetailedMetadata').mockResolvedValue({ duration: 2.5 } as any);
+      mockPrisma.bumperAsset.create.mockResolvedValue({ id: 'bumper-1' });
+
+      await projectController.uploadBumper(mockRequest as AuthenticatedRequest, mockResponse as Response);
+
+      expect(mockPrisma.bumperAsset.create).toHaveBeenCalledWith({
+        data: { name: 'sting', kind: 'intro', filename: '123_sting.mp4', duration: 2.5, hasAudio: false, projectId: 'project-1' }
+      });
+      expect(mockResponse.status).toHaveBeenCalledWith(201);
+      expect(mockResponse.json).toHaveBeenCalledWith(expect.objectContaining({ message: 'Intro uploaded successfully' }));
+      expect(discardUpload).toHaveBeenCalledWith('uploads/tmp/upload-1');
+    });
+
+    it('should remove clips longer than 30 seconds', async () => {
+      jest.spyOn(VideoService.prototype, 'extractDetailedMetadata').mockResolvedValue({ duration: 45, audioCodec: 'aac' } as any);
+      const removeBumper = jest.spyOn(BumperService.prototype, 'removeBumper').mockResolvedValue();
+
+      await projectController.uploadBumper(mockRequest as AuthenticatedRequest, mockResponse as Response);
+
+      expect(removeBumper).toHaveBeenCalledWith('123_sting.mp4');
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+      expect(mockResponse.json).toHaveBeenCalledWith({ success: false, error: 'Intros and outros can be at most 30 seconds long' });
+      expect(mockPrisma.bumperAsset.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject an unknown kind and discard the upload', async () => {
+      mockRequest.body = { kind: 'middle' };
+
+      await projectController.uploadBumper(mockRequest as AuthenticatedRequest, mockResponse as Response);
+
+      expect(mockResponse.json).toHaveBeenCalledWith({ success: false, error: 'Kind must be intro or outro' });
+      expect(BumperService.prototype.storeBumper).not.toHaveBeenCalled();
+      expect(discardUpload).toHaveBeenCalledWith('uploads/tmp/upload-1');
+    });
+  });
+});
\ No newline at end of file
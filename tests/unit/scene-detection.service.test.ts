@@ -0,0 +1,59 @@
+import { SceneDetectionService } from '@/services/scene-detection.service';
+
+jest.mock('@/utils/logger', () => ({
+  __esModule: true,
+  default: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() }
+}));
+
+describe('SceneDetectionService', () => {
+  let service: SceneDetectionService;
+
+  beforeEach(() => {
+    service = new SceneDetectionService();
+  });
+
+  describe('parseOptions', () => {
+    it('should clamp the threshold and clip length and default missing values', () => {
+      expect(service.parseOptions({ threshold: 2, minClipLength: 0.1 })).toEqual({ threshold: 0.9, minClipLength: 0.5 });
+      expect(service.parseOptions({ threshold: 'high' })).toEqual({ threshold: 0.3, minClipLength: 2 });
+    });
+  });
+
+  describe('parseSceneTimes', () => {
+    it('should read sorted, unique frame times from showinfo output', () => {
+      const stderr = [
+        '[Parsed_showinfo_2 @ 0x1] n:   1 pts: 153600 pts_time:12      duration:512',
+        '[Parsed_showinfo_2 @ 0x1] n:   0 pts:  61440 pts_time:4.8     duration:512',
+        '[Parsed_showinfo_2 @ 0x1] n:   2 pts: 153600 pts_time:12      duration:512',
+        'frame=  300 fps=0.0 q=-0.0 size=N/A time=00:00:20.50'
+      ].join('\n');
+
+      expect(service.parseSceneTimes(stderr)).toEqual([4.8, 12]);
+    });
+  });
+
+  describe('proposeSegments', () => {
+    it('should merge short scenes into the next one and a short last scene into the one before', () => {
+      expect(service.proposeSegments([4.8, 5.5, 12, 19.6], 20.5, 2)).toEqual([
+        { start: 0, end: 4.8 },
+        { start: 4.8, end: 12 },
+        { start: 12, end: 20.5 }
+      ]);
+      expect(service.proposeSegments([], 8, 2)).toEqual([{ start: 0, end: 8 }]);
+      expect(service.proposeSegments([1], 0, 2)).toEqual([]);
+    });
+  });
+
+  describe('validateSegments', () => {
+    it('should clamp segments to the source and reject overlaps, short or invalid ranges', () => {
+      expect(service.validateSegments([{ start: 0, end: 5 }, { start: 8, end: 30 }], 20.5)).toEqual([
+        { start: 0, end: 5 },
+        { start: 8, end: 20.5 }
+      ]);
+      expect(() => service.validateSegments([], 20.5)).toThrow('At least one segment is required');
+      expect(() => service.validateSegments([{ start: 0, end: 5 }, { start: 4, end: 8 }], 20.5)).toThrow('Segment 2 overlaps the one before it');
+      expect(() => service.validateSegments([{ start: 3, end: 3.2 }], 20.5)).toThrow('Segment 1 is shorter than 0.5s');
+      expect(() => service.validateSegments([{ start: -1, end: 3 }], 20.5)).toThrow('Segment 1 has an invalid start or end');
+    });
+  });
+});
\ No newline at end of file
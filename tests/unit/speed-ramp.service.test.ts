@@ -0,0 +1,87 @@
+import { SpeedRampService } from '@/services/speed-ramp.service';
+
+jest.mock('@/utils/logger', () => ({
+  __esModule: true,
+  default: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() }
+}));
+
+describe('SpeedRampService', () => {
+  let service: SpeedRampService;
+
+  beforeEach(() => {
+    service = new SpeedRampService();
+  });
+
+  describe('parseSettings', () => {
+    it('should keep known curves and clamp speeds to their bounds', () => {
+      expect(service.parseSettings({ curves: ['ease-in-out', 'unknown'], peakSpeed: 9, slowSpeed: 0.1, clipsPerOutput: 12, audio: 'stretch' })).toEqual({
+        curves: ['ease-in-out'],
+        clipsPerOutput: 5,
+        peakSpeed: 4,
+        slowSpeed: 0.25,
+        slowMoAt: 0.5,
+        audio: 'stretch'
+      });
+      expect(service.parseSettings({ curves: ['slow-mo'], peakSpeed: 0.5, audio: 'loud' })).toMatchObject({ peakSpeed: 2, clipsPerOutput: 1, audio: 'segments' });
+      expect(service.parseSettings({ curves: ['unknown'] })).toBeUndefined();
+    });
+  });
+
+  describe('buildSegments', () => {
+    it('should split the source into steps that follow the curve on top of the base speed', () => {
+      const settings = service.parseSettings({ curves: ['ease-in-out', 'slow-mo'], peakSpeed: 4 })!;
+      const segments = service.buildSegments('ease-in-out', settings, 6, 1);
+
+      expect(segments).toHaveLength(8);
+      expect(segments[0].start).toBe(0);
+      expect(segments[7].end).toBe(6);
+      expect(segments[0].speed).toBeLessThan(segments[3].speed);
+      expect(segments[3].speed).toBeCloseTo(segments[4].speed, 6);
+      expect(service.getOutputLength(segments)).toBeCloseTo(6 / service.getAverageFactor('ease-in-out', settings), 6);
+
+      const slowMo = service.buildSegments('slow-mo', settings, 6, 2);
+      expect(Math.min(...slowMo.map(segment => segment.speed))).toBeLessThan(2);
+      expect(service.getOutputLength(slowMo)).toBeGreaterThan(3);
+    });
+  });
+
+  describe('buildVideoFilters', () => {
+    it('should retime each step with its own slope', () => {
+      expect(service.buildVideoFilters([{ start: 0, end: 2, speed: 1 }, { start: 2, end: 4, speed: 2 }])).toEqual([
+        'setpts=PTS-STARTPTS',
+        "setpts='(if(lt(T,2),0+(T-0)/1,2+(T-2)/2))/TB'"
+      ]);
+    });
+  });
+
+  describe('buildAudioFilters', () => {
+    const segments = [{ start: 0, end: 2, speed: 1 }, { start: 2, end: 4, speed: 2 }];
+    const options = { source: '[0:a]aresample=48000', prefix: 'ramp0', output: 'a0', tail: ['apad=pad_dur=0.5'] };
+
+    it('should replace muted clips with silence as long as the video', () => {
+      expect(service.buildAudioFilters(segments, 'mute', options)).toEqual([
+        'anullsrc=channel_layout=stereo:sample_rate=48000,atrim=duration=3,apad=pad_dur=0.5[a0]'
+      ]);
+    });
+
+    it('should stretch the audio evenly or step its tempo with the video', () => {
+      const [stretched] = service.buildAudioFilters(segments, 'stretch', options);
+      expect(stretched).toMatch(/^\[0:a\]aresample=48000,atempo=1\.33\d*,apad,atrim=end=3,apad=pad_dur=0\.5\[a0\]$/);
+
+      expect(service.buildAudioFilters(segments, 'segments', options)).toEqual([
+        '[0:a]aresample=48000,asetpts=PTS-STARTPTS,asplit=2[ramp0p0][ramp0p1]',
+        '[ramp0p0]atrim=start=0:end=2,asetpts=PTS-STARTPTS[ramp0s0]',
+        '[ramp0p1]atrim=start=2:end=4,asetpts=PTS-STARTPTS,atempo=2[ramp0s1]',
+        '[ramp0s0][ramp0s1]concat=n=2:v=0:a=1,apad,atrim=end=3,apad=pad_dur=0.5[a0]'
+      ]);
+    });
+  });
+
+  describe('buildTempoFilters', () => {
+    it('should chain atempo filters for speeds outside 0.5-2.0', () => {
+      expect(service.buildTempoFilters(3)).toEqual(['atempo=2.0', 'atempo=1.5']);
+      expect(service.buildTempoFilters(0.2)).toEqual(['atempo=0.5', 'atempo=0.5', 'atempo=0.8']);
+      expect(service.buildTempoFilters(1)).toEqual([]);
+    });
+  });
+});
\ No newline at end of file
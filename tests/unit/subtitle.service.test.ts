@@ -0,0 +1,65 @@
+import { SubtitleService } from '@/services/subtitle.service';
+
+jest.mock('@/utils/logger', () => ({
+  __esModule: true,
+  default: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() }
+}));
+
+describe('SubtitleService', () => {
+  let service: SubtitleService;
+
+  beforeEach(() => {
+    service = new SubtitleService();
+  });
+
+  describe('parse', () => {
+    it('should read SRT and WebVTT cues in start order without styling tags', () => {
+      const vtt = '\uFEFFWEBVTT\r\n\r\nNOTE intro\r\n\r\n00:04.000 --> 00:06.000\r\nSecond\r\n\r\n00:00.500 --> 00:02.000 align:start\r\n<v Host>Hello</v>\r\n<i>there</i>';
+      const srt = '1\n01:00:01,5 --> 01:00:03,250\n<font color="red">Late</font>\n';
+
+      expect(service.parse(vtt)).toEqual([
+        { start: 0.5, end: 2, text: 'Hello\nthere' },
+        { start: 4, end: 6, text: 'Second' }
+      ]);
+      expect(service.parse(srt)).toEqual([{ start: 3601.5, end: 3603.25, text: 'Late' }]);
+    });
+
+    it('should reject cues with bad timing', () => {
+      expect(() => service.parse('1\n00:00:05,000 --> 00:00:02,000\nBackwards\n'))
+        .toThrow('Invalid subtitle timing: "00:00:05,000 --> 00:00:02,000"');
+      expect(() => service.parse('1\n00:00:01,000 --> soon\nOpen ended\n')).toThrow('Invalid subtitle timing');
+    });
+
+    it('should reject files without cues', () => {
+      expect(() => service.parse('WEBVTT\n\nNOTE nothing here')).toThrow('No subtitle cues found');
+    });
+  });
+
+  describe('retime', () => {
+    it('should map cues through trims and speeds and cut them at the next clip', () => {
+      const cues = service.retime([
+        { cues: [{ start: 1, end: 4, text: 'Trimmed' }, { start: 9, end: 12, text: 'Gone' }], trimStart: 2, trimEnd: 8, speed: 2, outputStart: 0, outputEnd: 3 },
+        { cues: [{ start: 0, end: 10, text: 'Runs long' }], trimStart: 0, trimEnd: 10, speed: 1, outputStart: 3, outputEnd: 13 }
+      ], 8);
+
+      expect(cues).toEqual([
+        { start: 0, end: 1, text: 'Trimmed' },
+        { start: 3, end: 8, text: 'Runs long' }
+      ]);
+    });
+  });
+
+  describe('toSrt', () => {
+    it('should number cues and format SRT timestamps', () => {
+      expect(service.toSrt([{ start: 5.5, end: 3725.004, text: 'Fast' }])).toBe('1\n00:00:05,500 --> 01:02:05,004\nFast\n');
+    });
+  });
+
+  describe('buildBurnFilter', () => {
+    it('should escape Windows paths and apply the style preset', () => {
+      expect(service.buildBurnFilter('C:\\out\\output_1.srt', 'boxed'))
+        .toBe("subtitles=filename='C\\:/out/output_1.srt':force_style='FontName=Arial,FontSize=18,PrimaryColour=&H00FFFFFF,BackColour=&H80000000,BorderStyle=3,Outline=1,Shadow=0,MarginV=30'");
+      expect(service.getSidecarPath('outputs/output_1_123.mp4')).toBe('outputs/output_1_123.srt');
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,71 @@
+import { TextOverlayService } from '@/services/text-overlay.service';
+import { createSeededRandom } from '@/utils/seeded-random';
+
+describe('TextOverlayService', () => {
+  let service: TextOverlayService;
+
+  beforeEach(() => {
+    service = new TextOverlayService();
+  });
+
+  describe('parseSettings', () => {
+    it('should clean headlines and fall back to the default style for invalid values', () => {
+      const settings = service.parseSettings({
+        headlines: ['  First   hook ', 42, '', 'x'.repeat(200)],
+        style: { color: 'not a color!', fontSize: 500, position: 'left', start: 2, end: 1, font: 'Bad;Font' }
+      })!;
+
+      expect(settings.headlines).toEqual(['First hook', 'x'.repeat(120)]);
+      expect(settings.assignment).toBe('round-robin');
+      expect(settings.style).toEqual({
+        font: undefined,
+        fontSize: 200,
+        color: 'white',
+        boxStyle: 'box',
+        position: 'top',
+        start: 2,
+        end: undefined
+      });
+    });
+
+    it('should return undefined without headlines', () => {
+      expect(service.parseSettings({ headlines: ['  '] })).toBeUndefined();
+      expect(service.parseSettings(undefined)).toBeUndefined();
+    });
+  });
+
+  describe('assignHeadlines', () => {
+    const headlines = ['A', 'B', 'C'];
+
+    it('should walk the list in order with round-robin', () => {
+      const settings = service.parseSettings({ headlines })!;
+      expect(service.assignHeadlines(5, settings, Math.random)).toEqual(['A', 'B', 'C', 'A', 'B']);
+    });
+
+    it('should use every headline once per round when balanced', () => {
+      const settings = service.parseSettings({ headlines, assignment: 'balanced' })!;
+      const assigned = service.assignHeadlines(6, settings, createSeededRandom(4));
+
+      expect([...assigned.slice(0, 3)].sort()).toEqual(headlines);
+      expect([...assigned.slice(3)].sort()).toEqual(headlines);
+      expect(service.assignHeadlines(6, settings, createSeededRandom(4))).toEqual(assigned);
+    });
+  });
+
+  describe('buildFilter', () => {
+    it('should scale the text to the output height and show it from the start time on', () => {
+      const settings = service.parseSettings({
+        headlines: ['Hook'],
+        style: { fontSize: 64, boxStyle: 'outline', position: 'center', start: 1.5, end: 0 }
+      })!;
+
+      expect(service.buildFilter('Hook', settings.style, 1920)).toBe(
+        "drawtext=text=Hook:expansion=none:fontsize=114:fontcolor=white:x=(w-text_w)/2:y=(h-text_h)/2:borderw=7:bordercolor=black:enable='gte(t,1.5)'"
+      );
+    });
+
+    it('should escape quotes, colons and filtergraph separators', () => {
+      expect(service.escapeText("It's 50% off: [now]; go")).toBe("It\\\\\\'s 50% off\\\\: \\[now\\]\\; go");
+    });
+  });
+});
\ No newline at end of file
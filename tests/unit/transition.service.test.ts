@@ -0,0 +1,81 @@
+import { TransitionService, HARD_CUT } from '@/services/transition.service';
+
+jest.mock('@/utils/logger', () => ({
+  __esModule: true,
+  default: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() }
+}));
+
+describe('TransitionService', () => {
+  let service: TransitionService;
+
+  beforeEach(() => {
+    service = new TransitionService();
+  });
+
+  describe('parseStyles', () => {
+    it('should keep unique known styles and fall back to all of them', () => {
+      expect(service.parseStyles(['wipe', 'spin', 'wipe', 'fade'])).toEqual(['wipe', 'fade']);
+      expect(service.parseStyles(['spin'])).toEqual(['fade', 'dissolve', 'wipe', 'slide', 'zoom']);
+      expect(service.parseStyles(undefined)).toHaveLength(5);
+    });
+  });
+
+  describe('parseDuration', () => {
+    it('should clamp the range and keep max at or above min', () => {
+      expect(service.parseDuration({ min: 2, max: 1 })).toEqual({ min: 2, max: 2 });
+      expect(service.parseDuration({ min: 0.01, max: 9 })).toEqual({ min: 0.1, max: 3 });
+      expect(service.parseDuration(undefined)).toEqual({ min: 0.5, max: 1 });
+    });
+  });
+
+  describe('pickTransitions', () => {
+    it('should fix the direction and overlap of every cut', () => {
+      expect(service.pickTransitions(2, ['wipe', 'slide'], { min: 0.5, max: 1 }, () => 0.6)).toEqual({
+        transitions: ['slideup', 'slideup'],
+        durations: [0.8, 0.8]
+      });
+    });
+  });
+
+  describe('planCuts', () => {
+    it('should offset each overlap from the joined output and hard cut next to short clips', () => {
+      const clipDurations = [5, 6, 2, 7];
+      const cuts = service.planCuts(clipDurations, ['fade', 'wipeleft', 'fade'], [1, 1, 0.8]);
+
+      expect(cuts).toEqual([
+        { transition: 'fade', duration: 1, offset: 4 },
+        { transition: HARD_CUT, duration: 0, offset: 10 },
+        { transition: 'fade', duration: 0.8, offset: 11.2 }
+      ]);
+      expect(service.getOutputDuration(clipDurations, cuts)).toBe(18.2);
+    });
+  });
+
+  describe('buildJoinFilters', () => {
+    const options = { hasAudio: true, videoOutput: 'outv', audioOutput: 'outa' };
+
+    it('should chain xfades and two-input concats for mixed cuts', () => {
+      const cuts = [
+        { transition: 'fade', duration: 1, offset: 4 },
+        { transition: HARD_CUT, duration: 0, offset: 10 },
+        { transition: 'fade', duration: 0.8, offset: 11.2 }
+      ];
+
+      expect(service.buildJoinFilters(4, cuts, options)).toEqual([
+        '[v0][v1]xfade=transition=fade:duration=1:offset=4[vj0]',
+        '[a0][a1]acrossfade=d=1[aj0]',
+        '[vj0][v2]concat=n=2:v=1:a=0[vj1]',
+        '[aj0][a2]concat=n=2:v=0:a=1[aj1]',
+        '[vj1][v3]xfade=transition=fade:duration=0.8:offset=11.2[outv]',
+        '[aj1][a3]acrossfade=d=0.8[outa]'
+      ]);
+    });
+
+    it('should use a single concat when every cut is hard', () => {
+      const cuts = [{ transition: HARD_CUT, duration: 0, offset: 5 }];
+
+      expect(service.buildJoinFilters(2, cuts, options)).toEqual(['[v0][a0][v1][a1]concat=n=2:v=1:a=1[outv][outa]']);
+      expect(service.buildJoinFilters(2, cuts, { ...options, hasAudio: false })).toEqual(['[v0][v1]concat=n=2:v=1:a=0[outv]']);
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,58 @@
+import { VariantDiversityService } from '@/services/variant-diversity.service';
+import { VideoVariant, MixingSettings } from '@/services/auto-mixing.service';
+import { NEUTRAL_GRADE } from '@/services/color-grading.service';
+
+jest.mock('@/utils/logger', () => ({
+  __esModule: true,
+  default: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() }
+}));
+
+const createVariant = (id: string, order: string[], speeds: Record<string, number> = {}): VideoVariant => ({
+  id,
+  videoOrder: order,
+  speeds: new Map(order.map(clipId => [clipId, speeds[clipId] ?? 1])),
+  transitions: [],
+  colorAdjustments: NEUTRAL_GRADE,
+  settings: {} as MixingSettings
+});
+
+describe('VariantDiversityService', () => {
+  let service: VariantDiversityService;
+
+  const reversed = createVariant('reversed', ['c', 'b', 'a']);
+  const original = createVariant('original', ['a', 'b', 'c']);
+  const swapped = createVariant('swapped', ['a', 'b', 'd'], { a: 1.5 });
+
+  beforeEach(() => {
+    service = new VariantDiversityService();
+  });
+
+  describe('calculateDistance', () => {
+    it('should weigh order, speed and clip set differences', () => {
+      expect(service.calculateDistance(original, original)).toBe(0);
+      expect(service.calculateDistance(original, reversed)).toBeCloseTo(0.5 * 2 / 3, 6);
+      expect(service.calculateDistance(original, swapped)).toBeCloseTo(0.5 / 3 + 0.25 * 0.25 + 0.25 * 0.5, 6);
+    });
+  });
+
+  describe('meetsThreshold', () => {
+    it('should compare a candidate against every accepted variant', () => {
+      expect(service.meetsThreshold(swapped, [original, reversed], 0.35)).toBe(true);
+      expect(service.meetsThreshold(swapped, [original, reversed], 0.4)).toBe(false);
+      expect(service.meetsThreshold(swapped, [], 1)).toBe(true);
+    });
+  });
+
+  describe('summarize', () => {
+    it('should report the closest and average pair', () => {
+      expect(service.summarize([original, reversed, swapped], 0.3)).toEqual({
+        variantCount: 3,
+        comparedPairs: 3,
+        minDistance: 0.333,
+        averageDistance: 0.403,
+        threshold: 0.3
+      });
+      expect(service.summarize([original])).toEqual({ variantCount: 1, comparedPairs: 0, minDistance: 0, averageDistance: 0, threshold: 0 });
+    });
+  });
+});
\ No newline at end of file
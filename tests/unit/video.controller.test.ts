@@ -0,0 +1,83 @@
+import { Response } from 'express';
+import { VideoController } from '@/controllers/video.controller';
+import { AuthenticatedRequest } from '@/middleware/auth.middleware';
+import { SubtitleService } from '@/services/subtitle.service';
+import { prisma } from '@/utils/database';
+import { LicenseType } from '@/types';
+
+// Mock dependencies
+jest.mock('@/utils/database', () => ({
+  prisma: {
+    video: { findFirst: jest.fn(), update: jest.fn() }
+  }
+}));
+jest.mock('@/utils/logger', () => ({
+  __esModule: true,
+  default: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() }
+}));
+
+const mockPrisma = prisma as any;
+
+describe('VideoController', () => {
+  let videoController: VideoController;
+  let mockRequest: Partial<AuthenticatedRequest>;
+  let mockResponse: Partial<Response>;
+
+  beforeEach(() => {
+    videoController = new VideoController();
+    mockRequest = {
+      user: { userId: 'user-1', email: 'test@example.com', licenseType: LicenseType.FREE, iat: 0, exp: 0 },
+      params: { videoId: 'video-1' },
+      file: { originalname: 'captions.vtt', buffer: Buffer.from('WEBVTT') } as Express.Multer.File
+    };
+    mockResponse = {
+      status: jest.fn().mockReturnThis(),
+      json: jest.fn().mockReturnThis()
+    };
+
+    jest.clearAllMocks();
+    jest.restoreAllMocks();
+  });
+
+  describe('uploadSubtitles', () => {
+    it('should store the captions and replace the clip\'s previous file', async () => {
+      const storeSubtitle = jest.spyOn(SubtitleService.prototype, 'storeSubtitle').mockResolvedValue({ filename: '123_captions.srt', cueCount: 4 });
+      const removeSubtitle = jest.spyOn(SubtitleService.prototype, 'removeSubtitle').mockResolvedValue();
+      mockPrisma.video.findFirst.mockResolvedValue({ id: 'video-1', subtitleFile: '100_old.srt' });
+      mockPrisma.video.update.mockResolvedValue({ id: 'video-1', subtitleFile: '123_captions.srt', subtitleCues: 4 });
+
+      await videoController.uploadSubtitles(mockRequest as AuthenticatedRequest, mockResponse as Response);
+
+      expect(mockPrisma.video.findFirst).toHaveBeenCalledWith({ where: { id: 'video-1', project: { userId: 'user-1' } } });
+      expect(storeSubtitle).toHaveBeenCalledWith('captions.vtt', mockRequest.file!.buffer);
+      expect(removeSubtitle).toHaveBeenCalledWith('100_old.srt');
+      expect(mockPrisma.video.update).toHaveBeenCalledWith({
+        where: { id: 'video-1' },
+        data: { subtitleFile: '123_captions.srt', subtitleCues: 4 }
+      });
+      expect(mockResponse.status).toHaveBeenCalledWith(200);
+    });
+
+    it('should return parse errors as a bad request and keep the previous file', async () => {
+      const removeSubtitle = jest.spyOn(SubtitleService.prototype, 'removeSubtitle').mockResolvedValue();
+      mockRequest.file = { originalname: 'captions.srt', buffer: Buffer.from('1\n00:00:05,000 --> 00:00:02,000\nBackwards\n') } as Express.Multer.File;
+      mockPrisma.video.findFirst.mockResolvedValue({ id: 'video-1', subtitleFile: '100_old.srt' });
+
+      await videoController.uploadSubtitles(mockRequest as AuthenticatedRequest, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+      expect(mockResponse.json).toHaveBeenCalledWith({ success: false, error: 'Invalid subtitle timing: "00:00:05,000 --> 00:00:02,000"' });
+      expect(removeSubtitle).not.toHaveBeenCalled();
+      expect(mockPrisma.video.update).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 for a clip of another user', async () => {
+      mockPrisma.video.findFirst.mockResolvedValue(null);
+
+      await videoController.uploadSubtitles(mockRequest as AuthenticatedRequest, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(404);
+      expect(mockResponse.json).toHaveBeenCalledWith({ success: false, error: 'Video not found' });
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,64 @@
+import { WatermarkService } from '@/services/watermark.service';
+
+jest.mock('@/utils/logger', () => ({
+  __esModule: true,
+  default: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() }
+}));
+
+describe('WatermarkService', () => {
+  let service: WatermarkService;
+
+  beforeEach(() => {
+    service = new WatermarkService();
+  });
+
+  describe('parseSettings', () => {
+    it('should keep known positions and clamp opacity and scale', () => {
+      const settings = service.parseSettings({
+        logoId: 'logo-1',
+        positions: ['bottom-right', 'not-a-position', 'top-left'],
+        opacity: 3,
+        scale: 0.9
+      });
+
+      expect(settings).toEqual({
+        logoId: 'logo-1',
+        text: undefined,
+        positions: ['top-left', 'bottom-right'],
+        opacity: 1,
+        scale: 0.5,
+        fontColor: 'white'
+      });
+    });
+
+    it('should accept a single legacy position and need a logo or text', () => {
+      expect(service.parseSettings({ text: '@brand', position: 'center' })?.positions).toEqual(['center']);
+      expect(service.parseSettings({ text: '@brand' })?.positions).toEqual(['bottom-right']);
+      expect(service.parseSettings({ text: '  ', positions: ['center'] })).toBeUndefined();
+    });
+  });
+
+  describe('buildFilters', () => {
+    it('should scale and fade the logo input before overlaying it', () => {
+      const settings = service.parseSettings({ logoId: 'logo-1', opacity: 0.5, scale: 0.2 })!;
+
+      expect(service.buildFilters(settings, { input: 'outv', output: 'wm', position: 'top-right', width: 1920, height: 1080, logoInput: 3 })).toEqual([
+        '[3:v]scale=384:-1,format=rgba,colorchannelmixer=aa=0.5[logo]',
+        '[outv][logo]overlay=x=W-overlay_w-32:y=32:format=auto[wm]'
+      ]);
+    });
+
+    it('should draw text scaled to the output width when no logo is selected', () => {
+      const settings = service.parseSettings({ text: '@brand', fontColor: '#ff0000', scale: 0.2 })!;
+      const [filter] = service.buildFilters(settings, { input: 'outv', output: 'wm', position: 'bottom-right', width: 1080, height: 1920 });
+
+      expect(filter).toBe('[outv]drawtext=text=@brand:expansion=none:fontsize=54:fontcolor=0xff0000@0.7:x=W-text_w-32:y=H-text_h-32[wm]');
+    });
+  });
+
+  describe('storeLogo', () => {
+    it('should reject files that are not PNG or JPEG images', async () => {
+      await expect(service.storeLogo('logo.png', Buffer.from('GIF89a'))).rejects.toThrow('Logo must be a PNG or JPEG image');
+    });
+  });
+});
\ No newline at end of file